@@ -1,9 +1,16 @@
 import path from 'node:path'
 import type { NextConfig } from 'next'
+import { SkillManager } from './src/lib/ai/skills/skill-manager'
+
+const skillsDir = path.join(process.cwd(), 'src', 'lib', 'ai', 'skills')
 
 const nextConfig: NextConfig = {
   reactStrictMode: false,
   transpilePackages: ['@number-flow/react', 'number-flow'],
+  env: {
+    // Names of the bundled skills for the browser, which can't list the skill directory
+    BUNDLED_SKILL_NAMES: SkillManager.readSkillNames(skillsDir).join(','),
+  },
   // Enable standalone output for Docker deployment
   output: 'standalone',
   // Increase body size limit for API routes to handle large tool results
@@ -18,7 +25,6 @@ const nextConfig: NextConfig = {
   },
   webpack: (config) => {
     // Bundle SKILL.md files as raw strings (build-time import, no runtime fs)
-    const skillsDir = path.join(process.cwd(), 'src', 'lib', 'ai', 'skills')
     config.module.rules.push({
       test: /\/SKILL\.md$/,
       include: skillsDir,
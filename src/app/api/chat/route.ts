@@ -1,15 +1,30 @@
 import { getAuthenticatedUserEmail } from "@/auth";
 import type { DatabaseContext } from "@/components/chat/chat-context";
 import type { ServerDatabaseContext } from "@/lib/ai/agent/common-types";
+import { ORCHESTRATOR_NO_TOOLS_SYSTEM_PROMPT } from "@/lib/ai/agent/orchestrator-prompt";
 import { PlanningAgent } from "@/lib/ai/agent/plan/planning-agent";
 import type { PlannerMetadata } from "@/lib/ai/agent/plan/planning-types";
+import type { InputModel } from "@/lib/ai/agent/plan/sub-agent-registry";
 import type { MessageMetadata } from "@/lib/ai/chat-types";
+import {
+  DEFAULT_MODEL_CAPABILITIES,
+  sanitizeModelCapabilities,
+  validateCustomProviderEndpoint,
+  type ModelCapabilities,
+} from "@/lib/ai/llm/custom-provider";
 import { LanguageModelProviderFactory } from "@/lib/ai/llm/llm-provider-factory";
+import { MessagePruner } from "@/lib/ai/message-pruner";
 import { normalizeUsage, sumTokenUsage } from "@/lib/ai/token-usage-utils";
 import { SERVER_TOOL_NAMES } from "@/lib/ai/tools/server/server-tool-names";
 import { SseStreamer } from "@/lib/sse-streamer";
 import { APICallError } from "@ai-sdk/provider";
-import { convertToModelMessages, RetryError, type UIMessage } from "ai";
+import {
+  convertToModelMessages,
+  RetryError,
+  streamText,
+  type ModelMessage,
+  type UIMessage,
+} from "ai";
 
 // Force dynamic rendering (no static generation)
 export const dynamic = "force-dynamic";
@@ -24,11 +39,7 @@ export type ChatUIMessage = UIMessage<MessageMetadata>;
 interface ChatRequest {
   messages?: ChatUIMessage[];
   context?: DatabaseContext;
-  model?: {
-    provider: string;
-    modelId: string;
-    apiKey: string;
-  };
+  model?: InputModel;
 }
 
 /**
@@ -117,6 +128,30 @@ function extractErrorMessage(error: unknown): string {
   return defaultMessage;
 }
 
+/**
+ * Answers without the sub-agents, which all rely on tools, for models that can't call tools
+ */
+function streamWithoutTools(
+  messages: ModelMessage[],
+  modelConfig: InputModel,
+  capabilities: ModelCapabilities
+) {
+  return streamText({
+    model: LanguageModelProviderFactory.createModel(
+      modelConfig.provider,
+      modelConfig.modelId,
+      modelConfig.apiKey,
+      modelConfig.endpoint
+    ),
+    system: ORCHESTRATOR_NO_TOOLS_SYSTEM_PROMPT,
+    messages,
+    // Reasoning models reject or ignore the temperature
+    temperature: capabilities.reasoning
+      ? undefined
+      : LanguageModelProviderFactory.getDefaultTemperature(modelConfig.modelId),
+  });
+}
+
 /**
  * POST /api/chat
  *
@@ -166,20 +201,34 @@ export async function POST(req: Request) {
 
     // Get the appropriate model (mock or real based on USE_MOCK_LLM env var)
     // Use provided model config if available, otherwise auto-select
-    let modelConfig: { provider: string; modelId: string; apiKey: string } | undefined;
+    let modelConfig: InputModel | undefined;
     try {
       if (apiRequest.model) {
-        // If modelConfig is provided, all 3 properties must be present
-        if (!apiRequest.model.provider || !apiRequest.model.modelId || !apiRequest.model.apiKey) {
+        // If modelConfig is provided, all 3 properties must be present.
+        // Custom providers carry an endpoint instead and may not need an API key.
+        const endpoint = apiRequest.model.endpoint;
+        if (
+          !apiRequest.model.provider ||
+          !apiRequest.model.modelId ||
+          (!apiRequest.model.apiKey && !endpoint)
+        ) {
           return new Response(
             "Invalid model config: provider, modelId, and apiKey are all required when model config is provided",
             { status: 400 }
           );
         }
+        const endpointError = endpoint ? validateCustomProviderEndpoint(endpoint) : null;
+        if (endpointError) {
+          return new Response(endpointError, { status: 400 });
+        }
         modelConfig = {
           provider: apiRequest.model.provider,
           modelId: apiRequest.model.modelId,
-          apiKey: apiRequest.model.apiKey,
+          apiKey: apiRequest.model.apiKey ?? "",
+          endpoint,
+          capabilities: endpoint
+            ? sanitizeModelCapabilities(apiRequest.model.capabilities)
+            : undefined,
         };
       } else {
         // Auto-select a model if no model config is provided
@@ -194,6 +243,8 @@ export async function POST(req: Request) {
       return new Response(error instanceof Error ? error.message : String(error), { status: 500 });
     }
 
+    const capabilities = modelConfig.capabilities ?? DEFAULT_MODEL_CAPABILITIES;
+
     // Create a stream that sends early status updates then pipes the real stream
     const responseStream = new ReadableStream({
       async start(controller) {
@@ -223,12 +274,20 @@ export async function POST(req: Request) {
           });
 
           // 2. Delegate to Expert Sub-Agent
-          const modelMessages = await convertToModelMessages(prunedMessages);
-          const subAgentResult = await agent.stream({
-            messages: modelMessages,
-            modelConfig,
-            context,
-          });
+          // Older turns are dropped to fit in the context window of the model, as the v2 route does
+          const modelMessages = await convertToModelMessages(
+            MessagePruner.prune(prunedMessages, {
+              pruneValidateSql: false,
+              contextWindow: capabilities.contextWindow,
+            })
+          );
+          const subAgentResult = capabilities.toolCalling
+            ? await agent.stream({
+                messages: modelMessages,
+                modelConfig,
+                context,
+              })
+            : streamWithoutTools(modelMessages, modelConfig, capabilities);
 
           // Request usage: only when continuing an assistant (messageId in request); else 0 for new message
           const msgs = apiRequest.messages ?? [];
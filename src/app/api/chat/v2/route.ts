@@ -1,14 +1,25 @@
 import { getAuthenticatedUserEmail } from "@/auth";
 import type { ServerDatabaseContext } from "@/lib/ai/agent/common-types";
 import { generateChatTitle } from "@/lib/ai/agent/generate-chat-title";
-import { ORCHESTRATOR_SYSTEM_PROMPT } from "@/lib/ai/agent/orchestrator-prompt";
+import {
+  ORCHESTRATOR_NO_TOOLS_SYSTEM_PROMPT,
+  ORCHESTRATOR_SYSTEM_PROMPT,
+} from "@/lib/ai/agent/orchestrator-prompt";
+import type { InputModel } from "@/lib/ai/agent/plan/sub-agent-registry";
 import type { AgentContext, MessageMetadata } from "@/lib/ai/chat-types";
+import {
+  DEFAULT_MODEL_CAPABILITIES,
+  sanitizeModelCapabilities,
+  validateCustomProviderEndpoint,
+} from "@/lib/ai/llm/custom-provider";
 import { LanguageModelProviderFactory } from "@/lib/ai/llm/llm-provider-factory";
 import { MessagePruner } from "@/lib/ai/message-pruner";
+import { sanitizeCustomSkills } from "@/lib/ai/skills/custom-skill";
+import { SkillManager } from "@/lib/ai/skills/skill-manager";
 import { normalizeUsage, sumTokenUsage } from "@/lib/ai/token-usage-utils";
 import { ClientTools } from "@/lib/ai/tools/client/client-tools";
 import { SERVER_TOOL_NAMES } from "@/lib/ai/tools/server/server-tool-names";
-import { ServerTools } from "@/lib/ai/tools/server/server-tools";
+import { createServerTools } from "@/lib/ai/tools/server/server-tools";
 import { APICallError } from "@ai-sdk/provider";
 import { convertToModelMessages, RetryError, stepCountIs, streamText, type UIMessage } from "ai";
 import { v7 as uuidv7 } from "uuid";
@@ -22,7 +33,7 @@ export const runtime = "nodejs";
 interface ChatV2Request {
   messages?: UIMessage[];
   context?: ServerDatabaseContext;
-  model?: { provider: string; modelId: string; apiKey: string };
+  model?: InputModel;
   /** Whether to request LLM-generated chat title for new conversations. Default true. */
   generateTitle?: boolean;
   agentContext?: AgentContext;
@@ -140,13 +151,27 @@ export async function POST(req: Request) {
       });
     }
 
-    let modelConfig: { provider: string; modelId: string; apiKey: string };
+    let modelConfig: InputModel;
     try {
-      if (apiRequest.model?.provider && apiRequest.model?.modelId && apiRequest.model?.apiKey) {
+      const requestModel = apiRequest.model;
+      if (requestModel?.provider && requestModel?.modelId && requestModel?.endpoint) {
+        // Custom providers such as a local Ollama may not need an API key
+        const error = validateCustomProviderEndpoint(requestModel.endpoint);
+        if (error) {
+          return new Response(error, { status: 400 });
+        }
+        modelConfig = {
+          provider: requestModel.provider,
+          modelId: requestModel.modelId,
+          apiKey: requestModel.apiKey ?? "",
+          endpoint: requestModel.endpoint,
+          capabilities: sanitizeModelCapabilities(requestModel.capabilities),
+        };
+      } else if (requestModel?.provider && requestModel?.modelId && requestModel?.apiKey) {
         modelConfig = {
-          provider: apiRequest.model.provider,
-          modelId: apiRequest.model.modelId,
-          apiKey: apiRequest.model.apiKey,
+          provider: requestModel.provider,
+          modelId: requestModel.modelId,
+          apiKey: requestModel.apiKey,
         };
       } else {
         const auto = LanguageModelProviderFactory.autoSelectModel();
@@ -163,9 +188,14 @@ export async function POST(req: Request) {
     const model = LanguageModelProviderFactory.createModel(
       modelConfig.provider,
       modelConfig.modelId,
-      modelConfig.apiKey
+      modelConfig.apiKey,
+      modelConfig.endpoint
     );
-    const temperature = LanguageModelProviderFactory.getDefaultTemperature(modelConfig.modelId);
+    const capabilities = modelConfig.capabilities ?? DEFAULT_MODEL_CAPABILITIES;
+    // Reasoning models reject or ignore the temperature
+    const temperature = capabilities.reasoning
+      ? undefined
+      : LanguageModelProviderFactory.getDefaultTemperature(modelConfig.modelId);
 
     const originalMessages = apiRequest.messages ?? [];
 
@@ -197,23 +227,38 @@ export async function POST(req: Request) {
         : undefined;
 
     const modelMessages = await convertToModelMessages(
-      MessagePruner.prune(originalMessages, apiRequest.agentContext)
+      MessagePruner.prune(originalMessages, {
+        ...apiRequest.agentContext,
+        contextWindow: capabilities.contextWindow,
+      })
+    );
+
+    // Custom skills come from the client, so they are validated again before they are served
+    const serverTools = createServerTools(
+      sanitizeCustomSkills(
+        apiRequest.agentContext?.customSkills,
+        SkillManager.listSkills().map((s) => s.name)
+      )
     );
 
     const result = streamText({
       model,
-      system: ORCHESTRATOR_SYSTEM_PROMPT,
+      system: capabilities.toolCalling
+        ? ORCHESTRATOR_SYSTEM_PROMPT
+        : ORCHESTRATOR_NO_TOOLS_SYSTEM_PROMPT,
       messages: modelMessages,
-      tools: {
-        [SERVER_TOOL_NAMES.SKILL]: ServerTools.skill,
-        [SERVER_TOOL_NAMES.SKILL_RESOURCE]: ServerTools.skill_resource,
-        get_tables: ClientTools.get_tables,
-        explore_schema: ClientTools.explore_schema,
-        validate_sql: ClientTools.validate_sql,
-        execute_sql: ClientTools.execute_sql,
-        collect_sql_optimization_evidence: ClientTools.collect_sql_optimization_evidence,
-        find_expensive_queries: ClientTools.find_expensive_queries,
-      },
+      tools: capabilities.toolCalling
+        ? {
+            [SERVER_TOOL_NAMES.SKILL]: serverTools.skill,
+            [SERVER_TOOL_NAMES.SKILL_RESOURCE]: serverTools.skill_resource,
+            get_tables: ClientTools.get_tables,
+            explore_schema: ClientTools.explore_schema,
+            validate_sql: ClientTools.validate_sql,
+            execute_sql: ClientTools.execute_sql,
+            collect_sql_optimization_evidence: ClientTools.collect_sql_optimization_evidence,
+            find_expensive_queries: ClientTools.find_expensive_queries,
+          }
+        : undefined,
       stopWhen: stepCountIs(10),
       temperature,
     });
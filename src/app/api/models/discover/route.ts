@@ -0,0 +1,65 @@
+import {
+  getModelListURL,
+  getRequestHeaders,
+  isEndpointAllowed,
+  parseModelList,
+  validateCustomProviderEndpoint,
+  type CustomProviderEndpoint,
+} from "@/lib/ai/llm/custom-provider";
+import { NextRequest, NextResponse } from "next/server";
+
+const DISCOVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Lists the models of a custom provider from its /v1/models API (the deployments for Azure OpenAI).
+ * The request goes through the server so that model servers without CORS headers can be discovered.
+ */
+export async function POST(req: NextRequest) {
+  // Auth is enforced by proxy when ALLOW_ANONYMOUS_USER=false
+
+  const body = (await req.json().catch(() => null)) as {
+    endpoint?: CustomProviderEndpoint;
+    apiKey?: string;
+  } | null;
+  const error = validateCustomProviderEndpoint(body?.endpoint);
+  if (error || !body?.endpoint) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+  const endpoint = body.endpoint;
+  if (!isEndpointAllowed(endpoint.baseURL, process.env.CUSTOM_MODEL_ENDPOINT_ALLOWLIST)) {
+    return NextResponse.json(
+      {
+        error:
+          "The endpoint is not allowed by the server, add it to CUSTOM_MODEL_ENDPOINT_ALLOWLIST",
+      },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const response = await fetch(getModelListURL(endpoint), {
+      headers: getRequestHeaders(endpoint, body.apiKey),
+      redirect: "error",
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+    });
+
+    // The upstream status and body are only logged: returning them would turn this route into
+    // a proxy that reads arbitrary URLs of the server network
+    if (!response.ok) {
+      console.error(
+        `Error discovering models of ${endpoint.baseURL}: ${response.status}`,
+        await response.text().catch(() => "")
+      );
+      return NextResponse.json(
+        { error: "The model server did not return the model list" },
+        { status: 502 }
+      );
+    }
+
+    const data = await response.json().catch(() => null);
+    return NextResponse.json({ models: parseModelList(data) });
+  } catch (e) {
+    console.error(`Error discovering models of ${endpoint.baseURL}:`, e);
+    return NextResponse.json({ error: "Failed to reach the model server" }, { status: 502 });
+  }
+}
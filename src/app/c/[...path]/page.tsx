@@ -0,0 +1,2 @@
+// Workspace URLs (/c/<connection>/<tab>/...) render the same app, the tab is resolved from the path on the client
+export { default } from "@/app/page";
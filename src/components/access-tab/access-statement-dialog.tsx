@@ -0,0 +1,479 @@
+import { ThemedSyntaxHighlighter } from "@/components/shared/themed-syntax-highlighter";
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { Connection } from "@/lib/connection/connection";
+import { toastManager } from "@/lib/toast";
+import { ChevronDown, Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import {
+  AUTHENTICATION_TYPES,
+  buildAlterUserSQL,
+  buildCreateRoleSQL,
+  buildCreateUserSQL,
+  buildGrantPrivilegeSQL,
+  buildGrantRoleSQL,
+  buildRevokePrivilegeSQL,
+  buildRevokeRoleSQL,
+  COMMON_PRIVILEGES,
+  type AuthenticationType,
+} from "./access-statements";
+
+export type AccessStatementKind =
+  | "create-user"
+  | "alter-user"
+  | "create-role"
+  | "grant-privilege"
+  | "revoke-privilege"
+  | "grant-role"
+  | "revoke-role";
+
+const STATEMENT_TITLES: Record<AccessStatementKind, string> = {
+  "create-user": "Create User",
+  "alter-user": "Alter User",
+  "create-role": "Create Role",
+  "grant-privilege": "Grant Privileges",
+  "revoke-privilege": "Revoke Privileges",
+  "grant-role": "Grant Roles",
+  "revoke-role": "Revoke Roles",
+};
+
+// Comma separated lists are kept as text while editing
+export interface AccessStatementDraft {
+  name: string;
+  authType: AuthenticationType;
+  password: string;
+  hostIps: string;
+  defaultRoles: string;
+  settingsProfile: string;
+  privileges: string;
+  database: string;
+  table: string;
+  columns: string;
+  grantees: string;
+  roles: string;
+  grantOption: boolean;
+  onCluster: boolean;
+}
+
+const EMPTY_DRAFT: AccessStatementDraft = {
+  name: "",
+  authType: "sha256_password",
+  password: "",
+  hostIps: "",
+  defaultRoles: "",
+  settingsProfile: "",
+  privileges: "",
+  database: "",
+  table: "",
+  columns: "",
+  grantees: "",
+  roles: "",
+  grantOption: false,
+  onCluster: true,
+};
+
+function splitList(text: string): string[] {
+  return text
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function requireValue(value: string[] | string, field: string) {
+  if (value.length === 0) {
+    throw new Error(`${field} is required`);
+  }
+}
+
+function buildStatement(
+  kind: AccessStatementKind,
+  draft: AccessStatementDraft,
+  cluster: string | undefined,
+  maskPassword: boolean
+): string {
+  const onCluster = draft.onCluster ? cluster : undefined;
+
+  switch (kind) {
+    case "create-user":
+    case "alter-user": {
+      requireValue(draft.name.trim(), "User name");
+      const options = {
+        name: draft.name.trim(),
+        authType: draft.authType,
+        password: draft.password && maskPassword ? "******" : draft.password,
+        hostIps: splitList(draft.hostIps),
+        // On ALTER USER an empty field leaves the default roles unchanged
+        defaultRoles:
+          kind === "alter-user" && draft.defaultRoles.trim() === ""
+            ? undefined
+            : splitList(draft.defaultRoles),
+        settingsProfile: draft.settingsProfile.trim(),
+        cluster: onCluster,
+      };
+      if (kind === "create-user" && options.defaultRoles?.length === 0) {
+        options.defaultRoles = undefined;
+      }
+      return kind === "create-user" ? buildCreateUserSQL(options) : buildAlterUserSQL(options);
+    }
+    case "create-role":
+      requireValue(draft.name.trim(), "Role name");
+      return buildCreateRoleSQL({
+        name: draft.name.trim(),
+        settingsProfile: draft.settingsProfile.trim(),
+        cluster: onCluster,
+      });
+    case "grant-privilege":
+    case "revoke-privilege": {
+      const options = {
+        privileges: splitList(draft.privileges),
+        database: draft.database.trim(),
+        table: draft.table.trim(),
+        columns: splitList(draft.columns),
+        grantees: splitList(draft.grantees),
+        grantOption: draft.grantOption,
+        cluster: onCluster,
+      };
+      requireValue(options.privileges, "Privileges");
+      requireValue(options.grantees, "Grantees");
+      if (options.table && !options.database) {
+        throw new Error("Database is required when a table is given");
+      }
+      return kind === "grant-privilege"
+        ? buildGrantPrivilegeSQL(options)
+        : buildRevokePrivilegeSQL(options);
+    }
+    case "grant-role":
+    case "revoke-role": {
+      const options = {
+        roles: splitList(draft.roles),
+        grantees: splitList(draft.grantees),
+        adminOption: draft.grantOption,
+        cluster: onCluster,
+      };
+      requireValue(options.roles, "Roles");
+      requireValue(options.grantees, "Grantees");
+      return kind === "grant-role" ? buildGrantRoleSQL(options) : buildRevokeRoleSQL(options);
+    }
+  }
+}
+
+function AuthTypeDropdown({
+  value,
+  onChange,
+}: {
+  value: AuthenticationType;
+  onChange: (value: AuthenticationType) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="w-full justify-between h-9">
+          {value}
+          <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="z-[10002]">
+        <DropdownMenuRadioGroup
+          value={value}
+          onValueChange={(v) => onChange(v as AuthenticationType)}
+        >
+          {AUTHENTICATION_TYPES.map((type) => (
+            <DropdownMenuRadioItem key={type} value={type}>
+              {type}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function AccessStatementContent({
+  kind,
+  initialDraft,
+  connection,
+}: {
+  kind: AccessStatementKind;
+  initialDraft: AccessStatementDraft;
+  connection: Connection;
+}) {
+  const [draft, setDraft] = useState<AccessStatementDraft>(initialDraft);
+  const [isExecuting, setExecuting] = useState(false);
+  const [executionError, setExecutionError] = useState<string | null>(null);
+
+  const cluster = connection.cluster && connection.cluster.length > 0 ? connection.cluster : "";
+
+  const update = (changes: Partial<AccessStatementDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setExecutionError(null);
+  };
+
+  // The preview masks the password, the statement that's executed doesn't
+  const preview = useMemo(() => {
+    try {
+      return { sql: buildStatement(kind, draft, cluster || undefined, true) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [kind, draft, cluster]);
+
+  const handleExecute = async () => {
+    setExecuting(true);
+    setExecutionError(null);
+    try {
+      const sql = buildStatement(kind, draft, cluster || undefined, false);
+      await connection.query(sql, { default_format: "JSON" }).response;
+      toastManager.show(
+        `${STATEMENT_TITLES[kind]} finished. Refresh to see the changes.`,
+        "success"
+      );
+      Dialog.close();
+    } catch (e) {
+      setExecutionError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExecuting(false);
+    }
+  };
+
+  const isUserStatement = kind === "create-user" || kind === "alter-user";
+  const isPrivilegeStatement = kind === "grant-privilege" || kind === "revoke-privilege";
+  const isRoleGrantStatement = kind === "grant-role" || kind === "revoke-role";
+  const selectedPrivileges = splitList(draft.privileges);
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="grid grid-cols-[140px_1fr] gap-x-4 gap-y-2 items-center">
+        {(isUserStatement || kind === "create-role") && (
+          <>
+            <Label>Name</Label>
+            <Input
+              value={draft.name}
+              disabled={kind === "alter-user" && initialDraft.name !== ""}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+          </>
+        )}
+
+        {isUserStatement && (
+          <>
+            <Label>Authentication</Label>
+            <AuthTypeDropdown
+              value={draft.authType}
+              onChange={(authType) => update({ authType })}
+            />
+
+            {draft.authType !== "no_password" && (
+              <>
+                <Label>Password</Label>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  value={draft.password}
+                  placeholder={kind === "alter-user" ? "Leave empty to keep the password" : ""}
+                  onChange={(e) => update({ password: e.target.value })}
+                />
+              </>
+            )}
+
+            <Label>Allowed hosts</Label>
+            <Input
+              value={draft.hostIps}
+              placeholder="IPs or subnets, comma separated. Empty means any host"
+              onChange={(e) => update({ hostIps: e.target.value })}
+            />
+
+            <Label>Default roles</Label>
+            <Input
+              value={draft.defaultRoles}
+              placeholder="Comma separated"
+              onChange={(e) => update({ defaultRoles: e.target.value })}
+            />
+          </>
+        )}
+
+        {(isUserStatement || kind === "create-role") && (
+          <>
+            <Label>Settings profile</Label>
+            <Input
+              value={draft.settingsProfile}
+              onChange={(e) => update({ settingsProfile: e.target.value })}
+            />
+          </>
+        )}
+
+        {isPrivilegeStatement && (
+          <>
+            <Label>Privileges</Label>
+            <div className="flex flex-col gap-2">
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                className="flex-wrap justify-start"
+                value={selectedPrivileges.filter((p) => COMMON_PRIVILEGES.includes(p))}
+                onValueChange={(values) => {
+                  const custom = selectedPrivileges.filter((p) => !COMMON_PRIVILEGES.includes(p));
+                  update({ privileges: [...values, ...custom].join(", ") });
+                }}
+              >
+                {COMMON_PRIVILEGES.map((privilege) => (
+                  <ToggleGroupItem key={privilege} value={privilege} className="text-xs">
+                    {privilege}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <Input
+                value={draft.privileges}
+                placeholder="e.g. SELECT, ALTER UPDATE"
+                onChange={(e) => update({ privileges: e.target.value })}
+              />
+            </div>
+
+            <Label>Database</Label>
+            <Input
+              value={draft.database}
+              placeholder="Empty means all databases"
+              onChange={(e) => update({ database: e.target.value })}
+            />
+
+            <Label>Table</Label>
+            <Input
+              value={draft.table}
+              placeholder="Empty means all tables"
+              onChange={(e) => update({ table: e.target.value })}
+            />
+
+            <Label>Columns</Label>
+            <Input
+              value={draft.columns}
+              placeholder="Comma separated. Empty means all columns"
+              onChange={(e) => update({ columns: e.target.value })}
+            />
+          </>
+        )}
+
+        {isRoleGrantStatement && (
+          <>
+            <Label>Roles</Label>
+            <Input
+              value={draft.roles}
+              placeholder="Comma separated"
+              onChange={(e) => update({ roles: e.target.value })}
+            />
+          </>
+        )}
+
+        {(isPrivilegeStatement || isRoleGrantStatement) && (
+          <>
+            <Label>{kind.startsWith("grant") ? "To" : "From"}</Label>
+            <Input
+              value={draft.grantees}
+              placeholder="Users or roles, comma separated"
+              onChange={(e) => update({ grantees: e.target.value })}
+            />
+
+            <Label>
+              {isPrivilegeStatement
+                ? kind === "grant-privilege"
+                  ? "With grant option"
+                  : "Grant option only"
+                : kind === "grant-role"
+                  ? "With admin option"
+                  : "Admin option only"}
+            </Label>
+            <Switch
+              checked={draft.grantOption}
+              onCheckedChange={(grantOption) => update({ grantOption })}
+            />
+          </>
+        )}
+
+        {cluster && (
+          <>
+            <Label>On cluster {cluster}</Label>
+            <Switch
+              checked={draft.onCluster}
+              onCheckedChange={(onCluster) => update({ onCluster })}
+            />
+          </>
+        )}
+      </div>
+
+      <div>
+        <p className="font-medium mb-1">SQL to execute:</p>
+        {preview.sql !== undefined ? (
+          <div className="border rounded-md overflow-auto bg-muted/30">
+            <ThemedSyntaxHighlighter
+              language="sql"
+              customStyle={{
+                margin: 0,
+                padding: "0.75rem",
+                fontSize: "12px",
+                backgroundColor: "transparent",
+              }}
+              wrapLongLines
+            >
+              {preview.sql}
+            </ThemedSyntaxHighlighter>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">{preview.error}</p>
+        )}
+      </div>
+
+      {executionError && (
+        <pre className="text-xs text-destructive whitespace-pre-wrap break-all max-h-[200px] overflow-auto">
+          {executionError}
+        </pre>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={isExecuting} onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          variant={kind.startsWith("revoke") ? "destructive" : "default"}
+          disabled={isExecuting || preview.sql === undefined}
+          onClick={handleExecute}
+          className="gap-1"
+        >
+          {isExecuting && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          Execute
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show a form that builds an access management statement, previews it and executes it
+ */
+export function showAccessStatementDialog(
+  kind: AccessStatementKind,
+  connection: Connection,
+  initialValues: Partial<AccessStatementDraft> = {}
+) {
+  Dialog.showDialog({
+    title: STATEMENT_TITLES[kind],
+    className: "sm:max-w-[720px]",
+    mainContent: (
+      <AccessStatementContent
+        kind={kind}
+        initialDraft={{ ...EMPTY_DRAFT, ...initialValues }}
+        connection={connection}
+      />
+    ),
+  });
+}
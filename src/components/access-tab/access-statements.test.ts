@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAlterUserSQL,
+  buildCreateRoleSQL,
+  buildCreateUserSQL,
+  buildGrantPrivilegeSQL,
+  buildGrantRoleSQL,
+  buildRevokePrivilegeSQL,
+  buildRevokeRoleSQL,
+} from "./access-statements";
+
+describe("user and role statements", () => {
+  it("builds CREATE USER with all clauses", () => {
+    expect(
+      buildCreateUserSQL({
+        name: "alice",
+        authType: "sha256_password",
+        password: "it's secret",
+        hostIps: ["10.0.0.0/8", ""],
+        defaultRoles: ["reader"],
+        settingsProfile: "readonly",
+        cluster: "default",
+      })
+    ).toBe(
+      "CREATE USER `alice` ON CLUSTER `default` IDENTIFIED WITH sha256_password BY 'it\\'s secret' HOST IP '10.0.0.0/8' DEFAULT ROLE `reader` SETTINGS PROFILE `readonly`"
+    );
+    expect(buildCreateUserSQL({ name: "bob", authType: "no_password" })).toBe(
+      "CREATE USER `bob` NOT IDENTIFIED"
+    );
+    expect(() => buildCreateUserSQL({ name: "bob", authType: "sha256_password" })).toThrow();
+  });
+
+  it("escapes backslashes and quotes of the password and the hosts", () => {
+    expect(
+      buildAlterUserSQL({
+        name: "alice",
+        authType: "sha256_password",
+        password: "pa\\ss\\'; DROP USER admin; --",
+        hostIps: ["10.0.0.1\\"],
+      })
+    ).toBe(
+      "ALTER USER `alice` IDENTIFIED WITH sha256_password BY 'pa\\\\ss\\\\\\'; DROP USER admin; --' HOST IP '10.0.0.1\\\\'"
+    );
+  });
+
+  it("keeps the current password on ALTER USER when none is given", () => {
+    expect(
+      buildAlterUserSQL({ name: "alice", authType: "sha256_password", defaultRoles: [] })
+    ).toBe("ALTER USER `alice` DEFAULT ROLE NONE");
+  });
+
+  it("builds CREATE ROLE", () => {
+    expect(buildCreateRoleSQL({ name: "re`ader", settingsProfile: "readonly" })).toBe(
+      "CREATE ROLE `re``ader` SETTINGS PROFILE `readonly`"
+    );
+  });
+});
+
+describe("grant statements", () => {
+  it("builds GRANT and REVOKE of privileges", () => {
+    const options = {
+      privileges: ["SELECT", "ALTER UPDATE"],
+      database: "db",
+      grantees: ["alice", "reader"],
+      cluster: "default",
+    };
+    expect(buildGrantPrivilegeSQL({ ...options, grantOption: true })).toBe(
+      "GRANT ON CLUSTER `default` SELECT, ALTER UPDATE ON `db`.* TO `alice`, `reader` WITH GRANT OPTION"
+    );
+    expect(buildRevokePrivilegeSQL({ ...options, table: "events", grantOption: true })).toBe(
+      "REVOKE ON CLUSTER `default` GRANT OPTION FOR SELECT, ALTER UPDATE ON `db`.`events` FROM `alice`, `reader`"
+    );
+    expect(
+      buildGrantPrivilegeSQL({ privileges: ["SELECT"], columns: ["id"], grantees: ["alice"] })
+    ).toBe("GRANT SELECT(`id`) ON *.* TO `alice`");
+    expect(() =>
+      buildGrantPrivilegeSQL({ privileges: ["SELECT; DROP"], grantees: ["alice"] })
+    ).toThrow();
+  });
+
+  it("builds GRANT and REVOKE of roles", () => {
+    expect(buildGrantRoleSQL({ roles: ["reader"], grantees: ["alice"], adminOption: true })).toBe(
+      "GRANT `reader` TO `alice` WITH ADMIN OPTION"
+    );
+    expect(buildRevokeRoleSQL({ roles: ["reader"], grantees: ["alice"], cluster: "c" })).toBe(
+      "REVOKE ON CLUSTER `c` `reader` FROM `alice`"
+    );
+  });
+});
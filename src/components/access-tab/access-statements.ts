@@ -0,0 +1,173 @@
+import { SqlUtils } from "@/lib/sql-utils";
+
+// See https://clickhouse.com/docs/sql-reference/statements/create/user#identification
+export type AuthenticationType =
+  | "sha256_password"
+  | "double_sha1_password"
+  | "bcrypt_password"
+  | "no_password";
+
+export const AUTHENTICATION_TYPES: AuthenticationType[] = [
+  "sha256_password",
+  "double_sha1_password",
+  "bcrypt_password",
+  "no_password",
+];
+
+// Privileges offered as shortcuts in the GRANT/REVOKE form, any other access type can be typed in
+export const COMMON_PRIVILEGES = [
+  "SELECT",
+  "INSERT",
+  "ALTER",
+  "CREATE",
+  "DROP",
+  "TRUNCATE",
+  "OPTIMIZE",
+  "SHOW",
+  "dictGet",
+  "ALL",
+];
+
+export interface UserStatementOptions {
+  name: string;
+  authType?: AuthenticationType;
+  // Required unless authType is no_password. An empty password on ALTER USER keeps the current one
+  password?: string;
+  // IP addresses or subnets the user can connect from, empty means any host
+  hostIps?: string[];
+  // undefined keeps the server default, an empty array means NONE
+  defaultRoles?: string[];
+  settingsProfile?: string;
+  cluster?: string;
+}
+
+export interface RoleStatementOptions {
+  name: string;
+  settingsProfile?: string;
+  cluster?: string;
+}
+
+export interface PrivilegeStatementOptions {
+  privileges: string[];
+  // Empty database means all databases, empty table means all tables of the database
+  database?: string;
+  table?: string;
+  columns?: string[];
+  grantees: string[];
+  // WITH GRANT OPTION on GRANT, GRANT OPTION FOR on REVOKE
+  grantOption?: boolean;
+  cluster?: string;
+}
+
+export interface RoleGrantStatementOptions {
+  roles: string[];
+  grantees: string[];
+  // WITH ADMIN OPTION on GRANT, ADMIN OPTION FOR on REVOKE
+  adminOption?: boolean;
+  cluster?: string;
+}
+
+function onClusterClause(cluster?: string): string {
+  return cluster ? ` ON CLUSTER ${SqlUtils.escapeSqlIdentifier(cluster)}` : "";
+}
+
+function identifierList(names: string[]): string {
+  return names.map((name) => SqlUtils.escapeSqlIdentifier(name)).join(", ");
+}
+
+function identifiedClause(options: UserStatementOptions, isAlter: boolean): string {
+  if (!options.authType) {
+    return "";
+  }
+  if (options.authType === "no_password") {
+    return " NOT IDENTIFIED";
+  }
+  if (!options.password) {
+    if (isAlter) {
+      return "";
+    }
+    throw new Error(`A password is required for ${options.authType}`);
+  }
+  return ` IDENTIFIED WITH ${options.authType} BY ${SqlUtils.toStringLiteral(options.password)}`;
+}
+
+function userClauses(options: UserStatementOptions, isAlter: boolean): string {
+  let sql = identifiedClause(options, isAlter);
+
+  const hostIps = (options.hostIps ?? []).filter((ip) => ip.length > 0);
+  if (hostIps.length > 0) {
+    sql += ` HOST ${hostIps.map((ip) => `IP ${SqlUtils.toStringLiteral(ip)}`).join(", ")}`;
+  }
+
+  if (options.defaultRoles !== undefined) {
+    sql += ` DEFAULT ROLE ${options.defaultRoles.length > 0 ? identifierList(options.defaultRoles) : "NONE"}`;
+  }
+
+  if (options.settingsProfile) {
+    sql += ` SETTINGS PROFILE ${SqlUtils.escapeSqlIdentifier(options.settingsProfile)}`;
+  }
+  return sql;
+}
+
+export function buildCreateUserSQL(options: UserStatementOptions): string {
+  const name = SqlUtils.escapeSqlIdentifier(options.name);
+  return `CREATE USER ${name}${onClusterClause(options.cluster)}${userClauses(options, false)}`;
+}
+
+export function buildAlterUserSQL(options: UserStatementOptions): string {
+  const name = SqlUtils.escapeSqlIdentifier(options.name);
+  return `ALTER USER ${name}${onClusterClause(options.cluster)}${userClauses(options, true)}`;
+}
+
+export function buildCreateRoleSQL(options: RoleStatementOptions): string {
+  const name = SqlUtils.escapeSqlIdentifier(options.name);
+  const profile = options.settingsProfile
+    ? ` SETTINGS PROFILE ${SqlUtils.escapeSqlIdentifier(options.settingsProfile)}`
+    : "";
+  return `CREATE ROLE ${name}${onClusterClause(options.cluster)}${profile}`;
+}
+
+/**
+ * Format the target of a privilege, e.g. `*.*`, `db`.* or `db`.`table`
+ */
+export function formatPrivilegeTarget(database?: string, table?: string): string {
+  if (!database) {
+    return "*.*";
+  }
+  const db = SqlUtils.escapeSqlIdentifier(database);
+  return table ? `${db}.${SqlUtils.escapeSqlIdentifier(table)}` : `${db}.*`;
+}
+
+function privilegeList(options: PrivilegeStatementOptions): string {
+  // Access types are keywords, so they're validated instead of being quoted
+  const invalid = options.privileges.find((p) => !/^[A-Za-z][A-Za-z ]*$/.test(p));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid privilege: ${invalid}`);
+  }
+
+  const columns = (options.columns ?? []).filter((c) => c.length > 0);
+  const columnList = columns.length > 0 ? `(${identifierList(columns)})` : "";
+  return options.privileges.map((p) => `${p.trim()}${columnList}`).join(", ");
+}
+
+export function buildGrantPrivilegeSQL(options: PrivilegeStatementOptions): string {
+  const target = formatPrivilegeTarget(options.database, options.table);
+  const withGrantOption = options.grantOption ? " WITH GRANT OPTION" : "";
+  return `GRANT${onClusterClause(options.cluster)} ${privilegeList(options)} ON ${target} TO ${identifierList(options.grantees)}${withGrantOption}`;
+}
+
+export function buildRevokePrivilegeSQL(options: PrivilegeStatementOptions): string {
+  const target = formatPrivilegeTarget(options.database, options.table);
+  const grantOptionFor = options.grantOption ? " GRANT OPTION FOR" : "";
+  return `REVOKE${onClusterClause(options.cluster)}${grantOptionFor} ${privilegeList(options)} ON ${target} FROM ${identifierList(options.grantees)}`;
+}
+
+export function buildGrantRoleSQL(options: RoleGrantStatementOptions): string {
+  const withAdminOption = options.adminOption ? " WITH ADMIN OPTION" : "";
+  return `GRANT${onClusterClause(options.cluster)} ${identifierList(options.roles)} TO ${identifierList(options.grantees)}${withAdminOption}`;
+}
+
+export function buildRevokeRoleSQL(options: RoleGrantStatementOptions): string {
+  const adminOptionFor = options.adminOption ? " ADMIN OPTION FOR" : "";
+  return `REVOKE${onClusterClause(options.cluster)}${adminOptionFor} ${identifierList(options.roles)} FROM ${identifierList(options.grantees)}`;
+}
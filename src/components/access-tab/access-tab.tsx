@@ -0,0 +1,319 @@
+import { useConnection } from "@/components/connection/connection-context";
+import type {
+  ActionColumn,
+  Dashboard,
+  DashboardGroup,
+  StatDescriptor,
+  TableDescriptor,
+} from "@/components/shared/dashboard/dashboard-model";
+import DashboardPage from "@/components/shared/dashboard/dashboard-page";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Connection } from "@/lib/connection/connection";
+import { ChevronDown, MoreHorizontal } from "lucide-react";
+import { memo, useMemo } from "react";
+import {
+  showAccessStatementDialog,
+  type AccessStatementDraft,
+  type AccessStatementKind,
+} from "./access-statement-dialog";
+import { PrivilegeMatrixView } from "./privilege-matrix-view";
+
+interface RowAction {
+  title: string;
+  kind: AccessStatementKind;
+  initialValues: (row: Record<string, unknown>) => Partial<AccessStatementDraft>;
+}
+
+const granteeOf = (row: Record<string, unknown>) =>
+  (row.user_name ?? row.role_name ?? "") as string;
+
+const USER_ACTIONS: RowAction[] = [
+  {
+    title: "Alter User...",
+    kind: "alter-user",
+    initialValues: (row) => ({ name: row.name as string }),
+  },
+  {
+    title: "Grant Privileges...",
+    kind: "grant-privilege",
+    initialValues: (row) => ({ grantees: row.name as string }),
+  },
+  {
+    title: "Revoke Privileges...",
+    kind: "revoke-privilege",
+    initialValues: (row) => ({ grantees: row.name as string }),
+  },
+  {
+    title: "Grant Roles...",
+    kind: "grant-role",
+    initialValues: (row) => ({ grantees: row.name as string }),
+  },
+];
+
+const ROLE_ACTIONS: RowAction[] = [
+  {
+    title: "Grant Privileges...",
+    kind: "grant-privilege",
+    initialValues: (row) => ({ grantees: row.name as string }),
+  },
+  {
+    title: "Revoke Privileges...",
+    kind: "revoke-privilege",
+    initialValues: (row) => ({ grantees: row.name as string }),
+  },
+  {
+    title: "Grant To...",
+    kind: "grant-role",
+    initialValues: (row) => ({ roles: row.name as string }),
+  },
+];
+
+const GRANT_ACTIONS: RowAction[] = [
+  {
+    title: "Revoke...",
+    kind: "revoke-privilege",
+    initialValues: (row) => ({
+      privileges: row.access_type as string,
+      database: (row.database ?? "") as string,
+      table: (row.table ?? "") as string,
+      columns: (row.column ?? "") as string,
+      grantees: granteeOf(row),
+    }),
+  },
+];
+
+const ROLE_GRANT_ACTIONS: RowAction[] = [
+  {
+    title: "Revoke...",
+    kind: "revoke-role",
+    initialValues: (row) => ({ roles: row.granted_role_name as string, grantees: granteeOf(row) }),
+  },
+];
+
+const RowActionsButton = memo(
+  ({ row, actions }: { row: Record<string, unknown>; actions: RowAction[] }) => {
+    const { connection } = useConnection();
+    if (!connection) {
+      return null;
+    }
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <MoreHorizontal className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {actions.map((action) => (
+            <DropdownMenuItem
+              key={action.title}
+              onClick={() =>
+                showAccessStatementDialog(action.kind, connection, action.initialValues(row))
+              }
+            >
+              {action.title}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  }
+);
+
+function actionColumn(actions: RowAction[]): ActionColumn {
+  return {
+    title: "Action",
+    align: "center",
+    position: 1,
+    renderAction: (row: Record<string, unknown>) => (
+      <RowActionsButton row={row} actions={actions} />
+    ),
+  };
+}
+
+function accessTable(
+  title: string,
+  sql: string,
+  options: { actions?: RowAction[]; h?: number; description?: string } = {}
+): TableDescriptor {
+  return {
+    type: "table",
+    titleOption: { title, description: options.description, showTitle: true, align: "left" },
+    datasource: { sql },
+    headOption: { isSticky: true },
+    miscOption: {
+      enableIndexColumn: true,
+      enableShowRowDetail: true,
+      enableCompactMode: true,
+    },
+    gridPos: { w: 24, h: options.h ?? 10 },
+    actions: options.actions ? [actionColumn(options.actions)] : undefined,
+  } as TableDescriptor;
+}
+
+function ManageButton({ connection }: { connection: Connection }) {
+  const open = (kind: AccessStatementKind) => showAccessStatementDialog(kind, connection);
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-1">
+          Manage
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => open("create-user")}>Create User...</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => open("alter-user")}>Alter User...</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => open("create-role")}>Create Role...</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => open("grant-privilege")}>
+          Grant Privileges...
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => open("revoke-privilege")}>
+          Revoke Privileges...
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => open("grant-role")}>Grant Roles...</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => open("revoke-role")}>Revoke Roles...</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export const AccessTab = memo(() => {
+  const { connection } = useConnection();
+
+  const dashboard = useMemo<Dashboard>(() => {
+    const stat = (title: string, table: string): StatDescriptor => ({
+      type: "stat",
+      titleOption: { title, showTitle: true },
+      datasource: { sql: `SELECT count() FROM system.${table}` },
+      gridPos: { w: 4, h: 3 },
+    });
+
+    return {
+      version: 3,
+      filter: {},
+      charts: [
+        stat("Users", "users"),
+        stat("Roles", "roles"),
+        stat("Grants", "grants"),
+        stat("Quotas", "quotas"),
+        stat("Settings Profiles", "settings_profiles"),
+        stat("Row Policies", "row_policies"),
+        {
+          title: "Users and Roles",
+          collapsed: false,
+          charts: [
+            accessTable(
+              "Users",
+              `
+SELECT
+  name,
+  storage,
+  auth_type,
+  host_ip,
+  host_names,
+  default_roles_all,
+  default_roles_list,
+  default_database
+FROM system.users
+ORDER BY name`,
+              { actions: USER_ACTIONS }
+            ),
+            accessTable("Roles", "SELECT name, storage FROM system.roles ORDER BY name", {
+              actions: ROLE_ACTIONS,
+              h: 8,
+            }),
+            accessTable(
+              "Role Grants",
+              `
+SELECT
+  user_name,
+  role_name,
+  granted_role_name,
+  granted_role_is_default,
+  with_admin_option
+FROM system.role_grants
+ORDER BY user_name, role_name, granted_role_name`,
+              { actions: ROLE_GRANT_ACTIONS, h: 8 }
+            ),
+            accessTable(
+              "Grants",
+              `
+SELECT
+  user_name,
+  role_name,
+  access_type,
+  database,
+  table,
+  column,
+  is_partial_revoke,
+  grant_option
+FROM system.grants
+ORDER BY user_name, role_name, access_type`,
+              { actions: GRANT_ACTIONS, h: 12 }
+            ),
+          ],
+        } as DashboardGroup,
+        {
+          title: "Quotas",
+          collapsed: false,
+          charts: [
+            accessTable("Quotas", "SELECT * FROM system.quotas ORDER BY name", { h: 8 }),
+            accessTable("Quota Usage", "SELECT * FROM system.quota_usage", {
+              description: "Usage of the quotas of the current user",
+              h: 8,
+            }),
+          ],
+        } as DashboardGroup,
+        {
+          title: "Settings Profiles and Row Policies",
+          collapsed: true,
+          charts: [
+            accessTable(
+              "Settings Profiles",
+              "SELECT * FROM system.settings_profiles ORDER BY name",
+              {
+                h: 8,
+              }
+            ),
+            accessTable(
+              "Row Policies",
+              "SELECT * FROM system.row_policies ORDER BY database, table, name",
+              { h: 8 }
+            ),
+          ],
+        } as DashboardGroup,
+      ],
+    };
+  }, []);
+
+  return (
+    <div className="flex flex-col px-2" style={{ height: "calc(100vh - 49px)" }}>
+      <DashboardPage
+        panels={dashboard}
+        showTimeSpanSelector={false}
+        showRefresh={true}
+        timezone={connection?.metadata.timezone ?? "UTC"}
+        headerActions={connection ? <ManageButton connection={connection} /> : null}
+      >
+        <PrivilegeMatrixView />
+      </DashboardPage>
+    </div>
+  );
+});
@@ -0,0 +1,158 @@
+import { useConnection } from "@/components/connection/connection-context";
+import type { FieldOption } from "@/components/shared/dashboard/dashboard-model";
+import { useDashboardRefresh } from "@/components/shared/dashboard/dashboard-panel-container";
+import { DataTable } from "@/components/shared/dashboard/data-table";
+import { Input } from "@/components/ui/input";
+import type { JSONFormatResponse } from "@/lib/connection/connection";
+import { Check, Minus, X } from "lucide-react";
+import { memo, useCallback, useMemo, useState } from "react";
+import {
+  buildPrivilegeMatrix,
+  type GrantRow,
+  type PrivilegeCell,
+  type PrivilegeMatrix,
+  type RoleGrantRow,
+} from "./privilege-matrix";
+
+function describeCell(cell: PrivilegeCell): string {
+  const parts: string[] = [];
+  if (cell.granted) {
+    parts.push(cell.direct ? "Granted directly" : "Granted");
+  }
+  if (cell.viaRoles.length > 0) {
+    parts.push(`via role ${cell.viaRoles.join(", ")}`);
+  }
+  if (cell.grantOption) {
+    parts.push("with grant option");
+  }
+  if (cell.revoked) {
+    parts.push("partially revoked on this scope");
+  }
+  return parts.join(", ");
+}
+
+function PrivilegeCellView({ cell }: { cell: PrivilegeCell | undefined }) {
+  if (!cell) {
+    return <Minus className="h-3 w-3 text-muted-foreground/40 mx-auto" />;
+  }
+  return (
+    <span className="flex items-center justify-center gap-0.5" title={describeCell(cell)}>
+      {cell.granted && (
+        <Check className={`h-3.5 w-3.5 ${cell.direct ? "text-green-600" : "text-blue-500"}`} />
+      )}
+      {cell.grantOption && <span className="text-[10px] font-semibold">G</span>}
+      {cell.revoked && <X className="h-3.5 w-3.5 text-destructive" />}
+    </span>
+  );
+}
+
+/**
+ * Effective privileges of every user and role per database/table, including the privileges
+ * inherited from granted roles
+ */
+export const PrivilegeMatrixView = memo(() => {
+  const { connection } = useConnection();
+  const [matrix, setMatrix] = useState<PrivilegeMatrix>({ accessTypes: [], rows: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [granteeFilter, setGranteeFilter] = useState("");
+
+  const fetchData = useCallback(async () => {
+    if (!connection) return;
+
+    setIsLoading(true);
+    setError(undefined);
+    try {
+      const [grants, roleGrants] = await Promise.all([
+        connection.query(
+          "SELECT user_name, role_name, access_type, database, table, column, is_partial_revoke, grant_option FROM system.grants",
+          { default_format: "JSON" }
+        ).response,
+        connection.query("SELECT user_name, role_name, granted_role_name FROM system.role_grants", {
+          default_format: "JSON",
+        }).response,
+      ]);
+      setMatrix(
+        buildPrivilegeMatrix(
+          grants.data.json<JSONFormatResponse>().data as unknown as GrantRow[],
+          roleGrants.data.json<JSONFormatResponse>().data as unknown as RoleGrantRow[]
+        )
+      );
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load grants");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [connection]);
+
+  useDashboardRefresh(fetchData);
+
+  const data = useMemo(() => {
+    const filter = granteeFilter.trim().toLowerCase();
+    return matrix.rows
+      .filter((row) => filter === "" || row.grantee.toLowerCase().includes(filter))
+      .map((row) => ({
+        grantee: row.grantee,
+        type: row.granteeType,
+        scope: row.scope,
+        ...row.privileges,
+      }));
+  }, [matrix, granteeFilter]);
+
+  const meta = useMemo(
+    () => [
+      { name: "grantee", type: "String" },
+      { name: "type", type: "String" },
+      { name: "scope", type: "String" },
+      ...matrix.accessTypes.map((accessType) => ({ name: accessType })),
+    ],
+    [matrix]
+  );
+
+  const fieldOptions = useMemo<FieldOption[]>(
+    () =>
+      matrix.accessTypes.map((accessType) => ({
+        name: accessType,
+        align: "center",
+        sortable: false,
+        format: (value) => <PrivilegeCellView cell={value as PrivilegeCell | undefined} />,
+      })),
+    [matrix]
+  );
+
+  return (
+    <div className="flex flex-col gap-2 px-2 pb-2">
+      <div className="flex items-center gap-4">
+        <span className="text-sm font-semibold">Effective Privileges</span>
+        <Input
+          value={granteeFilter}
+          placeholder="Filter users and roles"
+          className="h-8 w-60"
+          onChange={(e) => setGranteeFilter(e.target.value)}
+        />
+        <span className="text-xs text-muted-foreground flex items-center gap-3">
+          <span className="flex items-center gap-1">
+            <Check className="h-3.5 w-3.5 text-green-600" /> granted
+          </span>
+          <span className="flex items-center gap-1">
+            <Check className="h-3.5 w-3.5 text-blue-500" /> inherited from a role
+          </span>
+          <span>G with grant option</span>
+          <span className="flex items-center gap-1">
+            <X className="h-3.5 w-3.5 text-destructive" /> partially revoked
+          </span>
+        </span>
+      </div>
+      <DataTable
+        data={data as Record<string, unknown>[]}
+        meta={meta}
+        fieldOptions={fieldOptions}
+        isLoading={isLoading}
+        error={error}
+        enableIndexColumn
+        stickyHeader
+        className="max-h-[600px]"
+      />
+    </div>
+  );
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { buildPrivilegeMatrix, type GrantRow } from "./privilege-matrix";
+
+function grant(row: Partial<GrantRow> & Pick<GrantRow, "access_type">): GrantRow {
+  return {
+    user_name: null,
+    role_name: null,
+    database: null,
+    table: null,
+    column: null,
+    is_partial_revoke: 0,
+    grant_option: 0,
+    ...row,
+  };
+}
+
+describe("buildPrivilegeMatrix", () => {
+  it("merges direct grants with privileges inherited from nested roles", () => {
+    const matrix = buildPrivilegeMatrix(
+      [
+        grant({ user_name: "alice", access_type: "INSERT", database: "db", table: "events" }),
+        grant({ role_name: "reader", access_type: "SELECT", database: "db" }),
+        grant({ role_name: "admin", access_type: "SELECT", database: "db", grant_option: 1 }),
+        grant({ role_name: "admin", access_type: "DROP", database: "db", is_partial_revoke: 1 }),
+      ],
+      [
+        { user_name: "alice", role_name: null, granted_role_name: "admin" },
+        { user_name: null, role_name: "admin", granted_role_name: "reader" },
+        // Cyclic grants must not loop forever
+        { user_name: null, role_name: "reader", granted_role_name: "admin" },
+      ]
+    );
+
+    expect(matrix.accessTypes).toEqual(["DROP", "INSERT", "SELECT"]);
+
+    const alice = matrix.rows.filter((row) => row.grantee === "alice");
+    expect(alice.map((row) => row.scope)).toEqual(["db.*", "db.events"]);
+    expect(alice[0].privileges.SELECT).toEqual({
+      granted: true,
+      revoked: false,
+      grantOption: true,
+      viaRoles: ["admin", "reader"],
+      direct: false,
+    });
+    expect(alice[0].privileges.DROP.revoked).toBe(true);
+    expect(alice[1].privileges.INSERT.direct).toBe(true);
+
+    // Users are listed before roles
+    expect(matrix.rows[0].granteeType).toBe("user");
+    const reader = matrix.rows.find((row) => row.grantee === "reader")!;
+    expect(reader.privileges.SELECT.viaRoles).toEqual(["admin"]);
+    expect(reader.privileges.SELECT.direct).toBe(true);
+  });
+});
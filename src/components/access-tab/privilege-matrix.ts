@@ -0,0 +1,169 @@
+// Row of system.grants, exactly one of user_name and role_name is set
+export interface GrantRow {
+  user_name: string | null;
+  role_name: string | null;
+  access_type: string;
+  database: string | null;
+  table: string | null;
+  column: string | null;
+  is_partial_revoke: number;
+  grant_option: number;
+}
+
+// Row of system.role_grants, exactly one of user_name and role_name is set
+export interface RoleGrantRow {
+  user_name: string | null;
+  role_name: string | null;
+  granted_role_name: string;
+}
+
+export type GranteeType = "user" | "role";
+
+export interface PrivilegeCell {
+  granted: boolean;
+  // A partial revoke removes the privilege on this scope even if it's granted on a wider one
+  revoked: boolean;
+  grantOption: boolean;
+  // Roles the privilege is inherited from, empty when it's granted to the grantee directly
+  viaRoles: string[];
+  direct: boolean;
+}
+
+export interface PrivilegeMatrixRow {
+  grantee: string;
+  granteeType: GranteeType;
+  // e.g. "*.*", "db.*", "db.table" or "db.table(column)"
+  scope: string;
+  privileges: Record<string, PrivilegeCell>;
+}
+
+export interface PrivilegeMatrix {
+  accessTypes: string[];
+  rows: PrivilegeMatrixRow[];
+}
+
+export function getGrantScope(row: Pick<GrantRow, "database" | "table" | "column">): string {
+  if (!row.database) {
+    return "*.*";
+  }
+  if (!row.table) {
+    return `${row.database}.*`;
+  }
+  return row.column
+    ? `${row.database}.${row.table}(${row.column})`
+    : `${row.database}.${row.table}`;
+}
+
+function granteeKey(type: GranteeType, name: string): string {
+  return `${type}:${name}`;
+}
+
+/**
+ * Compute the effective privileges of every user and role from system.grants and system.role_grants.
+ * Privileges of granted roles are inherited transitively, all granted roles are taken into account
+ * whether or not they are default roles.
+ */
+export function buildPrivilegeMatrix(
+  grants: GrantRow[],
+  roleGrants: RoleGrantRow[]
+): PrivilegeMatrix {
+  const grantsByGrantee = new Map<string, GrantRow[]>();
+  const rolesByGrantee = new Map<string, string[]>();
+  const grantees = new Map<string, { name: string; type: GranteeType }>();
+
+  const addGrantee = (user: string | null, role: string | null): string | undefined => {
+    const type: GranteeType | undefined = user ? "user" : role ? "role" : undefined;
+    const name = user ?? role;
+    if (!type || !name) {
+      return undefined;
+    }
+    const key = granteeKey(type, name);
+    if (!grantees.has(key)) {
+      grantees.set(key, { name, type });
+    }
+    return key;
+  };
+
+  for (const grant of grants) {
+    const key = addGrantee(grant.user_name, grant.role_name);
+    if (key) {
+      grantsByGrantee.set(key, [...(grantsByGrantee.get(key) ?? []), grant]);
+    }
+  }
+  for (const roleGrant of roleGrants) {
+    const key = addGrantee(roleGrant.user_name, roleGrant.role_name);
+    if (key) {
+      rolesByGrantee.set(key, [...(rolesByGrantee.get(key) ?? []), roleGrant.granted_role_name]);
+    }
+  }
+
+  const accessTypes = new Set<string>();
+  const rows: PrivilegeMatrixRow[] = [];
+
+  for (const [key, grantee] of grantees) {
+    const rowsByScope = new Map<string, PrivilegeMatrixRow>();
+
+    const apply = (grant: GrantRow, viaRole: string | undefined) => {
+      const scope = getGrantScope(grant);
+      let row = rowsByScope.get(scope);
+      if (!row) {
+        row = { grantee: grantee.name, granteeType: grantee.type, scope, privileges: {} };
+        rowsByScope.set(scope, row);
+      }
+
+      const cell = row.privileges[grant.access_type] ?? {
+        granted: false,
+        revoked: false,
+        grantOption: false,
+        viaRoles: [],
+        direct: false,
+      };
+      if (grant.is_partial_revoke) {
+        cell.revoked = true;
+      } else {
+        cell.granted = true;
+        cell.grantOption = cell.grantOption || grant.grant_option > 0;
+      }
+      if (viaRole === undefined) {
+        cell.direct = true;
+      } else if (!cell.viaRoles.includes(viaRole)) {
+        cell.viaRoles.push(viaRole);
+      }
+      row.privileges[grant.access_type] = cell;
+      accessTypes.add(grant.access_type);
+    };
+
+    for (const grant of grantsByGrantee.get(key) ?? []) {
+      apply(grant, undefined);
+    }
+
+    // Walk the granted roles breadth first, the visited set guards against cyclic role grants
+    const visited = new Set<string>();
+    const pending = [...(rolesByGrantee.get(key) ?? [])];
+    while (pending.length > 0) {
+      const role = pending.shift()!;
+      if (visited.has(role) || (grantee.type === "role" && role === grantee.name)) {
+        continue;
+      }
+      visited.add(role);
+
+      const roleKey = granteeKey("role", role);
+      for (const grant of grantsByGrantee.get(roleKey) ?? []) {
+        apply(grant, role);
+      }
+      pending.push(...(rolesByGrantee.get(roleKey) ?? []));
+    }
+
+    rows.push(...Array.from(rowsByScope.values()).sort((a, b) => a.scope.localeCompare(b.scope)));
+  }
+
+  rows.sort((a, b) =>
+    a.granteeType === b.granteeType
+      ? a.grantee.localeCompare(b.grantee)
+      : a.granteeType === "user"
+        ? -1
+        : 1
+  );
+
+  return { accessTypes: Array.from(accessTypes).sort(), rows };
+}
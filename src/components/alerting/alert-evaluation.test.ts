@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { nextAlertStatus, reducePanelResult } from "./alert-evaluation";
+
+describe("reducePanelResult", () => {
+  const meta = [
+    { name: "t", type: "Int32" },
+    { name: "host", type: "String" },
+    { name: "qps", type: "Float64" },
+  ];
+  const rows = [
+    { t: 1, host: "a", qps: 1 },
+    { t: 2, host: "a", qps: 5 },
+    { t: 3, host: "a", qps: 3 },
+  ];
+
+  it("reduces the first numeric column that's not a timestamp", () => {
+    expect(reducePanelResult(rows, meta, "max")).toEqual({ value: 5 });
+    expect(reducePanelResult(rows, meta, "last")).toEqual({ value: 3 });
+  });
+
+  it("uses the given value column", () => {
+    expect(reducePanelResult(rows, meta, "sum", "t")).toEqual({ value: 6 });
+    expect(reducePanelResult(rows, meta, "sum", "missing")).toEqual({
+      error: 'Column "missing" does not exist in the query result',
+    });
+  });
+
+  it("reports empty results", () => {
+    expect(reducePanelResult([], meta, "avg")).toEqual({ error: "The query returned no rows" });
+  });
+});
+
+describe("nextAlertStatus", () => {
+  it("fires only after the condition holds for the duration", () => {
+    const pending = nextAlertStatus(undefined, { value: 10 }, true, 60, 0);
+    expect(pending.state).toBe("pending");
+
+    const stillPending = nextAlertStatus(pending, { value: 10 }, true, 60, 30_000);
+    expect(stillPending).toMatchObject({ state: "pending", since: 0 });
+
+    const firing = nextAlertStatus(stillPending, { value: 10 }, true, 60, 60_000);
+    expect(firing).toMatchObject({ state: "firing", since: 60_000 });
+
+    const resolved = nextAlertStatus(firing, { value: 1 }, false, 60, 90_000);
+    expect(resolved).toMatchObject({ state: "ok", since: 90_000 });
+  });
+
+  it("fires immediately without duration and reports errors", () => {
+    expect(nextAlertStatus(undefined, { value: 1 }, true, 0, 0).state).toBe("firing");
+    expect(nextAlertStatus(undefined, { error: "timeout" }, false, 0, 0)).toMatchObject({
+      state: "error",
+      error: "timeout",
+    });
+  });
+});
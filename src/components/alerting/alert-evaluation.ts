@@ -0,0 +1,128 @@
+import { isTimestampColumn } from "@/components/shared/dashboard/dashboard-data-utils";
+import { applyReducer, type Reducer } from "@/components/shared/dashboard/dashboard-model";
+
+export type AlertComparator = ">" | ">=" | "<" | "<=" | "==" | "!=";
+
+export const ALERT_COMPARATORS: AlertComparator[] = [">", ">=", "<", "<=", "==", "!="];
+
+/**
+ * - ok: the condition is not met
+ * - pending: the condition is met but not for long enough
+ * - firing: the condition has been met for the duration of the rule
+ * - error: the query failed or returned no value
+ */
+export type AlertState = "ok" | "pending" | "firing" | "error";
+
+export interface AlertStatus {
+  state: AlertState;
+  // Since when the rule is in the state, in milliseconds
+  since: number;
+  lastEvaluatedAt: number;
+  value?: number;
+  error?: string;
+}
+
+export type AlertEvaluationResult = { value: number } | { error: string };
+
+/**
+ * Reduce the value column of the query result to a single number.
+ * If valueColumn is not given, the first numeric column that's not a timestamp is used.
+ */
+export function reducePanelResult(
+  rows: Record<string, unknown>[],
+  meta: { name: string; type?: string }[],
+  reducer: Reducer,
+  valueColumn?: string
+): AlertEvaluationResult {
+  if (rows.length === 0) {
+    return { error: "The query returned no rows" };
+  }
+
+  const columns: { name: string; type?: string }[] =
+    meta.length > 0 ? meta : Object.keys(rows[0]).map((name) => ({ name }));
+  const column = valueColumn
+    ? columns.find((col) => col.name === valueColumn)
+    : columns.find(
+        (col) =>
+          !isTimestampColumn(col.name, col.type) &&
+          rows.some((row) => typeof row[col.name] === "number")
+      );
+  if (!column) {
+    return {
+      error: valueColumn
+        ? `Column "${valueColumn}" does not exist in the query result`
+        : "The query result has no numeric column",
+    };
+  }
+
+  const values = rows.map((row) => {
+    const value = row[column.name];
+    if (typeof value === "number") {
+      return value;
+    }
+    // 64-bit integers may be returned as strings
+    const parsed = typeof value === "string" ? Number(value) : NaN;
+    return Number.isFinite(parsed) ? parsed : null;
+  });
+  if (values.every((value) => value === null)) {
+    return { error: `Column "${column.name}" has no numeric value` };
+  }
+  return { value: applyReducer(values, reducer) };
+}
+
+export function isConditionMet(
+  value: number,
+  comparator: AlertComparator,
+  threshold: number
+): boolean {
+  switch (comparator) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+    case "==":
+      return value === threshold;
+    case "!=":
+      return value !== threshold;
+  }
+}
+
+/**
+ * Compute the next status of a rule from the evaluation result.
+ * A rule fires only after the condition has been met continuously for forSeconds.
+ */
+export function nextAlertStatus(
+  previous: AlertStatus | undefined,
+  result: AlertEvaluationResult,
+  conditionMet: boolean,
+  forSeconds: number,
+  now: number
+): AlertStatus {
+  const transit = (state: AlertState, since = now): AlertStatus => ({
+    state,
+    since: previous?.state === state ? previous.since : since,
+    lastEvaluatedAt: now,
+    value: "value" in result ? result.value : undefined,
+    error: "error" in result ? result.error : undefined,
+  });
+
+  if ("error" in result) {
+    return transit("error");
+  }
+  if (!conditionMet) {
+    return transit("ok");
+  }
+  if (previous?.state === "firing") {
+    return transit("firing");
+  }
+
+  const pendingSince = previous?.state === "pending" ? previous.since : now;
+  if (now - pendingSince >= forSeconds * 1000) {
+    return transit("firing");
+  }
+  return { ...transit("pending"), since: pendingSince };
+}
@@ -0,0 +1,284 @@
+import type { Reducer } from "@/components/shared/dashboard/dashboard-model";
+import { SQLQueryBuilder } from "@/components/shared/dashboard/sql-query-builder";
+import type { Connection } from "@/lib/connection/connection";
+import { StorageManager } from "@/lib/storage/storage-provider-manager";
+import { v7 as uuidv7 } from "uuid";
+import {
+  isConditionMet,
+  nextAlertStatus,
+  reducePanelResult,
+  type AlertComparator,
+  type AlertEvaluationResult,
+  type AlertState,
+  type AlertStatus,
+} from "./alert-evaluation";
+
+/**
+ * A threshold condition on the value of a timeseries or stat panel.
+ * The SQL of the panel is copied so that the rule does not depend on the dashboard it's created from.
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  connectionName: string;
+  panel: {
+    title: string;
+    type: string;
+    sql: string;
+  };
+  // If not given, the first numeric column of the result is used
+  valueColumn?: string;
+  reducer: Reducer;
+  comparator: AlertComparator;
+  threshold: number;
+  // How long the condition must be met before the alert fires
+  forSeconds: number;
+  // Time range of the query, used for the {from:String}/{to:String} parameters
+  lookbackSeconds: number;
+  intervalSeconds: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  ruleName: string;
+  state: AlertState;
+  value?: number;
+  error?: string;
+  time: number;
+}
+
+const MAX_HISTORY_EVENTS = 200;
+
+// How often the scheduler checks whether a rule is due for evaluation
+const SCHEDULER_TICK_MS = 5_000;
+
+export class AlertManager {
+  private static instance: AlertManager;
+
+  public static getInstance(): AlertManager {
+    return this.instance || (this.instance = new this());
+  }
+
+  private listeners: Array<() => void> = [];
+  private statuses = new Map<string, AlertStatus>();
+  private evaluating = new Set<string>();
+  private connection: Connection | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    // Rules may be changed by a remote storage provider
+    StorageManager.getInstance().subscribeToStorageProviderChange(() => this.notifyListeners());
+  }
+
+  private getRuleStorage() {
+    return StorageManager.getInstance().getStorageProvider().subStorage("alert-rules");
+  }
+
+  private getHistoryStorage() {
+    return StorageManager.getInstance().getStorageProvider().subStorage("alert-history");
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  public getRules(): AlertRule[] {
+    const storage = this.getRuleStorage();
+    return storage
+      .keys()
+      .map((id) => storage.getChildAsJSON<AlertRule | null>(id, () => null))
+      .filter((rule): rule is AlertRule => rule !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public saveRule(
+    rule: Omit<AlertRule, "id" | "createdAt" | "updatedAt"> & Partial<AlertRule>
+  ): AlertRule {
+    const now = new Date().toISOString();
+    const saved: AlertRule = {
+      ...rule,
+      id: rule.id ?? uuidv7(),
+      createdAt: rule.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.getRuleStorage().setChildJSON(saved.id, saved);
+
+    // The condition may have changed, start over
+    this.statuses.delete(saved.id);
+    this.notifyListeners();
+    return saved;
+  }
+
+  public deleteRule(id: string): void {
+    this.getRuleStorage().removeChild(id);
+    this.statuses.delete(id);
+    this.notifyListeners();
+  }
+
+  public getStatus(ruleId: string): AlertStatus | undefined {
+    return this.statuses.get(ruleId);
+  }
+
+  public getFiringRules(): Array<{ rule: AlertRule; status: AlertStatus }> {
+    return this.getRules()
+      .map((rule) => ({ rule, status: this.statuses.get(rule.id) }))
+      .filter(
+        (item): item is { rule: AlertRule; status: AlertStatus } => item.status?.state === "firing"
+      );
+  }
+
+  /**
+   * Events of state changes, the latest first
+   */
+  public getHistory(): AlertEvent[] {
+    return this.getHistoryStorage().getAsJSON<AlertEvent[]>(() => []);
+  }
+
+  public clearHistory(): void {
+    this.getHistoryStorage().setJSON([]);
+    this.notifyListeners();
+  }
+
+  private addHistory(event: AlertEvent) {
+    const history = [event, ...this.getHistory()].slice(0, MAX_HISTORY_EVENTS);
+    this.getHistoryStorage().setJSON(history);
+  }
+
+  /**
+   * Start evaluating the rules of the given connection in background.
+   * Rules of other connections are not evaluated since their connections are not open.
+   */
+  public start(connection: Connection): void {
+    this.stop();
+    this.connection = connection;
+    this.timer = setInterval(() => this.evaluateDueRules(), SCHEDULER_TICK_MS);
+    this.evaluateDueRules();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.connection = null;
+    this.statuses.clear();
+    this.notifyListeners();
+  }
+
+  public isEvaluated(rule: AlertRule): boolean {
+    return rule.enabled && this.connection?.name === rule.connectionName;
+  }
+
+  private evaluateDueRules() {
+    const now = Date.now();
+    for (const rule of this.getRules()) {
+      if (!this.isEvaluated(rule) || this.evaluating.has(rule.id)) {
+        continue;
+      }
+      const lastEvaluatedAt = this.statuses.get(rule.id)?.lastEvaluatedAt ?? 0;
+      if (now - lastEvaluatedAt >= rule.intervalSeconds * 1000) {
+        void this.evaluateRule(rule);
+      }
+    }
+  }
+
+  /**
+   * Run the query of the rule and compute the value that the condition is checked against
+   */
+  public async queryRuleValue(
+    rule: Pick<AlertRule, "panel" | "reducer" | "valueColumn" | "lookbackSeconds">,
+    connection: Connection
+  ): Promise<AlertEvaluationResult> {
+    const end = new Date();
+    const start = new Date(end.getTime() - rule.lookbackSeconds * 1000);
+    const sql = new SQLQueryBuilder(rule.panel.sql)
+      .timeSpan(
+        { startISO8601: start.toISOString(), endISO8601: end.toISOString() },
+        connection.metadata?.timezone || "UTC"
+      )
+      .filterExpression("")
+      .build();
+
+    try {
+      const { response } = connection.queryOnNode(sql, {
+        default_format: "JSON",
+        output_format_json_quote_64bit_integers: 0,
+      });
+      const result = (await response).data.json<{
+        data?: Record<string, unknown>[];
+        meta?: { name: string; type?: string }[];
+      }>();
+      return reducePanelResult(
+        result.data ?? [],
+        result.meta ?? [],
+        rule.reducer,
+        rule.valueColumn
+      );
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }
+
+  private async evaluateRule(rule: AlertRule) {
+    const connection = this.connection;
+    if (!connection) {
+      return;
+    }
+
+    this.evaluating.add(rule.id);
+    try {
+      const result = await this.queryRuleValue(rule, connection);
+
+      // The connection may have been switched while the query was running
+      if (this.connection !== connection) {
+        return;
+      }
+
+      const previous = this.statuses.get(rule.id);
+      const conditionMet =
+        "value" in result && isConditionMet(result.value, rule.comparator, rule.threshold);
+      const status = nextAlertStatus(previous, result, conditionMet, rule.forSeconds, Date.now());
+      this.statuses.set(rule.id, status);
+
+      if (status.state !== (previous?.state ?? "ok") && status.state !== "pending") {
+        // Going back to ok from pending is not an event since the alert never fired
+        if (!(status.state === "ok" && previous?.state === "pending")) {
+          this.addHistory({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            state: status.state,
+            value: status.value,
+            error: status.error,
+            time: status.lastEvaluatedAt,
+          });
+        }
+        if (status.state === "firing") {
+          this.showNotification(rule, status);
+        }
+      }
+      this.notifyListeners();
+    } finally {
+      this.evaluating.delete(rule.id);
+    }
+  }
+
+  private showNotification(rule: AlertRule, status: AlertStatus) {
+    if (typeof Notification === "undefined" || Notification.permission !== "granted") {
+      return;
+    }
+    new Notification(`Alert firing: ${rule.name}`, {
+      body: `${rule.panel.title}: ${status.value} ${rule.comparator} ${rule.threshold}`,
+      tag: rule.id,
+    });
+  }
+}
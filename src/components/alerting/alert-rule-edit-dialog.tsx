@@ -0,0 +1,257 @@
+import type { PanelDescriptor, Reducer } from "@/components/shared/dashboard/dashboard-model";
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { Connection } from "@/lib/connection/connection";
+import { toastManager } from "@/lib/toast";
+import { ChevronDown, Loader2, Play } from "lucide-react";
+import { useState } from "react";
+import {
+  ALERT_COMPARATORS,
+  isConditionMet,
+  type AlertComparator,
+  type AlertEvaluationResult,
+} from "./alert-evaluation";
+import { AlertManager, type AlertRule } from "./alert-manager";
+
+const REDUCERS: Reducer[] = ["last", "first", "min", "max", "avg", "sum", "count"];
+
+type AlertRuleDraft = Omit<AlertRule, "id" | "createdAt" | "updatedAt"> & Partial<AlertRule>;
+
+/**
+ * Panel types that alert rules can be created from
+ */
+export function canCreateAlertRule(panel: PanelDescriptor): boolean {
+  return ["line", "bar", "area", "stat"].includes(panel.type) && !!panel.datasource?.sql;
+}
+
+function createRuleDraft(panel: PanelDescriptor, connectionName: string): AlertRuleDraft {
+  const title = panel.titleOption?.title || "Untitled panel";
+  const statReducer = (panel as { valueOption?: { reducer?: Reducer } }).valueOption?.reducer;
+  return {
+    name: title,
+    connectionName,
+    panel: { title, type: panel.type, sql: panel.datasource.sql },
+    reducer: panel.type === "stat" ? (statReducer ?? "last") : "avg",
+    comparator: ">",
+    threshold: 0,
+    forSeconds: 300,
+    lookbackSeconds: 600,
+    intervalSeconds: 60,
+    enabled: true,
+  };
+}
+
+function SelectDropdown<T extends string>({
+  value,
+  options,
+  onChange,
+}: {
+  value: T;
+  options: T[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="w-full justify-between h-9">
+          {value}
+          <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="z-[10002]">
+        <DropdownMenuRadioGroup value={value} onValueChange={(v) => onChange(v as T)}>
+          {options.map((option) => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              {option}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function AlertRuleEditContent({
+  initialRule,
+  connection,
+}: {
+  initialRule: AlertRuleDraft;
+  connection: Connection;
+}) {
+  const [rule, setRule] = useState<AlertRuleDraft>(initialRule);
+  const [testResult, setTestResult] = useState<AlertEvaluationResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const update = (changes: Partial<AlertRuleDraft>) => {
+    setRule((prev) => ({ ...prev, ...changes }));
+    setTestResult(null);
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      setTestResult(await AlertManager.getInstance().queryRuleValue(rule, connection));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (rule.name.trim() === "") {
+      toastManager.show("Rule name can't be empty.", "error");
+      return;
+    }
+    if (!Number.isFinite(rule.threshold)) {
+      toastManager.show("Threshold must be a number.", "error");
+      return;
+    }
+    AlertManager.getInstance().saveRule({
+      ...rule,
+      name: rule.name.trim(),
+      forSeconds: Math.max(0, rule.forSeconds),
+      lookbackSeconds: Math.max(60, rule.lookbackSeconds),
+      intervalSeconds: Math.max(10, rule.intervalSeconds),
+    });
+
+    // Ask for the permission here since browsers only allow it in response to a user action
+    if (typeof Notification !== "undefined" && Notification.permission === "default") {
+      void Notification.requestPermission();
+    }
+    toastManager.show(`Alert rule "${rule.name.trim()}" saved.`, "success");
+    Dialog.close();
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-[140px_1fr] gap-x-4 gap-y-2 items-center">
+        <Label>Name</Label>
+        <Input value={rule.name} onChange={(e) => update({ name: e.target.value })} />
+
+        <Label>Panel</Label>
+        <div className="text-sm text-muted-foreground truncate">
+          {rule.panel.title} ({rule.panel.type}) on {rule.connectionName}
+        </div>
+
+        <Label>Value column</Label>
+        <Input
+          value={rule.valueColumn ?? ""}
+          placeholder="First numeric column"
+          onChange={(e) => update({ valueColumn: e.target.value.trim() || undefined })}
+        />
+
+        <Label>Condition</Label>
+        <div className="grid grid-cols-[1fr_80px_1fr] gap-2">
+          <SelectDropdown
+            value={rule.reducer}
+            options={REDUCERS}
+            onChange={(reducer) => update({ reducer })}
+          />
+          <SelectDropdown
+            value={rule.comparator}
+            options={ALERT_COMPARATORS}
+            onChange={(comparator: AlertComparator) => update({ comparator })}
+          />
+          <Input
+            type="number"
+            value={rule.threshold}
+            onChange={(e) => update({ threshold: Number(e.target.value) })}
+          />
+        </div>
+
+        <Label>For (seconds)</Label>
+        <Input
+          type="number"
+          min={0}
+          value={rule.forSeconds}
+          onChange={(e) => update({ forSeconds: Number(e.target.value) })}
+        />
+
+        <Label>Query range (seconds)</Label>
+        <Input
+          type="number"
+          min={60}
+          value={rule.lookbackSeconds}
+          onChange={(e) => update({ lookbackSeconds: Number(e.target.value) })}
+        />
+
+        <Label>Evaluate every (seconds)</Label>
+        <Input
+          type="number"
+          min={10}
+          value={rule.intervalSeconds}
+          onChange={(e) => update({ intervalSeconds: Number(e.target.value) })}
+        />
+
+        <Label>Enabled</Label>
+        <Switch checked={rule.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        The values of the last query range are reduced to one value. The alert fires when the
+        condition holds for the given duration, and it's evaluated in this browser only while the
+        connection is open.
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={handleTest}
+          disabled={isTesting || connection.name !== rule.connectionName}
+        >
+          {isTesting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />}
+          Test
+        </Button>
+        {testResult &&
+          ("error" in testResult ? (
+            <span className="text-destructive text-xs">{testResult.error}</span>
+          ) : (
+            <span>
+              Value {testResult.value}, condition is{" "}
+              {isConditionMet(testResult.value, rule.comparator, rule.threshold)
+                ? "met"
+                : "not met"}
+              .
+            </span>
+          ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show a dialog to create an alert rule from a panel, or to edit an existing rule.
+ */
+export function showAlertRuleEditDialog(
+  options: { connection: Connection } & (
+    | { panel: PanelDescriptor; rule?: undefined }
+    | { rule: AlertRule; panel?: undefined }
+  )
+) {
+  const initialRule = options.rule ?? createRuleDraft(options.panel, options.connection.name);
+  Dialog.showDialog({
+    title: options.rule ? "Edit Alert Rule" : "Create Alert Rule",
+    className: "sm:max-w-[600px]",
+    mainContent: <AlertRuleEditContent initialRule={initialRule} connection={options.connection} />,
+  });
+}
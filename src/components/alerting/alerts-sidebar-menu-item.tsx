@@ -0,0 +1,247 @@
+import { useConnection } from "@/components/connection/connection-context";
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SidebarMenuBadge, SidebarMenuButton, SidebarMenuItem } from "@/components/ui/sidebar";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { Bell, BellRing, Pencil, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import type { AlertState } from "./alert-evaluation";
+import { AlertManager, type AlertRule } from "./alert-manager";
+import { showAlertRuleEditDialog } from "./alert-rule-edit-dialog";
+
+const STATE_CLASS_NAMES: Record<AlertState, string> = {
+  ok: "text-green-600",
+  pending: "text-yellow-600",
+  firing: "text-destructive",
+  error: "text-muted-foreground",
+};
+
+function useAlertManagerVersion(): number {
+  const [version, setVersion] = useState(0);
+  useEffect(() => {
+    return AlertManager.getInstance().subscribe(() => setVersion((v) => v + 1));
+  }, []);
+  return version;
+}
+
+function formatCondition(rule: AlertRule): string {
+  return `${rule.reducer}(${rule.valueColumn ?? "value"}) ${rule.comparator} ${rule.threshold} for ${rule.forSeconds}s`;
+}
+
+function FiringList() {
+  const firing = AlertManager.getInstance().getFiringRules();
+  if (firing.length === 0) {
+    return <div className="text-sm text-muted-foreground p-2">No alert is firing.</div>;
+  }
+  return (
+    <div className="flex flex-col gap-1">
+      {firing.map(({ rule, status }) => (
+        <div key={rule.id} className="rounded-md border p-2 text-sm">
+          <div className="font-medium text-destructive">{rule.name}</div>
+          <div className="text-xs text-muted-foreground">
+            Value {status.value} ({formatCondition(rule)}), since{" "}
+            {format(status.since, "MM-dd HH:mm:ss")}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function HistoryList() {
+  const history = AlertManager.getInstance().getHistory();
+  if (history.length === 0) {
+    return <div className="text-sm text-muted-foreground p-2">No alert history.</div>;
+  }
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex justify-end">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-xs"
+          onClick={() => AlertManager.getInstance().clearHistory()}
+        >
+          Clear
+        </Button>
+      </div>
+      {history.map((event, i) => (
+        <div key={i} className="flex items-start gap-2 text-xs">
+          <span className="text-muted-foreground whitespace-nowrap">
+            {format(event.time, "MM-dd HH:mm:ss")}
+          </span>
+          <span className={cn("w-12 shrink-0", STATE_CLASS_NAMES[event.state])}>
+            {event.state === "ok" ? "resolved" : event.state}
+          </span>
+          <span className="flex-1 min-w-0 break-words">
+            {event.ruleName}
+            {event.value !== undefined && ` (${event.value})`}
+            {event.error && <span className="text-muted-foreground"> {event.error}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RuleList() {
+  const { connection } = useConnection();
+  const manager = AlertManager.getInstance();
+  const rules = manager.getRules();
+  if (rules.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground p-2">
+        No alert rule. Use &quot;Create alert rule&quot; in the menu of a time series or stat panel
+        to create one.
+      </div>
+    );
+  }
+
+  const handleDelete = (rule: AlertRule) => {
+    Dialog.confirm({
+      title: "Delete Alert Rule",
+      description: `Are you sure to delete alert rule "${rule.name}"?`,
+      dialogButtons: [
+        {
+          text: "Delete",
+          variant: "destructive",
+          default: true,
+          onClick: async () => {
+            manager.deleteRule(rule.id);
+            return true;
+          },
+        },
+        { text: "Cancel", default: false, onClick: async () => true },
+      ],
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      {rules.map((rule) => {
+        const status = manager.getStatus(rule.id);
+        return (
+          <div key={rule.id} className="flex items-center gap-2 rounded-md border p-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate">{rule.name}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {formatCondition(rule)} on {rule.connectionName}
+              </div>
+              <div className={cn("text-xs", status && STATE_CLASS_NAMES[status.state])}>
+                {!manager.isEvaluated(rule)
+                  ? rule.enabled
+                    ? "Not evaluated, the connection is not open"
+                    : "Disabled"
+                  : status
+                    ? `${status.state}${status.value !== undefined ? `, value ${status.value}` : ""}${status.error ? `, ${status.error}` : ""}`
+                    : "Waiting for the first evaluation"}
+              </div>
+            </div>
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={(enabled) => manager.saveRule({ ...rule, enabled })}
+            />
+            {connection && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Edit"
+                onClick={() => showAlertRuleEditDialog({ rule, connection })}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Delete"
+              onClick={() => handleDelete(rule)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Sidebar entry of alerts. It also runs the background evaluation of the rules of the current connection.
+ */
+export function AlertsSidebarMenuItem() {
+  const { connection } = useConnection();
+  const [open, setOpen] = useState(false);
+  useAlertManagerVersion();
+
+  useEffect(() => {
+    if (!connection) {
+      return;
+    }
+    const manager = AlertManager.getInstance();
+    manager.start(connection);
+    return () => manager.stop();
+  }, [connection]);
+
+  const firingCount = AlertManager.getInstance().getFiringRules().length;
+
+  return (
+    <SidebarMenuItem>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <SidebarMenuButton
+            size="default"
+            tooltip={{
+              children: firingCount > 0 ? `${firingCount} alert(s) firing` : "Alerts",
+              className: "bg-primary text-primary-foreground text-xs px-2 py-1 border-0 rounded-sm",
+            }}
+          >
+            {firingCount > 0 ? (
+              <BellRing className="h-5 w-5 text-destructive" />
+            ) : (
+              <Bell className="h-5 w-5" />
+            )}
+            <span>Alerts</span>
+          </SidebarMenuButton>
+        </PopoverTrigger>
+        <PopoverContent side="right" align="start" className="w-[420px] p-2">
+          <Tabs defaultValue={firingCount > 0 ? "firing" : "rules"}>
+            <TabsList className="w-full">
+              <TabsTrigger value="firing" className="flex-1">
+                Firing ({firingCount})
+              </TabsTrigger>
+              <TabsTrigger value="history" className="flex-1">
+                History
+              </TabsTrigger>
+              <TabsTrigger value="rules" className="flex-1">
+                Rules
+              </TabsTrigger>
+            </TabsList>
+            <div className="max-h-[60vh] overflow-auto mt-2">
+              <TabsContent value="firing">
+                <FiringList />
+              </TabsContent>
+              <TabsContent value="history">
+                <HistoryList />
+              </TabsContent>
+              <TabsContent value="rules">
+                <RuleList />
+              </TabsContent>
+            </div>
+          </Tabs>
+        </PopoverContent>
+      </Popover>
+      {firingCount > 0 && (
+        <SidebarMenuBadge className="bg-destructive text-destructive-foreground">
+          {firingCount}
+        </SidebarMenuBadge>
+      )}
+    </SidebarMenuItem>
+  );
+}
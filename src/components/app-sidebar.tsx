@@ -1,8 +1,13 @@
+import { AlertsSidebarMenuItem } from "@/components/alerting/alerts-sidebar-menu-item";
 import { AppLogo } from "@/components/app-logo";
 import { useChatPanel } from "@/components/chat/view/use-chat-panel";
 import { useConnection } from "@/components/connection/connection-context";
 import { ConnectionSelector } from "@/components/connection/connection-selector";
 import { ConnectionSelectorDialog } from "@/components/connection/connection-selector-dialog";
+import {
+  CustomDashboardManager,
+  type CustomDashboard,
+} from "@/components/dashboard-tab/custom-dashboard-manager";
 import { openReleaseNotes } from "@/components/release-note/release-notes-view";
 import { SYSTEM_TABLE_REGISTRY } from "@/components/system-table-tab/system-table-registry";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
@@ -39,13 +44,17 @@ import {
   ChartLine,
   ChevronRight,
   Database,
+  GitCompare,
   HelpCircle,
   History,
+  LayoutDashboard,
   LogOut,
   Monitor,
   Network,
+  Plus,
   ScrollText,
   Settings,
+  ShieldCheck,
   Sparkles,
   Terminal,
 } from "lucide-react";
@@ -257,9 +266,30 @@ function SystemTableIntrospectionSidebarMenuItem() {
   );
 }
 
+function useCustomDashboards(): CustomDashboard[] {
+  const manager = CustomDashboardManager.getInstance();
+  const [dashboards, setDashboards] = useState(() => manager.getDashboards());
+
+  useEffect(() => {
+    return manager.subscribe(() => setDashboards(manager.getDashboards()));
+  }, [manager]);
+
+  return dashboards;
+}
+
+function openCustomDashboardTab(dashboard: CustomDashboard) {
+  TabManager.openTab({
+    id: `dashboard:${dashboard.id}`,
+    type: "dashboard",
+    dashboardId: dashboard.id,
+    title: dashboard.name,
+  });
+}
+
 function DashboardSidebarMenuItem() {
   const { connection } = useConnection();
   const { state } = useSidebar();
+  const customDashboards = useCustomDashboards();
   const isClusterMode = connection?.cluster && connection.cluster.length > 0;
   const isExpanded = state === "expanded";
 
@@ -279,7 +309,11 @@ function DashboardSidebarMenuItem() {
     });
   };
 
-  if (isClusterMode && isExpanded) {
+  const createCustomDashboard = () => {
+    openCustomDashboardTab(CustomDashboardManager.getInstance().createDashboard("New Dashboard"));
+  };
+
+  if (isExpanded) {
     return (
       <SidebarMenuItem>
         <SidebarMenuButton size="default" tooltip="Dashboard">
@@ -292,9 +326,26 @@ function DashboardSidebarMenuItem() {
               <button type="button">Node Status</button>
             </SidebarMenuSubButton>
           </SidebarMenuSubItem>
+          {isClusterMode && (
+            <SidebarMenuSubItem>
+              <SidebarMenuSubButton asChild onClick={openClusterTab}>
+                <button type="button">Cluster Status</button>
+              </SidebarMenuSubButton>
+            </SidebarMenuSubItem>
+          )}
+          {customDashboards.map((dashboard) => (
+            <SidebarMenuSubItem key={dashboard.id}>
+              <SidebarMenuSubButton asChild onClick={() => openCustomDashboardTab(dashboard)}>
+                <button type="button">{dashboard.name}</button>
+              </SidebarMenuSubButton>
+            </SidebarMenuSubItem>
+          ))}
           <SidebarMenuSubItem>
-            <SidebarMenuSubButton asChild onClick={openClusterTab}>
-              <button type="button">Cluster Status</button>
+            <SidebarMenuSubButton asChild onClick={createCustomDashboard}>
+              <button type="button" className="text-muted-foreground">
+                <Plus className="h-4 w-4" />
+                New Dashboard
+              </button>
             </SidebarMenuSubButton>
           </SidebarMenuSubItem>
         </SidebarMenuSub>
@@ -302,54 +353,64 @@ function DashboardSidebarMenuItem() {
     );
   }
 
-  if (isClusterMode) {
-    return (
-      <HoverCardSidebarMenuItem
-        icon={<ChartLine className="h-5 w-5" />}
-        description="View dashboards"
-        content={(_isOpen, onClose) => (
-          <div className="space-y-1">
+  const itemClassName =
+    "w-full flex items-center gap-2 text-left px-2 py-1.5 text-sm rounded-sm hover:bg-accent hover:text-accent-foreground cursor-pointer transition-colors";
+
+  return (
+    <HoverCardSidebarMenuItem
+      icon={<ChartLine className="h-5 w-5" />}
+      description="View dashboards"
+      content={(_isOpen, onClose) => (
+        <div className="space-y-1">
+          <button
+            className={itemClassName}
+            onClick={() => {
+              openNodeTab();
+              onClose();
+            }}
+          >
+            <Monitor className="h-4 w-4" />
+            Node Status
+          </button>
+          {isClusterMode && (
             <button
-              className="w-full flex items-center gap-2 text-left px-2 py-1.5 text-sm rounded-sm hover:bg-accent hover:text-accent-foreground cursor-pointer transition-colors"
+              className={itemClassName}
               onClick={() => {
-                openNodeTab();
+                openClusterTab();
                 onClose();
               }}
             >
-              <Monitor className="h-4 w-4" />
-              Node Status
+              <Network className="h-4 w-4" />
+              Cluster Status
             </button>
+          )}
+          {customDashboards.map((dashboard) => (
             <button
-              className="w-full flex items-center gap-2 text-left px-2 py-1.5 text-sm rounded-sm hover:bg-accent hover:text-accent-foreground cursor-pointer transition-colors"
+              key={dashboard.id}
+              className={itemClassName}
               onClick={() => {
-                openClusterTab();
+                openCustomDashboardTab(dashboard);
                 onClose();
               }}
             >
-              <Network className="h-4 w-4" />
-              Cluster Status
+              <LayoutDashboard className="h-4 w-4 shrink-0" />
+              <span className="truncate">{dashboard.name}</span>
             </button>
-          </div>
-        )}
-        contentClassName="w-48 p-2"
-      />
-    );
-  }
-
-  return (
-    <SidebarMenuItem>
-      <SidebarMenuButton
-        tooltip={{
-          children: "Dashboard",
-          className: "bg-primary text-primary-foreground text-xs px-2 py-1 border-0 rounded-sm",
-        }}
-        size="default"
-        onClick={openNodeTab}
-      >
-        <ChartLine className="h-5 w-5" />
-        <span>Dashboard</span>
-      </SidebarMenuButton>
-    </SidebarMenuItem>
+          ))}
+          <button
+            className={itemClassName}
+            onClick={() => {
+              createCustomDashboard();
+              onClose();
+            }}
+          >
+            <Plus className="h-4 w-4" />
+            New Dashboard
+          </button>
+        </div>
+      )}
+      contentClassName="w-56 p-2"
+    />
   );
 }
 
@@ -409,6 +470,38 @@ export function AppSidebar() {
 
                 <DashboardSidebarMenuItem />
 
+                <AlertsSidebarMenuItem />
+
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    tooltip={{
+                      children: "Access Control",
+                      className:
+                        "bg-primary text-primary-foreground text-xs px-2 py-1 border-0 rounded-sm",
+                    }}
+                    size="default"
+                    onClick={() => TabManager.openTab({ id: "access", type: "access" })}
+                  >
+                    <ShieldCheck className="h-5 w-5" />
+                    <span>Access Control</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    tooltip={{
+                      children: "Schema Diff",
+                      className:
+                        "bg-primary text-primary-foreground text-xs px-2 py-1 border-0 rounded-sm",
+                    }}
+                    size="default"
+                    onClick={() => TabManager.openTab({ id: "schema-diff", type: "schema-diff" })}
+                  >
+                    <GitCompare className="h-5 w-5" />
+                    <span>Schema Diff</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+
                 <SystemTableIntrospectionSidebarMenuItem />
 
                 <SettingsSidebarMenuItem />
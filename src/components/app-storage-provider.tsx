@@ -1,9 +1,12 @@
 "use client";
 
+import { registerClickHouseStorageProvider } from "@/lib/storage/clickhouse-storage-provider";
 import { DEFAULT_USER_ID, StorageManager } from "@/lib/storage/storage-provider-manager";
 import { useSession } from "next-auth/react";
 import { useEffect } from "react";
 
+registerClickHouseStorageProvider();
+
 /**
  * Normalize email for use as storage user id (one user per email across providers).
  * Returns null for empty/whitespace input.
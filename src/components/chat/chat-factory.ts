@@ -1,10 +1,13 @@
 import { AgentConfigurationManager } from "@/components/settings/agent/agent-manager";
 import { ModelManager } from "@/components/settings/models/model-manager";
+import { CustomSkillManager } from "@/components/settings/skills/custom-skill-manager";
 import type { PlanToolOutput } from "@/lib/ai/agent/plan/planning-types";
+import type { InputModel } from "@/lib/ai/agent/plan/sub-agent-registry";
 import type { AppUIMessage, Message, MessageMetadata } from "@/lib/ai/chat-types";
 import { MODELS } from "@/lib/ai/llm/llm-provider-factory";
 import type { StageStatus, ToolProgressCallback } from "@/lib/ai/tools/client/client-tool-types";
 import { CLIENT_TOOL_NAMES, ClientToolExecutors } from "@/lib/ai/tools/client/client-tools";
+import { useSqlApprovalStore } from "@/lib/ai/tools/client/sql-approval-store";
 import { useToolProgressStore } from "@/lib/ai/tools/client/tool-progress-store";
 import { SERVER_TOOL_NAMES } from "@/lib/ai/tools/server/server-tool-names";
 import { Connection } from "@/lib/connection/connection";
@@ -39,9 +42,7 @@ export class ChatFactory {
   /**
    * Get the current model configuration based on user settings
    */
-  private static getCurrentModelConfig():
-    | { provider: string; modelId: string; apiKey: string }
-    | undefined {
+  private static getCurrentModelConfig(): InputModel | undefined {
     const modelManager = ModelManager.getInstance();
     const selectedModel = modelManager.getSelectedModel();
 
@@ -55,6 +56,18 @@ export class ChatFactory {
     const { provider, modelId } = selectedModel;
     const providerSettings = modelManager.getProviderSettings();
     const providerSetting = providerSettings.find((p) => p.provider === provider);
+
+    // Custom providers carry their endpoint, their API key is optional
+    const customModelConfig = modelManager.getCustomModelConfig(provider, modelId);
+    if (customModelConfig) {
+      return {
+        provider,
+        modelId,
+        apiKey: providerSetting?.apiKey ?? "",
+        ...customModelConfig,
+      };
+    }
+
     if (!providerSetting?.apiKey) return undefined;
 
     return {
@@ -72,11 +85,7 @@ export class ChatFactory {
     connection: Connection;
     skipStorage?: boolean;
     apiEndpoint?: string;
-    model?: {
-      provider: string;
-      modelId: string;
-      apiKey: string;
-    };
+    model?: InputModel;
   }): Promise<Chat<AppUIMessage>> {
     const chatId = options.id || uuidv7();
     const skipStorage = options.skipStorage ?? false;
@@ -85,6 +94,8 @@ export class ChatFactory {
 
     // Clear all progress when a new session starts
     useToolProgressStore.getState().clearAllProgress();
+    // Statements of the previous session can no longer be approved
+    useSqlApprovalStore.getState().denyAll();
 
     // Load existing messages from storage to restore chat history
     const historicalMessages = skipStorage ? [] : await chatStorage.getMessages(chatId);
@@ -173,6 +184,9 @@ export class ChatFactory {
               messageId,
               agentContext: {
                 pruneValidateSql: AgentConfigurationManager.getConfiguration().pruneValidateSql,
+                customSkills: CustomSkillManager.getInstance().getSkillsForConnection(
+                  connection.name
+                ),
               },
               ...(ChatContext.build() && { context: ChatContext.build() }),
               ...(currentModel && { model: currentModel }),
@@ -228,7 +242,7 @@ export class ChatFactory {
             useToolProgressStore.getState()
           );
 
-          const output = await executor(input as any, connection, progressCallback);
+          const output = await executor(input as any, connection, progressCallback, toolCallId);
           chat.addToolOutput({
             tool: toolName as any,
             toolCallId,
@@ -1,8 +1,57 @@
+import { Button } from "@/components/ui/button";
 import type { AppUIMessage, ToolPart } from "@/lib/ai/chat-types";
+import { useSqlApprovalStore } from "@/lib/ai/tools/client/sql-approval-store";
+import { ShieldAlert } from "lucide-react";
 import { memo } from "react";
 import { CollapsiblePart } from "./collapsible-part";
 import { MessageMarkdownSql } from "./message-markdown-sql";
 
+/**
+ * Card shown while a statement that is not a read waits for the decision of the user
+ */
+function SqlApprovalCard({ toolCallId }: { toolCallId: string }) {
+  const approval = useSqlApprovalStore((state) => state.pending.get(toolCallId));
+  const resolveApproval = useSqlApprovalStore((state) => state.resolveApproval);
+  if (!approval) {
+    return null;
+  }
+
+  return (
+    <div className="my-1 rounded-md border border-amber-500/50 bg-amber-500/5 p-2 text-xs space-y-2">
+      <div className="flex items-center gap-1 font-medium">
+        <ShieldAlert className="h-4 w-4 text-amber-500" />
+        The agent wants to execute a {approval.statementType} statement
+      </div>
+      <MessageMarkdownSql
+        code={approval.sql}
+        showExecuteButton={false}
+        customStyle={{
+          paddingTop: "4px",
+          paddingBottom: "4px",
+          borderRadius: "0.375rem",
+          fontSize: "10px",
+        }}
+      />
+      <div className="text-muted-foreground">
+        Once approved, it runs without the time and result limits applied to the agent&apos;s reads.
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" className="h-6" onClick={() => resolveApproval(toolCallId, true)}>
+          Approve
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-6"
+          onClick={() => resolveApproval(toolCallId, false)}
+        >
+          Deny
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export const MessageToolExecuteSql = memo(function ExecuteSqlPart({
   part,
   isRunning = true,
@@ -10,29 +59,43 @@ export const MessageToolExecuteSql = memo(function ExecuteSqlPart({
   part: AppUIMessage["parts"][0];
   isRunning?: boolean;
 }) {
-  const toolPart = part as ToolPart & { input?: { sql?: string } };
+  const toolPart = part as ToolPart & {
+    input?: { sql?: string };
+    output?: { error?: string; approval?: "approved" | "denied" };
+  };
   const input = toolPart.input;
+  const output = toolPart.output;
   const state = toolPart.state;
 
   return (
-    <CollapsiblePart toolName={"Execute SQL"} state={state} isRunning={isRunning}>
-      {input?.sql && (
-        <>
-          <div className="text-[10px] text-muted-foreground">input:</div>
-          <MessageMarkdownSql
-            code={input.sql}
-            showExecuteButton={false}
-            customStyle={{
-              marginLeft: "0.5rem",
-              paddingLeft: "0.5rem",
-              paddingTop: "0rem",
-              paddingBottom: "0rem",
-              borderRadius: "0.375rem",
-              fontSize: "10px",
-            }}
-          />
-        </>
+    <>
+      <CollapsiblePart toolName={"Execute SQL"} state={state} isRunning={isRunning}>
+        {input?.sql && (
+          <>
+            <div className="text-[10px] text-muted-foreground">input:</div>
+            <MessageMarkdownSql
+              code={input.sql}
+              showExecuteButton={false}
+              customStyle={{
+                marginLeft: "0.5rem",
+                paddingLeft: "0.5rem",
+                paddingTop: "0rem",
+                paddingBottom: "0rem",
+                borderRadius: "0.375rem",
+                fontSize: "10px",
+              }}
+            />
+          </>
+        )}
+        {output?.approval && (
+          <div className="mt-1 text-[10px] text-muted-foreground">
+            {output.approval === "approved" ? "Approved by the user" : "Denied by the user"}
+          </div>
+        )}
+      </CollapsiblePart>
+      {state === "input-available" && toolPart.toolCallId && (
+        <SqlApprovalCard toolCallId={toolPart.toolCallId} />
       )}
-    </CollapsiblePart>
+    </>
   );
 });
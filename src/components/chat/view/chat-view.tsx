@@ -3,6 +3,7 @@
 import { AppLogo } from "@/components/app-logo";
 import { useConnection } from "@/components/connection/connection-context";
 import type { AppUIMessage } from "@/lib/ai/chat-types";
+import { useSqlApprovalStore } from "@/lib/ai/tools/client/sql-approval-store";
 import "@/lib/number-utils"; // Ensure formatTimeDiff is available
 
 import { useChat, type Chat } from "@ai-sdk/react";
@@ -100,6 +101,12 @@ export const ChatView = forwardRef<ChatViewHandle, ChatViewProps>(function ChatV
   }, [externalInput, chat.id]);
   const { messages, error, sendMessage, status, stop } = useChat({ chat });
 
+  const handleStop = useCallback(() => {
+    // Statements waiting for approval are denied so that their tool calls complete
+    useSqlApprovalStore.getState().denyAll();
+    stop();
+  }, [stop]);
+
   // Focus input when ChatView is mounted
   useEffect(() => {
     // Use a small delay to ensure ChatInput is fully mounted
@@ -219,7 +226,7 @@ export const ChatView = forwardRef<ChatViewHandle, ChatViewProps>(function ChatV
         <ChatInput
           ref={chatInputRef}
           onSubmit={handleSubmit}
-          onStop={stop}
+          onStop={handleStop}
           isRunning={isRunning}
           hasMessages={messages.length > 0}
           tokenUsage={tokenUsage}
@@ -1,3 +1,4 @@
+import { parseWorkspacePath } from "@/components/tab-workspace";
 import { Connection, type ConnectionMetadata } from "@/lib/connection/connection";
 import type { ConnectionConfig } from "@/lib/connection/connection-config";
 import { ConnectionManager } from "@/lib/connection/connection-manager";
@@ -34,6 +35,19 @@ export const ConnectionContext = createContext<ConnectionContextType>({
   },
 });
 
+/**
+ * A workspace URL (/c/<connection>/...) selects the connection it was created for if it exists,
+ * otherwise the last selected connection is used.
+ */
+function getInitialConnection(): ConnectionConfig | null {
+  const manager = ConnectionManager.getInstance();
+  const linkedConnectionName = parseWorkspacePath(window.location.pathname)?.connectionName;
+  return (
+    manager.getConnections().find((config) => config.name === linkedConnectionName) ??
+    manager.getLastSelectedOrFirst()
+  );
+}
+
 export function ConnectionProvider({
   children,
   createConnectionFromPending,
@@ -51,7 +65,7 @@ export function ConnectionProvider({
   useEffect(() => {
     setIsInitialized(true);
 
-    const lastUsedConnection = ConnectionManager.getInstance().getLastSelectedOrFirst();
+    const lastUsedConnection = getInitialConnection();
     if (lastUsedConnection) {
       setPendingConfig(lastUsedConnection);
       if (createConnectionFromPending) {
@@ -67,7 +81,7 @@ export function ConnectionProvider({
   useEffect(() => {
     const unsubscribe = StorageManager.getInstance().subscribeToStorageProviderChange(() => {
       if (connection !== null) return; // Keep current connection when switching storage
-      const next = ConnectionManager.getInstance().getLastSelectedOrFirst();
+      const next = getInitialConnection();
       setPendingConfig(next ?? null);
     });
     return unsubscribe;
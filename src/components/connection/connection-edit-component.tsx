@@ -12,14 +12,22 @@ import { Field, FieldGroup, FieldLabel } from "@/components/ui/field";
 import { FieldDescription } from "@/components/ui/field-description";
 import { Input } from "@/components/ui/input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Connection, QueryError } from "@/lib/connection/connection";
-import type { ConnectionConfig } from "@/lib/connection/connection-config";
+import {
+  CONNECTION_AUTH_TYPES,
+  hasPasswordCredential,
+  type ConnectionAuthType,
+  type ConnectionConfig,
+} from "@/lib/connection/connection-config";
 import { ConnectionManager } from "@/lib/connection/connection-manager";
+import { VaultError } from "@/lib/storage/credential-vault";
+import { toastManager } from "@/lib/toast";
 import { cn } from "@/lib/utils";
 import * as PopoverPrimitive from "@radix-ui/react-popover";
 import axios from "axios";
-import { AlertCircle, CheckCircle2, Eye, EyeOff, Loader2 } from "lucide-react";
+import { AlertCircle, CheckCircle2, ChevronDown, Eye, EyeOff, Loader2 } from "lucide-react";
 import {
   useCallback,
   useEffect,
@@ -33,6 +41,45 @@ import {
 // Type for test status
 type TestStatus = { type: "success" | "error"; message: string } | null;
 
+// Custom headers are edited as one 'Name: value' pair per line
+function formatCustomHeaders(headers: Record<string, string> | undefined): string {
+  return Object.entries(headers ?? {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+function parseCustomHeaders(text: string): Record<string, string> | string {
+  const headers: Record<string, string> = {};
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line.length === 0) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    const name = separator > 0 ? line.substring(0, separator).trim() : "";
+    if (!/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(name)) {
+      return `Line ${i + 1} is not a valid 'Name: value' header.`;
+    }
+    headers[name] = line.substring(separator + 1).trim();
+  }
+  return headers;
+}
+
+// Secrets can't be saved while the credential vault is locked, tell the user instead of failing silently
+function saveConnection(save: () => void): boolean {
+  try {
+    save();
+    return true;
+  } catch (e) {
+    if (e instanceof VaultError) {
+      toastManager.show(e.message, "error");
+      return false;
+    }
+    throw e;
+  }
+}
+
 // Exported component for inline use (e.g., in ConnectionWizard)
 export function StatusPopover({
   children,
@@ -92,6 +139,11 @@ export function ConnectionEditComponent({
   const [url, setUrl] = useState(connection ? connection.url : "");
   const [user, setUser] = useState(connection ? connection.user : "");
   const [password, setPassword] = useState(connection ? connection.password : "");
+  const [authType, setAuthType] = useState<ConnectionAuthType>(connection?.authType ?? "basic");
+  const [token, setToken] = useState(connection?.token ?? "");
+  const [customHeaders, setCustomHeaders] = useState(
+    formatCustomHeaders(connection?.customHeaders)
+  );
   const [editable, setEditable] = useState(connection ? connection.editable : true);
   const [currentSelectedConnection, setCurrentSelectedConnection] =
     useState<ConnectionConfig | null>(connection);
@@ -154,6 +206,7 @@ export function ConnectionEditComponent({
             password: "",
             cluster: conn.isCluster ? conn.name : "",
             editable: false,
+            authType: "basic",
           };
         });
 
@@ -212,12 +265,24 @@ export function ConnectionEditComponent({
       cURL.pathname = "/";
     }
 
+    // The user is sent to the server only when the auth type carries user/password
     const userText = user.trim();
-    if (userText.length === 0) {
+    if (userText.length === 0 && hasPasswordCredential(authType)) {
       setFieldError("user", "User can't be empty.");
       hasError = true;
     }
 
+    if (authType === "bearer" && token.trim().length === 0) {
+      setFieldError("token", "Token can't be empty.");
+      hasError = true;
+    }
+
+    const headers = parseCustomHeaders(customHeaders);
+    if (typeof headers === "string") {
+      setFieldError("customHeaders", headers);
+      hasError = true;
+    }
+
     if (hasError) {
       return;
     }
@@ -226,13 +291,28 @@ export function ConnectionEditComponent({
       name: name,
       url: cURL!.href,
       user: userText,
-      password: password,
+      password: hasPasswordCredential(authType) ? password : "",
       cluster: cluster.trim(),
       editable: editable,
+      authType: authType,
+      token: authType === "bearer" ? token.trim() : "",
+      customHeaders: headers as Record<string, string>,
     };
 
     return newConnection;
-  }, [name, cluster, url, user, password, editable, clearFieldErrors, setFieldError]);
+  }, [
+    name,
+    cluster,
+    url,
+    user,
+    password,
+    authType,
+    token,
+    customHeaders,
+    editable,
+    clearFieldErrors,
+    setFieldError,
+  ]);
 
   // Save handler
   const stableHandleSave = useCallback(async (): Promise<boolean> => {
@@ -255,7 +335,9 @@ export function ConnectionEditComponent({
         return false; // Keep dialog open
       }
 
-      manager.add(editingConnection);
+      if (!saveConnection(() => manager.add(editingConnection))) {
+        return false; // Keep dialog open
+      }
     } else {
       // edit mode
       // If name changed, the name must not be in the saved connection
@@ -269,7 +351,11 @@ export function ConnectionEditComponent({
         }
       }
 
-      manager.replace(currentSelectedConnection!.name, editingConnection);
+      if (
+        !saveConnection(() => manager.replace(currentSelectedConnection!.name, editingConnection))
+      ) {
+        return false; // Keep dialog open
+      }
     }
 
     // Get the saved connection from manager to ensure consistency
@@ -329,6 +415,9 @@ export function ConnectionEditComponent({
     setUrl(conn.url);
     setUser(conn.user);
     setPassword(conn.password);
+    setAuthType(conn.authType ?? "basic");
+    setToken(conn.token ?? "");
+    setCustomHeaders(formatCustomHeaders(conn.customHeaders));
     setIsNameManuallyEdited(true); // Template names are pre-set, so mark as manually edited
   }, []);
 
@@ -377,6 +466,26 @@ export function ConnectionEditComponent({
     []
   );
 
+  const handleTokenChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setToken(e.target.value);
+      if (fieldErrors.token) {
+        setFieldError("token", "");
+      }
+    },
+    [fieldErrors.token, setFieldError]
+  );
+
+  const handleCustomHeadersChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      setCustomHeaders(e.target.value);
+      if (fieldErrors.customHeaders) {
+        setFieldError("customHeaders", "");
+      }
+    },
+    [fieldErrors.customHeaders, setFieldError]
+  );
+
   const handleClusterChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => setCluster(e.target.value),
     []
@@ -538,7 +647,9 @@ export function ConnectionEditComponent({
         ) {
           setTestResultWithDelay({
             type: "error",
-            message: "User name or password is wrong.",
+            message: hasPasswordCredential(testConnectionConfig.authType)
+              ? "User name or password is wrong."
+              : "Authentication failed.",
           });
           return;
         }
@@ -652,9 +763,46 @@ export function ConnectionEditComponent({
           )}
         </Field>
 
+        <Field className="grid grid-cols-1 gap-y-0.5 sm:grid-cols-[128px_1fr] sm:gap-x-2 sm:gap-y-0 sm:items-center">
+          <FieldLabel htmlFor="authType" className="text-left sm:text-right">
+            Authentication
+          </FieldLabel>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                id="authType"
+                type="button"
+                variant="outline"
+                className="min-h-11 w-full min-w-0 justify-between font-normal"
+                disabled={showDeleteConfirm}
+              >
+                {CONNECTION_AUTH_TYPES.find((t) => t.value === authType)?.label}
+                <ChevronDown className="h-4 w-4 opacity-50" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="z-[10002]">
+              {CONNECTION_AUTH_TYPES.map((t) => (
+                <DropdownMenuItem key={t.value} onClick={() => setAuthType(t.value)}>
+                  {t.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <div className="hidden sm:block" />
+          <FieldDescription className="text-xs sm:col-start-2">
+            {authType === "basic" && "HTTP Basic authentication with user and password"}
+            {authType === "clickhouse-header" &&
+              "User and password are sent in X-ClickHouse-User/X-ClickHouse-Key headers"}
+            {authType === "bearer" && "Token is sent in the Authorization: Bearer header"}
+            {authType === "none" && "No credentials are sent, e.g. they're injected by a proxy"}
+            {!hasPasswordCredential(authType) &&
+              ". Queries can't target a specific node of the cluster with this authentication."}
+          </FieldDescription>
+        </Field>
+
         <Field className="grid grid-cols-1 gap-y-0.5 sm:grid-cols-[128px_1fr] sm:gap-x-2 sm:gap-y-0 sm:items-center">
           <FieldLabel htmlFor="user" className="text-left sm:text-right">
-            User
+            {hasPasswordCredential(authType) ? "User" : "User (Optional)"}
           </FieldLabel>
           <Input
             id="user"
@@ -668,38 +816,109 @@ export function ConnectionEditComponent({
               {fieldErrors.user}
             </FieldDescription>
           ) : (
-            <FieldDescription className="text-xs sm:col-start-2">Server user name</FieldDescription>
+            <FieldDescription className="text-xs sm:col-start-2">
+              {hasPasswordCredential(authType)
+                ? "Server user name"
+                : "Server user name, only used to identify this connection"}
+            </FieldDescription>
           )}
         </Field>
 
-        <Field className="grid grid-cols-1 gap-y-0.5 sm:grid-cols-[128px_1fr] sm:gap-x-2 sm:gap-y-0 sm:items-center">
-          <FieldLabel htmlFor="password" className="text-left sm:text-right">
-            Password
+        {hasPasswordCredential(authType) && (
+          <Field className="grid grid-cols-1 gap-y-0.5 sm:grid-cols-[128px_1fr] sm:gap-x-2 sm:gap-y-0 sm:items-center">
+            <FieldLabel htmlFor="password" className="text-left sm:text-right">
+              Password
+            </FieldLabel>
+            <div className="relative w-full min-w-0">
+              <Input
+                id="password"
+                type={isShowPassword ? "text" : "password"}
+                value={password}
+                onChange={handlePasswordChange}
+                className="min-h-11 w-full pr-10"
+                autoComplete="current-password"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent min-h-11"
+                onClick={() => setShowPassword((prev) => !prev)}
+                disabled={showDeleteConfirm}
+              >
+                {isShowPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+            </div>
+            <div className="hidden sm:block" />
+            <FieldDescription className="text-xs sm:col-start-2">
+              Optional. Leave blank if not needed.
+            </FieldDescription>
+          </Field>
+        )}
+
+        {authType === "bearer" && (
+          <Field className="grid grid-cols-1 gap-y-0.5 sm:grid-cols-[128px_1fr] sm:gap-x-2 sm:gap-y-0 sm:items-center">
+            <FieldLabel htmlFor="token" className="text-left sm:text-right">
+              Token
+            </FieldLabel>
+            <div className="relative w-full min-w-0">
+              <Input
+                id="token"
+                type={isShowPassword ? "text" : "password"}
+                value={token}
+                onChange={handleTokenChange}
+                className={cn("min-h-11 w-full pr-10", fieldErrors.token && "border-destructive")}
+                autoComplete="off"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent min-h-11"
+                onClick={() => setShowPassword((prev) => !prev)}
+                disabled={showDeleteConfirm}
+              >
+                {isShowPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+            </div>
+            <div className="hidden sm:block" />
+            {fieldErrors.token ? (
+              <FieldDescription className="text-destructive text-xs sm:col-start-2">
+                {fieldErrors.token}
+              </FieldDescription>
+            ) : (
+              <FieldDescription className="text-xs sm:col-start-2">
+                Bearer token such as a JWT issued by your gateway
+              </FieldDescription>
+            )}
+          </Field>
+        )}
+
+        <Field className="grid grid-cols-1 gap-y-0.5 sm:grid-cols-[128px_1fr] sm:gap-x-2 sm:gap-y-0 sm:items-start">
+          <FieldLabel htmlFor="customHeaders" className="text-left sm:text-right sm:pt-2">
+            Headers (Optional)
           </FieldLabel>
-          <div className="relative w-full min-w-0">
-            <Input
-              id="password"
-              type={isShowPassword ? "text" : "password"}
-              value={password}
-              onChange={handlePasswordChange}
-              className="min-h-11 w-full pr-10"
-              autoComplete="current-password"
-            />
-            <Button
-              type="button"
-              variant="ghost"
-              size="icon"
-              className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent min-h-11"
-              onClick={() => setShowPassword((prev) => !prev)}
-              disabled={showDeleteConfirm}
-            >
-              {isShowPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-            </Button>
-          </div>
+          <Textarea
+            id="customHeaders"
+            value={customHeaders}
+            onChange={handleCustomHeadersChange}
+            placeholder="X-Custom-Header: value"
+            rows={2}
+            className={cn(
+              "w-full min-w-0 font-mono text-xs",
+              fieldErrors.customHeaders && "border-destructive"
+            )}
+          />
           <div className="hidden sm:block" />
-          <FieldDescription className="text-xs sm:col-start-2">
-            Optional. Leave blank if not needed.
-          </FieldDescription>
+          {fieldErrors.customHeaders ? (
+            <FieldDescription className="text-destructive text-xs sm:col-start-2">
+              {fieldErrors.customHeaders}
+            </FieldDescription>
+          ) : (
+            <FieldDescription className="text-xs sm:col-start-2">
+              Extra HTTP headers sent with every request, one &apos;Name: value&apos; per line
+            </FieldDescription>
+          )}
         </Field>
 
         <Field className="grid grid-cols-1 gap-y-0.5 sm:grid-cols-[128px_1fr] sm:gap-x-2 sm:gap-y-0 sm:items-center">
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { clampPosition, compactLayout, movePanel, placePanels } from "./custom-dashboard-layout";
+
+describe("custom dashboard layout", () => {
+  it("places panels without positions from left to right", () => {
+    expect(
+      placePanels([
+        { w: 12, h: 4 },
+        { w: 12, h: 6 },
+        { w: 8, h: 4 },
+      ])
+    ).toEqual([
+      { x: 0, y: 0, w: 12, h: 4 },
+      { x: 12, y: 0, w: 12, h: 6 },
+      { x: 0, y: 4, w: 8, h: 4 },
+    ]);
+  });
+
+  it("keeps panels inside the grid", () => {
+    expect(clampPosition({ x: 20, y: -2, w: 8, h: 0 })).toEqual({ x: 16, y: 0, w: 8, h: 1 });
+  });
+
+  it("compacts panels upwards", () => {
+    expect(
+      compactLayout([
+        { x: 0, y: 3, w: 12, h: 4 },
+        { x: 0, y: 10, w: 12, h: 4 },
+      ])
+    ).toEqual([
+      { x: 0, y: 0, w: 12, h: 4 },
+      { x: 0, y: 4, w: 12, h: 4 },
+    ]);
+  });
+
+  it("pushes overlapping panels down when a panel is moved", () => {
+    const layout = [
+      { x: 0, y: 0, w: 12, h: 4 },
+      { x: 12, y: 0, w: 12, h: 4 },
+    ];
+    expect(movePanel(layout, 1, { x: 0, y: 0, w: 12, h: 4 })).toEqual([
+      { x: 0, y: 4, w: 12, h: 4 },
+      { x: 0, y: 0, w: 12, h: 4 },
+    ]);
+  });
+
+  it("moves a panel below the panel it is dropped on", () => {
+    const layout = [
+      { x: 0, y: 0, w: 24, h: 4 },
+      { x: 0, y: 4, w: 24, h: 4 },
+    ];
+    expect(movePanel(layout, 0, { x: 0, y: 6, w: 24, h: 4 })).toEqual([
+      { x: 0, y: 4, w: 24, h: 4 },
+      { x: 0, y: 0, w: 24, h: 4 },
+    ]);
+  });
+});
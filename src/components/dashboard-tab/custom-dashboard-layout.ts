@@ -0,0 +1,119 @@
+import type { GridPos } from "@/components/shared/dashboard/dashboard-model";
+
+/** Number of columns of the dashboard grid, see DashboardPanelContainer */
+export const DASHBOARD_GRID_COLUMNS = 24;
+
+export type PanelPosition = Required<GridPos>;
+
+function overlaps(a: PanelPosition, b: PanelPosition): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+/**
+ * Round the position to grid cells and keep the panel inside the grid.
+ */
+export function clampPosition(pos: PanelPosition): PanelPosition {
+  const w = Math.min(DASHBOARD_GRID_COLUMNS, Math.max(1, Math.round(pos.w)));
+  const h = Math.max(1, Math.round(pos.h));
+  return {
+    x: Math.min(DASHBOARD_GRID_COLUMNS - w, Math.max(0, Math.round(pos.x))),
+    y: Math.max(0, Math.round(pos.y)),
+    w,
+    h,
+  };
+}
+
+/**
+ * Move every panel up as far as possible without overlapping the panels above it.
+ */
+export function compactLayout(layout: PanelPosition[]): PanelPosition[] {
+  const result = layout.map((pos) => ({ ...pos }));
+  const order = result
+    .map((_, i) => i)
+    .sort((a, b) => result[a].y - result[b].y || result[a].x - result[b].x);
+
+  const placed: PanelPosition[] = [];
+  for (const i of order) {
+    const pos = result[i];
+    while (pos.y > 0 && !placed.some((other) => overlaps({ ...pos, y: pos.y - 1 }, other))) {
+      pos.y--;
+    }
+    placed.push(pos);
+  }
+  return result;
+}
+
+/**
+ * Push the panels that overlap the panel at the given index down, recursively.
+ */
+function pushOverlappingPanels(layout: PanelPosition[], index: number): PanelPosition[] {
+  const result = layout.map((pos) => ({ ...pos }));
+  const queue = [index];
+  while (queue.length > 0) {
+    const current = result[queue.shift()!];
+    for (let j = 0; j < result.length; j++) {
+      if (j !== index && result[j] !== current && overlaps(current, result[j])) {
+        result[j].y = current.y + current.h;
+        queue.push(j);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Assign positions to the panels, panels without x/y are placed from left to right after the previous panel.
+ */
+export function placePanels(positions: GridPos[]): PanelPosition[] {
+  let cursorX = 0;
+  let cursorY = 0;
+  let rowHeight = 0;
+
+  let layout = positions.map((pos) => {
+    if (pos.x !== undefined && pos.y !== undefined) {
+      return clampPosition(pos as PanelPosition);
+    }
+    const w = Math.min(DASHBOARD_GRID_COLUMNS, Math.max(1, pos.w));
+    if (cursorX + w > DASHBOARD_GRID_COLUMNS) {
+      cursorX = 0;
+      cursorY += rowHeight;
+      rowHeight = 0;
+    }
+    const placed = clampPosition({ x: cursorX, y: cursorY, w, h: pos.h });
+    cursorX += w;
+    rowHeight = Math.max(rowHeight, placed.h);
+    return placed;
+  });
+
+  for (let i = 0; i < layout.length; i++) {
+    layout = pushOverlappingPanels(layout, i);
+  }
+  return compactLayout(layout);
+}
+
+/**
+ * Move or resize the panel at the given index, other panels make room for it.
+ */
+export function movePanel(
+  layout: PanelPosition[],
+  index: number,
+  position: PanelPosition
+): PanelPosition[] {
+  const next = layout.map((pos, i) => (i === index ? clampPosition(position) : { ...pos }));
+
+  // Dropping a panel on the lower part of another panel places it below that panel,
+  // otherwise a panel could never be moved below its neighbour since the layout is compacted upwards
+  const moved = next[index];
+  let settled = false;
+  while (!settled) {
+    settled = true;
+    for (let j = 0; j < next.length; j++) {
+      if (j !== index && next[j].y < moved.y && overlaps(moved, next[j])) {
+        moved.y = next[j].y + next[j].h;
+        settled = false;
+      }
+    }
+  }
+
+  return compactLayout(pushOverlappingPanels(next, index));
+}
@@ -0,0 +1,88 @@
+import type { Dashboard, PanelDescriptor } from "@/components/shared/dashboard/dashboard-model";
+import { StorageManager } from "@/lib/storage/storage-provider-manager";
+import { v7 as uuidv7 } from "uuid";
+
+/**
+ * A dashboard created by the user. Groups are not supported, all charts are panels on one grid.
+ */
+export interface CustomDashboard {
+  id: string;
+  name: string;
+  dashboard: Dashboard & { charts: PanelDescriptor[] };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class CustomDashboardManager {
+  private static instance: CustomDashboardManager;
+
+  public static getInstance(): CustomDashboardManager {
+    return this.instance || (this.instance = new this());
+  }
+
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    // Dashboards may be changed by a remote storage provider
+    StorageManager.getInstance().subscribeToStorageProviderChange(() => this.notifyListeners());
+  }
+
+  // Each dashboard is saved as a child key so that they're synced independently
+  private getStorage() {
+    return StorageManager.getInstance().getStorageProvider().subStorage("dashboards");
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  public getDashboards(): CustomDashboard[] {
+    const storage = this.getStorage();
+    return storage
+      .keys()
+      .map((id) => storage.getChildAsJSON<CustomDashboard | null>(id, () => null))
+      .filter((dashboard): dashboard is CustomDashboard => dashboard !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public getDashboard(id: string): CustomDashboard | undefined {
+    return this.getStorage().getChildAsJSON<CustomDashboard | null>(id, () => null) ?? undefined;
+  }
+
+  public createDashboard(name: string, charts: PanelDescriptor[] = []): CustomDashboard {
+    const now = new Date().toISOString();
+    const dashboard: CustomDashboard = {
+      id: uuidv7(),
+      name,
+      dashboard: { name, version: 3, filter: {}, charts },
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.getStorage().setChildJSON(dashboard.id, dashboard);
+    this.notifyListeners();
+    return dashboard;
+  }
+
+  public saveDashboard(dashboard: CustomDashboard): CustomDashboard {
+    const saved: CustomDashboard = {
+      ...dashboard,
+      dashboard: { ...dashboard.dashboard, name: dashboard.name },
+      updatedAt: new Date().toISOString(),
+    };
+    this.getStorage().setChildJSON(saved.id, saved);
+    this.notifyListeners();
+    return saved;
+  }
+
+  public deleteDashboard(id: string): void {
+    this.getStorage().removeChild(id);
+    this.notifyListeners();
+  }
+}
@@ -0,0 +1,167 @@
+import { isDashboardJSON, parseDashboardJSON } from "@/components/shared/dashboard/dashboard-json";
+import type { PanelDescriptor } from "@/components/shared/dashboard/dashboard-model";
+import {
+  convertGrafanaDashboard,
+  isGrafanaDashboard,
+} from "@/components/shared/dashboard/grafana-dashboard-converter";
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Upload } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import { v7 as uuidv7 } from "uuid";
+
+export interface ImportedDashboard {
+  name: string;
+  charts: PanelDescriptor[];
+}
+
+type ParseResult =
+  | { error: string }
+  | {
+      source: "datastoria" | "grafana";
+      dashboard: ImportedDashboard;
+      problems: string[];
+    };
+
+function parseImport(text: string): ParseResult | null {
+  if (text.trim() === "") {
+    return null;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    return { error: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  try {
+    if (isDashboardJSON(value)) {
+      const json = parseDashboardJSON(value);
+      // Custom dashboards don't support groups, their panels are flattened
+      const charts = json.dashboard.charts.flatMap((chart) =>
+        "datasource" in chart ? [chart] : chart.charts
+      );
+      return { source: "datastoria", dashboard: { name: json.name, charts }, problems: [] };
+    }
+    if (isGrafanaDashboard(value)) {
+      const result = convertGrafanaDashboard(value);
+      return {
+        source: "grafana",
+        dashboard: { name: result.name, charts: result.dashboard.charts },
+        problems: result.untranslated.map(
+          (panel) => `${panel.title} (${panel.type}): ${panel.reason}`
+        ),
+      };
+    }
+    return { error: "The JSON is neither a DataStoria dashboard nor a Grafana dashboard." };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+function DashboardImportContent({
+  onImport,
+}: {
+  onImport: (dashboard: ImportedDashboard) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState("");
+  const result = useMemo(() => parseImport(text), [text]);
+
+  const handleImport = () => {
+    if (!result || "error" in result) {
+      return;
+    }
+    onImport({
+      name: result.dashboard.name,
+      charts: result.dashboard.charts.map((chart) => ({ ...chart, id: chart.id ?? uuidv7() })),
+    });
+    Dialog.close();
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <Label>Dashboard JSON</Label>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) {
+              setText(await file.text());
+            }
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          Choose file...
+        </Button>
+      </div>
+      <Textarea
+        rows={12}
+        className="font-mono text-xs"
+        placeholder="Paste a dashboard exported from DataStoria, or a Grafana dashboard JSON that uses the ClickHouse datasource"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+
+      {result && "error" in result && (
+        <div className="text-xs text-destructive whitespace-pre-wrap">{result.error}</div>
+      )}
+      {result && !("error" in result) && (
+        <div className="text-sm space-y-1">
+          <div>
+            {result.source === "grafana" ? "Grafana dashboard" : "Dashboard"} &quot;
+            {result.dashboard.name}&quot; with {result.dashboard.charts.length} panel(s).
+          </div>
+          {result.problems.length > 0 && (
+            <div className="text-muted-foreground">
+              <div>{result.problems.length} panel(s) could not be translated:</div>
+              <ul className="list-disc pl-5 text-xs max-h-[150px] overflow-auto">
+                {result.problems.map((problem, i) => (
+                  <li key={i}>{problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleImport}
+          disabled={!result || "error" in result || result.dashboard.charts.length === 0}
+        >
+          Import
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show a dialog to import a dashboard from its JSON or from a Grafana dashboard.
+ */
+export function showDashboardImportDialog(onImport: (dashboard: ImportedDashboard) => void) {
+  Dialog.showDialog({
+    title: "Import Dashboard",
+    className: "sm:max-w-[700px]",
+    mainContent: <DashboardImportContent onImport={onImport} />,
+  });
+}
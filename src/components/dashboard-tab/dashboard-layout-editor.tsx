@@ -0,0 +1,208 @@
+import type { PanelDescriptor } from "@/components/shared/dashboard/dashboard-model";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Copy, GripVertical, Pencil, Trash2 } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  clampPosition,
+  DASHBOARD_GRID_COLUMNS,
+  movePanel,
+  placePanels,
+  type PanelPosition,
+} from "./custom-dashboard-layout";
+import { CUSTOM_PANEL_TYPES } from "./panel-editor-dialog";
+
+// Same row height and gap as the DashboardPanelContainer so that the editor looks like the dashboard
+const ROW_HEIGHT = 36;
+const GAP = 8;
+
+interface DragState {
+  index: number;
+  mode: "move" | "resize";
+  startX: number;
+  startY: number;
+  origin: PanelPosition;
+  position: PanelPosition;
+}
+
+interface DashboardLayoutEditorProps {
+  panels: PanelDescriptor[];
+  onChange: (panels: PanelDescriptor[]) => void;
+  onEditPanel: (index: number) => void;
+  onDuplicatePanel: (index: number) => void;
+  onDeletePanel: (index: number) => void;
+}
+
+/**
+ * Edit the position and size of the panels on the 24 column grid by dragging them.
+ */
+export function DashboardLayoutEditor({
+  panels,
+  onChange,
+  onEditPanel,
+  onDuplicatePanel,
+  onDeletePanel,
+}: DashboardLayoutEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const observer = new ResizeObserver((entries) => setWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const layout = useMemo(
+    () => placePanels(panels.map((panel) => panel.gridPos ?? { w: 8, h: 6 })),
+    [panels]
+  );
+
+  // While dragging, show where the panels would be if the panel was dropped at the current position
+  const displayLayout = useMemo(
+    () => (drag ? movePanel(layout, drag.index, drag.position) : layout),
+    [layout, drag]
+  );
+
+  const columnWidth = (width - GAP * (DASHBOARD_GRID_COLUMNS - 1)) / DASHBOARD_GRID_COLUMNS;
+  const rows = Math.max(0, ...displayLayout.map((pos) => pos.y + pos.h));
+
+  const handlePointerDown = (
+    event: React.PointerEvent<HTMLElement>,
+    index: number,
+    mode: DragState["mode"]
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      index,
+      mode,
+      startX: event.clientX,
+      startY: event.clientY,
+      origin: layout[index],
+      position: layout[index],
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLElement>) => {
+    if (!drag || columnWidth <= 0) {
+      return;
+    }
+    const dx = Math.round((event.clientX - drag.startX) / (columnWidth + GAP));
+    const dy = Math.round((event.clientY - drag.startY) / (ROW_HEIGHT + GAP));
+    const { origin } = drag;
+    const position = clampPosition(
+      drag.mode === "move"
+        ? { ...origin, x: origin.x + dx, y: origin.y + dy }
+        : { ...origin, w: origin.w + dx, h: origin.h + dy }
+    );
+    if (
+      position.x !== drag.position.x ||
+      position.y !== drag.position.y ||
+      position.w !== drag.position.w ||
+      position.h !== drag.position.h
+    ) {
+      setDrag({ ...drag, position });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) {
+      return;
+    }
+    const next = movePanel(layout, drag.index, drag.position);
+    setDrag(null);
+    onChange(panels.map((panel, i) => ({ ...panel, gridPos: next[i] })));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full"
+      style={{ height: rows * ROW_HEIGHT + Math.max(0, rows - 1) * GAP }}
+    >
+      {width > 0 &&
+        panels.map((panel, index) => {
+          const pos = displayLayout[index];
+          const isDragging = drag?.index === index;
+          return (
+            <div
+              key={panel.id ?? index}
+              className={cn(
+                "absolute flex flex-col rounded-md border bg-card overflow-hidden",
+                isDragging ? "z-10 border-primary shadow-lg" : "transition-all duration-150"
+              )}
+              style={{
+                left: pos.x * (columnWidth + GAP),
+                top: pos.y * (ROW_HEIGHT + GAP),
+                width: pos.w * columnWidth + (pos.w - 1) * GAP,
+                height: pos.h * ROW_HEIGHT + (pos.h - 1) * GAP,
+              }}
+            >
+              <div className="flex items-center gap-1 px-1 py-1 border-b bg-muted/50">
+                <span
+                  className="cursor-move touch-none text-muted-foreground p-1"
+                  title="Drag to move"
+                  onPointerDown={(e) => handlePointerDown(e, index, "move")}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={() => setDrag(null)}
+                >
+                  <GripVertical className="h-4 w-4" />
+                </span>
+                <span className="flex-1 truncate text-sm font-medium">
+                  {panel.titleOption?.title || "Untitled"}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Edit"
+                  onClick={() => onEditPanel(index)}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Duplicate"
+                  onClick={() => onDuplicatePanel(index)}
+                >
+                  <Copy className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Delete"
+                  onClick={() => onDeletePanel(index)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              <div className="flex-1 min-h-0 p-2 text-xs text-muted-foreground overflow-hidden">
+                <div>{CUSTOM_PANEL_TYPES[panel.type]?.label ?? panel.type}</div>
+                <pre className="mt-1 font-mono whitespace-pre-wrap break-all">
+                  {panel.datasource.sql}
+                </pre>
+              </div>
+              <div
+                className="absolute right-0 bottom-0 h-3 w-3 cursor-se-resize touch-none border-r-2 border-b-2 border-muted-foreground/60"
+                title="Drag to resize"
+                onPointerDown={(e) => handlePointerDown(e, index, "resize")}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+              />
+            </div>
+          );
+        })}
+    </div>
+  );
+}
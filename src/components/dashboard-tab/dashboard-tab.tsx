@@ -0,0 +1,279 @@
+import { toDashboardJSON } from "@/components/shared/dashboard/dashboard-json";
+import type { PanelDescriptor } from "@/components/shared/dashboard/dashboard-model";
+import DashboardPage from "@/components/shared/dashboard/dashboard-page";
+import { Dialog } from "@/components/shared/use-dialog";
+import { TabManager } from "@/components/tab-manager";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { toastManager } from "@/lib/toast";
+import { Download, LayoutDashboard, Pencil, Plus, Save, Trash2, Upload } from "lucide-react";
+import { memo, useEffect, useState } from "react";
+import { v7 as uuidv7 } from "uuid";
+import { CustomDashboardManager, type CustomDashboard } from "./custom-dashboard-manager";
+import { showDashboardImportDialog } from "./dashboard-import-dialog";
+import { DashboardLayoutEditor } from "./dashboard-layout-editor";
+import {
+  createCustomPanel,
+  CUSTOM_PANEL_TYPES,
+  showPanelEditorDialog,
+} from "./panel-editor-dialog";
+
+interface DashboardTabProps {
+  tabId?: string;
+  dashboardId: string;
+}
+
+function useCustomDashboard(dashboardId: string): CustomDashboard | undefined {
+  const manager = CustomDashboardManager.getInstance();
+  const [dashboard, setDashboard] = useState(() => manager.getDashboard(dashboardId));
+
+  useEffect(() => {
+    setDashboard(manager.getDashboard(dashboardId));
+    return manager.subscribe(() => setDashboard(manager.getDashboard(dashboardId)));
+  }, [manager, dashboardId]);
+
+  return dashboard;
+}
+
+function exportDashboard(dashboard: CustomDashboard) {
+  const { json, warnings } = toDashboardJSON(dashboard.name, dashboard.dashboard);
+  const blob = new Blob([JSON.stringify(json, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${dashboard.name.replace(/[^\w.-]+/g, "_")}.dashboard.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+  if (warnings.length > 0) {
+    toastManager.show(
+      `Exported with ${warnings.length} field(s) dropped:\n${warnings.join("\n")}`,
+      "warning"
+    );
+  }
+}
+
+function AddPanelButton({ onAdd }: { onAdd: (type: string) => void }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-1">
+          <Plus className="h-4 w-4" />
+          Add panel
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {Object.entries(CUSTOM_PANEL_TYPES).map(([type, { label }]) => (
+          <DropdownMenuItem key={type} onClick={() => onAdd(type)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface DashboardEditorProps {
+  tabId?: string;
+  dashboard: CustomDashboard;
+  onClose: () => void;
+}
+
+function DashboardEditor({ tabId, dashboard, onClose }: DashboardEditorProps) {
+  const [name, setName] = useState(dashboard.name);
+  const [panels, setPanels] = useState<PanelDescriptor[]>(dashboard.dashboard.charts);
+
+  const editPanel = (index: number) => {
+    showPanelEditorDialog({
+      panel: panels[index],
+      onSave: (panel) => setPanels((prev) => prev.map((p, i) => (i === index ? panel : p))),
+    });
+  };
+
+  const addPanel = (type: string) => {
+    showPanelEditorDialog({
+      panel: createCustomPanel(type),
+      // The layout editor places panels without x/y after the last panel
+      onSave: (panel) => setPanels((prev) => [...prev, panel]),
+    });
+  };
+
+  const duplicatePanel = (index: number) => {
+    const source = panels[index];
+    const copy: PanelDescriptor = {
+      ...structuredClone(source),
+      id: uuidv7(),
+      gridPos: source.gridPos ? { w: source.gridPos.w, h: source.gridPos.h } : undefined,
+    };
+    setPanels((prev) => [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)]);
+  };
+
+  const deletePanel = (index: number) => {
+    setPanels((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (trimmed === "") {
+      toastManager.show("Dashboard name can't be empty.", "error");
+      return;
+    }
+    CustomDashboardManager.getInstance().saveDashboard({
+      ...dashboard,
+      name: trimmed,
+      dashboard: { ...dashboard.dashboard, charts: panels },
+    });
+    if (tabId) {
+      TabManager.updateTabTitle(tabId, trimmed);
+    }
+    onClose();
+  };
+
+  // Importing replaces the panels being edited, nothing is saved until the user clicks Save
+  const handleImport = () => {
+    showDashboardImportDialog((imported) => {
+      setName(imported.name);
+      setPanels(imported.charts);
+    });
+  };
+
+  const handleDelete = () => {
+    Dialog.confirm({
+      title: "Delete Dashboard",
+      description: `Are you sure to delete dashboard "${dashboard.name}"? This can't be undone.`,
+      dialogButtons: [
+        {
+          text: "Delete",
+          variant: "destructive",
+          default: true,
+          onClick: async () => {
+            CustomDashboardManager.getInstance().deleteDashboard(dashboard.id);
+            if (tabId) {
+              TabManager.closeTab(tabId);
+            }
+            return true;
+          },
+        },
+        { text: "Cancel", default: false, onClick: async () => true },
+      ],
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full overflow-hidden p-2 gap-2">
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 w-[300px]"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Dashboard name"
+        />
+        <div className="flex-1" />
+        <AddPanelButton onAdd={addPanel} />
+        <Button variant="outline" size="sm" className="h-8 gap-1" onClick={handleImport}>
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 gap-1" onClick={handleDelete}>
+          <Trash2 className="h-4 w-4" />
+          Delete
+        </Button>
+        <Button variant="outline" size="sm" className="h-8" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button size="sm" className="h-8 gap-1" onClick={handleSave}>
+          <Save className="h-4 w-4" />
+          Save
+        </Button>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto">
+        {panels.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            No panels yet. Use &quot;Add panel&quot; to create one.
+          </div>
+        ) : (
+          <DashboardLayoutEditor
+            panels={panels}
+            onChange={setPanels}
+            onEditPanel={editPanel}
+            onDuplicatePanel={duplicatePanel}
+            onDeletePanel={deletePanel}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export const DashboardTab = memo(({ tabId, dashboardId }: DashboardTabProps) => {
+  const dashboard = useCustomDashboard(dashboardId);
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (!dashboard) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-2 text-muted-foreground">
+        <LayoutDashboard className="h-8 w-8" />
+        <div className="text-sm">This dashboard does not exist or has been deleted.</div>
+      </div>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <DashboardEditor tabId={tabId} dashboard={dashboard} onClose={() => setIsEditing(false)} />
+    );
+  }
+
+  if (dashboard.dashboard.charts.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-2 text-muted-foreground">
+        <LayoutDashboard className="h-8 w-8" />
+        <div className="text-sm">This dashboard has no panels yet.</div>
+        <Button variant="outline" size="sm" className="gap-1" onClick={() => setIsEditing(true)}>
+          <Pencil className="h-4 w-4" />
+          Edit dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <DashboardPage
+      // Re-create the panels when the dashboard is saved
+      key={dashboard.updatedAt}
+      panels={dashboard.dashboard}
+      headerActions={
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 gap-1"
+            title="Export dashboard as JSON"
+            onClick={() => exportDashboard(dashboard)}
+          >
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 gap-1"
+            title="Edit dashboard"
+            onClick={() => setIsEditing(true)}
+          >
+            <Pencil className="h-4 w-4" />
+            Edit
+          </Button>
+        </>
+      }
+    />
+  );
+});
@@ -0,0 +1,378 @@
+import type {
+  GaugeDescriptor,
+  PanelDescriptor,
+  Reducer,
+  StatDescriptor,
+  TimeseriesDescriptor,
+} from "@/components/shared/dashboard/dashboard-model";
+import { DashboardVisualizationPanel } from "@/components/shared/dashboard/dashboard-visualization-panel";
+import { getDisplayTimeSpanByLabel } from "@/components/shared/dashboard/timespan-selector";
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronDown, Play } from "lucide-react";
+import { useMemo, useState } from "react";
+import { v7 as uuidv7 } from "uuid";
+
+const TIMESERIES_SQL = `SELECT
+  toStartOfInterval(event_time, INTERVAL {rounding:UInt32} SECOND)::INT AS t,
+  avg(ProfileEvent_Query) AS query_qps
+FROM system.metric_log
+WHERE event_date >= toDate({from:String})
+  AND event_date <= toDate({to:String})
+  AND event_time >= {from:String}
+  AND event_time < {to:String}
+GROUP BY t
+ORDER BY t WITH FILL STEP {rounding:UInt32}`;
+
+const TABLE_SQL = `SELECT event_time, query_id, query_duration_ms, query
+FROM system.query_log
+WHERE event_date >= toDate({from:String})
+  AND event_time >= {from:String}
+  AND event_time < {to:String}
+  AND type = 'QueryFinish'
+  AND {filterExpression:String}
+ORDER BY query_duration_ms DESC
+LIMIT 100`;
+
+/**
+ * Panel types that can be created in a custom dashboard, with a starting SQL and size for new panels.
+ */
+export const CUSTOM_PANEL_TYPES: Record<
+  string,
+  { label: string; sql: string; gridPos: { w: number; h: number } }
+> = {
+  line: { label: "Time series (line)", sql: TIMESERIES_SQL, gridPos: { w: 8, h: 6 } },
+  bar: { label: "Time series (bar)", sql: TIMESERIES_SQL, gridPos: { w: 8, h: 6 } },
+  area: { label: "Time series (area)", sql: TIMESERIES_SQL, gridPos: { w: 8, h: 6 } },
+  stat: {
+    label: "Stat",
+    sql: `SELECT count() FROM system.processes`,
+    gridPos: { w: 4, h: 4 },
+  },
+  gauge: {
+    label: "Gauge",
+    sql: `SELECT round(100 * sum(free_space) / sum(total_space), 2) FROM system.disks`,
+    gridPos: { w: 4, h: 6 },
+  },
+  pie: {
+    label: "Pie",
+    sql: `SELECT database, sum(bytes_on_disk) AS size\nFROM system.parts\nWHERE active\nGROUP BY database`,
+    gridPos: { w: 8, h: 8 },
+  },
+  table: { label: "Table", sql: TABLE_SQL, gridPos: { w: 24, h: 10 } },
+  "transpose-table": {
+    label: "Transposed table",
+    sql: `SELECT * FROM system.build_options`,
+    gridPos: { w: 12, h: 10 },
+  },
+};
+
+const REDUCERS: Reducer[] = ["last", "first", "min", "max", "avg", "sum", "count"];
+
+const LEGEND_PLACEMENTS = ["inside", "bottom", "none"] as const;
+
+function isTimeseriesType(type: string): boolean {
+  return type === "line" || type === "bar" || type === "area";
+}
+
+/**
+ * Create a panel of the given type with the starting SQL of the type.
+ */
+export function createCustomPanel(type: string): PanelDescriptor {
+  const panelType = CUSTOM_PANEL_TYPES[type];
+  return {
+    id: uuidv7(),
+    type,
+    titleOption: { title: `New ${panelType.label}`, align: "center" },
+    gridPos: { ...panelType.gridPos },
+    datasource: { sql: panelType.sql },
+  };
+}
+
+function SelectDropdown<T extends string>({
+  value,
+  options,
+  onChange,
+}: {
+  value: T;
+  options: Array<{ value: T; label: string }>;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="w-full justify-between h-9">
+          {options.find((option) => option.value === value)?.label ?? value}
+          <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="z-[10002]">
+        <DropdownMenuRadioGroup value={value} onValueChange={(v) => onChange(v as T)}>
+          {options.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface PanelEditorProps {
+  panel: PanelDescriptor;
+  onSave: (panel: PanelDescriptor) => void;
+}
+
+function PanelEditorContent({ panel, onSave }: PanelEditorProps) {
+  const [draft, setDraft] = useState<PanelDescriptor>(() => structuredClone(panel));
+  const [previewVersion, setPreviewVersion] = useState(0);
+
+  // Compute the time span when the preview is requested so that it's the latest one
+  const previewTimeSpan = useMemo(
+    () => getDisplayTimeSpanByLabel("Last 1 Hour").reCalculateTimeSpan(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [previewVersion]
+  );
+
+  const update = (changes: Partial<PanelDescriptor>) => {
+    setDraft((prev) => ({ ...prev, ...changes }) as PanelDescriptor);
+  };
+
+  const stat = draft as StatDescriptor;
+  const timeseries = draft as TimeseriesDescriptor;
+  const gauge = draft as GaugeDescriptor;
+
+  const handleTypeChange = (type: string) => {
+    // Keep common fields, type specific options are not compatible between types
+    setDraft((prev) => ({
+      id: prev.id,
+      type,
+      titleOption: prev.titleOption,
+      gridPos: prev.gridPos,
+      datasource:
+        prev.datasource.sql.trim() === "" ||
+        prev.datasource.sql === CUSTOM_PANEL_TYPES[prev.type]?.sql
+          ? { sql: CUSTOM_PANEL_TYPES[type].sql }
+          : prev.datasource,
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    Dialog.close();
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-[120px_1fr] gap-x-4 gap-y-2 items-center">
+        <Label>Title</Label>
+        <Input
+          value={draft.titleOption?.title ?? ""}
+          onChange={(e) =>
+            update({
+              titleOption: { align: "center", ...draft.titleOption, title: e.target.value },
+            })
+          }
+        />
+
+        <Label>Description</Label>
+        <Input
+          value={draft.titleOption?.description ?? ""}
+          onChange={(e) =>
+            update({
+              titleOption: {
+                title: "",
+                ...draft.titleOption,
+                description: e.target.value || undefined,
+              },
+            })
+          }
+        />
+
+        <Label>Type</Label>
+        <SelectDropdown
+          value={draft.type}
+          options={Object.entries(CUSTOM_PANEL_TYPES).map(([value, { label }]) => ({
+            value,
+            label,
+          }))}
+          onChange={handleTypeChange}
+        />
+
+        <Label>Size</Label>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Input
+            type="number"
+            min={1}
+            max={24}
+            className="w-20"
+            value={draft.gridPos?.w ?? 8}
+            onChange={(e) =>
+              update({ gridPos: { h: 6, ...draft.gridPos, w: Number(e.target.value) } })
+            }
+          />
+          columns (of 24) x
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            value={draft.gridPos?.h ?? 6}
+            onChange={(e) =>
+              update({ gridPos: { w: 8, ...draft.gridPos, h: Number(e.target.value) } })
+            }
+          />
+          rows
+        </div>
+
+        {draft.type === "stat" && (
+          <>
+            <Label>Value</Label>
+            <SelectDropdown
+              value={stat.valueOption?.reducer ?? "last"}
+              options={REDUCERS.map((reducer) => ({ value: reducer, label: reducer }))}
+              onChange={(reducer) =>
+                update({ valueOption: { ...stat.valueOption, reducer } } as Partial<StatDescriptor>)
+              }
+            />
+          </>
+        )}
+
+        {isTimeseriesType(draft.type) && (
+          <>
+            <Label>Legend</Label>
+            <SelectDropdown
+              value={timeseries.legendOption?.placement ?? "inside"}
+              options={LEGEND_PLACEMENTS.map((placement) => ({
+                value: placement,
+                label: placement,
+              }))}
+              onChange={(placement) =>
+                update({
+                  legendOption: { ...timeseries.legendOption, placement },
+                } as Partial<TimeseriesDescriptor>)
+              }
+            />
+          </>
+        )}
+
+        {draft.type === "bar" && (
+          <>
+            <Label>Stacked</Label>
+            <Switch
+              checked={timeseries.stacked ?? false}
+              onCheckedChange={(stacked) => update({ stacked } as Partial<TimeseriesDescriptor>)}
+            />
+          </>
+        )}
+
+        {draft.type === "gauge" && (
+          <>
+            <Label>Range</Label>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Input
+                type="number"
+                className="w-24"
+                value={gauge.gaugeOption?.min ?? 0}
+                onChange={(e) =>
+                  update({
+                    gaugeOption: { ...gauge.gaugeOption, min: Number(e.target.value) },
+                  } as Partial<GaugeDescriptor>)
+                }
+              />
+              to
+              <Input
+                type="number"
+                className="w-24"
+                value={gauge.gaugeOption?.max ?? 100}
+                onChange={(e) =>
+                  update({
+                    gaugeOption: { ...gauge.gaugeOption, max: Number(e.target.value) },
+                  } as Partial<GaugeDescriptor>)
+                }
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <Label>SQL</Label>
+        <Textarea
+          rows={10}
+          className="font-mono text-xs"
+          value={draft.datasource.sql}
+          onChange={(e) => update({ datasource: { ...draft.datasource, sql: e.target.value } })}
+        />
+        <div className="text-xs text-muted-foreground">
+          Template parameters: <code>{"{from:String}"}</code>, <code>{"{to:String}"}</code>,{" "}
+          <code>{"{rounding:UInt32}"}</code>, <code>{"{seconds:UInt32}"}</code>,{" "}
+          <code>{"{startTimestamp:UInt32}"}</code>, <code>{"{endTimestamp:UInt32}"}</code> and{" "}
+          <code>{"{filterExpression:String}"}</code>. Time series queries return the time bucket as
+          the first column.
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center justify-between">
+          <Label>Preview (last 1 hour)</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() => setPreviewVersion((v) => v + 1)}
+          >
+            <Play className="h-3 w-3" />
+            Run
+          </Button>
+        </div>
+        <div className="h-[240px] border rounded-md overflow-hidden">
+          {previewVersion > 0 ? (
+            <DashboardVisualizationPanel
+              key={previewVersion}
+              descriptor={{ ...draft, collapsed: false }}
+              initialTimeSpan={previewTimeSpan}
+              initialLoading={true}
+              className="h-full"
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+              Click Run to preview the panel
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={draft.datasource.sql.trim() === ""}>
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show a dialog to edit the type, SQL and options of a custom dashboard panel.
+ */
+export function showPanelEditorDialog(options: PanelEditorProps) {
+  Dialog.showDialog({
+    title: "Edit Panel",
+    className: "sm:max-w-[800px]",
+    mainContent: <PanelEditorContent {...options} />,
+  });
+}
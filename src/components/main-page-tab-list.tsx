@@ -1,14 +1,22 @@
+import { AccessTab } from "@/components/access-tab/access-tab";
 import { AppLogo } from "@/components/app-logo";
 import { useChatPanel } from "@/components/chat/view/use-chat-panel";
 import { ClusterTab } from "@/components/cluster-tab/cluster-tab";
 import { useConnection } from "@/components/connection/connection-context";
+import { DashboardTab } from "@/components/dashboard-tab/dashboard-tab";
 import { DatabaseTab } from "@/components/database-tab/database-tab";
 import { NodeTab } from "@/components/node-tab/node-tab";
 import { QueryLogInspectorTab } from "@/components/query-log-inspector/query-log-inspector-tab";
 import { QueryTab } from "@/components/query-tab/query-tab";
+import { SchemaDiffTab } from "@/components/schema-diff-tab/schema-diff-tab";
 import { SpanLogInspectorTab } from "@/components/span-log-inspector/span-log-inspector-tab";
 import { SYSTEM_TABLE_REGISTRY } from "@/components/system-table-tab/system-table-registry";
 import { TabManager, type TabInfo } from "@/components/tab-manager";
+import {
+  getWorkspacePath,
+  parseWorkspacePath,
+  TabWorkspaceStorage,
+} from "@/components/tab-workspace";
 import { TableTab } from "@/components/table-tab/table-tab";
 import { Button } from "@/components/ui/button";
 import {
@@ -33,10 +41,13 @@ import {
   ChevronLeft,
   ChevronRight,
   Database,
+  GitCompare,
+  LayoutDashboard,
   Monitor,
   Network,
   ScrollText,
   Search,
+  ShieldCheck,
   Sparkles,
   Table as TableIcon,
   Telescope,
@@ -175,6 +186,8 @@ export const MainPageTabList = memo(function MainPageTabList({
   const [tabs, setTabs] = useState<TabInfo[]>([]);
   const [pendingTabId, setPendingTabId] = useState<string | null>(null);
   const previousConnectionKeyRef = useRef<string | null>(null);
+  // The connection that the tabs in the state belong to
+  const [workspaceConnectionName, setWorkspaceConnectionName] = useState<string | null>(null);
 
   // Scroll state
   const tabsScrollContainerRef = useRef<HTMLDivElement>(null);
@@ -239,58 +252,107 @@ export const MainPageTabList = memo(function MainPageTabList({
     TabManager.sendActiveTabChange(activeTab, tabInfo);
   }, [activeTab, tabs, pendingTabId]);
 
-  // Open query tab and node tab when connection is available (initial load or connection change)
+  // Restore the tabs of the connection when it is available (initial load or connection change).
+  // Without a saved workspace, the query tab and the node tab are opened.
   useEffect(() => {
     const currentConnectionId = selectedConnection?.connectionId ?? null;
     const previousConnectionId = previousConnectionKeyRef.current;
 
     // Open tabs if connection changed OR on initial load with connection
     // This handles both: initial load (previousConnectionId is null) and connection switching
-    if (previousConnectionId !== currentConnectionId && currentConnectionId !== null) {
-      const openTabs: TabInfo[] = tabs.filter((t) => t.type === "query");
-
-      // Find the activated query tab, if not founded, activate the last one
+    if (
+      selectedConnection &&
+      previousConnectionId !== currentConnectionId &&
+      currentConnectionId !== null
+    ) {
+      // Query tabs are kept since they may carry a query that is requested to open, e.g. by a share link
+      const queryTabs: TabInfo[] = tabs.filter((t) => t.type === "query");
+      const workspace = TabWorkspaceStorage.load(selectedConnection.name);
+
+      let openTabs: TabInfo[];
       let activeTabId = "";
-      if (openTabs.length > 0) {
-        if (!openTabs.some((t) => t.id === activeTab)) {
-          // Activate the last query tab
-          activeTabId = openTabs[openTabs.length - 1].id;
+      if (workspace && workspace.tabs.length > 0) {
+        openTabs = workspace.tabs.map((t) => queryTabs.find((q) => q.id === t.id) ?? t);
+        openTabs.push(...queryTabs.filter((q) => !openTabs.some((t) => t.id === q.id)));
+        activeTabId = openTabs.some((t) => t.id === workspace.activeTab)
+          ? workspace.activeTab
+          : openTabs[0].id;
+      } else {
+        openTabs = queryTabs;
+
+        // Find the activated query tab, if not founded, activate the last one
+        if (openTabs.length > 0) {
+          if (!openTabs.some((t) => t.id === activeTab)) {
+            // Activate the last query tab
+            activeTabId = openTabs[openTabs.length - 1].id;
+          } else {
+            // Keep current activated tab unchanged
+            activeTabId = activeTab;
+          }
         } else {
-          // Keep current activated tab unchanged
-          activeTabId = activeTab;
+          // Open and activate query tab
+          openTabs.push({
+            id: "query",
+            type: "query",
+          });
+          activeTabId = "query";
         }
-      } else {
-        // Open and activate query tab
-        openTabs.push({
-          id: "query",
-          type: "query",
-        });
-        activeTabId = "query";
-      }
 
-      // Open query tab and node tab if connection has a target node
-      if (selectedConnection?.metadata.displayName) {
-        const hostName = selectedConnection.metadata.displayName;
-        const shortHostName = hostNameManager.getShortHostname(hostName);
+        // Open query tab and node tab if connection has a target node
+        if (selectedConnection.metadata.displayName) {
+          const hostName = selectedConnection.metadata.displayName;
+          const shortHostName = hostNameManager.getShortHostname(hostName);
 
-        // Open node tab
-        openTabs.push({
-          id: `node:${hostName}`,
-          type: "node",
-          host: shortHostName,
-        });
+          // Open node tab
+          openTabs.push({
+            id: `node:${hostName}`,
+            type: "node",
+            host: shortHostName,
+          });
 
-        // If node tab opens, always activate the node tab
-        activeTabId = `node:${hostName}`;
+          // If node tab opens, always activate the node tab
+          activeTabId = `node:${hostName}`;
+        }
+      }
+
+      // On the initial load, open the tab of the URL the page is loaded from
+      if (previousConnectionId === null) {
+        const linked = parseWorkspacePath(window.location.pathname, window.location.search);
+        if (linked?.tab && linked.connectionName === selectedConnection.name) {
+          const linkedTab = linked.tab;
+          if (!openTabs.some((t) => t.id === linkedTab.id)) {
+            openTabs.push(linkedTab);
+          }
+          activeTabId = linkedTab.id;
+        }
       }
+
       setTabs(openTabs);
       setActiveTab(activeTabId);
+      setWorkspaceConnectionName(selectedConnection.name);
     }
 
     // Update the ref to track the current connection
     previousConnectionKeyRef.current = currentConnectionId;
   }, [selectedConnection, tabs, activeTab]);
 
+  // Save the tabs of the connection and reflect the active tab in the address bar.
+  // Skipped while the tabs of the previous connection are still in the state.
+  useEffect(() => {
+    if (!selectedConnection || workspaceConnectionName !== selectedConnection.name) {
+      return;
+    }
+    TabWorkspaceStorage.save(workspaceConnectionName, { tabs, activeTab });
+
+    const path = getWorkspacePath(
+      workspaceConnectionName,
+      tabs.find((t) => t.id === activeTab) ?? null
+    );
+    if (window.location.pathname + window.location.search !== path) {
+      window.history.replaceState(window.history.state, "", path + window.location.hash);
+    }
+  }, [selectedConnection, workspaceConnectionName, tabs, activeTab]);
+
   // Helper function to get the next tab ID, or previous if no next exists
   const getNextOrPreviousTabId = useCallback((tabId: string, tabsList: TabInfo[]) => {
     // Tabs are in insertion order, so we just use them as-is
@@ -380,6 +442,16 @@ export const MainPageTabList = memo(function MainPageTabList({
     return unsubscribe;
   }, [handleCloseTab]);
 
+  // Handle tab title updates, only dashboard tabs have an editable title
+  useEffect(() => {
+    return TabManager.onUpdateTabTitle((event) => {
+      const { tabId, title } = event.detail;
+      setTabs((prevTabs) =>
+        prevTabs.map((t) => (t.id === tabId && t.type === "dashboard" ? { ...t, title } : t))
+      );
+    });
+  }, []);
+
   // Handle closing tabs to the right of a given tab
   const handleCloseTabsToRight = useCallback(
     (tabId: string) => {
@@ -576,7 +648,9 @@ export const MainPageTabList = memo(function MainPageTabList({
     return sortedTabs
       .map((tab) => {
         if (tab.type === "query") {
-          return { id: tab.id, label: "Query", icon: Terminal };
+          // Additional query tabs are numbered in the order they're opened
+          const index = sortedTabs.filter((t) => t.type === "query").indexOf(tab);
+          return { id: tab.id, label: index > 0 ? `Query ${index + 1}` : "Query", icon: Terminal };
         } else if (tab.type === "query-log") {
           const rawId = tab.queryId || "";
           const prefix = "query log: ";
@@ -603,13 +677,24 @@ export const MainPageTabList = memo(function MainPageTabList({
           return { id: tab.id, label: `${tab.host}`, icon: Monitor };
         } else if (tab.type === "cluster") {
           return { id: tab.id, label: `${tab.cluster}`, icon: Network };
+        } else if (tab.type === "dashboard") {
+          return { id: tab.id, label: tab.title ?? "Dashboard", icon: LayoutDashboard };
         } else if (tab.type === "database") {
           return { id: tab.id, label: `${tab.database}`, icon: Database };
         } else if (tab.type === "table") {
           return { id: tab.id, label: `${tab.database}.${tab.table}`, icon: TableIcon };
         } else if (tab.type === "system-table") {
           const tabTitle = `system.${tab.tableName}`;
+          if (tab.queryId) {
+            const { truncated, wasTruncated } = StringUtils.truncateIdMiddle(tab.queryId);
+            const fullLabel = wasTruncated ? `${tabTitle}: ${tab.queryId}` : undefined;
+            return { id: tab.id, label: `${tabTitle}: ${truncated}`, icon: Telescope, fullLabel };
+          }
           return { id: tab.id, label: tabTitle, icon: Telescope };
+        } else if (tab.type === "access") {
+          return { id: tab.id, label: "Access Control", icon: ShieldCheck };
+        } else if (tab.type === "schema-diff") {
+          return { id: tab.id, label: "Schema Diff", icon: GitCompare };
         }
         return null;
       })
@@ -631,9 +716,12 @@ export const MainPageTabList = memo(function MainPageTabList({
             aria-hidden={activeTab !== tab.id}
           >
             <QueryTab
+              tabId={tab.id}
               initialQuery={tab.initialQuery}
               initialMode={tab.initialMode}
               initialExecute={tab.initialExecute}
+              initialParameters={tab.initialParameters}
+              initialBatch={tab.initialBatch}
               active={activeTab === tab.id}
             />
           </div>
@@ -663,6 +751,18 @@ export const MainPageTabList = memo(function MainPageTabList({
           </div>
         );
       }
+      if (tab.type === "dashboard") {
+        return (
+          <div
+            key={tab.id}
+            className={`h-full ${activeTab === tab.id ? "block" : "hidden"}`}
+            role="tabpanel"
+            aria-hidden={activeTab !== tab.id}
+          >
+            <DashboardTab tabId={tab.id} dashboardId={tab.dashboardId} />
+          </div>
+        );
+      }
       if (tab.type === "database") {
         return (
           <div
@@ -697,7 +797,12 @@ export const MainPageTabList = memo(function MainPageTabList({
             aria-hidden={activeTab !== tab.id}
           >
             {EntryComponent ? (
-              <EntryComponent database="system" table={tab.tableName} />
+              <EntryComponent
+                database="system"
+                table={tab.tableName}
+                queryId={tab.queryId}
+                eventDate={tab.eventDate}
+              />
             ) : (
               <div className="p-4 text-muted-foreground">
                 Introspection component not found for {tab.tableName}
@@ -730,6 +835,30 @@ export const MainPageTabList = memo(function MainPageTabList({
           </div>
         );
       }
+      if (tab.type === "access") {
+        return (
+          <div
+            key={tab.id}
+            className={`h-full ${activeTab === tab.id ? "block" : "hidden"}`}
+            role="tabpanel"
+            aria-hidden={activeTab !== tab.id}
+          >
+            <AccessTab />
+          </div>
+        );
+      }
+      if (tab.type === "schema-diff") {
+        return (
+          <div
+            key={tab.id}
+            className={`h-full ${activeTab === tab.id ? "block" : "hidden"}`}
+            role="tabpanel"
+            aria-hidden={activeTab !== tab.id}
+          >
+            <SchemaDiffTab />
+          </div>
+        );
+      }
       return null;
     });
   }, [sortedTabs, activeTab]);
@@ -2,13 +2,20 @@ import { ChatPanel } from "@/components/chat/view/chat-panel";
 import { useChatPanel } from "@/components/chat/view/use-chat-panel";
 import { useConnection } from "@/components/connection/connection-context";
 import { ConnectionWizard } from "@/components/connection/connection-wizard";
+import { rememberParameterValues } from "@/components/query-tab/saved-query/query-parameter-dialog";
+import { consumeSharedQueryFromLocation } from "@/components/query-tab/saved-query/saved-query-share";
 import { useReleaseDetector } from "@/components/release-note/release-detector";
 import { openReleaseNotes } from "@/components/release-note/release-notes-view";
 import {
   SchemaTreeLoader,
   type SchemaLoadResult,
 } from "@/components/schema-tree/schema-tree-loader";
+import {
+  CredentialVaultUnlockForm,
+  useCredentialVaultState,
+} from "@/components/settings/security/credential-vault-edit";
 import { SidebarPanel } from "@/components/sidebar-panel/sidebar-panel";
+import { TabManager } from "@/components/tab-manager";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Sheet, SheetOverlay, SheetPortal, SheetTrigger } from "@/components/ui/sheet";
@@ -22,6 +29,7 @@ import {
   type JSONCompactFormatResponse,
   type TableInfo,
 } from "@/lib/connection/connection";
+import { ConnectionManager } from "@/lib/connection/connection-manager";
 import { hostNameManager } from "@/lib/host-name-manager";
 import { SqlUtils } from "@/lib/sql-utils";
 import { cn } from "@/lib/utils";
@@ -132,7 +140,7 @@ async function getConnectionMetadata(connection: Connection): Promise<void> {
         connection.metadata = {
           ...connection.metadata,
           displayName: hostname,
-          remoteHostName: isCluster ? hostname : undefined,
+          remoteHostName: isCluster && connection.canQueryOnNode() ? hostname : undefined,
           internalUser: internalUser as string,
           timezone: timezone as string,
         };
@@ -329,6 +337,11 @@ function ConnectionInitializer({ config, onReady }: ConnectionInitializerProps)
 
   const [error, setError] = useState<string | null>(null);
 
+  // Secrets of the connection are not available until the credential vault is unlocked
+  const vaultState = useCredentialVaultState();
+  const [skipUnlock, setSkipUnlock] = useState(false);
+  const needsUnlock = vaultState.enabled && vaultState.locked && !skipUnlock;
+
   const updateStep = (id: string, status: StepStatus, label?: string) => {
     setSteps((prev) =>
       prev.map((step) => (step.id === id ? { ...step, status, text: label ?? step.text } : step))
@@ -361,7 +374,7 @@ function ConnectionInitializer({ config, onReady }: ConnectionInitializerProps)
 
   useEffect(() => {
     // Prevent double execution or execution when already failed
-    if (error) return;
+    if (error || needsUnlock) return;
 
     // If no config, we just stay in init loading state
     if (!config) {
@@ -374,7 +387,12 @@ function ConnectionInitializer({ config, onReady }: ConnectionInitializerProps)
 
     let isMounted = true;
     const schemaLoader = new SchemaTreeLoader();
-    const newConnection = Connection.create(config);
+    // Re-read the config so that secrets decrypted after it was selected are applied
+    const newConnection = Connection.create(
+      ConnectionManager.getInstance()
+        .getConnections()
+        .find((c) => c.name === config.name) ?? config
+    );
 
     const run = async () => {
       try {
@@ -446,7 +464,7 @@ function ConnectionInitializer({ config, onReady }: ConnectionInitializerProps)
       schemaLoader.abort();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [configKey, error]); // Only re-run if config changes or we retry (clearing error)
+  }, [configKey, error, needsUnlock]); // Only re-run if config changes, we retry (clearing error) or the vault is unlocked
 
   // Show executed steps (success) and the current executing step (loading/pending/error)
   const visibleSteps = steps.filter((step) => {
@@ -471,6 +489,22 @@ function ConnectionInitializer({ config, onReady }: ConnectionInitializerProps)
         </CardHeader>
         {/* px-14 makes it alignt to above description */}
         <CardContent className="space-y-3 px-14">
+          {config && needsUnlock && (
+            <div className="space-y-2 text-left">
+              <div className="text-sm">
+                The credential vault is locked. Enter the master passphrase to connect to{" "}
+                <span className="font-medium">{config.name}</span>.
+              </div>
+              <CredentialVaultUnlockForm />
+              <Button
+                variant="link"
+                className="h-auto p-0 text-xs text-muted-foreground"
+                onClick={() => setSkipUnlock(true)}
+              >
+                Continue without unlocking
+              </Button>
+            </div>
+          )}
           <div>
             {visibleSteps.map((step) => (
               <div key={step.id} className="flex items-center gap-3 text-sm w-full py-1">
@@ -578,6 +612,16 @@ export function MainPage() {
   const tabsPanelRef = useRef<ImperativePanelHandle>(null);
   const chatPanelRef = useRef<ImperativePanelHandle>(null);
 
+  // Open the query of a share link in a new tab, so that the editor content is kept.
+  // The tab is opened once a connection is ready.
+  useEffect(() => {
+    const sharedQuery = consumeSharedQueryFromLocation();
+    if (sharedQuery) {
+      rememberParameterValues(sharedQuery.parameterValues ?? {});
+      TabManager.openNewQueryTab({ query: sharedQuery.sql });
+    }
+  }, []);
+
   const handleReady = (newConnection: Connection, result: SchemaLoadResult) => {
     setLoadedSchemaData(result);
     commitConnection(newConnection);
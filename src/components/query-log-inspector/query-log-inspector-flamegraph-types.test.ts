@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFlameGraph,
+  getDiffRatio,
+  getMatchedValue,
+  layoutFlameGraph,
+} from "./query-log-inspector-flamegraph-types";
+
+const samples = [
+  { stack: ["main", "read", "decompress"], value: 6 },
+  { stack: ["main", "read"], value: 2 },
+  { stack: ["main", "aggregate"], value: 2 },
+];
+
+describe("buildFlameGraph", () => {
+  it("merges stacks and sorts children by value", () => {
+    const root = buildFlameGraph(samples);
+    expect(root.value).toBe(10);
+    const main = root.children[0];
+    expect(main.name).toBe("main");
+    expect(main.children.map((c) => [c.name, c.value])).toEqual([
+      ["read", 8],
+      ["aggregate", 2],
+    ]);
+    expect(main.children[0].children[0].id).toBe("all;main;read;decompress");
+  });
+
+  it("computes the change of share against the baseline", () => {
+    const root = buildFlameGraph(samples, [
+      { stack: ["main", "read"], value: 5 },
+      { stack: ["main", "aggregate"], value: 5 },
+    ]);
+    const [read, aggregate] = root.children[0].children;
+    expect(read.baseValue).toBe(5);
+    expect(getDiffRatio(read, root)).toBeCloseTo(0.3);
+    expect(getDiffRatio(aggregate, root)).toBeCloseTo(-0.3);
+    expect(getDiffRatio(read.children[0], root)).toBeCloseTo(0.6);
+  });
+});
+
+describe("layoutFlameGraph", () => {
+  it("lays out frames relative to the focused node", () => {
+    const root = buildFlameGraph(samples);
+    const rects = layoutFlameGraph(root, "all;main;read", 0);
+    const byName = Object.fromEntries(rects.map((r) => [r.node.name, r]));
+
+    expect(byName["all"]).toMatchObject({ depth: 0, x: 0, width: 1 });
+    expect(byName["main"]).toMatchObject({ depth: 1, x: 0, width: 1 });
+    expect(byName["read"]).toMatchObject({ depth: 2, x: 0, width: 1 });
+    expect(byName["decompress"]).toMatchObject({ depth: 3, x: 0, width: 0.75 });
+    expect(byName["aggregate"]).toBeUndefined();
+  });
+
+  it("skips narrow frames and falls back to the root for unknown ids", () => {
+    const root = buildFlameGraph(samples);
+    const rects = layoutFlameGraph(root, "all;unknown", 0.5);
+    expect(rects.map((r) => r.node.name)).toEqual(["all", "main", "read", "decompress"]);
+  });
+});
+
+describe("getMatchedValue", () => {
+  it("counts nested matches once", () => {
+    const root = buildFlameGraph([
+      { stack: ["main", "read", "readImpl"], value: 3 },
+      { stack: ["main", "aggregate"], value: 1 },
+    ]);
+    expect(getMatchedValue(root, "READ")).toBe(3);
+    expect(getMatchedValue(root, "")).toBe(0);
+  });
+});
@@ -0,0 +1,174 @@
+export type TraceType = "CPU" | "Real" | "Memory" | "MemorySample";
+
+export const TRACE_TYPES: TraceType[] = ["CPU", "Real", "Memory", "MemorySample"];
+
+export function isMemoryTraceType(traceType: TraceType): boolean {
+  return traceType === "Memory" || traceType === "MemorySample";
+}
+
+/**
+ * A stack aggregated from system.trace_log, frames are ordered from the outermost caller
+ */
+export interface StackSample {
+  stack: string[];
+  // Number of samples, or allocated bytes for memory trace types
+  value: number;
+}
+
+export interface FlameGraphNode {
+  // Path of the frame from the root, unique in the tree
+  id: string;
+  name: string;
+  // Value of the frame including its callees
+  value: number;
+  // Value of the same frame in the baseline, only set in diff mode
+  baseValue?: number;
+  children: FlameGraphNode[];
+}
+
+export const FLAME_GRAPH_ROOT_NAME = "all";
+
+function addStack(
+  root: FlameGraphNode,
+  sample: StackSample,
+  getValue: (node: FlameGraphNode) => number,
+  setValue: (node: FlameGraphNode, value: number) => void
+) {
+  let node = root;
+  setValue(node, getValue(node) + sample.value);
+  for (const frame of sample.stack) {
+    let child = node.children.find((c) => c.name === frame);
+    if (!child) {
+      child = { id: `${node.id};${frame}`, name: frame, value: 0, children: [] };
+      node.children.push(child);
+    }
+    setValue(child, getValue(child) + sample.value);
+    node = child;
+  }
+}
+
+function sortChildren(node: FlameGraphNode) {
+  node.children.sort((a, b) => b.value - a.value || a.name.localeCompare(b.name));
+  node.children.forEach(sortChildren);
+}
+
+/**
+ * Merge the stacks into a tree. In diff mode, the widths of frames come from the samples,
+ * and the baseline is only used to compute the baseValue of each frame.
+ */
+export function buildFlameGraph(samples: StackSample[], baseline?: StackSample[]): FlameGraphNode {
+  const root: FlameGraphNode = {
+    id: FLAME_GRAPH_ROOT_NAME,
+    name: FLAME_GRAPH_ROOT_NAME,
+    value: 0,
+    baseValue: baseline ? 0 : undefined,
+    children: [],
+  };
+
+  for (const sample of samples) {
+    addStack(
+      root,
+      sample,
+      (node) => node.value,
+      (node, value) => (node.value = value)
+    );
+  }
+  if (baseline) {
+    for (const sample of baseline) {
+      addStack(
+        root,
+        sample,
+        (node) => node.baseValue ?? 0,
+        (node, value) => (node.baseValue = value)
+      );
+    }
+  }
+
+  sortChildren(root);
+  return root;
+}
+
+/**
+ * Change of the share of the frame between the baseline and the current samples, from -1 to 1.
+ * Shares are compared instead of absolute values since the two queries may have different numbers of samples.
+ */
+export function getDiffRatio(node: FlameGraphNode, root: FlameGraphNode): number {
+  const share = root.value > 0 ? node.value / root.value : 0;
+  const baseShare = root.baseValue ? (node.baseValue ?? 0) / root.baseValue : 0;
+  return share - baseShare;
+}
+
+export interface FlameGraphRect {
+  node: FlameGraphNode;
+  depth: number;
+  // Position and width in the visible area, from 0 to 1
+  x: number;
+  width: number;
+}
+
+/**
+ * Find the path from the root to the node with the given id
+ */
+export function findNodePath(root: FlameGraphNode, id: string): FlameGraphNode[] {
+  const path: FlameGraphNode[] = [root];
+  let node = root;
+  while (node.id !== id) {
+    const next = node.children.find((child) => id === child.id || id.startsWith(child.id + ";"));
+    if (!next) {
+      return [root];
+    }
+    path.push(next);
+    node = next;
+  }
+  return path;
+}
+
+/**
+ * Compute the rectangles of the frames when the graph is zoomed into the focused node.
+ * The focused node takes the full width, its ancestors are kept above it.
+ * Frames narrower than minWidth are skipped.
+ */
+export function layoutFlameGraph(
+  root: FlameGraphNode,
+  focusedId: string,
+  minWidth: number
+): FlameGraphRect[] {
+  const rects: FlameGraphRect[] = [];
+  const path = findNodePath(root, focusedId);
+  const focused = path[path.length - 1];
+
+  path.forEach((node, depth) => {
+    if (node !== focused) {
+      rects.push({ node, depth, x: 0, width: 1 });
+    }
+  });
+
+  const visit = (node: FlameGraphNode, depth: number, x: number, width: number) => {
+    if (width < minWidth) {
+      return;
+    }
+    rects.push({ node, depth, x, width });
+    let childX = x;
+    for (const child of node.children) {
+      const childWidth = node.value > 0 ? (child.value / node.value) * width : 0;
+      visit(child, depth + 1, childX, childWidth);
+      childX += childWidth;
+    }
+  };
+  visit(focused, path.length - 1, 0, 1);
+
+  return rects;
+}
+
+/**
+ * Sum of the values of frames matching the search, nested matches are counted once
+ */
+export function getMatchedValue(node: FlameGraphNode, search: string): number {
+  if (search === "") {
+    return 0;
+  }
+  if (node.name.toLowerCase().includes(search.toLowerCase())) {
+    return node.value;
+  }
+  return node.children.reduce((sum, child) => sum + getMatchedValue(child, search), 0);
+}
@@ -0,0 +1,330 @@
+import { useConnection } from "@/components/connection/connection-context";
+import { SQLQueryBuilder } from "@/components/shared/dashboard/sql-query-builder";
+import type { DisplayTimeSpan } from "@/components/shared/dashboard/timespan-selector";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Connection, JSONFormatResponse, QueryError } from "@/lib/connection/connection";
+import { Formatter } from "@/lib/formatter";
+import { Hash } from "@/lib/hash";
+import { SqlUtils } from "@/lib/sql-utils";
+import { cn } from "@/lib/utils";
+import { GitCompare, Loader2, RotateCcw, Search, X } from "lucide-react";
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  buildFlameGraph,
+  getDiffRatio,
+  getMatchedValue,
+  isMemoryTraceType,
+  layoutFlameGraph,
+  TRACE_TYPES,
+  type FlameGraphNode,
+  type StackSample,
+  type TraceType,
+} from "./query-log-inspector-flamegraph-types";
+
+const ROW_HEIGHT = 18;
+
+// Frames narrower than this ratio of the view are not rendered
+const MIN_FRAME_WIDTH = 0.001;
+
+// Symbolization is done on each replica since addresses are only meaningful for the process that collected them.
+// Stacks are grouped after symbolization so that the same function on different replicas is merged.
+const TRACE_LOG_SQL = `
+SELECT
+  arrayMap(addr -> demangle(addressToSymbol(addr)), arrayReverse(trace)) AS stack,
+  {valueExpression} AS value
+FROM {clusterAllReplicas:system.trace_log}
+WHERE event_date >= toDate({from:String})
+AND event_date <= toDate({to:String})
+AND trace_type = '{traceType}'
+AND query_id IN (
+  SELECT query_id FROM system.query_log
+  WHERE initial_query_id = '{queryId}'
+  AND event_date >= toDate({from:String})
+  AND event_date <= toDate({to:String})
+)
+GROUP BY stack
+ORDER BY value DESC
+LIMIT 20000
+`;
+
+async function loadStackSamples(
+  connection: Connection,
+  queryId: string,
+  traceType: TraceType,
+  timeSpan: DisplayTimeSpan
+): Promise<StackSample[]> {
+  const sql = new SQLQueryBuilder(TRACE_LOG_SQL)
+    .timeSpan(timeSpan.getTimeSpan(), connection.metadata.timezone)
+    .replaceAll({
+      // Deallocations are recorded as negative sizes in MemorySample
+      valueExpression: isMemoryTraceType(traceType) ? "sumIf(size, size > 0)" : "count()",
+      traceType,
+      queryId: SqlUtils.escapeSqlString(queryId),
+    })
+    .build();
+
+  const { response } = connection.query(sql, {
+    default_format: "JSON",
+    output_format_json_quote_64bit_integers: 0,
+    allow_introspection_functions: 1,
+  });
+  const result = (await response).data.json<JSONFormatResponse>();
+  return (result.data ?? []).map((row) => ({
+    stack: (row.stack as string[]).map((frame) => frame || "[unknown]"),
+    value: Number(row.value),
+  }));
+}
+
+function getFrameColor(node: FlameGraphNode, root: FlameGraphNode, diff: boolean): string {
+  if (diff) {
+    const ratio = getDiffRatio(node, root);
+    // Saturate at a 20% change of the share
+    const intensity = Math.min(1, Math.abs(ratio) / 0.2);
+    const lightness = 90 - intensity * 35;
+    return ratio >= 0 ? `hsl(0, 75%, ${lightness}%)` : `hsl(215, 75%, ${lightness}%)`;
+  }
+  const hash = Hash.hash(node.name);
+  return `hsl(${hash % 50}, ${65 + (hash % 20)}%, ${55 + (hash % 15)}%)`;
+}
+
+interface FlameGraphProps {
+  root: FlameGraphNode;
+  diff: boolean;
+  search: string;
+  formatValue: (value: number) => string;
+}
+
+const FlameGraph = memo(function FlameGraph({ root, diff, search, formatValue }: FlameGraphProps) {
+  const [focusedId, setFocusedId] = useState(root.id);
+
+  useEffect(() => {
+    setFocusedId(root.id);
+  }, [root]);
+
+  const rects = useMemo(
+    () => layoutFlameGraph(root, focusedId, MIN_FRAME_WIDTH),
+    [root, focusedId]
+  );
+  const maxDepth = rects.reduce((max, rect) => Math.max(max, rect.depth), 0);
+  const lowerSearch = search.toLowerCase();
+
+  return (
+    <div className="flex flex-col gap-1">
+      {focusedId !== root.id && (
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 text-xs"
+            onClick={() => setFocusedId(root.id)}
+          >
+            <RotateCcw className="h-3 w-3" />
+            Reset zoom
+          </Button>
+        </div>
+      )}
+      <div className="relative w-full" style={{ height: (maxDepth + 1) * ROW_HEIGHT }}>
+        {rects.map(({ node, depth, x, width }) => {
+          const matched = lowerSearch !== "" && node.name.toLowerCase().includes(lowerSearch);
+          const share = root.value > 0 ? (node.value / root.value) * 100 : 0;
+          let title = `${node.name}\n${formatValue(node.value)} (${share.toFixed(2)}%)`;
+          if (diff) {
+            const ratio = getDiffRatio(node, root) * 100;
+            title += `\nBaseline: ${formatValue(node.baseValue ?? 0)}, share ${ratio >= 0 ? "+" : ""}${ratio.toFixed(2)}%`;
+          }
+          return (
+            <div
+              key={node.id}
+              title={title}
+              className={cn(
+                "absolute overflow-hidden whitespace-nowrap text-ellipsis border border-background px-1 text-[11px] leading-4 text-black cursor-pointer hover:brightness-90",
+                lowerSearch !== "" && !matched && "opacity-40"
+              )}
+              style={{
+                top: depth * ROW_HEIGHT,
+                left: `${x * 100}%`,
+                width: `${width * 100}%`,
+                height: ROW_HEIGHT,
+                backgroundColor: matched ? "hsl(285, 70%, 70%)" : getFrameColor(node, root, diff),
+              }}
+              onClick={() => setFocusedId(node.id)}
+            >
+              {node.name}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+interface QueryLogInspectorFlameGraphViewProps {
+  queryId: string;
+  timeSpan: DisplayTimeSpan;
+  isActive: boolean;
+}
+
+export function QueryLogInspectorFlameGraphView({
+  queryId,
+  timeSpan,
+  isActive,
+}: QueryLogInspectorFlameGraphViewProps) {
+  const { connection } = useConnection();
+  const [traceType, setTraceType] = useState<TraceType>("CPU");
+  const [search, setSearch] = useState("");
+  const [baselineInput, setBaselineInput] = useState("");
+  const [baselineQueryId, setBaselineQueryId] = useState("");
+  const [isLoading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [graph, setGraph] = useState<FlameGraphNode | null>(null);
+
+  const load = useCallback(async () => {
+    if (!connection) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const [samples, baseline] = await Promise.all([
+        loadStackSamples(connection, queryId, traceType, timeSpan),
+        baselineQueryId
+          ? loadStackSamples(connection, baselineQueryId, traceType, timeSpan)
+          : Promise.resolve(undefined),
+      ]);
+      setGraph(buildFlameGraph(samples, baseline));
+      setError(null);
+    } catch (e) {
+      setGraph(null);
+      setError((e as QueryError).message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [connection, queryId, traceType, timeSpan, baselineQueryId]);
+
+  // Only load when the view is shown since symbolization is expensive,
+  // and don't load again when switching back to the view if nothing changes
+  const loadedRef = useRef<typeof load | null>(null);
+  useEffect(() => {
+    if (isActive && loadedRef.current !== load) {
+      loadedRef.current = load;
+      load();
+    }
+  }, [isActive, load]);
+
+  const formatValue = useMemo(() => {
+    if (isMemoryTraceType(traceType)) {
+      return Formatter.getInstance().getFormatter("binary_size") as (v: number) => string;
+    }
+    const formatNumber = Formatter.getInstance().getFormatter("comma_number");
+    return (value: number) => `${formatNumber(value)} samples`;
+  }, [traceType]);
+
+  const diff = baselineQueryId !== "";
+  const matchedValue = graph ? getMatchedValue(graph, search.trim()) : 0;
+
+  return (
+    <div className="flex flex-col gap-2 p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex">
+          {TRACE_TYPES.map((type, i) => (
+            <Button
+              key={type}
+              variant={type === traceType ? "secondary" : "outline"}
+              size="sm"
+              className={cn(
+                "h-8 rounded-none",
+                i === 0 && "rounded-l-sm",
+                i === TRACE_TYPES.length - 1 && "rounded-r-sm",
+                i > 0 && "border-l-0"
+              )}
+              onClick={() => setTraceType(type)}
+            >
+              {type}
+            </Button>
+          ))}
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search frames..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8 h-8 w-56"
+          />
+        </div>
+
+        <div className="flex items-center">
+          <Input
+            placeholder="Baseline query ID for diff"
+            value={baselineInput}
+            onChange={(e) => setBaselineInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                setBaselineQueryId(baselineInput.trim());
+              }
+            }}
+            className="h-8 w-72 rounded-r-none"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 gap-1 rounded-none border-l-0"
+            disabled={baselineInput.trim() === ""}
+            onClick={() => setBaselineQueryId(baselineInput.trim())}
+          >
+            <GitCompare className="h-4 w-4" />
+            Diff
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 rounded-l-none border-l-0"
+            title="Exit diff mode"
+            disabled={!diff}
+            onClick={() => {
+              setBaselineInput("");
+              setBaselineQueryId("");
+            }}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+
+        {graph && graph.value > 0 && (
+          <div className="ml-auto text-xs text-muted-foreground">
+            Total {formatValue(graph.value)}
+            {diff && <>, baseline {formatValue(graph.baseValue ?? 0)}</>}
+            {search.trim() !== "" && (
+              <>, matched {((matchedValue / graph.value) * 100).toFixed(2)}%</>
+            )}
+          </div>
+        )}
+      </div>
+
+      {diff && (
+        <div className="text-xs text-muted-foreground">
+          Widths are from this query. Red frames take a larger share than in the baseline query,
+          blue frames a smaller one.
+        </div>
+      )}
+
+      {error ? (
+        <div className="text-sm text-destructive whitespace-pre-wrap">{error}</div>
+      ) : graph && graph.value > 0 ? (
+        <FlameGraph root={graph} diff={diff} search={search.trim()} formatValue={formatValue} />
+      ) : (
+        !isLoading && (
+          <div className="text-sm text-muted-foreground">
+            No {traceType} samples in system.trace_log for this query. Samples are collected when
+            the query runs longer than query_profiler_cpu_time_period_ns /
+            query_profiler_real_time_period_ns, or when memory_profiler_step /
+            memory_profiler_sample_probability is set for memory trace types.
+          </div>
+        )
+      )}
+    </div>
+  );
+}
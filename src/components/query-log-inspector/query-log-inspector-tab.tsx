@@ -5,6 +5,7 @@ import TimeSpanSelector, {
   DisplayTimeSpan,
 } from "@/components/shared/dashboard/timespan-selector";
 import FloatingProgressBar from "@/components/shared/floating-progress-bar";
+import { TabManager } from "@/components/tab-manager";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -12,9 +13,10 @@ import { type JSONFormatResponse, type QueryError } from "@/lib/connection/conne
 import { DateTimeExtension } from "@/lib/datetime-utils";
 import { toastManager } from "@/lib/toast";
 import { endOfDay, parseISO, startOfDay } from "date-fns";
-import { RotateCw, Search } from "lucide-react";
+import { RotateCw, ScrollText, Search } from "lucide-react";
 import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { QueryResponseErrorView } from "../query-tab/query-response/query-response-error-view";
+import { QueryLogInspectorFlameGraphView } from "./query-log-inspector-flamegraph-view";
 import { QueryLogInspectorTableView } from "./query-log-inspector-table-view";
 import { transformQueryLogsToTree } from "./query-log-inspector-timeline-types";
 import QueryLogInspectorTimelineView from "./query-log-inspector-timeline-view";
@@ -290,6 +292,19 @@ ORDER BY start_time_microseconds
     loadQueryLog();
   }, [loadQueryLog]);
 
+  // Open the server logs of the query in the text_log viewer
+  const openServerLogs = useCallback(() => {
+    if (!activeQueryId) return;
+    const eventDate = queryLogs[0]?.event_date;
+    TabManager.openTab({
+      id: `system-table:text_log:${activeQueryId}`,
+      type: "system-table",
+      tableName: "text_log",
+      queryId: activeQueryId,
+      eventDate: typeof eventDate === "string" ? eventDate : initialEventDate,
+    });
+  }, [activeQueryId, queryLogs, initialEventDate]);
+
   return (
     <div className="h-full w-full bg-background flex flex-col">
       <FloatingProgressBar show={isLoading} />
@@ -305,6 +320,9 @@ ORDER BY start_time_microseconds
             <TabsTrigger value="topo" id="tab-topo">
               Topology View
             </TabsTrigger>
+            <TabsTrigger value="flamegraph" id="tab-flamegraph">
+              Flame Graph
+            </TabsTrigger>
           </TabsList>
           <div className="ml-auto flex items-center gap-2 min-w-0">
             <HeaderControls
@@ -314,6 +332,16 @@ ORDER BY start_time_microseconds
               onRefresh={loadQueryLog}
               className="w-full max-w-4xl"
             />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-9 gap-1 shrink-0"
+              disabled={!activeQueryId}
+              onClick={openServerLogs}
+            >
+              <ScrollText className="h-4 w-4" />
+              Server Logs
+            </Button>
           </div>
         </div>
         <div className="flex-1 relative overflow-hidden">
@@ -374,6 +402,18 @@ ORDER BY start_time_microseconds
               >
                 <QueryLogInspectorTopoView queryLogs={queryLogs} />
               </div>
+              <div
+                className={`absolute inset-0 overflow-auto ${activeTab === "flamegraph" ? "block" : "hidden"}`}
+                role="tabpanel"
+                aria-labelledby="tab-flamegraph"
+                aria-hidden={activeTab !== "flamegraph"}
+              >
+                <QueryLogInspectorFlameGraphView
+                  queryId={activeQueryId}
+                  timeSpan={selectedTimeSpan}
+                  isActive={activeTab === "flamegraph"}
+                />
+              </div>
             </>
           )}
         </div>
@@ -0,0 +1,245 @@
+import { useConnection } from "@/components/connection/connection-context";
+import { Dialog } from "@/components/shared/use-dialog";
+import { TabManager } from "@/components/tab-manager";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  CheckCircle2,
+  CircleSlash,
+  ExternalLink,
+  FileInput,
+  Play,
+  Search,
+  Star,
+  Trash2,
+  X,
+  XCircle,
+} from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { SaveSnippetDialog } from "../snippet/save-snippet-dialog";
+import {
+  ExecutionHistoryManager,
+  searchExecutionHistory,
+  type ExecutionHistoryEntry,
+} from "./execution-history-manager";
+
+// Only the first entries that match the search are rendered
+const MAX_RENDERED_ENTRIES = 200;
+
+function useExecutionHistory(): ExecutionHistoryEntry[] {
+  const [entries, setEntries] = useState<ExecutionHistoryEntry[]>([]);
+  useEffect(() => {
+    const manager = ExecutionHistoryManager.getInstance();
+    setEntries(manager.getEntries());
+    return manager.subscribe(() => setEntries(manager.getEntries()));
+  }, []);
+  return entries;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function ExecutionHistoryItem({
+  entry,
+  isCurrentConnection,
+  onStar,
+}: {
+  entry: ExecutionHistoryEntry;
+  isCurrentConnection: boolean;
+  onStar: (entry: ExecutionHistoryEntry) => void;
+}) {
+  const StatusIcon =
+    entry.status === "success" ? CheckCircle2 : entry.status === "failed" ? XCircle : CircleSlash;
+
+  const actions = [
+    {
+      title: "Run again",
+      icon: Play,
+      onClick: () =>
+        TabManager.activateQueryTab({ query: entry.sql, mode: "replace", execute: true }),
+    },
+    {
+      title: "Open in new query tab",
+      icon: FileInput,
+      onClick: () => TabManager.openNewQueryTab({ query: entry.sql }),
+    },
+    {
+      // The query log is only available on the server the statement was executed on
+      title: isCurrentConnection
+        ? "Open in query log inspector"
+        : `Query log is only available on ${entry.connectionName}`,
+      icon: ExternalLink,
+      disabled: !isCurrentConnection,
+      onClick: () =>
+        TabManager.openTab({
+          id: `Query Log: ${entry.queryId}`,
+          type: "query-log",
+          queryId: entry.queryId,
+          eventDate: format(entry.timestamp, "yyyy-MM-dd"),
+        }),
+    },
+    {
+      title: entry.starred ? "Unstar" : "Star and save as snippet",
+      icon: Star,
+      onClick: () => onStar(entry),
+    },
+    {
+      title: "Delete from history",
+      icon: Trash2,
+      onClick: () => ExecutionHistoryManager.getInstance().deleteEntry(entry.queryId),
+    },
+  ];
+
+  return (
+    <div className="group px-2 py-1 border-b hover:bg-muted/50" title={entry.sql}>
+      <div className="flex items-start gap-1">
+        <StatusIcon
+          className={cn(
+            "h-3 w-3 mt-0.5 shrink-0",
+            entry.status === "success" && "text-green-600",
+            entry.status === "failed" && "text-destructive",
+            entry.status === "aborted" && "text-muted-foreground"
+          )}
+        />
+        <span className="flex-1 min-w-0 font-mono text-xs line-clamp-2 break-all">{entry.sql}</span>
+        {entry.starred && (
+          <Star className="h-3 w-3 mt-0.5 shrink-0 fill-amber-400 text-amber-400 group-hover:hidden" />
+        )}
+        <div className="hidden group-hover:flex gap-0.5">
+          {actions.map(({ title, icon: Icon, onClick, disabled }) => (
+            <Button
+              key={title}
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              title={title}
+              disabled={disabled}
+              onClick={onClick}
+            >
+              <Icon className="!h-3 !w-3" />
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-2 pl-4 text-[10px] text-muted-foreground">
+        <span title={new Date(entry.timestamp).toLocaleString()}>
+          {formatDistanceToNow(entry.timestamp, { addSuffix: true })}
+        </span>
+        <span>{formatDuration(entry.durationMs)}</span>
+        {entry.rows !== undefined && <span>{entry.rows.toLocaleString()} rows</span>}
+        {entry.errorCode && <span className="text-destructive">Code: {entry.errorCode}</span>}
+        {!isCurrentConnection && <span>on {entry.connectionName}</span>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Statements executed from the query tabs, kept in the local storage of the user
+ */
+export function ExecutionHistoryListView() {
+  const { connection } = useConnection();
+  const entries = useExecutionHistory();
+  const [search, setSearch] = useState("");
+  const [snippetEntry, setSnippetEntry] = useState<ExecutionHistoryEntry | null>(null);
+
+  const filtered = useMemo(() => searchExecutionHistory(entries, search), [entries, search]);
+
+  const handleStar = (entry: ExecutionHistoryEntry) => {
+    if (entry.starred) {
+      ExecutionHistoryManager.getInstance().setStarred(entry.queryId, false);
+    } else {
+      setSnippetEntry(entry);
+    }
+  };
+
+  const handleClear = () => {
+    Dialog.confirm({
+      title: "Clear History",
+      description: "Are you sure to delete all statements from the execution history?",
+      dialogButtons: [
+        {
+          text: "Clear",
+          variant: "destructive",
+          default: true,
+          onClick: async () => {
+            ExecutionHistoryManager.getInstance().clear();
+            return true;
+          },
+        },
+        { text: "Cancel", default: false, onClick: async () => true },
+      ],
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <div className="relative border-b-2 flex items-center h-9">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search SQL, query id or error..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={cn(
+            "pl-8 rounded-none border-none flex-1 h-9",
+            search.length > 0 ? "pr-16" : "pr-10"
+          )}
+        />
+        {search && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="absolute right-8 top-1/2 -translate-y-1/2 h-6 w-6 p-0"
+            onClick={() => setSearch("")}
+            title="Clear search"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute right-2 top-1/2 -translate-y-1/2 h-6 w-6 p-0"
+          onClick={handleClear}
+          disabled={entries.length === 0}
+          title="Clear history"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="h-full overflow-y-auto">
+        {filtered.slice(0, MAX_RENDERED_ENTRIES).map((entry) => (
+          <ExecutionHistoryItem
+            key={entry.queryId}
+            entry={entry}
+            isCurrentConnection={entry.connectionName === connection?.name}
+            onStar={handleStar}
+          />
+        ))}
+
+        {filtered.length === 0 && (
+          <div className="text-center text-sm text-muted-foreground py-4 px-2">
+            {entries.length === 0
+              ? "No statement has been executed yet. Statements executed in query tabs are listed here."
+              : "No statement found"}
+          </div>
+        )}
+      </div>
+
+      <SaveSnippetDialog
+        open={snippetEntry !== null}
+        onOpenChange={(open) => !open && setSnippetEntry(null)}
+        initialSql={snippetEntry?.sql}
+        onSaved={() => {
+          if (snippetEntry) {
+            ExecutionHistoryManager.getInstance().setStarred(snippetEntry.queryId, true);
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  getRowsFromSummary,
+  searchExecutionHistory,
+  type ExecutionHistoryEntry,
+} from "./execution-history-manager";
+
+const entry = (queryId: string, sql: string, extra?: Partial<ExecutionHistoryEntry>) => ({
+  queryId,
+  connectionName: "prod",
+  sql,
+  timestamp: 0,
+  durationMs: 10,
+  status: "success" as const,
+  ...extra,
+});
+
+describe("searchExecutionHistory", () => {
+  const entries = [
+    entry("q1", "SELECT count() FROM system.parts"),
+    entry("q2", "SELECT * FROM db.events WHERE id = 1", {
+      status: "failed",
+      errorCode: "60",
+      errorMessage: "Table db.events does not exist",
+    }),
+    entry("q3", "select * from DB.EVENTS", { connectionName: "staging" }),
+  ];
+
+  it("returns all entries for an empty search", () => {
+    expect(searchExecutionHistory(entries, "  ")).toHaveLength(3);
+  });
+
+  it("requires every term to match case-insensitively", () => {
+    expect(searchExecutionHistory(entries, "db.events select").map((e) => e.queryId)).toEqual([
+      "q2",
+      "q3",
+    ]);
+    expect(searchExecutionHistory(entries, "events staging").map((e) => e.queryId)).toEqual(["q3"]);
+  });
+
+  it("matches error codes, messages and query ids", () => {
+    expect(searchExecutionHistory(entries, "does not exist")[0].queryId).toBe("q2");
+    expect(searchExecutionHistory(entries, "q1")[0].queryId).toBe("q1");
+  });
+});
+
+describe("getRowsFromSummary", () => {
+  it("prefers result_rows over read_rows", () => {
+    expect(getRowsFromSummary('{"read_rows":"100","result_rows":"3"}')).toBe(3);
+    expect(getRowsFromSummary('{"read_rows":"100"}')).toBe(100);
+    expect(getRowsFromSummary("not json")).toBeUndefined();
+    expect(getRowsFromSummary(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import { StorageManager } from "@/lib/storage/storage-provider-manager";
+
+// Oldest entries are dropped when the history grows beyond this size
+export const MAX_EXECUTION_HISTORY_SIZE = 1000;
+
+export interface ExecutionHistoryEntry {
+  // query_id sent to the server
+  queryId: string;
+  connectionName: string;
+  sql: string;
+  // Start time of the execution in milliseconds
+  timestamp: number;
+  durationMs: number;
+  status: "success" | "failed" | "aborted";
+  // Rows of the result, undefined if the server did not report it
+  rows?: number;
+  // ClickHouse exception code of a failed execution
+  errorCode?: string;
+  errorMessage?: string;
+  // Set once the statement is saved as a snippet
+  starred?: boolean;
+}
+
+/**
+ * Number of result rows from the X-ClickHouse-Summary header, falls back to read_rows for servers that don't report result_rows
+ */
+export function getRowsFromSummary(summaryText: string | undefined): number | undefined {
+  if (!summaryText) {
+    return undefined;
+  }
+  try {
+    const summary = JSON.parse(summaryText) as { result_rows?: string; read_rows?: string };
+    const rows = Number(summary.result_rows ?? summary.read_rows);
+    return Number.isFinite(rows) ? rows : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Full-text search of the history. Every whitespace separated term must appear, case-insensitively,
+ * in the SQL, the connection name, the query id, the error code or the error message.
+ */
+export function searchExecutionHistory(
+  entries: ExecutionHistoryEntry[],
+  search: string
+): ExecutionHistoryEntry[] {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return entries;
+  }
+  return entries.filter((entry) => {
+    const text = [
+      entry.sql,
+      entry.connectionName,
+      entry.queryId,
+      entry.errorCode ?? "",
+      entry.errorMessage ?? "",
+    ]
+      .join("\n")
+      .toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+}
+
+/**
+ * Keeps the statements executed from the query tabs, newest first
+ */
+export class ExecutionHistoryManager {
+  private static instance: ExecutionHistoryManager;
+
+  public static getInstance(): ExecutionHistoryManager {
+    return this.instance || (this.instance = new this());
+  }
+
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    StorageManager.getInstance().subscribeToStorageProviderChange(() => this.notifyListeners());
+  }
+
+  private getStorage() {
+    return StorageManager.getInstance()
+      .getStorageProvider()
+      .subStorage("execution-history")
+      .withCompression(true);
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  public getEntries(): ExecutionHistoryEntry[] {
+    try {
+      return this.getStorage().getAsJSON<ExecutionHistoryEntry[]>(() => []);
+    } catch {
+      return [];
+    }
+  }
+
+  private saveEntries(entries: ExecutionHistoryEntry[]): void {
+    this.getStorage().setJSON(entries.slice(0, MAX_EXECUTION_HISTORY_SIZE));
+    this.notifyListeners();
+  }
+
+  public record(entry: ExecutionHistoryEntry): void {
+    this.saveEntries([entry, ...this.getEntries().filter((e) => e.queryId !== entry.queryId)]);
+  }
+
+  public setStarred(queryId: string, starred: boolean): void {
+    this.saveEntries(this.getEntries().map((e) => (e.queryId === queryId ? { ...e, starred } : e)));
+  }
+
+  public deleteEntry(queryId: string): void {
+    this.saveEntries(this.getEntries().filter((e) => e.queryId !== queryId));
+  }
+
+  public clear(): void {
+    this.saveEntries([]);
+  }
+}
@@ -2,8 +2,10 @@ import { useConnection } from "@/components/connection/connection-context";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Separator } from "@/components/ui/separator";
@@ -12,7 +14,11 @@ import { SqlUtils } from "@/lib/sql-utils";
 import { Bookmark, ChevronDown, Play } from "lucide-react";
 import { useCallback, useState } from "react";
 import { useQueryExecutor } from "../query-execution/query-executor";
+import { StreamingSettingsManager } from "../query-execution/streaming-settings-manager";
 import { useQueryInput } from "../query-input/use-query-input";
+import { showQueryParameterDialog } from "../saved-query/query-parameter-dialog";
+import { toQueryParameterSettings } from "../saved-query/query-parameters";
+import { showSavedQueryEditDialog } from "../saved-query/saved-query-edit-dialog";
 import { SaveSnippetDialog } from "../snippet/save-snippet-dialog";
 import { showMultipleStatementsConfirmDialog } from "./multiple-statements-confirm-dialog";
 
@@ -21,6 +27,27 @@ export function QueryControl() {
   const { connection } = useConnection();
   const { selectedText, text, cursorRow, cursorColumn } = useQueryInput();
   const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [streamResults, setStreamResults] = useState(
+    () => StreamingSettingsManager.getSettings().streamResults === true
+  );
+
+  const handleStreamResultsChange = useCallback((checked: boolean) => {
+    StreamingSettingsManager.setSettings({
+      ...StreamingSettingsManager.getSettings(),
+      streamResults: checked,
+    });
+    setStreamResults(checked);
+  }, []);
+
+  // Ask for the values of {name:Type} parameters before the query is sent
+  const executeWithParameters = useCallback(
+    (sql: string, rawSQL?: string, options?: { view?: string }) => {
+      showQueryParameterDialog(rawSQL ?? sql, (values) =>
+        executeQuery(sql, rawSQL, options, toQueryParameterSettings(values))
+      );
+    },
+    [executeQuery]
+  );
 
   const handleRunCurrentLine = useCallback(() => {
     const sql = SqlUtils.resolveExecutionSql({
@@ -37,16 +64,29 @@ export function QueryControl() {
     }
 
     // executeQuery now handles comment removal and vertical format detection
-    executeQuery(sql);
-  }, [text, cursorRow, cursorColumn, executeQuery, connection]);
+    executeWithParameters(sql);
+  }, [text, cursorRow, cursorColumn, executeWithParameters, connection]);
 
   const handleRunSelectedText = useCallback(() => {
     const sql = selectedText.trim();
     if (sql.length === 0) {
       return;
     }
-    executeQuery(sql);
-  }, [selectedText, executeQuery]);
+    executeWithParameters(sql);
+  }, [selectedText, executeWithParameters]);
+
+  const handleRunAsStreamingTable = useCallback(() => {
+    const sql = SqlUtils.resolveExecutionSql({
+      selectedText,
+      text,
+      cursorRow,
+      cursorColumn,
+    });
+    if (sql.length === 0) {
+      return;
+    }
+    executeWithParameters(sql, undefined, { view: "table" });
+  }, [selectedText, text, cursorRow, cursorColumn, executeWithParameters]);
 
   const handleExplain = useCallback(
     (type: string) => {
@@ -61,9 +101,9 @@ export function QueryControl() {
         return;
       }
       const viewType = type === "plan-indexes" || type === "plan-actions" ? "plan" : type;
-      executeQuery(explainSQL, rawSQL, { view: viewType });
+      executeWithParameters(explainSQL, rawSQL, { view: viewType });
     },
-    [selectedText, text, cursorRow, cursorColumn, executeQuery]
+    [selectedText, text, cursorRow, cursorColumn, executeWithParameters]
   );
 
   const handleRunBatchSqls = useCallback(() => {
@@ -118,6 +158,16 @@ export function QueryControl() {
             </DropdownMenuTrigger>
             <DropdownMenuContent align="start">
               <DropdownMenuItem onClick={handleRunBatchSqls}>Run Batch SQLs</DropdownMenuItem>
+              <DropdownMenuItem onClick={handleRunAsStreamingTable}>
+                Run and Stream Result as Table
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuCheckboxItem
+                checked={streamResults}
+                onCheckedChange={handleStreamResultsChange}
+              >
+                Always Stream Results as Table
+              </DropdownMenuCheckboxItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -157,16 +207,30 @@ export function QueryControl() {
 
         <Separator orientation="vertical" className="h-4" />
 
-        <Button
-          disabled={isSaveDisabled}
-          size="sm"
-          variant="ghost"
-          className="h-6 gap-1 px-2 text-xs rounded-sm"
-          onClick={() => setIsSaveDialogOpen(true)}
-        >
-          <Bookmark className="h-3 w-3" />
-          Save
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              disabled={isSaveDisabled}
+              size="sm"
+              variant="ghost"
+              className="h-6 gap-1 px-2 text-xs rounded-sm"
+            >
+              <Bookmark className="h-3 w-3" />
+              Save
+              <ChevronDown className="h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem
+              onClick={() => showSavedQueryEditDialog({ sql: selectedText || text })}
+            >
+              Save to Query Library
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setIsSaveDialogOpen(true)}>
+              Save as Snippet
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
 
         <SaveSnippetDialog
           open={isSaveDialogOpen}
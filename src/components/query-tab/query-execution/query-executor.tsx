@@ -1,19 +1,37 @@
 import { useConnection } from "@/components/connection/connection-context";
-import type { QueryError } from "@/lib/connection/connection";
+import type { Connection, QueryError } from "@/lib/connection/connection";
+import { HttpResponseLineReader } from "@/lib/http-response-line-reader";
 import { SqlUtils } from "@/lib/sql-utils";
 import {
   createContext,
   useCallback,
   useContext,
+  useEffect,
   useMemo,
   useRef,
   useState,
   type ReactNode,
 } from "react";
 import { v7 as uuid } from "uuid";
-import type { QueryResponseViewModel, SQLMessage } from "../query-view-model";
+import {
+  ExecutionHistoryManager,
+  getRowsFromSummary,
+} from "../execution-history/execution-history-manager";
+import type {
+  QueryExecutionOutcome,
+  QueryResponseViewModel,
+  SQLMessage,
+} from "../query-view-model";
+import {
+  isStreamingQueryResult,
+  StreamingResultCollector,
+  StreamingResultError,
+} from "./streaming-result-collector";
+import { StreamingSettingsManager } from "./streaming-settings-manager";
 
 const MAX_MESSAGE_LIST_SIZE = 100;
+// Minimal interval between two UI updates of a streaming result
+const STREAMING_UPDATE_INTERVAL_MS = 200;
 type BatchFailureMode = "abort" | "continue";
 type BatchSource = "all" | "selection";
 
@@ -48,6 +66,189 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
   // Derive SQL execution state from sqlMessages
   const isSqlExecuting = useMemo(() => sqlMessages.some((msg) => msg.isExecuting), [sqlMessages]);
 
+  // Record every statement in the execution history once it finishes.
+  // Statements skipped by a failed batch are never executing, so they're not recorded.
+  const executingQueryIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const executingQueryIds = executingQueryIdsRef.current;
+    for (const msg of sqlMessages) {
+      if (msg.isExecuting) {
+        executingQueryIds.add(msg.id);
+        continue;
+      }
+      if (!executingQueryIds.delete(msg.id)) {
+        continue;
+      }
+
+      const response = msg.queryResponse;
+      const data = response?.data;
+      ExecutionHistoryManager.getInstance().record({
+        queryId: String(msg.queryRequest.params?.query_id ?? msg.id),
+        connectionName: msg.queryRequest.requestServer,
+        sql: msg.queryRequest.sql,
+        timestamp: msg.timestamp,
+        durationMs: Date.now() - msg.timestamp,
+        // A stream aborted after some rows has a response too, so the outcome is not inferred from it
+        status: msg.outcome ?? "aborted",
+        rows: isStreamingQueryResult(data)
+          ? data.receivedRows
+          : getRowsFromSummary(response?.httpHeaders?.["x-clickhouse-summary"]),
+        errorCode: response?.httpHeaders?.["x-clickhouse-exception-code"]?.trim(),
+        errorMessage: response?.message ?? undefined,
+      });
+    }
+  }, [sqlMessages]);
+
+  /**
+   * Update the response of a query. The query stops executing when the outcome is given.
+   */
+  const updateQueryResponse = useCallback(
+    (queryId: string, queryResponse: QueryResponseViewModel, outcome?: QueryExecutionOutcome) => {
+      setSqlMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === queryId
+            ? {
+                ...msg,
+                isExecuting: outcome === undefined,
+                outcome,
+                queryResponse,
+              }
+            : msg
+        )
+      );
+    },
+    []
+  );
+
+  /**
+   * Execute a query whose result is rendered as a table while rows are arriving.
+   * Rows are read line by line from the response body and pushed to the view at a throttled interval.
+   */
+  const executeStreamingQuery = useCallback(
+    async (
+      connection: Connection,
+      sql: string,
+      queryParams: Record<string, unknown>,
+      queryId: string
+    ): Promise<QueryExecutionOutcome> => {
+      const collector = new StreamingResultCollector(
+        StreamingSettingsManager.getSettings().rowWindow
+      );
+
+      let httpStatus: number | undefined;
+      let httpHeaders: Record<string, string> | undefined;
+      let apiAbortController: AbortController | undefined;
+      try {
+        const { response, abortController } = connection.queryRawResponse(sql, queryParams);
+        apiAbortController = abortController;
+        abortControllersRef.current.set(queryId, abortController);
+
+        const rawResponse = await response;
+        httpStatus = rawResponse.status;
+        httpHeaders = Object.fromEntries(rawResponse.headers.entries());
+        collector.applyProgressHeader(rawResponse.headers.get("x-clickhouse-progress"));
+
+        const reader = rawResponse.body?.getReader();
+        if (!reader) {
+          throw new Error("Response body is not readable");
+        }
+
+        let lastUpdate = 0;
+        const publish = (outcome?: QueryExecutionOutcome) => {
+          updateQueryResponse(
+            queryId,
+            {
+              queryId,
+              traceId: null,
+              message: null,
+              httpStatus,
+              httpHeaders,
+              data: collector.snapshot(),
+            },
+            outcome
+          );
+        };
+        publish();
+
+        await HttpResponseLineReader.read(
+          reader,
+          (line) => {
+            collector.onLine(line);
+
+            const now = Date.now();
+            if (now - lastUpdate >= STREAMING_UPDATE_INTERVAL_MS) {
+              lastUpdate = now;
+              publish();
+            }
+          },
+          (byteLength) => collector.addBytes(byteLength)
+        );
+
+        collector.complete();
+        publish("success");
+
+        abortControllersRef.current.delete(queryId);
+        return "success";
+      } catch (error) {
+        abortControllersRef.current.delete(queryId);
+
+        const apiError = error as QueryError;
+        if (
+          apiAbortController?.signal.aborted ||
+          apiError.name === "AbortError" ||
+          apiError.message?.includes("aborted") ||
+          apiError.message?.includes("cancelled")
+        ) {
+          // Keep rows received so far
+          updateQueryResponse(
+            queryId,
+            {
+              queryId,
+              traceId: null,
+              message: null,
+              httpStatus,
+              httpHeaders,
+              data: collector.snapshot(),
+            },
+            "aborted"
+          );
+          return "aborted";
+        }
+
+        if (error instanceof StreamingResultError) {
+          updateQueryResponse(
+            queryId,
+            {
+              queryId,
+              traceId: null,
+              message: "Failed to execute query, got exception while reading the result",
+              httpStatus,
+              httpHeaders,
+              data: error.message,
+            },
+            "failed"
+          );
+          return "failed";
+        }
+
+        updateQueryResponse(
+          queryId,
+          {
+            queryId,
+            traceId: null,
+            message: apiError.message || String(error),
+            httpStatus: apiError.httpStatus ?? httpStatus,
+            httpHeaders: apiError.httpHeaders ?? httpHeaders,
+            data: apiError.data,
+          },
+          "failed"
+        );
+        return "failed";
+      }
+    },
+    [updateQueryResponse]
+  );
+
   const executeQueryInternal = useCallback(
     async (
       sql: string,
@@ -58,7 +259,7 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
         statementIndex: number;
         statementCount: number;
       }
-    ): Promise<"success" | "failed" | "aborted" | "empty"> => {
+    ): Promise<QueryExecutionOutcome | "empty"> => {
       // Process SQL: remove comments and check for vertical format
       let processedSQL = SqlUtils.removeComments(sql);
       let useVerticalFormat = false;
@@ -71,11 +272,22 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
         return "empty";
       }
 
-      const view = options?.view;
-      const isExplainQuery = view && view !== "query";
+      // Statements run from the editor stream their result as a table when it's enabled in the settings
+      const view =
+        options?.view ??
+        (batchMeta === undefined &&
+        !useVerticalFormat &&
+        StreamingSettingsManager.getSettings().streamResults
+          ? "table"
+          : undefined);
+      const isStreamingQuery = view === "table";
+      const isExplainQuery = view && view !== "query" && !isStreamingQuery;
 
       let defaultFormat: string;
-      if (view === "estimate") {
+      if (isStreamingQuery) {
+        // Progress lines are interleaved with the rows, so the read progress is updated while rows arrive
+        defaultFormat = "JSONEachRowWithProgress";
+      } else if (view === "estimate") {
         defaultFormat = "PrettyCompactMonoBlock";
       } else if (isExplainQuery) {
         defaultFormat = "TabSeparatedRaw";
@@ -96,7 +308,12 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
         queryParams.default_format = defaultFormat;
       }
 
-      if (
+      if (isStreamingQuery) {
+        // Let server report read progress before the first block of data is sent
+        if (queryParams.send_progress_in_http_headers === undefined) {
+          queryParams.send_progress_in_http_headers = 1;
+        }
+      } else if (
         !isExplainQuery &&
         !useVerticalFormat &&
         queryParams.output_format_pretty_row_numbers === undefined
@@ -148,6 +365,7 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
               ? {
                   ...msg,
                   isExecuting: false,
+                  outcome: "failed",
                   queryResponse: {
                     queryId: queryId,
                     traceId: null,
@@ -161,6 +379,10 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
         return "failed";
       }
 
+      if (isStreamingQuery) {
+        return executeStreamingQuery(connection, processedSQL, queryParams, queryId);
+      }
+
       try {
         const { response, abortController: apiAbortController } = connection.query(
           processedSQL,
@@ -170,6 +392,11 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
         abortControllersRef.current.set(queryId, apiAbortController);
         const apiResponse = await response;
         if (apiAbortController.signal.aborted) {
+          setSqlMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === queryId ? { ...msg, isExecuting: false, outcome: "aborted" } : msg
+            )
+          );
           return "aborted";
         }
 
@@ -190,6 +417,7 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
               ? {
                   ...msg,
                   isExecuting: false,
+                  outcome: "success",
                   queryResponse,
                 }
               : msg
@@ -208,6 +436,7 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
                 ? {
                     ...msg,
                     isExecuting: false,
+                    outcome: "aborted",
                   }
                 : msg
             )
@@ -231,6 +460,7 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
               ? {
                   ...msg,
                   isExecuting: false,
+                  outcome: "failed",
                   queryResponse,
                 }
               : msg
@@ -241,7 +471,7 @@ export function QueryExecutionProvider({ children }: { children: ReactNode }) {
         return "failed";
       }
     },
-    [connection]
+    [connection, executeStreamingQuery]
   );
 
   const executeQuery = useCallback(
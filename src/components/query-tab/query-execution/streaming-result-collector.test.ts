@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { StreamingResultCollector, StreamingResultError } from "./streaming-result-collector";
+
+describe("StreamingResultCollector", () => {
+  it("collects JSONCompactEachRowWithNamesAndTypes rows", () => {
+    const collector = new StreamingResultCollector(10);
+    collector.onLine('["id","name"]');
+    collector.onLine('["UInt64","String"]');
+    collector.onLine('[1,"a"]');
+    collector.onLine('[2,"b"]');
+    collector.complete();
+
+    const result = collector.snapshot();
+    expect(result.meta).toEqual([
+      { name: "id", type: "UInt64" },
+      { name: "name", type: "String" },
+    ]);
+    expect(result.rows).toEqual([
+      { id: 1, name: "a" },
+      { id: 2, name: "b" },
+    ]);
+    expect(result.receivedRows).toBe(2);
+    expect(result.truncated).toBe(false);
+    expect(result.completed).toBe(true);
+  });
+
+  it("only keeps rows within the row window but counts all rows", () => {
+    const collector = new StreamingResultCollector(2);
+    collector.onLine('["n"]');
+    collector.onLine('["UInt8"]');
+    for (let i = 0; i < 5; i++) {
+      collector.onLine(`[${i}]`);
+    }
+
+    const result = collector.snapshot();
+    expect(result.rows).toEqual([{ n: 0 }, { n: 1 }]);
+    expect(result.receivedRows).toBe(5);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("handles JSONEachRowWithProgress lines", () => {
+    const collector = new StreamingResultCollector();
+    collector.onLine(
+      '{"progress":{"read_rows":"10","read_bytes":"80","total_rows_to_read":"100"}}'
+    );
+    collector.onLine('{"row":{"a":1,"b":"x"}}');
+    collector.onLine('{"a":2,"b":"y"}');
+
+    const result = collector.snapshot();
+    expect(result.meta.map((m) => m.name)).toEqual(["a", "b"]);
+    expect(result.rows).toEqual([
+      { a: 1, b: "x" },
+      { a: 2, b: "y" },
+    ]);
+    expect(result.progress).toEqual({ readRows: 10, readBytes: 80, totalRowsToRead: 100 });
+  });
+
+  it("updates the progress from the lines of the stream", () => {
+    const collector = new StreamingResultCollector();
+    collector.onLine('{"meta":[{"name":"n","type":"UInt64"}]}');
+    collector.onLine('{"progress":{"read_rows":"10","read_bytes":"80","total_rows_to_read":"30"}}');
+    collector.onLine('{"row":{"n":"1"}}');
+    expect(collector.snapshot().progress.readRows).toBe(10);
+
+    collector.onLine(
+      '{"progress":{"read_rows":"30","read_bytes":"240","total_rows_to_read":"30"}}'
+    );
+    expect(collector.snapshot().progress).toEqual({
+      readRows: 30,
+      readBytes: 240,
+      totalRowsToRead: 30,
+    });
+    expect(collector.snapshot().meta).toEqual([{ name: "n", type: "UInt64" }]);
+  });
+
+  it("shares the rows between snapshots instead of copying them", () => {
+    const collector = new StreamingResultCollector();
+    collector.onLine('{"row":{"n":1}}');
+    const first = collector.snapshot();
+    collector.onLine('{"row":{"n":2}}');
+    const second = collector.snapshot();
+
+    expect(second.rows).toBe(first.rows);
+    expect(first.rowCount).toBe(1);
+    expect(second.rowCount).toBe(2);
+  });
+
+  it("uses the last object of a repeated progress header", () => {
+    const collector = new StreamingResultCollector();
+    collector.applyProgressHeader(
+      '{"read_rows":"1","read_bytes":"8","total_rows_to_read":"4"}, {"read_rows":"3","read_bytes":"24","total_rows_to_read":"4"}'
+    );
+    expect(collector.snapshot().progress).toEqual({
+      readRows: 3,
+      readBytes: 24,
+      totalRowsToRead: 4,
+    });
+  });
+
+  it("throws the exception written in the middle of the stream on completion", () => {
+    const collector = new StreamingResultCollector();
+    collector.onLine('["n"]');
+    collector.onLine('["UInt8"]');
+    collector.onLine("[1]");
+    collector.onLine("Code: 395. DB::Exception: Value passed to 'throwIf' function is non-zero");
+    collector.onLine("(FUNCTION_THROW_IF_VALUE_IS_NON_ZERO)");
+
+    expect(() => collector.complete()).toThrow(StreamingResultError);
+    expect(collector.snapshot().rows).toEqual([{ n: 1 }]);
+  });
+});
@@ -0,0 +1,222 @@
+export const DEFAULT_STREAMING_ROW_WINDOW = 10000;
+
+export interface StreamingProgress {
+  readRows: number;
+  readBytes: number;
+  totalRowsToRead: number;
+}
+
+/**
+ * Snapshot of a streaming query result that is handed to the view layer.
+ * Only the first `rowWindow` rows are kept in memory, the rest are only counted.
+ */
+export interface StreamingQueryResult {
+  type: "streaming";
+  meta: { name: string; type?: string }[];
+  // Shared by all snapshots of a result and only appended to, so publishing a snapshot doesn't copy the rows
+  rows: Record<string, unknown>[];
+  // Number of rows in `rows` when the snapshot was taken
+  rowCount: number;
+  rowWindow: number;
+  receivedRows: number;
+  receivedBytes: number;
+  progress: StreamingProgress;
+  // True if rows beyond the row window were dropped
+  truncated: boolean;
+  completed: boolean;
+}
+
+export function isStreamingQueryResult(data: unknown): data is StreamingQueryResult {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { type?: unknown }).type === "streaming" &&
+    Array.isArray((data as StreamingQueryResult).rows)
+  );
+}
+
+function toSafeNumber(value: unknown): number {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Error raised when the server writes an exception into the body after the response has started.
+ * ClickHouse can not change the HTTP status once data has been sent, so the exception text is appended to the stream.
+ */
+export class StreamingResultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StreamingResultError";
+    Object.setPrototypeOf(this, StreamingResultError.prototype);
+  }
+}
+
+/**
+ * Collects rows of a streaming response line by line.
+ *
+ * Supported formats:
+ * - JSONCompactEachRowWithNamesAndTypes: the first line holds column names, the second line holds column types
+ * - JSONEachRow: each line is an object, columns are inferred from the first row
+ * - JSONEachRowWithProgress: lines are wrapped as {"row": ...}, {"progress": ...} or {"exception": ...}
+ */
+export class StreamingResultCollector {
+  private readonly rowWindow: number;
+
+  private names: string[] | null = null;
+  private types: string[] | null = null;
+  private rows: Record<string, unknown>[] = [];
+  private receivedRows = 0;
+  private receivedBytes = 0;
+  private progress: StreamingProgress = { readRows: 0, readBytes: 0, totalRowsToRead: 0 };
+  private exceptionLines: string[] = [];
+  private completed = false;
+
+  constructor(rowWindow: number = DEFAULT_STREAMING_ROW_WINDOW) {
+    this.rowWindow = rowWindow > 0 ? rowWindow : DEFAULT_STREAMING_ROW_WINDOW;
+  }
+
+  public addBytes(byteLength: number): void {
+    this.receivedBytes += byteLength;
+  }
+
+  /**
+   * Apply the value of X-ClickHouse-Progress or X-ClickHouse-Summary header.
+   * When the header is sent multiple times, fetch joins the values with ", ", so only the last object is used.
+   */
+  public applyProgressHeader(headerValue: string | null | undefined): void {
+    if (!headerValue) {
+      return;
+    }
+    const objects = headerValue.match(/\{[^{}]*\}/g);
+    if (!objects || objects.length === 0) {
+      return;
+    }
+    try {
+      this.applyProgress(JSON.parse(objects[objects.length - 1]) as Record<string, unknown>);
+    } catch {
+      // Ignore malformed progress header
+    }
+  }
+
+  public onLine(line: string): void {
+    // Once the server reports an exception, everything after it belongs to the exception message
+    if (this.exceptionLines.length > 0) {
+      this.exceptionLines.push(line);
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      this.exceptionLines.push(line);
+      return;
+    }
+
+    if (Array.isArray(parsed)) {
+      this.onArrayLine(parsed);
+    } else if (typeof parsed === "object" && parsed !== null) {
+      this.onObjectLine(parsed as Record<string, unknown>);
+    }
+  }
+
+  /**
+   * Mark the stream as completed. Throws if the server reported an exception in the body.
+   */
+  public complete(): void {
+    this.completed = true;
+    if (this.exceptionLines.length > 0) {
+      throw new StreamingResultError(this.exceptionLines.join("\n"));
+    }
+  }
+
+  public snapshot(): StreamingQueryResult {
+    const names = this.names ?? [];
+    return {
+      type: "streaming",
+      meta: names.map((name, i) => ({ name, type: this.types?.[i] })),
+      rows: this.rows,
+      rowCount: this.rows.length,
+      rowWindow: this.rowWindow,
+      receivedRows: this.receivedRows,
+      receivedBytes: this.receivedBytes,
+      progress: { ...this.progress },
+      truncated: this.receivedRows > this.rows.length,
+      completed: this.completed,
+    };
+  }
+
+  private onArrayLine(values: unknown[]): void {
+    if (this.names === null) {
+      this.names = values.map((v) => String(v));
+      return;
+    }
+    if (this.types === null) {
+      this.types = values.map((v) => String(v));
+      return;
+    }
+
+    this.receivedRows++;
+    if (this.rows.length < this.rowWindow) {
+      const row: Record<string, unknown> = {};
+      for (let i = 0; i < this.names.length; i++) {
+        row[this.names[i]] = values[i];
+      }
+      this.rows.push(row);
+    }
+  }
+
+  private onObjectLine(obj: Record<string, unknown>): void {
+    // JSONEachRowWithProgress wraps every line in an object with a single key,
+    // plain JSONEachRow rows are taken as-is even if a column happens to be named 'row' or 'progress'
+    const keys = Object.keys(obj);
+    const wrapper = keys.length === 1 ? keys[0] : null;
+    const value = wrapper === null ? undefined : obj[wrapper];
+
+    if (wrapper === "exception") {
+      this.exceptionLines.push(String(value));
+      return;
+    }
+    if (wrapper === "progress") {
+      if (typeof value === "object" && value !== null) {
+        this.applyProgress(value as Record<string, unknown>);
+      }
+      return;
+    }
+    if (wrapper === "meta" && Array.isArray(value)) {
+      const meta = value as { name: string; type?: string }[];
+      this.names = meta.map((m) => m.name);
+      this.types = meta.map((m) => m.type ?? "");
+      return;
+    }
+    if (
+      wrapper === "totals" ||
+      wrapper === "extremes" ||
+      wrapper === "rows_before_limit_at_least"
+    ) {
+      return;
+    }
+
+    const row =
+      wrapper === "row" && typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)
+        : obj;
+    if (this.names === null) {
+      this.names = Object.keys(row);
+    }
+
+    this.receivedRows++;
+    if (this.rows.length < this.rowWindow) {
+      this.rows.push(row);
+    }
+  }
+
+  private applyProgress(progress: Record<string, unknown>): void {
+    this.progress = {
+      readRows: toSafeNumber(progress.read_rows),
+      readBytes: toSafeNumber(progress.read_bytes),
+      totalRowsToRead: toSafeNumber(progress.total_rows_to_read),
+    };
+  }
+}
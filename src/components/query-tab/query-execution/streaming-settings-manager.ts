@@ -0,0 +1,34 @@
+import type { LocalStorage } from "@/lib/storage/local-storage-provider";
+import { StorageManager } from "@/lib/storage/storage-provider-manager";
+import { DEFAULT_STREAMING_ROW_WINDOW } from "./streaming-result-collector";
+
+const STORAGE_KEY = "settings:query-result:streaming";
+
+export const STREAMING_ROW_WINDOW_OPTIONS = [1000, 10000, 50000, 100000, 500000];
+
+export type StreamingSettings = {
+  /** Max number of rows kept in memory for a streaming result. Rows beyond it are counted only. */
+  rowWindow: number;
+  /** Whether statements run from the editor stream their result into a table instead of the text view. */
+  streamResults?: boolean;
+};
+
+export class StreamingSettingsManager {
+  private static getStorage(): LocalStorage {
+    return StorageManager.getInstance().getStorageProvider().subStorage(STORAGE_KEY);
+  }
+
+  public static getSettings(): StreamingSettings {
+    const settings = this.getStorage().getAsJSON<StreamingSettings>(() => ({
+      rowWindow: DEFAULT_STREAMING_ROW_WINDOW,
+    }));
+    if (!(settings.rowWindow > 0)) {
+      settings.rowWindow = DEFAULT_STREAMING_ROW_WINDOW;
+    }
+    return settings;
+  }
+
+  public static setSettings(settings: StreamingSettings) {
+    this.getStorage().setJSON(settings);
+  }
+}
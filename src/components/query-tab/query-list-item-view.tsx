@@ -1,9 +1,11 @@
+import { useConnection } from "@/components/connection/connection-context";
+import { showExportResultDialog } from "@/components/shared/export-result-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Formatter } from "@/lib/formatter";
 import { format } from "date-fns";
-import { ChevronDown, ChevronUp, Square, X } from "lucide-react";
+import { ChevronDown, ChevronUp, Download, Square, X } from "lucide-react";
 import { memo, useCallback, useEffect, useRef, useState } from "react";
 import { QueryExecutionTimer } from "./query-execution-timer";
 import { useQueryExecutor } from "./query-execution/query-executor";
@@ -64,6 +66,7 @@ export function QueryListItemView({
   scrollRootRef,
 }: QueryListItemViewProps) {
   const { cancelQuery } = useQueryExecutor();
+  const { connection } = useConnection();
   const [collapsed, setCollapsed] = useState(queryRequest.showRequest === "collapse");
   const deleteButtonRef = useRef<HTMLButtonElement>(null);
   const scrollPlaceholderRef = useRef<HTMLDivElement>(null);
@@ -219,6 +222,25 @@ export function QueryListItemView({
     };
   }, [scrollRootRef, setScrollButtonVisibility]);
 
+  // Only results of normal queries can be exported, EXPLAIN results are not
+  const canExport =
+    !isExecuting &&
+    connection !== null &&
+    queryResponse !== undefined &&
+    queryResponse.message === null &&
+    (view === "query" || view === "table");
+
+  const handleExport = () => {
+    if (!connection) {
+      return;
+    }
+    showExportResultDialog({
+      connection,
+      sql: queryRequest.sql,
+      fileName: `result_${format(new Date(queryRequest.timestamp), "yyyyMMdd_HHmmss")}`,
+    });
+  };
+
   // Handle query deletion - cancel if executing, then delete
   const handleDelete = () => {
     if (isExecuting) {
@@ -352,6 +374,16 @@ export function QueryListItemView({
             <Square className="!h-3 !w-3" /> Click to cancel execution
           </Button>
         )}
+        {canExport && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs rounded-sm text-muted-foreground"
+            onClick={handleExport}
+          >
+            <Download className="!h-3 !w-3" /> Export
+          </Button>
+        )}
       </div>
 
       {/* Query Status */}
@@ -1,17 +1,147 @@
 import { DataTable } from "@/components/shared/dashboard/data-table";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import type { JSONFormatResponse } from "@/lib/connection/connection";
-import { memo } from "react";
+import { Formatter } from "@/lib/formatter";
+import { ChevronDown } from "lucide-react";
+import { memo, useState } from "react";
+import {
+  isStreamingQueryResult,
+  type StreamingQueryResult,
+} from "../query-execution/streaming-result-collector";
+import {
+  STREAMING_ROW_WINDOW_OPTIONS,
+  StreamingSettingsManager,
+} from "../query-execution/streaming-settings-manager";
 import type { QueryResponseViewModel } from "../query-view-model";
 
+// Virtualized table needs a bounded height to only render visible rows
+const STREAMING_TABLE_MAX_HEIGHT = 480;
+const STREAMING_TABLE_ROW_HEIGHT = 24;
+
 interface QueryResponseTableViewProps {
   queryResponse: QueryResponseViewModel;
   enableCompactMode?: boolean;
 }
 
+function RowWindowSelector() {
+  const [rowWindow, setRowWindow] = useState(
+    () => StreamingSettingsManager.getSettings().rowWindow
+  );
+  const numberFormatter = Formatter.getInstance().getFormatter("comma_number");
+
+  const handleChange = (value: string) => {
+    const next = Number(value);
+    setRowWindow(next);
+    StreamingSettingsManager.setSettings({
+      ...StreamingSettingsManager.getSettings(),
+      rowWindow: next,
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 gap-1 px-1 text-xs rounded-sm text-muted-foreground"
+          title="Max rows kept in memory for the next streaming query"
+        >
+          Row window: {numberFormatter(rowWindow)}
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuRadioGroup value={String(rowWindow)} onValueChange={handleChange}>
+          {STREAMING_ROW_WINDOW_OPTIONS.map((option) => (
+            <DropdownMenuRadioItem key={option} value={String(option)} className="text-xs">
+              {numberFormatter(option)} rows
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+const StreamingResultStatus = memo(function StreamingResultStatus({
+  result,
+}: {
+  result: StreamingQueryResult;
+}) {
+  const numberFormatter = Formatter.getInstance().getFormatter("comma_number");
+  const binarySizeFormatter = Formatter.getInstance().getFormatter("binary_size");
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 py-1 text-xs text-muted-foreground">
+      <span>
+        Received: {numberFormatter(result.receivedRows)} rows,{" "}
+        {binarySizeFormatter(result.receivedBytes)}
+      </span>
+      {result.progress.readRows > 0 && (
+        <span>
+          Read: {numberFormatter(result.progress.readRows)}
+          {result.progress.totalRowsToRead > 0 &&
+            ` / ${numberFormatter(result.progress.totalRowsToRead)}`}{" "}
+          rows, {binarySizeFormatter(result.progress.readBytes)}
+        </span>
+      )}
+      {result.truncated && (
+        <span className="text-amber-600 dark:text-amber-400">
+          Showing first {numberFormatter(result.rowCount)} rows
+        </span>
+      )}
+      <RowWindowSelector />
+    </div>
+  );
+});
+
 export const QueryResponseTableView = memo(function QueryResponseTableView({
   queryResponse,
   enableCompactMode = true,
 }: QueryResponseTableViewProps) {
+  if (isStreamingQueryResult(queryResponse.data)) {
+    const result = queryResponse.data;
+    if (result.completed && result.receivedRows === 0) {
+      return (
+        <div className="pb-4 text-sm text-muted-foreground">
+          Query was executed successfully. No data is returned to show.
+        </div>
+      );
+    }
+
+    const height = Math.min(
+      STREAMING_TABLE_MAX_HEIGHT,
+      (result.rowCount + 2) * STREAMING_TABLE_ROW_HEIGHT
+    );
+    return (
+      <div className="w-full">
+        {result.meta.length > 0 && (
+          <div className="w-full border-b" style={{ height }}>
+            <DataTable
+              data={result.rows}
+              meta={result.meta}
+              fieldOptions={[]}
+              enableIndexColumn={true}
+              // The rows array grows in place while streaming, a sorted copy would not see new rows
+              enableClientSorting={result.completed}
+              enableCompactMode={enableCompactMode}
+              stickyHeader={true}
+            />
+          </div>
+        )}
+        <StreamingResultStatus result={result} />
+      </div>
+    );
+  }
+
   // Parse JSON response for table view
   let parsedTableData: {
     meta: { name: string; type?: string }[];
@@ -1,12 +1,14 @@
 import { useConnection } from "@/components/connection/connection-context";
 import { QueryListView } from "@/components/query-tab/query-list-view";
-import { TabManager } from "@/components/tab-manager";
+import { TabManager, type QueryBatch } from "@/components/tab-manager";
 import dynamic from "next/dynamic";
 import { memo, useCallback, useEffect, useRef, useState } from "react";
 import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
 import { QueryControl } from "./query-control/query-control";
 import { QueryExecutionProvider, useQueryExecutor } from "./query-execution/query-executor";
 import type { QueryInputViewRef } from "./query-input/query-input-view";
+import { showQueryParameterDialog } from "./saved-query/query-parameter-dialog";
+import { toQueryParameterSettings } from "./saved-query/query-parameters";
 
 // Dynamically import QueryInputView to prevent SSR issues with ace editor
 const QueryInputView = dynamic(
@@ -21,6 +23,8 @@ export interface QueryTabProps {
   initialQuery?: string;
   initialMode?: "replace" | "insert" | "none";
   initialExecute?: boolean;
+  initialParameters?: Record<string, string>;
+  initialBatch?: QueryBatch;
   active?: boolean;
 }
 
@@ -29,11 +33,13 @@ const QueryTabContent = ({
   initialQuery,
   initialMode,
   initialExecute,
+  initialParameters,
+  initialBatch,
   active,
 }: QueryTabProps) => {
   const queryInputRef = useRef<QueryInputViewRef>(null);
   const { connection } = useConnection();
-  const { executeQuery, isSqlExecuting } = useQueryExecutor();
+  const { executeQuery, executeBatch, isSqlExecuting } = useQueryExecutor();
 
   // Pending query state for handling mode switching
   const [pendingQueryInfo, setPendingQueryInfo] = useState<{
@@ -41,6 +47,20 @@ const QueryTabContent = ({
     mode: "replace" | "insert";
   } | null>(null);
 
+  // Ask for the values of {name:Type} parameters unless they're given
+  const executeWithParameters = useCallback(
+    (sql: string, parameters?: Record<string, string>) => {
+      const run = (values: Record<string, string>) =>
+        executeQuery(sql, undefined, undefined, toQueryParameterSettings(values));
+      if (parameters) {
+        run(parameters);
+      } else {
+        showQueryParameterDialog(sql, run);
+      }
+    },
+    [executeQuery]
+  );
+
   // Unified handler for Cmd+Enter in QueryInputView
   const handleInputRun = useCallback(
     (sql: string) => {
@@ -52,15 +72,16 @@ const QueryTabContent = ({
         return;
       }
 
-      executeQuery(sql);
+      executeWithParameters(sql);
     },
-    [executeQuery, connection, isSqlExecuting]
+    [executeWithParameters, connection, isSqlExecuting]
   );
 
   // Listen for query tab activation events
   useEffect(() => {
     const handler = (event: CustomEvent<import("@/components/tab-manager").TabInfo>) => {
-      if (event.detail.type === "query") {
+      // Each query tab only handles the events sent to it, "query" is the default query tab
+      if (event.detail.type === "query" && event.detail.id === (tabId ?? "query")) {
         const queryTabInfo = event.detail as import("@/components/tab-manager").QueryTabInfo;
 
         // Handle query insertion if provided
@@ -75,15 +96,22 @@ const QueryTabContent = ({
 
           // Trigger execution if requested
           if (queryTabInfo.initialExecute) {
-            executeQuery(queryTabInfo.initialQuery);
+            executeWithParameters(queryTabInfo.initialQuery, queryTabInfo.initialParameters);
           }
         }
+
+        if (queryTabInfo.initialBatch) {
+          executeBatch(queryTabInfo.initialBatch.statements, {
+            failureMode: queryTabInfo.initialBatch.failureMode,
+            source: "all",
+          });
+        }
       }
     };
 
     const unsubscribe = TabManager.onOpenTab(handler);
     return unsubscribe;
-  }, [executeQuery]);
+  }, [tabId, executeWithParameters, executeBatch]);
 
   // Apply pending query when editor is ready
   useEffect(() => {
@@ -102,11 +130,26 @@ const QueryTabContent = ({
     if (initialExecute && initialQuery) {
       // Small delay to ensure the execution state is ready and connection is available
       const timer = setTimeout(() => {
-        executeQuery(initialQuery);
+        executeWithParameters(initialQuery, initialParameters);
+      }, 100);
+      return () => clearTimeout(timer);
+    }
+  }, [initialExecute, initialQuery, initialParameters, executeWithParameters]);
+
+  // Execute the initial batch on mount if given. DDL must not run twice, so it's only executed once
+  const initialBatchExecutedRef = useRef(false);
+  useEffect(() => {
+    if (initialBatch && !initialBatchExecutedRef.current) {
+      const timer = setTimeout(() => {
+        initialBatchExecutedRef.current = true;
+        executeBatch(initialBatch.statements, {
+          failureMode: initialBatch.failureMode,
+          source: "all",
+        });
       }, 100);
       return () => clearTimeout(timer);
     }
-  }, [initialExecute, initialQuery, executeQuery]);
+  }, [initialBatch, executeBatch]);
 
   // Focus editor when tab becomes active (existing effect)
   useEffect(() => {
@@ -153,7 +196,7 @@ const QueryTabContent = ({
             ref={queryInputRef}
             initialQuery={initialMode !== "none" ? initialQuery : undefined}
             initialMode={initialMode === "none" ? "replace" : initialMode}
-            storageKey="sql:input"
+            storageKey={tabId && tabId !== "query" ? `sql:input:${tabId}` : "sql:input"}
             language="dsql"
             onRun={handleInputRun}
           />
@@ -61,12 +61,16 @@ export interface QueryViewProps {
   };
 }
 
+// How the execution of a statement ended
+export type QueryExecutionOutcome = "success" | "failed" | "aborted";
+
 export interface SQLMessage {
   type: "sql";
   id: string;
   queryRequest: QueryRequestViewModel;
   queryResponse?: QueryResponseViewModel; // Response after query execution
   isExecuting: boolean; // Whether the query is currently executing
+  outcome?: QueryExecutionOutcome; // Set by the executor when the query stops executing
   batch?: {
     statementIndex: number;
     statementCount: number;
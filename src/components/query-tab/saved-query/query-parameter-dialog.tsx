@@ -0,0 +1,126 @@
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Play } from "lucide-react";
+import { useState } from "react";
+import {
+  extractQueryParameters,
+  validateParameterValue,
+  type QueryParameter,
+} from "./query-parameters";
+
+// Values entered in this session, so that running the same query again doesn't require typing them again
+const lastParameterValues = new Map<string, string>();
+
+export function rememberParameterValues(values: Record<string, string>) {
+  for (const [name, value] of Object.entries(values)) {
+    lastParameterValues.set(name, value);
+  }
+}
+
+function QueryParameterForm({
+  parameters,
+  initialValues,
+  onSubmit,
+}: {
+  parameters: QueryParameter[];
+  initialValues: Record<string, string>;
+  onSubmit: (values: Record<string, string>) => void;
+}) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      parameters.map((p) => [
+        p.name,
+        initialValues[p.name] ?? lastParameterValues.get(p.name) ?? "",
+      ])
+    )
+  );
+  const [submitted, setSubmitted] = useState(false);
+
+  const errors = Object.fromEntries(
+    parameters.map((p) => [p.name, validateParameterValue(p.type, values[p.name])])
+  );
+  const hasError = Object.values(errors).some((error) => error !== undefined);
+
+  const handleSubmit = () => {
+    setSubmitted(true);
+    if (hasError) {
+      return;
+    }
+    rememberParameterValues(values);
+    Dialog.close();
+    onSubmit(values);
+  };
+
+  return (
+    <form
+      className="flex flex-col gap-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSubmit();
+      }}
+    >
+      <div className="grid grid-cols-[160px_1fr] gap-x-4 gap-y-2 items-start">
+        {parameters.map((parameter, index) => (
+          <div key={parameter.name} className="contents">
+            <Label className="pt-2.5 break-all">
+              {parameter.name}
+              <div className="text-xs text-muted-foreground font-normal">{parameter.type}</div>
+            </Label>
+            <div>
+              <Input
+                autoFocus={index === 0}
+                value={values[parameter.name]}
+                onChange={(e) => setValues({ ...values, [parameter.name]: e.target.value })}
+              />
+              {submitted && errors[parameter.name] && (
+                <div className="text-xs text-destructive mt-1">{errors[parameter.name]}</div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Values are sent as they are, strings should not be quoted. Use \N for NULL.
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" className="gap-1">
+          <Play className="h-3 w-3" />
+          Run
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Ask for the values of the {name:Type} parameters of the SQL before running it.
+ * If the SQL has no parameter, onSubmit is called immediately with empty values.
+ */
+export function showQueryParameterDialog(
+  sql: string,
+  onSubmit: (values: Record<string, string>) => void,
+  initialValues: Record<string, string> = {}
+) {
+  const parameters = extractQueryParameters(sql);
+  if (parameters.length === 0) {
+    onSubmit({});
+    return;
+  }
+
+  Dialog.showDialog({
+    title: "Query Parameters",
+    className: "sm:max-w-[560px]",
+    mainContent: (
+      <QueryParameterForm
+        parameters={parameters}
+        initialValues={initialValues}
+        onSubmit={onSubmit}
+      />
+    ),
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractQueryParameters,
+  toQueryParameterSettings,
+  validateParameterValue,
+} from "./query-parameters";
+
+describe("extractQueryParameters", () => {
+  it("extracts typed placeholders in order without duplicates", () => {
+    const sql =
+      "SELECT * FROM t WHERE id = {id:UInt64} AND tags IN {tags: Array(String)} OR parent = {id:UInt64}";
+    expect(extractQueryParameters(sql)).toEqual([
+      { name: "id", type: "UInt64" },
+      { name: "tags", type: "Array(String)" },
+    ]);
+  });
+
+  it("ignores placeholders in literals, identifiers and comments", () => {
+    const sql = [
+      "SELECT '{a:String}', \"{b:String}\", `{c:String}` -- {d:String}",
+      "/* {e:String} */ FROM t WHERE x = 'it''s {f:String}' AND y = {g:Nullable(DateTime64(3))}",
+    ].join("\n");
+    expect(extractQueryParameters(sql)).toEqual([{ name: "g", type: "Nullable(DateTime64(3))" }]);
+  });
+
+  it("ignores braces that are not placeholders", () => {
+    expect(extractQueryParameters("SELECT map('a', 1), {} FROM t")).toEqual([]);
+  });
+
+  it("ignores the cluster templates resolved by the connection", () => {
+    const sql = [
+      "SELECT * FROM {clusterAllReplicas:system.query_log}",
+      "JOIN {cluster:system.parts} USING (table) JOIN {table:system.tables} USING (database)",
+      "WHERE event_date = {date:Date} AND cluster = '{cluster}'",
+    ].join("\n");
+    expect(extractQueryParameters(sql)).toEqual([{ name: "date", type: "Date" }]);
+  });
+});
+
+describe("toQueryParameterSettings", () => {
+  it("prefixes names with param_", () => {
+    expect(toQueryParameterSettings({ id: "1", name: "x" })).toEqual({
+      param_id: "1",
+      param_name: "x",
+    });
+  });
+});
+
+describe("validateParameterValue", () => {
+  it("validates numeric types", () => {
+    expect(validateParameterValue("UInt32", "12")).toBeUndefined();
+    expect(validateParameterValue("UInt32", "-1")).toBeDefined();
+    expect(validateParameterValue("Int64", "1.5")).toBeDefined();
+    expect(validateParameterValue("Float64", "1.5")).toBeUndefined();
+    expect(validateParameterValue("Decimal(10, 2)", "abc")).toBeDefined();
+    expect(validateParameterValue("Nullable(Int8)", "\\N")).toBeUndefined();
+    expect(validateParameterValue("String", "anything")).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * A query parameter declared by a {name:Type} placeholder in the SQL.
+ * See https://clickhouse.com/docs/interfaces/cli#cli-queries-with-parameters
+ */
+export interface QueryParameter {
+  name: string;
+  type: string;
+}
+
+const PLACEHOLDER_PATTERN = /^\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*([^{}]+?)\s*\}/;
+
+/**
+ * Templates such as {clusterAllReplicas:system.query_log} have the same shape as parameters,
+ * but they are resolved by Connection.resolveClusterTemplates before the query is sent
+ */
+const CONNECTION_TEMPLATE_NAMES = new Set(["clusterAllReplicas", "cluster", "table"]);
+
+/**
+ * Extract the parameters from the SQL in the order they first appear.
+ * Placeholders inside string literals, quoted identifiers and comments are ignored.
+ */
+export function extractQueryParameters(sql: string): QueryParameter[] {
+  const parameters: QueryParameter[] = [];
+  const seen = new Set<string>();
+
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (ch === "'" || ch === '"' || ch === "`") {
+      // Skip quoted text, both backslash escape and doubled quote are supported
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === "\\") {
+          i += 2;
+        } else if (sql[i] === ch) {
+          if (sql[i + 1] === ch) {
+            i += 2;
+          } else {
+            i++;
+            break;
+          }
+        } else {
+          i++;
+        }
+      }
+      continue;
+    }
+
+    if (ch === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    if (ch === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    if (ch === "{") {
+      const match = PLACEHOLDER_PATTERN.exec(sql.substring(i));
+      if (match) {
+        const [placeholder, name, type] = match;
+        if (!seen.has(name) && !CONNECTION_TEMPLATE_NAMES.has(name)) {
+          seen.add(name);
+          parameters.push({ name, type });
+        }
+        i += placeholder.length;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return parameters;
+}
+
+/**
+ * Convert parameter values to the settings of the HTTP interface, which are passed as param_<name>
+ */
+export function toQueryParameterSettings(values: Record<string, string>): Record<string, string> {
+  const settings: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    settings[`param_${name}`] = value;
+  }
+  return settings;
+}
+
+/**
+ * Check the value against numeric types so that obvious mistakes are reported before the query is sent.
+ * Other types are validated by the server.
+ */
+export function validateParameterValue(type: string, value: string): string | undefined {
+  let baseType = type.trim();
+  const nullable = /^Nullable\((.*)\)$/.exec(baseType);
+  if (nullable) {
+    if (value === "\\N") {
+      return undefined;
+    }
+    baseType = nullable[1].trim();
+  }
+
+  if (/^U?Int(8|16|32|64|128|256)$/.test(baseType)) {
+    if (!/^-?\d+$/.test(value.trim())) {
+      return `${type} requires an integer`;
+    }
+    if (baseType.startsWith("U") && value.trim().startsWith("-")) {
+      return `${type} requires a non-negative integer`;
+    }
+  } else if (/^(Float(32|64)|Decimal(32|64|128|256)?\b)/.test(baseType)) {
+    if (value.trim() === "" || !Number.isFinite(Number(value))) {
+      return `${type} requires a number`;
+    }
+  }
+  return undefined;
+}
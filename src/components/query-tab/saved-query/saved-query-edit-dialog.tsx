@@ -0,0 +1,158 @@
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toastManager } from "@/lib/toast";
+import { useMemo, useState } from "react";
+import { extractQueryParameters } from "./query-parameters";
+import { SavedQueryManager, type SavedQuery, type SavedQueryDraft } from "./saved-query-manager";
+
+function parseTags(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter((tag) => tag.length > 0)
+    )
+  );
+}
+
+function SavedQueryEditContent({ initialQuery }: { initialQuery: SavedQueryDraft }) {
+  const [query, setQuery] = useState<SavedQueryDraft>(initialQuery);
+  const [tagsText, setTagsText] = useState(initialQuery.tags.join(", "));
+  const parameters = useMemo(() => extractQueryParameters(query.sql), [query.sql]);
+  const folders = useMemo(() => SavedQueryManager.getInstance().getFolders(), []);
+
+  const update = (changes: Partial<SavedQueryDraft>) => {
+    setQuery((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = () => {
+    const name = query.name.trim();
+    if (name === "") {
+      toastManager.show("Name can't be empty.", "error");
+      return;
+    }
+    if (query.sql.trim() === "") {
+      toastManager.show("SQL can't be empty.", "error");
+      return;
+    }
+
+    // Drop values of parameters that have been removed from the SQL
+    const parameterValues = Object.fromEntries(
+      parameters
+        .filter((p) => query.parameterValues[p.name] !== undefined)
+        .map((p) => [p.name, query.parameterValues[p.name]])
+    );
+    SavedQueryManager.getInstance().saveQuery({
+      ...query,
+      name,
+      folder: query.folder.trim(),
+      description: query.description.trim(),
+      tags: parseTags(tagsText),
+      parameterValues,
+    });
+    toastManager.show(`Query "${name}" saved.`, "success");
+    Dialog.close();
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-[120px_1fr] gap-x-4 gap-y-2 items-center">
+        <Label>Name</Label>
+        <Input
+          autoFocus
+          value={query.name}
+          placeholder="e.g. Slow queries of a user"
+          onChange={(e) => update({ name: e.target.value })}
+        />
+
+        <Label>Folder</Label>
+        <Input
+          list="saved-query-folders"
+          value={query.folder}
+          placeholder="Top level"
+          onChange={(e) => update({ folder: e.target.value })}
+        />
+        <datalist id="saved-query-folders">
+          {folders.map((folder) => (
+            <option key={folder} value={folder} />
+          ))}
+        </datalist>
+
+        <Label>Tags</Label>
+        <Input
+          value={tagsText}
+          placeholder="Comma separated, e.g. perf, daily"
+          onChange={(e) => setTagsText(e.target.value)}
+        />
+
+        <Label className="self-start pt-2">Description</Label>
+        <Textarea
+          rows={2}
+          value={query.description}
+          onChange={(e) => update({ description: e.target.value })}
+        />
+
+        <Label className="self-start pt-2">SQL</Label>
+        <Textarea
+          className="font-mono text-xs min-h-[180px]"
+          value={query.sql}
+          onChange={(e) => update({ sql: e.target.value })}
+        />
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Use {"{name:Type}"} placeholders such as {"{user:String}"} for values that change between
+        runs. They are asked before the query is run.
+      </div>
+      {parameters.length > 0 && (
+        <div className="grid grid-cols-[120px_1fr] gap-x-4 gap-y-2 items-center">
+          {parameters.map((parameter) => (
+            <div key={parameter.name} className="contents">
+              <Label className="break-all">
+                {parameter.name}
+                <span className="text-xs text-muted-foreground font-normal"> {parameter.type}</span>
+              </Label>
+              <Input
+                value={query.parameterValues[parameter.name] ?? ""}
+                placeholder="Default value"
+                onChange={(e) =>
+                  update({
+                    parameterValues: { ...query.parameterValues, [parameter.name]: e.target.value },
+                  })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show a dialog to add a query to the library, or to edit a saved query.
+ */
+export function showSavedQueryEditDialog(options: { query: SavedQuery } | { sql: string }) {
+  const initialQuery: SavedQueryDraft =
+    "query" in options
+      ? options.query
+      : { name: "", folder: "", tags: [], description: "", sql: options.sql, parameterValues: {} };
+  Dialog.showDialog({
+    title: "query" in options ? "Edit Saved Query" : "Save Query",
+    className: "sm:max-w-[760px]",
+    mainContent: <SavedQueryEditContent initialQuery={initialQuery} />,
+  });
+}
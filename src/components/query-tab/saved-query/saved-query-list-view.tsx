@@ -0,0 +1,267 @@
+import { useConnection } from "@/components/connection/connection-context";
+import { Dialog } from "@/components/shared/use-dialog";
+import { TabManager } from "@/components/tab-manager";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toastManager } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import {
+  ChevronDown,
+  ChevronRight,
+  FileInput,
+  Folder,
+  Link,
+  Pencil,
+  Play,
+  Plus,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { showQueryParameterDialog } from "./query-parameter-dialog";
+import { showSavedQueryEditDialog } from "./saved-query-edit-dialog";
+import { SavedQueryManager, type SavedQuery } from "./saved-query-manager";
+import { createShareLink } from "./saved-query-share";
+
+function useSavedQueries(): SavedQuery[] {
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  useEffect(() => {
+    const manager = SavedQueryManager.getInstance();
+    setQueries(manager.getQueries());
+    return manager.subscribe(() => setQueries(manager.getQueries()));
+  }, []);
+  return queries;
+}
+
+function matches(query: SavedQuery, search: string): boolean {
+  return (
+    query.name.toLowerCase().includes(search) ||
+    query.folder.toLowerCase().includes(search) ||
+    query.description.toLowerCase().includes(search) ||
+    query.tags.some((tag) => tag.toLowerCase().includes(search))
+  );
+}
+
+function SavedQueryItem({ query }: { query: SavedQuery }) {
+  const { connection } = useConnection();
+
+  const handleRun = () => {
+    showQueryParameterDialog(
+      query.sql,
+      (values) => {
+        if (connection) {
+          SavedQueryManager.getInstance().recordRun(query.id, connection.name, values);
+        }
+        TabManager.activateQueryTab({
+          query: query.sql,
+          mode: "replace",
+          execute: true,
+          parameters: values,
+        });
+      },
+      query.parameterValues
+    );
+  };
+
+  const handleCopyLink = async () => {
+    const link = createShareLink(
+      { name: query.name, sql: query.sql, parameterValues: query.parameterValues },
+      window.location.origin + window.location.pathname
+    );
+    try {
+      await navigator.clipboard.writeText(link);
+      toastManager.show("Share link copied to clipboard.", "success");
+    } catch {
+      toastManager.show("Failed to copy to clipboard", "error");
+    }
+  };
+
+  const handleDelete = () => {
+    Dialog.confirm({
+      title: "Delete Saved Query",
+      description: `Are you sure to delete saved query "${query.name}"?`,
+      dialogButtons: [
+        {
+          text: "Delete",
+          variant: "destructive",
+          default: true,
+          onClick: async () => {
+            SavedQueryManager.getInstance().deleteQuery(query.id);
+            return true;
+          },
+        },
+        { text: "Cancel", default: false, onClick: async () => true },
+      ],
+    });
+  };
+
+  const actions = [
+    { title: "Run", icon: Play, onClick: handleRun },
+    {
+      title: "Open in editor",
+      icon: FileInput,
+      onClick: () => TabManager.activateQueryTab({ query: query.sql, mode: "replace" }),
+    },
+    { title: "Copy share link", icon: Link, onClick: handleCopyLink },
+    { title: "Edit", icon: Pencil, onClick: () => showSavedQueryEditDialog({ query }) },
+    { title: "Delete", icon: Trash2, onClick: handleDelete },
+  ];
+
+  return (
+    <div className="group px-2 py-1 hover:bg-muted/50" title={query.sql}>
+      <div className="flex items-center gap-1">
+        <span className="flex-1 min-w-0 truncate text-sm">{query.name}</span>
+        <div className="hidden group-hover:flex gap-0.5">
+          {actions.map(({ title, icon: Icon, onClick }) => (
+            <Button
+              key={title}
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              title={title}
+              onClick={onClick}
+            >
+              <Icon className="!h-3 !w-3" />
+            </Button>
+          ))}
+        </div>
+      </div>
+      {query.description && (
+        <div className="text-xs text-muted-foreground line-clamp-2">{query.description}</div>
+      )}
+      {(query.tags.length > 0 || query.lastRun) && (
+        <div className="flex flex-wrap items-center gap-1 mt-0.5">
+          {query.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="px-1 py-0 text-[10px] font-normal">
+              {tag}
+            </Badge>
+          ))}
+          {query.lastRun && (
+            <span className="text-[10px] text-muted-foreground">
+              Last run {formatDistanceToNow(query.lastRun.at, { addSuffix: true })} on{" "}
+              {query.lastRun.connectionName}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SavedQueryFolder({
+  folder,
+  queries,
+  defaultOpen,
+}: {
+  folder: string;
+  queries: SavedQuery[];
+  defaultOpen: boolean;
+}) {
+  const [open, setOpen] = useState(defaultOpen);
+  const Chevron = open ? ChevronDown : ChevronRight;
+  return (
+    <div>
+      <button
+        className="flex w-full items-center gap-1 px-2 py-1 text-xs font-semibold text-muted-foreground hover:bg-muted/50"
+        onClick={() => setOpen(!open)}
+      >
+        <Chevron className="h-3 w-3" />
+        <Folder className="h-3 w-3" />
+        <span className="truncate">{folder}</span>
+        <span className="font-normal">({queries.length})</span>
+      </button>
+      <div className={cn("pl-3", !open && "hidden")}>
+        {queries.map((query) => (
+          <SavedQueryItem key={query.id} query={query} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The library of saved queries, grouped by folder
+ */
+export function SavedQueryListView() {
+  const queries = useSavedQueries();
+  const [search, setSearch] = useState("");
+
+  const { folders, topLevel } = useMemo(() => {
+    const lowerSearch = search.toLowerCase().trim();
+    const filtered = lowerSearch ? queries.filter((q) => matches(q, lowerSearch)) : queries;
+
+    const folders = new Map<string, SavedQuery[]>();
+    const topLevel: SavedQuery[] = [];
+    for (const query of filtered) {
+      if (query.folder === "") {
+        topLevel.push(query);
+      } else {
+        folders.set(query.folder, [...(folders.get(query.folder) ?? []), query]);
+      }
+    }
+    return { folders, topLevel };
+  }, [queries, search]);
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <div className="relative border-b-2 flex items-center h-9">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by name, folder or tag..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={cn(
+            "pl-8 rounded-none border-none flex-1 h-9",
+            search.length > 0 ? "pr-16" : "pr-10"
+          )}
+        />
+        {search && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="absolute right-8 top-1/2 -translate-y-1/2 h-6 w-6 p-0"
+            onClick={() => setSearch("")}
+            title="Clear search"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute right-2 top-1/2 -translate-y-1/2 h-6 w-6 p-0"
+          onClick={() => showSavedQueryEditDialog({ sql: "" })}
+          title="Add new query"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="h-full overflow-y-auto">
+        {Array.from(folders.entries()).map(([folder, folderQueries]) => (
+          <SavedQueryFolder
+            // Remount to expand the folders when searching
+            key={`${folder}:${search.trim() !== ""}`}
+            folder={folder}
+            queries={folderQueries}
+            defaultOpen={search.trim() !== "" || folders.size === 1}
+          />
+        ))}
+        {topLevel.map((query) => (
+          <SavedQueryItem key={query.id} query={query} />
+        ))}
+
+        {folders.size === 0 && topLevel.length === 0 && (
+          <div className="text-center text-sm text-muted-foreground py-4 px-2">
+            {queries.length === 0
+              ? "No saved query. Use Save > Save to Query Library in the query editor to add one."
+              : "No saved query found"}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
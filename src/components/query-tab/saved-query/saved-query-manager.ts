@@ -0,0 +1,106 @@
+import { StorageManager } from "@/lib/storage/storage-provider-manager";
+import { v7 as uuidv7 } from "uuid";
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  // Empty for queries at the top level of the library
+  folder: string;
+  tags: string[];
+  description: string;
+  sql: string;
+  // Values of the {name:Type} parameters, pre-filled in the form before the query is run
+  parameterValues: Record<string, string>;
+  lastRun?: {
+    at: number;
+    connectionName: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedQueryDraft = Omit<SavedQuery, "id" | "createdAt" | "updatedAt"> &
+  Partial<SavedQuery>;
+
+export class SavedQueryManager {
+  private static instance: SavedQueryManager;
+
+  public static getInstance(): SavedQueryManager {
+    return this.instance || (this.instance = new this());
+  }
+
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    StorageManager.getInstance().subscribeToStorageProviderChange(() => this.notifyListeners());
+  }
+
+  private getStorage() {
+    return StorageManager.getInstance().getStorageProvider().subStorage("saved-queries");
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  public getQueries(): SavedQuery[] {
+    const storage = this.getStorage();
+    return storage
+      .keys()
+      .map((id) => storage.getChildAsJSON<SavedQuery | null>(id, () => null))
+      .filter((query): query is SavedQuery => query !== null)
+      .sort((a, b) => a.folder.localeCompare(b.folder) || a.name.localeCompare(b.name));
+  }
+
+  public getQuery(id: string): SavedQuery | null {
+    return this.getStorage().getChildAsJSON<SavedQuery | null>(id, () => null);
+  }
+
+  public getFolders(): string[] {
+    return Array.from(new Set(this.getQueries().map((query) => query.folder)))
+      .filter((folder) => folder !== "")
+      .sort();
+  }
+
+  public saveQuery(query: SavedQueryDraft): SavedQuery {
+    const now = new Date().toISOString();
+    const saved: SavedQuery = {
+      ...query,
+      id: query.id ?? uuidv7(),
+      createdAt: query.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.getStorage().setChildJSON(saved.id, saved);
+    this.notifyListeners();
+    return saved;
+  }
+
+  public deleteQuery(id: string): void {
+    this.getStorage().removeChild(id);
+    this.notifyListeners();
+  }
+
+  /**
+   * Remember when the query was run and with which parameter values
+   */
+  public recordRun(id: string, connectionName: string, parameterValues: Record<string, string>) {
+    const query = this.getQuery(id);
+    if (!query) {
+      return;
+    }
+    // Not using saveQuery since running a query is not a modification of it
+    this.getStorage().setChildJSON(id, {
+      ...query,
+      parameterValues: { ...query.parameterValues, ...parameterValues },
+      lastRun: { at: Date.now(), connectionName },
+    } satisfies SavedQuery);
+    this.notifyListeners();
+  }
+}
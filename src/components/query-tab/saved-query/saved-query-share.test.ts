@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { createShareLink, decodeSharedQuery, encodeSharedQuery } from "./saved-query-share";
+
+describe("saved-query-share", () => {
+  it("round trips a query through the share link", () => {
+    const query = {
+      name: "Slow queries",
+      sql: "SELECT * FROM system.query_log WHERE query_duration_ms > {ms:UInt64}",
+      parameterValues: { ms: "1000" },
+    };
+    const link = createShareLink(query, "https://example.com/?a=1");
+    const url = new URL(link);
+    expect(url.search).toBe("?a=1");
+
+    expect(url.hash.startsWith("#query=")).toBe(true);
+    expect(decodeSharedQuery(url.hash.substring("#query=".length))).toEqual(query);
+    expect(decodeSharedQuery(encodeSharedQuery({ sql: "SELECT 1" }))).toEqual({
+      name: undefined,
+      sql: "SELECT 1",
+      parameterValues: undefined,
+    });
+  });
+
+  it("rejects invalid content", () => {
+    expect(decodeSharedQuery("not-a-valid-payload")).toBeNull();
+    expect(decodeSharedQuery(encodeSharedQuery({ name: "x" } as never))).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import LZString from "lz-string";
+
+/**
+ * The content of a share link. It's kept in the URL fragment so that it's never sent to the server.
+ */
+export interface SharedQuery {
+  name?: string;
+  sql: string;
+  parameterValues?: Record<string, string>;
+}
+
+const SHARE_HASH_KEY = "query";
+
+export function encodeSharedQuery(query: SharedQuery): string {
+  return LZString.compressToEncodedURIComponent(JSON.stringify(query));
+}
+
+/**
+ * Return null if the text is not a valid shared query
+ */
+export function decodeSharedQuery(encoded: string): SharedQuery | null {
+  try {
+    const json = LZString.decompressFromEncodedURIComponent(encoded);
+    if (!json) {
+      return null;
+    }
+    const value = JSON.parse(json) as Partial<SharedQuery>;
+    if (typeof value !== "object" || value === null || typeof value.sql !== "string") {
+      return null;
+    }
+    const parameterValues =
+      typeof value.parameterValues === "object" && value.parameterValues !== null
+        ? Object.fromEntries(
+            Object.entries(value.parameterValues).filter(([, v]) => typeof v === "string")
+          )
+        : undefined;
+    return {
+      name: typeof value.name === "string" ? value.name : undefined,
+      sql: value.sql,
+      parameterValues,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function createShareLink(query: SharedQuery, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_HASH_KEY}=${encodeSharedQuery(query)}`;
+  return url.toString();
+}
+
+/**
+ * Read the shared query from the URL fragment of the current page and remove it from the address bar,
+ * so that reloading the page does not open the query again.
+ */
+export function consumeSharedQueryFromLocation(): SharedQuery | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  // URLSearchParams is not used since it decodes '+', which is part of the encoded alphabet
+  const prefix = `#${SHARE_HASH_KEY}=`;
+  const encoded = window.location.hash.startsWith(prefix)
+    ? window.location.hash.substring(prefix.length)
+    : "";
+  if (!encoded) {
+    return null;
+  }
+
+  window.history.replaceState(
+    window.history.state,
+    "",
+    window.location.pathname + window.location.search
+  );
+  return decodeSharedQuery(encoded);
+}
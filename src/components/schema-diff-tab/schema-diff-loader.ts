@@ -0,0 +1,108 @@
+import type { Connection, JSONFormatResponse } from "@/lib/connection/connection";
+import { SqlUtils } from "@/lib/sql-utils";
+import {
+  parseCreateTableQuery,
+  type ColumnSchema,
+  type SchemaSnapshot,
+  type TableSchema,
+} from "./schema-diff";
+
+async function queryRows<T>(connection: Connection, sql: string): Promise<T[]> {
+  const { response } = connection.queryOnNode(sql, { default_format: "JSON" });
+  return (await response).data.json<JSONFormatResponse>().data as unknown as T[];
+}
+
+/**
+ * Load the schema of all tables of a database, or only of the given table.
+ * The query is sent to connection.metadata.remoteHostName when it's set, so that a replica can be compared with another one.
+ */
+export async function loadSchemaSnapshot(
+  connection: Connection,
+  database: string,
+  table?: string
+): Promise<SchemaSnapshot> {
+  const db = SqlUtils.escapeSqlString(database);
+  const tableFilter = table === undefined ? "" : ` AND name = '${SqlUtils.escapeSqlString(table)}'`;
+  const columnTableFilter =
+    table === undefined ? "" : ` AND table = '${SqlUtils.escapeSqlString(table)}'`;
+  const [tables, columns] = await Promise.all([
+    queryRows<{
+      name: string;
+      engine: string;
+      partition_key: string;
+      sorting_key: string;
+      primary_key: string;
+      create_table_query: string;
+    }>(
+      connection,
+      `SELECT name, engine, partition_key, sorting_key, primary_key, create_table_query
+FROM system.tables
+WHERE database = '${db}' AND NOT is_temporary AND NOT startsWith(name, '.inner')${tableFilter}
+ORDER BY name`
+    ),
+    queryRows<{
+      table: string;
+      name: string;
+      type: string;
+      default_kind: string;
+      default_expression: string;
+      compression_codec: string;
+      comment: string;
+    }>(
+      connection,
+      `SELECT table, name, type, default_kind, default_expression, compression_codec, comment
+FROM system.columns
+WHERE database = '${db}'${columnTableFilter}
+ORDER BY table, position`
+    ),
+  ]);
+
+  const columnsByTable = new Map<string, ColumnSchema[]>();
+  for (const row of columns) {
+    const list = columnsByTable.get(row.table) ?? [];
+    list.push({
+      name: row.name,
+      type: row.type,
+      defaultKind: row.default_kind,
+      defaultExpression: row.default_expression,
+      codec: row.compression_codec,
+      comment: row.comment,
+    });
+    columnsByTable.set(row.table, list);
+  }
+
+  return {
+    database,
+    tables: tables.map(
+      (row): TableSchema => ({
+        name: row.name,
+        engine: row.engine,
+        partitionKey: row.partition_key,
+        sortingKey: row.sorting_key,
+        primaryKey: row.primary_key,
+        columns: columnsByTable.get(row.name) ?? [],
+        createQuery: row.create_table_query,
+        ...parseCreateTableQuery(row.create_table_query),
+      })
+    ),
+  };
+}
+
+export async function loadDatabaseNames(connection: Connection): Promise<string[]> {
+  const rows = await queryRows<{ name: string }>(
+    connection,
+    "SELECT name FROM system.databases WHERE name NOT IN ('system', 'information_schema', 'INFORMATION_SCHEMA') ORDER BY name"
+  );
+  return rows.map((row) => row.name);
+}
+
+export async function loadClusterNodes(connection: Connection): Promise<string[]> {
+  if (!connection.cluster || !connection.canQueryOnNode()) {
+    return [];
+  }
+  const rows = await queryRows<{ host_name: string }>(
+    connection,
+    `SELECT DISTINCT host_name FROM system.clusters WHERE cluster = '${SqlUtils.escapeSqlString(connection.cluster)}' ORDER BY host_name`
+  );
+  return rows.map((row) => row.host_name);
+}
@@ -0,0 +1,434 @@
+import { useConnection } from "@/components/connection/connection-context";
+import { ThemedSyntaxHighlighter } from "@/components/shared/themed-syntax-highlighter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CopyButton } from "@/components/ui/copy-button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Connection } from "@/lib/connection/connection";
+import { ConnectionManager } from "@/lib/connection/connection-manager";
+import { cn } from "@/lib/utils";
+import { ArrowRight, ChevronDown, Loader2 } from "lucide-react";
+import { memo, useEffect, useMemo, useState } from "react";
+import { diffSchemas, type ObjectDiff, type ObjectDiffStatus } from "./schema-diff";
+import { loadClusterNodes, loadDatabaseNames, loadSchemaSnapshot } from "./schema-diff-loader";
+
+interface SchemaSource {
+  connectionName: string;
+  database: string;
+  // Load the schema from a specific node of the cluster of the connection
+  node: string;
+}
+
+const STATUS_CLASS_NAMES: Record<ObjectDiffStatus, string> = {
+  added: "bg-green-600 text-white",
+  removed: "bg-destructive text-destructive-foreground",
+  changed: "bg-amber-500 text-white",
+  unchanged: "bg-muted text-muted-foreground",
+};
+
+/**
+ * Create a separate connection for a source, so that choosing a node doesn't affect the other tabs
+ */
+function createSourceConnection(source: SchemaSource, current: Connection | null) {
+  const config = ConnectionManager.getInstance()
+    .getConnections()
+    .find((c) => c.name === source.connectionName);
+  if (!config) {
+    return undefined;
+  }
+
+  const connection = Connection.create(config);
+  connection.metadata = {
+    ...connection.metadata,
+    // remote() that is used to query a node needs the user at server side, which is only known for the current connection
+    internalUser:
+      current?.name === config.name
+        ? current.metadata.internalUser
+        : connection.metadata.internalUser,
+    remoteHostName: source.node || undefined,
+  };
+  return connection;
+}
+
+function SourceDropdown({
+  value,
+  options,
+  placeholder,
+  onChange,
+}: {
+  value: string;
+  options: { label: string; value: string }[];
+  placeholder: string;
+  onChange: (value: string) => void;
+}) {
+  const selected = options.find((o) => o.value === value);
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="w-56 justify-between">
+          <span className="truncate">{selected?.label ?? placeholder}</span>
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="max-h-80 overflow-auto">
+        <DropdownMenuRadioGroup value={value} onValueChange={onChange}>
+          {options.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function SourcePicker({
+  title,
+  source,
+  onChange,
+}: {
+  title: string;
+  source: SchemaSource;
+  onChange: (source: SchemaSource) => void;
+}) {
+  const { connection } = useConnection();
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [nodes, setNodes] = useState<string[]>([]);
+
+  useEffect(() => {
+    const sourceConnection = createSourceConnection(
+      { connectionName: source.connectionName, database: "", node: "" },
+      connection
+    );
+    if (!sourceConnection) {
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([loadDatabaseNames(sourceConnection), loadClusterNodes(sourceConnection)])
+      .then(([databaseNames, nodeNames]) => {
+        if (!cancelled) {
+          setDatabases(databaseNames);
+          setNodes(nodeNames);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setDatabases([]);
+          setNodes([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source.connectionName, connection]);
+
+  const connectionOptions = ConnectionManager.getInstance()
+    .getConnections()
+    .map((c) => ({ label: c.name, value: c.name }));
+
+  return (
+    <div className="flex flex-col gap-2 border rounded-md p-3">
+      <span className="text-sm font-semibold">{title}</span>
+      <div className="grid grid-cols-[80px_1fr] items-center gap-2">
+        <Label>Connection</Label>
+        <SourceDropdown
+          value={source.connectionName}
+          options={connectionOptions}
+          placeholder="Select a connection"
+          onChange={(connectionName) => onChange({ connectionName, database: "", node: "" })}
+        />
+        <Label>Database</Label>
+        <SourceDropdown
+          value={source.database}
+          options={databases.map((d) => ({ label: d, value: d }))}
+          placeholder="Select a database"
+          onChange={(database) => onChange({ ...source, database })}
+        />
+        {nodes.length > 0 && (
+          <>
+            <Label>Node</Label>
+            <SourceDropdown
+              value={source.node}
+              options={[
+                { label: "Any node", value: "" },
+                ...nodes.map((n) => ({ label: n, value: n })),
+              ]}
+              placeholder="Any node"
+              onChange={(node) => onChange({ ...source, node })}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Statements that can't be generated are added as comments
+function formatStatements(statements: string[]): string {
+  return statements
+    .map((statement) => (statement.startsWith("--") ? statement : `${statement};`))
+    .join("\n\n");
+}
+
+function ObjectDiffDetail({ diff }: { diff: ObjectDiff }) {
+  const migration = formatStatements(diff.migration);
+  return (
+    <div className="flex flex-col gap-3">
+      {diff.status === "added" && (
+        <p className="text-sm text-muted-foreground">
+          {diff.engine} {diff.name} only exists in the source.
+        </p>
+      )}
+      {diff.status === "removed" && (
+        <p className="text-sm text-muted-foreground">
+          {diff.engine} {diff.name} only exists in the target.
+        </p>
+      )}
+      {diff.status === "unchanged" && (
+        <p className="text-sm text-muted-foreground">No differences.</p>
+      )}
+
+      {diff.changes.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-24">Kind</TableHead>
+              <TableHead className="w-40">Name</TableHead>
+              <TableHead className="w-24">Status</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Source</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diff.changes.map((change) => (
+              <TableRow key={`${change.kind}:${change.name}`}>
+                <TableCell>{change.kind}</TableCell>
+                <TableCell className="font-mono">{change.name}</TableCell>
+                <TableCell>{change.status}</TableCell>
+                <TableCell className="font-mono text-xs whitespace-pre-wrap break-all">
+                  {change.target ?? ""}
+                </TableCell>
+                <TableCell className="font-mono text-xs whitespace-pre-wrap break-all">
+                  {change.source ?? ""}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {diff.migration.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium">Migration</span>
+            <CopyButton value={migration} />
+          </div>
+          <div className="border rounded-md overflow-auto bg-muted/30">
+            <ThemedSyntaxHighlighter
+              language="sql"
+              customStyle={{
+                margin: 0,
+                padding: "0.75rem",
+                fontSize: "12px",
+                backgroundColor: "transparent",
+              }}
+              wrapLongLines
+            >
+              {migration}
+            </ThemedSyntaxHighlighter>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Compare the DDL of the tables in two databases, which can be on different connections or different nodes of a cluster
+ */
+export const SchemaDiffTab = memo(() => {
+  const { connection } = useConnection();
+  const [source, setSource] = useState<SchemaSource>({
+    connectionName: connection?.name ?? "",
+    database: "",
+    node: "",
+  });
+  const [target, setTarget] = useState<SchemaSource>({
+    connectionName: connection?.name ?? "",
+    database: "",
+    node: "",
+  });
+  const [onCluster, setOnCluster] = useState(true);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [diffs, setDiffs] = useState<ObjectDiff[] | null>(null);
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetCluster = useMemo(
+    () =>
+      ConnectionManager.getInstance()
+        .getConnections()
+        .find((c) => c.name === target.connectionName)?.cluster ?? "",
+    [target.connectionName]
+  );
+
+  const handleCompare = async () => {
+    const sourceConnection = createSourceConnection(source, connection);
+    const targetConnection = createSourceConnection(target, connection);
+    if (!sourceConnection || !targetConnection) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [sourceSnapshot, targetSnapshot] = await Promise.all([
+        loadSchemaSnapshot(sourceConnection, source.database),
+        loadSchemaSnapshot(targetConnection, target.database),
+      ]);
+      const result = diffSchemas(
+        sourceSnapshot,
+        targetSnapshot,
+        onCluster && targetCluster ? targetCluster : undefined
+      );
+      setDiffs(result);
+      setSelectedName(result.find((d) => d.status !== "unchanged")?.name ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const visibleDiffs = useMemo(
+    () => (diffs ?? []).filter((d) => showUnchanged || d.status !== "unchanged"),
+    [diffs, showUnchanged]
+  );
+  const counts = useMemo(() => {
+    const result: Record<ObjectDiffStatus, number> = {
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 0,
+    };
+    for (const d of diffs ?? []) {
+      result[d.status]++;
+    }
+    return result;
+  }, [diffs]);
+  const allMigrations = useMemo(
+    () => formatStatements((diffs ?? []).flatMap((d) => d.migration)),
+    [diffs]
+  );
+  const selected = visibleDiffs.find((d) => d.name === selectedName);
+
+  return (
+    <div className="h-full flex flex-col gap-3 p-2 overflow-hidden">
+      <div className="flex items-stretch gap-3">
+        <SourcePicker title="Source" source={source} onChange={setSource} />
+        <div className="flex items-center">
+          <ArrowRight className="h-5 w-5 text-muted-foreground" />
+        </div>
+        <SourcePicker title="Target" source={target} onChange={setTarget} />
+        <div className="flex flex-col justify-end gap-2">
+          {targetCluster && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schema-diff-on-cluster"
+                checked={onCluster}
+                onCheckedChange={setOnCluster}
+              />
+              <Label htmlFor="schema-diff-on-cluster">ON CLUSTER {targetCluster}</Label>
+            </div>
+          )}
+          <Button
+            size="sm"
+            disabled={isLoading || !source.database || !target.database}
+            onClick={handleCompare}
+            className="gap-1"
+          >
+            {isLoading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Compare
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <pre className="text-xs text-destructive whitespace-pre-wrap break-all max-h-[200px] overflow-auto">
+          {error}
+        </pre>
+      )}
+
+      {diffs && (
+        <>
+          <div className="flex items-center gap-4 text-sm">
+            <span>{counts.added} only in source</span>
+            <span>{counts.removed} only in target</span>
+            <span>{counts.changed} changed</span>
+            <span>{counts.unchanged} unchanged</span>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schema-diff-show-unchanged"
+                checked={showUnchanged}
+                onCheckedChange={setShowUnchanged}
+              />
+              <Label htmlFor="schema-diff-show-unchanged">Show unchanged</Label>
+            </div>
+            {allMigrations && (
+              <div className="ml-auto flex items-center gap-1">
+                <span className="text-muted-foreground">Copy all migration statements</span>
+                <CopyButton value={allMigrations} />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-1 gap-3 overflow-hidden">
+            <div className="w-72 shrink-0 overflow-auto border rounded-md">
+              {visibleDiffs.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">The schemas are the same.</p>
+              )}
+              {visibleDiffs.map((d) => (
+                <button
+                  key={d.name}
+                  type="button"
+                  className={cn(
+                    "w-full flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-left hover:bg-accent",
+                    d.name === selectedName && "bg-accent"
+                  )}
+                  onClick={() => setSelectedName(d.name)}
+                >
+                  <span className="truncate font-mono">{d.name}</span>
+                  <Badge className={cn("shrink-0", STATUS_CLASS_NAMES[d.status])}>{d.status}</Badge>
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-auto">
+              {selected && <ObjectDiffDetail diff={selected} />}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+
+SchemaDiffTab.displayName = "SchemaDiffTab";
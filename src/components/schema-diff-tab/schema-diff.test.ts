@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffSchemas,
+  normalizeEngine,
+  parseCreateTableQuery,
+  type ColumnSchema,
+  type TableSchema,
+} from "./schema-diff";
+
+const column = (name: string, type: string, extra: Partial<ColumnSchema> = {}): ColumnSchema => ({
+  name,
+  type,
+  defaultKind: "",
+  defaultExpression: "",
+  codec: "",
+  comment: "",
+  ...extra,
+});
+
+function table(createQuery: string, columns: ColumnSchema[], extra: Partial<TableSchema> = {}) {
+  return {
+    name: "events",
+    engine: "MergeTree",
+    partitionKey: "toYYYYMM(ts)",
+    sortingKey: "id",
+    primaryKey: "id",
+    columns,
+    createQuery,
+    ...parseCreateTableQuery(createQuery),
+    ...extra,
+  };
+}
+
+describe("parseCreateTableQuery", () => {
+  it("extracts the engine, TTL, settings, indexes and projections", () => {
+    const parsed = parseCreateTableQuery(
+      "CREATE TABLE db.events (`id` UInt64, `msg` String COMMENT 'a, b', INDEX idx_msg msg TYPE bloom_filter(0.01) GRANULARITY 1, PROJECTION by_msg (SELECT * ORDER BY msg)) ENGINE = ReplicatedMergeTree('/clickhouse/tables/{shard}/db/events', '{replica}') PARTITION BY toYYYYMM(ts) ORDER BY id TTL ts + toIntervalDay(30) SETTINGS index_granularity = 8192, storage_policy = 'hot_cold' COMMENT 'Events'"
+    );
+    expect(parsed).toEqual({
+      engineFull: "ReplicatedMergeTree",
+      ttl: "ts + toIntervalDay(30)",
+      settings: { index_granularity: "8192", storage_policy: "'hot_cold'" },
+      indexes: { idx_msg: "INDEX idx_msg msg TYPE bloom_filter(0.01) GRANULARITY 1" },
+      projections: { by_msg: "PROJECTION by_msg (SELECT * ORDER BY msg)" },
+    });
+  });
+
+  it("keeps the engine arguments other than the replica path", () => {
+    expect(
+      normalizeEngine(
+        "ReplicatedReplacingMergeTree('/clickhouse/tables/{uuid}/{shard}', '{replica}', ver)"
+      )
+    ).toBe("ReplicatedReplacingMergeTree(ver)");
+    expect(normalizeEngine("ReplacingMergeTree(ver)")).toBe("ReplacingMergeTree(ver)");
+  });
+});
+
+describe("diffSchemas", () => {
+  it("reports changes of an existing table with migration statements", () => {
+    const source = table(
+      "CREATE TABLE staging.events (`id` UInt64, `msg` String, `level` LowCardinality(String), INDEX idx_msg msg TYPE bloom_filter GRANULARITY 1) ENGINE = MergeTree PARTITION BY toYYYYMM(ts) ORDER BY id TTL ts + toIntervalDay(7) SETTINGS index_granularity = 8192, ttl_only_drop_parts = 1",
+      [column("id", "UInt64"), column("msg", "String"), column("level", "LowCardinality(String)")]
+    );
+    const target = table(
+      "CREATE TABLE prod.events (`id` UInt64, `msg` String, `host` String) ENGINE = MergeTree PARTITION BY toYYYYMM(ts) ORDER BY id SETTINGS index_granularity = 4096",
+      [column("id", "UInt64"), column("msg", "Nullable(String)"), column("host", "String")]
+    );
+
+    const [diff] = diffSchemas(
+      { database: "staging", tables: [source] },
+      { database: "prod", tables: [target] }
+    );
+    expect(diff.status).toBe("changed");
+    expect(diff.changes.map((c) => `${c.status} ${c.kind} ${c.name}`)).toEqual([
+      "changed column msg",
+      "added column level",
+      "removed column host",
+      "changed setting index_granularity",
+      "added setting ttl_only_drop_parts",
+      "added ttl ttl",
+      "added index idx_msg",
+    ]);
+    expect(diff.migration).toEqual([
+      "ALTER TABLE `prod`.`events` ADD COLUMN `level` LowCardinality(String) AFTER `msg`",
+      "ALTER TABLE `prod`.`events` MODIFY COLUMN `msg` String",
+      "ALTER TABLE `prod`.`events` DROP COLUMN `host`",
+      "ALTER TABLE `prod`.`events` ADD INDEX idx_msg msg TYPE bloom_filter GRANULARITY 1",
+      "ALTER TABLE `prod`.`events` MODIFY TTL ts + toIntervalDay(7)",
+      "ALTER TABLE `prod`.`events` MODIFY SETTING index_granularity = 8192, ttl_only_drop_parts = 1",
+    ]);
+  });
+
+  it("creates missing objects and drops extra ones on the target", () => {
+    const source = table(
+      "CREATE TABLE staging.events UUID '5d6b7f6e-0c52-4a55-9f0e-b0e5e3c8f7a1' (`id` UInt64) ENGINE = MergeTree ORDER BY id SETTINGS index_granularity = 8192",
+      [column("id", "UInt64")]
+    );
+    const extra = { ...source, name: "old_events" };
+
+    const diffs = diffSchemas(
+      { database: "staging", tables: [source] },
+      { database: "prod", tables: [extra] },
+      "default"
+    );
+    expect(diffs.map((d) => [d.name, d.status, d.migration])).toEqual([
+      [
+        "events",
+        "added",
+        [
+          "CREATE TABLE `prod`.events ON CLUSTER `default` (`id` UInt64) ENGINE = MergeTree ORDER BY id SETTINGS index_granularity = 8192",
+        ],
+      ],
+      ["old_events", "removed", ["DROP TABLE `prod`.`old_events` ON CLUSTER `default`"]],
+    ]);
+  });
+
+  it("ignores replica paths and database names when comparing", () => {
+    const source = table(
+      "CREATE TABLE a.events (`id` UInt64) ENGINE = ReplicatedMergeTree('/clickhouse/tables/1/a/events', 'r1') ORDER BY id",
+      [column("id", "UInt64")]
+    );
+    const target = table(
+      "CREATE TABLE b.events (`id` UInt64) ENGINE = ReplicatedMergeTree('/clickhouse/tables/2/b/events', 'r2') ORDER BY id",
+      [column("id", "UInt64")]
+    );
+    const view = (db: string) =>
+      table(`CREATE VIEW ${db}.v (\`id\` UInt64) AS SELECT id FROM ${db}.events`, [], {
+        name: "v",
+        engine: "View",
+      });
+
+    const diffs = diffSchemas(
+      { database: "a", tables: [source, view("a")] },
+      { database: "b", tables: [target, view("b")] }
+    );
+    expect(diffs.map((d) => d.status)).toEqual(["unchanged", "unchanged"]);
+  });
+});
@@ -0,0 +1,530 @@
+import { SqlUtils } from "@/lib/sql-utils";
+
+export interface ColumnSchema {
+  name: string;
+  type: string;
+  // DEFAULT, MATERIALIZED, ALIAS or EPHEMERAL, empty if the column has no default
+  defaultKind: string;
+  defaultExpression: string;
+  // e.g. CODEC(ZSTD(1))
+  codec: string;
+  comment: string;
+}
+
+export interface TableSchema {
+  name: string;
+  engine: string;
+  // Engine with arguments, replica paths of the Replicated engines are removed
+  engineFull: string;
+  partitionKey: string;
+  sortingKey: string;
+  primaryKey: string;
+  ttl: string;
+  settings: Record<string, string>;
+  // Name to the full definition, e.g. INDEX idx value TYPE minmax GRANULARITY 1
+  indexes: Record<string, string>;
+  projections: Record<string, string>;
+  columns: ColumnSchema[];
+  // create_table_query of system.tables
+  createQuery: string;
+}
+
+export interface SchemaSnapshot {
+  database: string;
+  tables: TableSchema[];
+}
+
+export type ObjectDiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type SchemaChangeKind =
+  | "column"
+  | "setting"
+  | "ttl"
+  | "index"
+  | "projection"
+  | "engine"
+  | "partition_key"
+  | "sorting_key"
+  | "primary_key"
+  | "definition";
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  name: string;
+  // Relative to the target: 'added' means it only exists in the source
+  status: "added" | "removed" | "changed";
+  source?: string;
+  target?: string;
+}
+
+export interface ObjectDiff {
+  name: string;
+  engine: string;
+  status: ObjectDiffStatus;
+  changes: SchemaChange[];
+  // Statements that make the object in the target the same as the one in the source
+  migration: string[];
+}
+
+export interface MigrationOptions {
+  sourceDatabase: string;
+  targetDatabase: string;
+  cluster?: string;
+}
+
+const VIEW_ENGINES = ["View", "MaterializedView", "LiveView", "WindowView"];
+
+// Keywords that start a clause after the column list of a CREATE TABLE statement
+const TABLE_CLAUSES = [
+  "ENGINE = ",
+  "PARTITION BY ",
+  "PRIMARY KEY ",
+  "ORDER BY ",
+  "SAMPLE BY ",
+  "TTL ",
+  "SETTINGS ",
+  "COMMENT ",
+];
+
+/**
+ * Call the visitor for every character that is neither in brackets nor in a quoted string or identifier.
+ * Opening and closing brackets of the top level are visited as well.
+ * Stops when the visitor returns true.
+ */
+function scanTopLevel(text: string, visitor: (index: number) => boolean | void): void {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote !== null) {
+      if (c === "\\") {
+        i++;
+      } else if (c === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (c === "'" || c === "`" || c === '"') {
+      quote = c;
+    } else if (c === "(" || c === "[") {
+      if (depth++ === 0 && visitor(i)) return;
+    } else if (c === ")" || c === "]") {
+      if (--depth === 0 && visitor(i)) return;
+    } else if (depth === 0 && visitor(i)) {
+      return;
+    }
+  }
+}
+
+export function splitTopLevel(text: string, separator: string = ","): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  scanTopLevel(text, (i) => {
+    if (text[i] === separator) {
+      parts.push(text.substring(start, i).trim());
+      start = i + 1;
+    }
+  });
+  parts.push(text.substring(start).trim());
+  return parts.filter((part) => part.length > 0);
+}
+
+function unquoteIdentifier(name: string): string {
+  return name.startsWith("`") && name.endsWith("`")
+    ? name.substring(1, name.length - 1).replaceAll("``", "`")
+    : name;
+}
+
+/**
+ * Extract the clauses that system.tables doesn't have a column for from create_table_query
+ */
+export function parseCreateTableQuery(createQuery: string): {
+  engineFull: string;
+  ttl: string;
+  settings: Record<string, string>;
+  indexes: Record<string, string>;
+  projections: Record<string, string>;
+} {
+  const result = {
+    engineFull: "",
+    ttl: "",
+    settings: {} as Record<string, string>,
+    indexes: {} as Record<string, string>,
+    projections: {} as Record<string, string>,
+  };
+
+  // The column list is the first bracket of the top level
+  let open = -1;
+  let close = -1;
+  scanTopLevel(createQuery, (i) => {
+    if (open === -1 && createQuery[i] === "(") {
+      open = i;
+    } else if (open !== -1 && createQuery[i] === ")") {
+      close = i;
+      return true;
+    }
+  });
+
+  if (open !== -1 && close !== -1) {
+    for (const element of splitTopLevel(createQuery.substring(open + 1, close))) {
+      const [keyword, name] = element.split(/\s+/, 2);
+      if (keyword === "INDEX") {
+        result.indexes[unquoteIdentifier(name)] = element;
+      } else if (keyword === "PROJECTION") {
+        result.projections[unquoteIdentifier(name)] = element;
+      }
+    }
+  }
+
+  // Find where each clause starts after the column list
+  const tail = close === -1 ? createQuery : createQuery.substring(close + 1);
+  const starts: { clause: string; index: number }[] = [];
+  scanTopLevel(tail, (i) => {
+    if (i > 0 && tail[i - 1] !== " ") return;
+    const clause = TABLE_CLAUSES.find((c) => tail.startsWith(c, i));
+    if (clause && !starts.some((s) => s.clause === clause)) {
+      starts.push({ clause, index: i });
+    }
+  });
+
+  starts.forEach(({ clause, index }, n) => {
+    const end = n + 1 < starts.length ? starts[n + 1].index : tail.length;
+    const value = tail.substring(index + clause.length, end).trim();
+    if (clause === "ENGINE = ") {
+      result.engineFull = normalizeEngine(value);
+    } else if (clause === "TTL ") {
+      result.ttl = value;
+    } else if (clause === "SETTINGS ") {
+      for (const setting of splitTopLevel(value)) {
+        const eq = setting.indexOf("=");
+        if (eq > 0) {
+          result.settings[setting.substring(0, eq).trim()] = setting.substring(eq + 1).trim();
+        }
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Remove the ZooKeeper path and the replica name from the arguments of the Replicated engines,
+ * since they differ between clusters and replicas of the same table by design.
+ */
+export function normalizeEngine(engineFull: string): string {
+  const match = /^(Replicated\w*MergeTree)\((.*)\)$/s.exec(engineFull.trim());
+  if (!match) {
+    return engineFull.trim();
+  }
+
+  const args = splitTopLevel(match[2]);
+  const rest =
+    args.length >= 2 && args[0].startsWith("'") && args[1].startsWith("'") ? args.slice(2) : args;
+  return rest.length > 0 ? `${match[1]}(${rest.join(", ")})` : match[1];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replace the database qualifier of the objects in a create query.
+ * It's a textual replacement, so a column with the same name as the database followed by a dot is replaced as well.
+ */
+function replaceDatabase(createQuery: string, from: string, to: string): string {
+  const pattern = new RegExp(
+    `(^|[^\\w\`])(?:${escapeRegExp(SqlUtils.escapeSqlIdentifier(from))}|${escapeRegExp(from)})\\.`,
+    "g"
+  );
+  return createQuery.replace(pattern, (_match, prefix: string) => `${prefix}${to}`);
+}
+
+/**
+ * Normalize a create query so that the same object in two databases can be compared
+ */
+export function normalizeCreateQuery(createQuery: string, database: string): string {
+  return replaceDatabase(createQuery, database, "").replace(/ UUID '[0-9a-fA-F-]+'/g, "");
+}
+
+export function formatColumnDefinition(column: ColumnSchema): string {
+  let definition = column.type;
+  if (column.defaultKind) {
+    definition += ` ${column.defaultKind}`;
+    if (column.defaultExpression) {
+      definition += ` ${column.defaultExpression}`;
+    }
+  }
+  if (column.codec) {
+    definition += ` ${column.codec}`;
+  }
+  if (column.comment) {
+    definition += ` COMMENT '${SqlUtils.escapeSqlString(column.comment)}'`;
+  }
+  return definition;
+}
+
+function diffRecords(
+  kind: SchemaChangeKind,
+  source: Record<string, string>,
+  target: Record<string, string>
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  for (const [name, value] of Object.entries(source)) {
+    if (!(name in target)) {
+      changes.push({ kind, name, status: "added", source: value });
+    } else if (target[name] !== value) {
+      changes.push({ kind, name, status: "changed", source: value, target: target[name] });
+    }
+  }
+  for (const [name, value] of Object.entries(target)) {
+    if (!(name in source)) {
+      changes.push({ kind, name, status: "removed", target: value });
+    }
+  }
+  return changes;
+}
+
+function diffValue(
+  kind: SchemaChangeKind,
+  source: string,
+  target: string
+): SchemaChange | undefined {
+  if (source === target) return undefined;
+  if (!target) return { kind, name: kind, status: "added", source };
+  if (!source) return { kind, name: kind, status: "removed", target };
+  return { kind, name: kind, status: "changed", source, target };
+}
+
+function isView(table: TableSchema): boolean {
+  return VIEW_ENGINES.includes(table.engine);
+}
+
+export function diffTable(
+  source: TableSchema,
+  target: TableSchema,
+  sourceDatabase: string,
+  targetDatabase: string
+): SchemaChange[] {
+  if (isView(source) || isView(target)) {
+    const change = diffValue(
+      "definition",
+      normalizeCreateQuery(source.createQuery, sourceDatabase),
+      normalizeCreateQuery(target.createQuery, targetDatabase)
+    );
+    return change ? [change] : [];
+  }
+
+  const changes: SchemaChange[] = [];
+  for (const [kind, s, t] of [
+    ["engine", source.engineFull, target.engineFull],
+    ["partition_key", source.partitionKey, target.partitionKey],
+    ["sorting_key", source.sortingKey, target.sortingKey],
+    ["primary_key", source.primaryKey, target.primaryKey],
+  ] as [SchemaChangeKind, string, string][]) {
+    const change = diffValue(kind, s, t);
+    if (change) changes.push(change);
+  }
+
+  changes.push(
+    ...diffRecords(
+      "column",
+      Object.fromEntries(source.columns.map((c) => [c.name, formatColumnDefinition(c)])),
+      Object.fromEntries(target.columns.map((c) => [c.name, formatColumnDefinition(c)]))
+    )
+  );
+  changes.push(...diffRecords("setting", source.settings, target.settings));
+
+  const ttl = diffValue("ttl", source.ttl, target.ttl);
+  if (ttl) changes.push(ttl);
+
+  changes.push(...diffRecords("index", source.indexes, target.indexes));
+  changes.push(...diffRecords("projection", source.projections, target.projections));
+  return changes;
+}
+
+function buildCreateStatement(table: TableSchema, options: MigrationOptions): string {
+  const createQuery = replaceDatabase(
+    table.createQuery,
+    options.sourceDatabase,
+    `${SqlUtils.escapeSqlIdentifier(options.targetDatabase)}.`
+  ).replace(/ UUID '[0-9a-fA-F-]+'/g, "");
+  if (!options.cluster) {
+    return createQuery;
+  }
+
+  // ON CLUSTER follows the name of the object
+  return createQuery.replace(
+    /^(CREATE (?:TABLE|VIEW|MATERIALIZED VIEW|DICTIONARY|LIVE VIEW|WINDOW VIEW) (?:`(?:[^`]|``)*`|[^\s`(]+)\.(?:`(?:[^`]|``)*`|[^\s`(]+))/,
+    `$1 ON CLUSTER ${SqlUtils.escapeSqlIdentifier(options.cluster)}`
+  );
+}
+
+// Order of the ALTER statements, e.g. an index is dropped before the columns it uses and added after them
+const ALTER_ORDER = {
+  dropIndex: 0,
+  addColumn: 1,
+  modifyColumn: 2,
+  dropColumn: 3,
+  addIndex: 4,
+  ttl: 5,
+  setting: 6,
+  unsupported: 7,
+};
+
+/**
+ * Build the ALTER statements that apply the changes to the target table.
+ * The statements are ordered so that each of them can be executed after the previous ones.
+ */
+export function buildAlterStatements(
+  source: TableSchema,
+  target: TableSchema,
+  changes: SchemaChange[],
+  options: MigrationOptions
+): string[] {
+  const onCluster = options.cluster
+    ? ` ON CLUSTER ${SqlUtils.escapeSqlIdentifier(options.cluster)}`
+    : "";
+  const alter = `ALTER TABLE ${SqlUtils.escapeSqlIdentifier(options.targetDatabase)}.${SqlUtils.escapeSqlIdentifier(source.name)}${onCluster}`;
+
+  const statements: { order: number; sql: string }[] = [];
+  const push = (order: number, sql: string) => statements.push({ order, sql });
+  const modifiedSettings: string[] = [];
+  const resetSettings: string[] = [];
+  for (const change of changes) {
+    const name = SqlUtils.escapeSqlIdentifier(change.name);
+    switch (change.kind) {
+      case "column": {
+        if (change.status === "added") {
+          const index = source.columns.findIndex((c) => c.name === change.name);
+          const position =
+            index > 0
+              ? ` AFTER ${SqlUtils.escapeSqlIdentifier(source.columns[index - 1].name)}`
+              : " FIRST";
+          push(ALTER_ORDER.addColumn, `${alter} ADD COLUMN ${name} ${change.source}${position}`);
+        } else if (change.status === "removed") {
+          push(ALTER_ORDER.dropColumn, `${alter} DROP COLUMN ${name}`);
+        } else {
+          // MODIFY COLUMN keeps the default, the codec and the comment that are not given
+          const s = source.columns.find((c) => c.name === change.name);
+          const t = target.columns.find((c) => c.name === change.name);
+          if (t?.defaultKind && !s?.defaultKind) {
+            push(ALTER_ORDER.modifyColumn, `${alter} MODIFY COLUMN ${name} REMOVE DEFAULT`);
+          }
+          if (t?.codec && !s?.codec) {
+            push(ALTER_ORDER.modifyColumn, `${alter} MODIFY COLUMN ${name} REMOVE CODEC`);
+          }
+          if (t?.comment && !s?.comment) {
+            push(ALTER_ORDER.modifyColumn, `${alter} COMMENT COLUMN ${name} ''`);
+          }
+          push(ALTER_ORDER.modifyColumn, `${alter} MODIFY COLUMN ${name} ${change.source}`);
+        }
+        break;
+      }
+      case "setting":
+        if (change.status === "removed") {
+          resetSettings.push(change.name);
+        } else {
+          modifiedSettings.push(`${change.name} = ${change.source}`);
+        }
+        break;
+      case "ttl":
+        push(
+          ALTER_ORDER.ttl,
+          change.status === "removed"
+            ? `${alter} REMOVE TTL`
+            : `${alter} MODIFY TTL ${change.source}`
+        );
+        break;
+      case "index":
+      case "projection": {
+        const keyword = change.kind === "index" ? "INDEX" : "PROJECTION";
+        if (change.status !== "added") {
+          push(ALTER_ORDER.dropIndex, `${alter} DROP ${keyword} ${name}`);
+        }
+        if (change.status !== "removed") {
+          push(ALTER_ORDER.addIndex, `${alter} ADD ${change.source}`);
+        }
+        break;
+      }
+      default:
+        // The engine and the keys can't be changed by ALTER
+        push(
+          ALTER_ORDER.unsupported,
+          `-- ${change.kind} differs, recreate the table to change it: ${change.target ?? ""} -> ${change.source ?? ""}`
+        );
+    }
+  }
+
+  if (modifiedSettings.length > 0) {
+    push(ALTER_ORDER.setting, `${alter} MODIFY SETTING ${modifiedSettings.join(", ")}`);
+  }
+  if (resetSettings.length > 0) {
+    push(ALTER_ORDER.setting, `${alter} RESET SETTING ${resetSettings.join(", ")}`);
+  }
+
+  // Array.prototype.sort is stable, so the statements of the same order keep the order of the changes
+  return statements.sort((a, b) => a.order - b.order).map((statement) => statement.sql);
+}
+
+/**
+ * Compare the objects of two databases. The target is the one to be migrated to look like the source.
+ */
+export function diffSchemas(
+  source: SchemaSnapshot,
+  target: SchemaSnapshot,
+  cluster?: string
+): ObjectDiff[] {
+  const options: MigrationOptions = {
+    sourceDatabase: source.database,
+    targetDatabase: target.database,
+    cluster,
+  };
+  const sourceTables = new Map(source.tables.map((t) => [t.name, t]));
+  const targetTables = new Map(target.tables.map((t) => [t.name, t]));
+  const names = Array.from(new Set([...sourceTables.keys(), ...targetTables.keys()])).sort();
+
+  return names.map((name) => {
+    const s = sourceTables.get(name);
+    const t = targetTables.get(name);
+    if (s && !t) {
+      return {
+        name,
+        engine: s.engine,
+        status: "added",
+        changes: [],
+        migration: [buildCreateStatement(s, options)],
+      };
+    }
+    if (!s && t) {
+      const onCluster = cluster ? ` ON CLUSTER ${SqlUtils.escapeSqlIdentifier(cluster)}` : "";
+      return {
+        name,
+        engine: t.engine,
+        status: "removed",
+        changes: [],
+        migration: [
+          `DROP TABLE ${SqlUtils.escapeSqlIdentifier(target.database)}.${SqlUtils.escapeSqlIdentifier(name)}${onCluster}`,
+        ],
+      };
+    }
+
+    const changes = diffTable(s!, t!, source.database, target.database);
+    let migration: string[] = [];
+    if (changes.length > 0) {
+      migration =
+        s!.engine === "View"
+          ? [buildCreateStatement(s!, options).replace(/^CREATE VIEW/, "CREATE OR REPLACE VIEW")]
+          : isView(s!)
+            ? [`-- The definition of ${s!.engine} ${name} differs, recreate it to change it`]
+            : buildAlterStatements(s!, t!, changes, options);
+    }
+    return {
+      name,
+      engine: s!.engine,
+      status: changes.length > 0 ? "changed" : "unchanged",
+      changes,
+      migration,
+    };
+  });
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  adviseSortingKey,
+  buildCreateTableStatement,
+  buildDescribeQuery,
+  createDefaultTableModel,
+  detectSampleFormat,
+  validateCreateTableModel,
+} from "./create-table-builder";
+
+const column = (name: string, type: string) => ({
+  name,
+  type,
+  defaultKind: "",
+  defaultExpression: "",
+  codec: "",
+  comment: "",
+});
+
+describe("buildCreateTableStatement", () => {
+  it("builds a ReplicatedReplacingMergeTree with the macros of the server", () => {
+    const model = createDefaultTableModel("db", "default", { shard: "01", replica: "r1" });
+    model.name = "events";
+    model.engine = "ReplacingMergeTree";
+    model.columns = [
+      column("id", "UInt64"),
+      { ...column("ts", "DateTime"), codec: "CODEC(Delta, ZSTD(1))" },
+    ];
+    model.mergeTree = {
+      ...model.mergeTree,
+      engineArguments: "ts",
+      orderBy: "id",
+      partitionBy: "toYYYYMM(ts)",
+    };
+
+    expect(buildCreateTableStatement(model, "default")).toBe(
+      [
+        "CREATE TABLE `db`.`events` ON CLUSTER `default`",
+        "(",
+        "    `id` UInt64,",
+        "    `ts` DateTime CODEC(Delta, ZSTD(1))",
+        ")",
+        "ENGINE = ReplicatedReplacingMergeTree('/clickhouse/tables/{shard}/{database}/{table}', '{replica}', ts)",
+        "PARTITION BY toYYYYMM(ts)",
+        "ORDER BY id",
+      ].join("\n")
+    );
+  });
+
+  it("copies the structure of the local table for a Distributed table without columns", () => {
+    const model = createDefaultTableModel("db", "default", {});
+    model.name = "events_all";
+    model.engine = "Distributed";
+    model.distributed.table = "events";
+
+    expect(buildCreateTableStatement(model)).toBe(
+      "CREATE TABLE `db`.`events_all` AS `db`.`events`\nENGINE = Distributed('default', 'db', 'events', rand())"
+    );
+    expect(validateCreateTableModel(model)).toEqual([]);
+  });
+
+  it("builds a materialized view writing to a target table", () => {
+    const model = createDefaultTableModel("db", "", {});
+    model.name = "events_mv";
+    model.engine = "MaterializedView";
+    model.materializedView = {
+      toDatabase: "db",
+      toTable: "events",
+      selectQuery: "SELECT * FROM db.queue;",
+    };
+
+    expect(buildCreateTableStatement(model)).toBe(
+      "CREATE MATERIALIZED VIEW `db`.`events_mv`\nTO `db`.`events`\nAS SELECT * FROM db.queue"
+    );
+  });
+
+  it("requires the sign column of CollapsingMergeTree", () => {
+    const model = createDefaultTableModel("db", "", {});
+    model.name = "t";
+    model.engine = "CollapsingMergeTree";
+    model.columns = [column("id", "UInt64")];
+    expect(validateCreateTableModel(model)).toEqual([
+      "Sign column is required by CollapsingMergeTree.",
+    ]);
+  });
+});
+
+describe("adviseSortingKey", () => {
+  it("orders low cardinality columns first and skips unsuitable types", () => {
+    const suggestion = adviseSortingKey([
+      column("ts", "DateTime"),
+      column("user_id", "UInt64"),
+      column("value", "Float64"),
+      column("event_type", "LowCardinality(String)"),
+      column("tags", "Array(String)"),
+      column("date", "Date"),
+    ]);
+    expect(suggestion.orderBy).toEqual(["`event_type`", "`date`", "`user_id`", "`ts`"]);
+    expect(suggestion.partitionBy).toBe("toYYYYMM(`ts`)");
+  });
+
+  it("escapes column names inferred from CSV headers", () => {
+    const suggestion = adviseSortingKey([
+      column("event type", "LowCardinality(String)"),
+      column("user-id", "UInt64"),
+      column("created at", "DateTime"),
+    ]);
+    expect(suggestion.orderBy).toEqual(["`event type`", "`user-id`", "`created at`"]);
+    expect(suggestion.partitionBy).toBe("toYYYYMM(`created at`)");
+  });
+});
+
+describe("buildDescribeQuery", () => {
+  it("describes a SELECT query", () => {
+    expect(buildDescribeQuery({ kind: "select", query: "SELECT 1 AS a;" })).toBe(
+      "DESCRIBE (SELECT 1 AS a)"
+    );
+  });
+
+  it("truncates the sample at the last complete line and escapes it", () => {
+    const data = 'a,b\n1,"it\'s"\n2,"x\\y"\n3,"partial';
+    expect(buildDescribeQuery({ kind: "sample", format: "CSVWithNames", data }, 25)).toBe(
+      'DESCRIBE format(CSVWithNames, \'a,b\n1,"it\\\'s"\n2,"x\\\\y"\')'
+    );
+  });
+
+  it("detects the format from the file extension", () => {
+    expect(detectSampleFormat("data.ndjson")).toBe("JSONEachRow");
+    expect(detectSampleFormat("data.CSV")).toBe("CSVWithNames");
+    expect(detectSampleFormat("data.parquet")).toBeUndefined();
+  });
+});
@@ -0,0 +1,491 @@
+import {
+  formatColumnDefinition,
+  type ColumnSchema,
+} from "@/components/schema-diff-tab/schema-diff";
+import { SqlUtils } from "@/lib/sql-utils";
+
+export const MERGE_TREE_ENGINES = [
+  "MergeTree",
+  "ReplacingMergeTree",
+  "SummingMergeTree",
+  "AggregatingMergeTree",
+  "CollapsingMergeTree",
+  "VersionedCollapsingMergeTree",
+] as const;
+
+export type MergeTreeEngine = (typeof MERGE_TREE_ENGINES)[number];
+
+export type CreateTableEngine =
+  | MergeTreeEngine
+  | "Distributed"
+  | "Kafka"
+  | "Buffer"
+  | "MaterializedView";
+
+export const CREATE_TABLE_ENGINES: CreateTableEngine[] = [
+  ...MERGE_TREE_ENGINES,
+  "Distributed",
+  "Kafka",
+  "Buffer",
+  "MaterializedView",
+];
+
+// Engine specific arguments of the MergeTree family, shown as a hint of the argument input
+export const MERGE_TREE_ENGINE_ARGUMENTS: Record<
+  MergeTreeEngine,
+  { label: string; placeholder: string; required: boolean } | undefined
+> = {
+  MergeTree: undefined,
+  ReplacingMergeTree: {
+    label: "Version column",
+    placeholder: "[ver [, is_deleted]]",
+    required: false,
+  },
+  SummingMergeTree: { label: "Columns to sum", placeholder: "[(col1, col2)]", required: false },
+  AggregatingMergeTree: undefined,
+  CollapsingMergeTree: { label: "Sign column", placeholder: "sign", required: true },
+  VersionedCollapsingMergeTree: {
+    label: "Sign and version columns",
+    placeholder: "sign, version",
+    required: true,
+  },
+};
+
+export interface MergeTreeOptions {
+  replicated: boolean;
+  zooKeeperPath: string;
+  replicaName: string;
+  // Engine specific arguments, see MERGE_TREE_ENGINE_ARGUMENTS
+  engineArguments: string;
+  orderBy: string;
+  partitionBy: string;
+  primaryKey: string;
+  ttl: string;
+  settings: string;
+}
+
+export interface DistributedOptions {
+  cluster: string;
+  database: string;
+  table: string;
+  shardingKey: string;
+}
+
+export interface KafkaOptions {
+  brokerList: string;
+  topicList: string;
+  groupName: string;
+  format: string;
+}
+
+export interface BufferOptions {
+  database: string;
+  table: string;
+  numLayers: string;
+  minTime: string;
+  maxTime: string;
+  minRows: string;
+  maxRows: string;
+  minBytes: string;
+  maxBytes: string;
+}
+
+export interface MaterializedViewOptions {
+  // The table that the view writes to
+  toDatabase: string;
+  toTable: string;
+  selectQuery: string;
+}
+
+export interface CreateTableModel {
+  database: string;
+  name: string;
+  engine: CreateTableEngine;
+  columns: ColumnSchema[];
+  comment: string;
+  mergeTree: MergeTreeOptions;
+  distributed: DistributedOptions;
+  kafka: KafkaOptions;
+  buffer: BufferOptions;
+  materializedView: MaterializedViewOptions;
+}
+
+export function isMergeTreeEngine(engine: CreateTableEngine): engine is MergeTreeEngine {
+  return (MERGE_TREE_ENGINES as readonly string[]).includes(engine);
+}
+
+/**
+ * Default ZooKeeper path and replica name of a Replicated table.
+ * The {shard} and {replica} macros are only used when they're defined in system.macros of the server,
+ * {database} and {table} are always expanded by the server.
+ */
+export function getDefaultReplicationPath(macros: Record<string, string>): {
+  zooKeeperPath: string;
+  replicaName: string;
+} {
+  const shard = "shard" in macros ? "/{shard}" : "";
+  return {
+    zooKeeperPath: `/clickhouse/tables${shard}/{database}/{table}`,
+    replicaName: "replica" in macros ? "{replica}" : "",
+  };
+}
+
+export function createDefaultTableModel(
+  database: string,
+  cluster: string,
+  macros: Record<string, string>
+): CreateTableModel {
+  return {
+    database,
+    name: "",
+    engine: "MergeTree",
+    columns: [],
+    comment: "",
+    mergeTree: {
+      replicated: cluster.length > 0 && "replica" in macros,
+      ...getDefaultReplicationPath(macros),
+      engineArguments: "",
+      orderBy: "",
+      partitionBy: "",
+      primaryKey: "",
+      ttl: "",
+      settings: "",
+    },
+    distributed: { cluster, database, table: "", shardingKey: "rand()" },
+    kafka: { brokerList: "", topicList: "", groupName: "", format: "JSONEachRow" },
+    buffer: {
+      database,
+      table: "",
+      numLayers: "16",
+      minTime: "10",
+      maxTime: "100",
+      minRows: "10000",
+      maxRows: "1000000",
+      minBytes: "10000000",
+      maxBytes: "100000000",
+    },
+    materializedView: { toDatabase: database, toTable: "", selectQuery: "" },
+  };
+}
+
+function qualifiedName(database: string, table: string): string {
+  return `${SqlUtils.escapeSqlIdentifier(database)}.${SqlUtils.escapeSqlIdentifier(table)}`;
+}
+
+function formatColumns(columns: ColumnSchema[]): string {
+  return columns
+    .map(
+      (column) =>
+        `    ${SqlUtils.escapeSqlIdentifier(column.name)} ${formatColumnDefinition(column)}`
+    )
+    .join(",\n");
+}
+
+function buildMergeTreeEngine(engine: MergeTreeEngine, options: MergeTreeOptions): string {
+  const args: string[] = [];
+  if (options.replicated) {
+    args.push(
+      `'${SqlUtils.escapeSqlString(options.zooKeeperPath)}'`,
+      `'${SqlUtils.escapeSqlString(options.replicaName)}'`
+    );
+  }
+  if (options.engineArguments.trim()) {
+    args.push(options.engineArguments.trim());
+  }
+
+  const lines = [`ENGINE = ${options.replicated ? "Replicated" : ""}${engine}(${args.join(", ")})`];
+  if (options.partitionBy.trim()) {
+    lines.push(`PARTITION BY ${options.partitionBy.trim()}`);
+  }
+  lines.push(`ORDER BY ${options.orderBy.trim() || "tuple()"}`);
+  if (options.primaryKey.trim()) {
+    lines.push(`PRIMARY KEY ${options.primaryKey.trim()}`);
+  }
+  if (options.ttl.trim()) {
+    lines.push(`TTL ${options.ttl.trim()}`);
+  }
+  if (options.settings.trim()) {
+    lines.push(`SETTINGS ${options.settings.trim()}`);
+  }
+  return lines.join("\n");
+}
+
+function buildEngineClause(model: CreateTableModel): string {
+  if (isMergeTreeEngine(model.engine)) {
+    return buildMergeTreeEngine(model.engine, model.mergeTree);
+  }
+  switch (model.engine) {
+    case "Distributed": {
+      const { cluster, database, table, shardingKey } = model.distributed;
+      const args = [
+        `'${SqlUtils.escapeSqlString(cluster)}'`,
+        `'${SqlUtils.escapeSqlString(database)}'`,
+        `'${SqlUtils.escapeSqlString(table)}'`,
+      ];
+      if (shardingKey.trim()) {
+        args.push(shardingKey.trim());
+      }
+      return `ENGINE = Distributed(${args.join(", ")})`;
+    }
+    case "Kafka": {
+      const { brokerList, topicList, groupName, format } = model.kafka;
+      return [
+        "ENGINE = Kafka",
+        "SETTINGS",
+        `    kafka_broker_list = '${SqlUtils.escapeSqlString(brokerList)}',`,
+        `    kafka_topic_list = '${SqlUtils.escapeSqlString(topicList)}',`,
+        `    kafka_group_name = '${SqlUtils.escapeSqlString(groupName)}',`,
+        `    kafka_format = '${SqlUtils.escapeSqlString(format)}'`,
+      ].join("\n");
+    }
+    case "Buffer": {
+      const b = model.buffer;
+      return `ENGINE = Buffer(${[
+        `'${SqlUtils.escapeSqlString(b.database)}'`,
+        `'${SqlUtils.escapeSqlString(b.table)}'`,
+        b.numLayers,
+        b.minTime,
+        b.maxTime,
+        b.minRows,
+        b.maxRows,
+        b.minBytes,
+        b.maxBytes,
+      ].join(", ")})`;
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Validate the model, returns the problems that prevent the statement from being executed
+ */
+export function validateCreateTableModel(model: CreateTableModel): string[] {
+  const errors: string[] = [];
+  if (!model.name.trim()) {
+    errors.push("Table name is required.");
+  }
+
+  const columns = model.columns.filter((c) => c.name || c.type);
+  if (columns.some((c) => !c.name.trim() || !c.type.trim())) {
+    errors.push("Every column requires a name and a type.");
+  }
+  const names = columns.map((c) => c.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    errors.push(`Column ${duplicate} is defined more than once.`);
+  }
+
+  if (isMergeTreeEngine(model.engine)) {
+    if (columns.length === 0) {
+      errors.push("At least one column is required.");
+    }
+    if (
+      MERGE_TREE_ENGINE_ARGUMENTS[model.engine]?.required &&
+      !model.mergeTree.engineArguments.trim()
+    ) {
+      errors.push(
+        `${MERGE_TREE_ENGINE_ARGUMENTS[model.engine]!.label} is required by ${model.engine}.`
+      );
+    }
+    if (
+      model.mergeTree.replicated &&
+      (!model.mergeTree.zooKeeperPath || !model.mergeTree.replicaName)
+    ) {
+      errors.push("ZooKeeper path and replica name are required by the Replicated engines.");
+    }
+  } else if (model.engine === "Distributed") {
+    if (!model.distributed.cluster || !model.distributed.database || !model.distributed.table) {
+      errors.push("Cluster, database and table of the local table are required.");
+    }
+  } else if (model.engine === "Kafka") {
+    if (columns.length === 0) {
+      errors.push("At least one column is required.");
+    }
+    if (!model.kafka.brokerList || !model.kafka.topicList || !model.kafka.groupName) {
+      errors.push("Broker list, topic list and consumer group are required.");
+    }
+  } else if (model.engine === "Buffer") {
+    if (!model.buffer.database || !model.buffer.table) {
+      errors.push("Database and table to flush the buffer to are required.");
+    }
+  } else if (model.engine === "MaterializedView") {
+    if (!model.materializedView.toTable) {
+      errors.push("The target table of the materialized view is required.");
+    }
+    if (!model.materializedView.selectQuery.trim()) {
+      errors.push("The SELECT query of the materialized view is required.");
+    }
+  }
+  return errors;
+}
+
+/**
+ * Build the CREATE statement of the model.
+ * Distributed and Buffer tables without columns copy the structure of the underlying table by AS.
+ */
+export function buildCreateTableStatement(model: CreateTableModel, cluster?: string): string {
+  const onCluster = cluster ? ` ON CLUSTER ${SqlUtils.escapeSqlIdentifier(cluster)}` : "";
+  const name = qualifiedName(model.database, model.name);
+  const columns = model.columns.filter((c) => c.name && c.type);
+  const comment = model.comment ? `\nCOMMENT '${SqlUtils.escapeSqlString(model.comment)}'` : "";
+
+  if (model.engine === "MaterializedView") {
+    const { toDatabase, toTable, selectQuery } = model.materializedView;
+    const columnList = columns.length > 0 ? `\n(\n${formatColumns(columns)}\n)` : "";
+    return `CREATE MATERIALIZED VIEW ${name}${onCluster}\nTO ${qualifiedName(toDatabase, toTable)}${columnList}\nAS ${selectQuery.trim().replace(/;+$/, "")}${comment}`;
+  }
+
+  let structure = columns.length > 0 ? `\n(\n${formatColumns(columns)}\n)` : "";
+  if (!structure && model.engine === "Distributed") {
+    structure = ` AS ${qualifiedName(model.distributed.database, model.distributed.table)}`;
+  } else if (!structure && model.engine === "Buffer") {
+    structure = ` AS ${qualifiedName(model.buffer.database, model.buffer.table)}`;
+  }
+  return `CREATE TABLE ${name}${onCluster}${structure}\n${buildEngineClause(model)}${comment}`;
+}
+
+export interface SortingKeySuggestion {
+  /** Escaped column names, ready to be joined into the ORDER BY expression */
+  orderBy: string[];
+  partitionBy: string;
+  reasons: string[];
+}
+
+function unwrapType(type: string): string {
+  return type.replace(/^LowCardinality\((.*)\)$/, "$1");
+}
+
+// Lower ranks come first in the sorting key, undefined means that the column should not be in the key
+function rankColumn(column: ColumnSchema): { rank: number; reason: string } | undefined {
+  const type = column.type;
+  if (column.defaultKind === "ALIAS" || column.defaultKind === "EPHEMERAL") {
+    return undefined;
+  }
+  if (/^(Nullable|Array|Map|Tuple|JSON|Object|Nested|Variant|Dynamic)\b/.test(type)) {
+    return undefined;
+  }
+  if (/^(Float|Decimal)/.test(type)) {
+    return undefined;
+  }
+  if (/^(LowCardinality|Enum|Bool)/.test(type)) {
+    return {
+      rank: 0,
+      reason: `${column.name} has a low cardinality, filtering columns like this first skips the most granules.`,
+    };
+  }
+  if (/^(Date|Date32)$/.test(type)) {
+    return {
+      rank: 1,
+      reason: `${column.name} is a date, which groups the rows of the same day together.`,
+    };
+  }
+  if (
+    /(^|_)(id|key|uuid)$/i.test(column.name) ||
+    /^(UUID|U?Int(8|16|32|64))$/.test(unwrapType(type))
+  ) {
+    return {
+      rank: 2,
+      reason: `${column.name} looks like an identifier that queries are likely to filter on.`,
+    };
+  }
+  if (/^DateTime/.test(type)) {
+    return {
+      rank: 3,
+      reason: `${column.name} is a timestamp with a high cardinality, putting it last keeps the key useful for range scans.`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Suggest the ORDER BY and PARTITION BY of a MergeTree table from the column types.
+ * Columns are ordered by ascending cardinality which gives the best index granularity and compression.
+ */
+export function adviseSortingKey(
+  columns: ColumnSchema[],
+  maxColumns: number = 4
+): SortingKeySuggestion {
+  const ranked = columns
+    .filter((c) => c.name && c.type)
+    .map((column, index) => ({ column, index, rank: rankColumn(column) }))
+    .filter((c): c is typeof c & { rank: { rank: number; reason: string } } => c.rank !== undefined)
+    .sort((a, b) => a.rank.rank - b.rank.rank || a.index - b.index)
+    .slice(0, maxColumns);
+
+  const timeColumn = columns.find((c) => /^(Date|Date32|DateTime|DateTime64)\b/.test(c.type));
+  return {
+    orderBy: ranked.map((c) => SqlUtils.escapeSqlIdentifier(c.column.name)),
+    partitionBy: timeColumn ? `toYYYYMM(${SqlUtils.escapeSqlIdentifier(timeColumn.name)})` : "",
+    reasons: [
+      ...ranked.map((c) => c.rank.reason),
+      ...(timeColumn
+        ? [`Monthly partitions by ${timeColumn.name} allow dropping old data by partition.`]
+        : []),
+    ],
+  };
+}
+
+export type SampleFormat = "CSVWithNames" | "TSVWithNames" | "JSONEachRow";
+
+export function detectSampleFormat(fileName: string): SampleFormat | undefined {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "csv":
+      return "CSVWithNames";
+    case "tsv":
+    case "tab":
+      return "TSVWithNames";
+    case "json":
+    case "jsonl":
+    case "ndjson":
+      return "JSONEachRow";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the DESCRIBE query that infers the columns of a sample of data or of a SELECT query.
+ * The sample is truncated at the last complete line so that the schema inference does not fail on a partial row.
+ */
+export function buildDescribeQuery(
+  source:
+    | { kind: "select"; query: string }
+    | { kind: "sample"; format: SampleFormat; data: string },
+  maxSampleLength: number = 64 * 1024
+): string {
+  if (source.kind === "select") {
+    return `DESCRIBE (${source.query.trim().replace(/;+$/, "")})`;
+  }
+
+  let data = source.data;
+  if (data.length > maxSampleLength) {
+    data = data.substring(0, maxSampleLength);
+    const lastLineEnd = data.lastIndexOf("\n");
+    if (lastLineEnd > 0) {
+      data = data.substring(0, lastLineEnd);
+    }
+  }
+  // Backslashes are escapes in string literals, they're doubled to keep the escapes of the sample itself
+  const literal = data.replaceAll("\\", "\\\\").replaceAll("'", "\\'");
+  return `DESCRIBE format(${source.format}, '${literal}')`;
+}
+
+export function toColumnSchema(row: {
+  name: string;
+  type: string;
+  default_type?: string;
+  default_expression?: string;
+  codec_expression?: string;
+  comment?: string;
+}): ColumnSchema {
+  return {
+    name: row.name,
+    type: row.type,
+    defaultKind: row.default_type ?? "",
+    defaultExpression: row.default_expression ?? "",
+    codec: row.codec_expression ? `CODEC(${row.codec_expression})` : "",
+    comment: row.comment ?? "",
+  };
+}
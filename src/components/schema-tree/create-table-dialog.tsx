@@ -0,0 +1,630 @@
+import { ThemedSyntaxHighlighter } from "@/components/shared/themed-syntax-highlighter";
+import { Dialog } from "@/components/shared/use-dialog";
+import { ColumnListEditor, createEmptyColumn } from "@/components/table-tab/column-list-editor";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { Connection, JSONFormatResponse } from "@/lib/connection/connection";
+import { toastManager } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+import { ChevronDown, Lightbulb, Loader2, Plus } from "lucide-react";
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import {
+  adviseSortingKey,
+  buildCreateTableStatement,
+  buildDescribeQuery,
+  CREATE_TABLE_ENGINES,
+  createDefaultTableModel,
+  detectSampleFormat,
+  isMergeTreeEngine,
+  MERGE_TREE_ENGINE_ARGUMENTS,
+  toColumnSchema,
+  validateCreateTableModel,
+  type CreateTableModel,
+} from "./create-table-builder";
+
+const STEPS = ["Table", "Columns", "Engine", "Review"] as const;
+type Step = (typeof STEPS)[number];
+
+type EngineOptionsKey = "mergeTree" | "distributed" | "kafka" | "buffer" | "materializedView";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <>
+      <Label>{label}</Label>
+      {children}
+    </>
+  );
+}
+
+function TextField({
+  label,
+  value,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Field label={label}>
+      <Input
+        className="h-9 font-mono"
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </Field>
+  );
+}
+
+async function loadMacros(connection: Connection): Promise<Record<string, string>> {
+  const response = await connection.query("SELECT macro, substitution FROM system.macros", {
+    default_format: "JSON",
+  }).response;
+  const rows = response.data.json<JSONFormatResponse>().data as unknown as Array<{
+    macro: string;
+    substitution: string;
+  }>;
+  return Object.fromEntries(rows.map((row) => [row.macro, row.substitution]));
+}
+
+function ColumnInference({
+  connection,
+  onInferred,
+}: {
+  connection: Connection;
+  onInferred: (model: CreateTableModel["columns"]) => void;
+}) {
+  const [selectQuery, setSelectQuery] = useState("");
+  const [isInferring, setInferring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const describe = async (sql: string) => {
+    setInferring(true);
+    setError(null);
+    try {
+      const response = await connection.query(sql, { default_format: "JSON" }).response;
+      const rows = response.data.json<JSONFormatResponse>().data as unknown as Parameters<
+        typeof toColumnSchema
+      >[0][];
+      onInferred(rows.map(toColumnSchema));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setInferring(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    const format = detectSampleFormat(file.name);
+    if (!format) {
+      setError(`Unsupported sample file ${file.name}, use a CSV, TSV or JSON lines file.`);
+      return;
+    }
+    // Only the head of the file is read, which is enough for the schema inference
+    const data = await file.slice(0, 64 * 1024).text();
+    await describe(buildDescribeQuery({ kind: "sample", format, data }));
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">
+        Infer the columns from a sample file or an existing SELECT query. The inferred columns
+        replace the current ones.
+      </p>
+      <div className="flex items-start gap-2">
+        <Textarea
+          className="font-mono text-xs min-h-[36px] h-9"
+          value={selectQuery}
+          placeholder="SELECT * FROM db.table"
+          onChange={(e) => setSelectQuery(e.target.value)}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isInferring || !selectQuery.trim()}
+          onClick={() => describe(buildDescribeQuery({ kind: "select", query: selectQuery }))}
+        >
+          From SELECT
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isInferring}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          From File...
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.tab,.json,.jsonl,.ndjson"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) {
+              void handleFile(file);
+            }
+          }}
+        />
+        {isInferring && <Loader2 className="h-4 w-4 mt-2 animate-spin" />}
+      </div>
+      {error && (
+        <pre className="text-xs text-destructive whitespace-pre-wrap break-all">{error}</pre>
+      )}
+    </div>
+  );
+}
+
+function CreateTableWizard({
+  database,
+  connection,
+  onSuccess,
+}: {
+  database: string;
+  connection: Connection;
+  onSuccess: () => void;
+}) {
+  const cluster = connection.cluster && connection.cluster.length > 0 ? connection.cluster : "";
+  const [model, setModel] = useState<CreateTableModel | null>(null);
+  const [step, setStep] = useState<Step>("Table");
+  const [onCluster, setOnCluster] = useState(cluster.length > 0);
+  const [isExecuting, setExecuting] = useState(false);
+  const [executionError, setExecutionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMacros(connection)
+      // Macros are optional, the Replicated path is left for the user to fill in
+      .catch(() => ({}))
+      .then((loaded) => {
+        setModel(createDefaultTableModel(database, cluster, loaded));
+      });
+  }, [connection, database, cluster]);
+
+  const errors = useMemo(() => (model ? validateCreateTableModel(model) : []), [model]);
+  const sql = useMemo(
+    () => (model ? buildCreateTableStatement(model, onCluster ? cluster : undefined) : ""),
+    [model, onCluster, cluster]
+  );
+  const suggestion = useMemo(() => (model ? adviseSortingKey(model.columns) : undefined), [model]);
+
+  if (!model) {
+    return <Loader2 className="h-4 w-4 animate-spin" />;
+  }
+
+  const update = <K extends EngineOptionsKey>(key: K, value: Partial<CreateTableModel[K]>) =>
+    setModel((prev) => (prev ? { ...prev, [key]: { ...prev[key], ...value } } : prev));
+
+  const handleExecute = async () => {
+    setExecuting(true);
+    setExecutionError(null);
+    try {
+      await connection.query(sql, { default_format: "JSON" }).response;
+      toastManager.show(`${database}.${model.name} has been created.`, "success");
+      Dialog.close();
+      onSuccess();
+    } catch (e) {
+      setExecutionError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExecuting(false);
+    }
+  };
+
+  const stepIndex = STEPS.indexOf(step);
+  const engineArguments = isMergeTreeEngine(model.engine)
+    ? MERGE_TREE_ENGINE_ARGUMENTS[model.engine]
+    : undefined;
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="flex items-center gap-1">
+        {STEPS.map((s, i) => (
+          <button
+            key={s}
+            type="button"
+            className={cn(
+              "rounded-md px-2 py-1 text-xs",
+              s === step ? "bg-primary text-primary-foreground" : "text-muted-foreground"
+            )}
+            onClick={() => setStep(s)}
+          >
+            {i + 1}. {s}
+          </button>
+        ))}
+      </div>
+
+      <div className="min-h-[320px] max-h-[60vh] overflow-auto">
+        {step === "Table" && (
+          <div className="grid grid-cols-[160px_1fr] gap-x-4 gap-y-2 items-center">
+            <Field label="Database">
+              <div className="font-mono">{database}</div>
+            </Field>
+            <TextField
+              label="Name"
+              value={model.name}
+              onChange={(name) => setModel({ ...model, name })}
+            />
+            <Field label="Engine">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="w-72 justify-between h-9">
+                    {model.engine}
+                    <ChevronDown className="h-4 w-4 opacity-50" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuRadioGroup
+                    value={model.engine}
+                    onValueChange={(engine) =>
+                      setModel({ ...model, engine: engine as CreateTableModel["engine"] })
+                    }
+                  >
+                    {CREATE_TABLE_ENGINES.map((engine) => (
+                      <DropdownMenuRadioItem key={engine} value={engine}>
+                        {engine}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </Field>
+            {isMergeTreeEngine(model.engine) && (
+              <Field label="Replicated">
+                <Switch
+                  checked={model.mergeTree.replicated}
+                  onCheckedChange={(replicated) => update("mergeTree", { replicated })}
+                />
+              </Field>
+            )}
+            {cluster && (
+              <Field label={`ON CLUSTER ${cluster}`}>
+                <Switch checked={onCluster} onCheckedChange={setOnCluster} />
+              </Field>
+            )}
+            <TextField
+              label="Comment"
+              value={model.comment}
+              onChange={(comment) => setModel({ ...model, comment })}
+            />
+          </div>
+        )}
+
+        {step === "Columns" && (
+          <div className="flex flex-col gap-3">
+            <ColumnInference
+              connection={connection}
+              onInferred={(columns) => setModel({ ...model, columns })}
+            />
+            {(model.engine === "Distributed" ||
+              model.engine === "Buffer" ||
+              model.engine === "MaterializedView") && (
+              <p className="text-xs text-muted-foreground">
+                Columns are optional for {model.engine}, the structure of the underlying table is
+                used when no column is defined.
+              </p>
+            )}
+            <ColumnListEditor
+              columns={model.columns}
+              onChange={(columns) => setModel({ ...model, columns })}
+            />
+            <div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() =>
+                  setModel({ ...model, columns: [...model.columns, createEmptyColumn()] })
+                }
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add Column
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "Engine" && isMergeTreeEngine(model.engine) && (
+          <div className="flex flex-col gap-3">
+            <div className="grid grid-cols-[160px_1fr] gap-x-4 gap-y-2 items-center">
+              {model.mergeTree.replicated && (
+                <>
+                  <TextField
+                    label="ZooKeeper Path"
+                    value={model.mergeTree.zooKeeperPath}
+                    onChange={(zooKeeperPath) => update("mergeTree", { zooKeeperPath })}
+                  />
+                  <TextField
+                    label="Replica Name"
+                    value={model.mergeTree.replicaName}
+                    placeholder="{replica}"
+                    onChange={(replicaName) => update("mergeTree", { replicaName })}
+                  />
+                </>
+              )}
+              {engineArguments && (
+                <TextField
+                  label={engineArguments.label}
+                  value={model.mergeTree.engineArguments}
+                  placeholder={engineArguments.placeholder}
+                  onChange={(value) => update("mergeTree", { engineArguments: value })}
+                />
+              )}
+              <TextField
+                label="ORDER BY"
+                value={model.mergeTree.orderBy}
+                placeholder="tuple()"
+                onChange={(orderBy) => update("mergeTree", { orderBy })}
+              />
+              <TextField
+                label="PARTITION BY"
+                value={model.mergeTree.partitionBy}
+                onChange={(partitionBy) => update("mergeTree", { partitionBy })}
+              />
+              <TextField
+                label="PRIMARY KEY"
+                value={model.mergeTree.primaryKey}
+                placeholder="Same as ORDER BY"
+                onChange={(primaryKey) => update("mergeTree", { primaryKey })}
+              />
+              <TextField
+                label="TTL"
+                value={model.mergeTree.ttl}
+                onChange={(ttl) => update("mergeTree", { ttl })}
+              />
+              <TextField
+                label="SETTINGS"
+                value={model.mergeTree.settings}
+                placeholder="index_granularity = 8192"
+                onChange={(settings) => update("mergeTree", { settings })}
+              />
+            </div>
+
+            {suggestion && suggestion.orderBy.length > 0 && (
+              <div className="flex flex-col gap-2 rounded-md border p-3">
+                <div className="flex items-center gap-2 font-medium">
+                  <Lightbulb className="h-4 w-4 text-amber-500" />
+                  Suggested sorting key
+                </div>
+                <div className="font-mono text-xs">
+                  ORDER BY ({suggestion.orderBy.join(", ")})
+                  {suggestion.partitionBy && <> PARTITION BY {suggestion.partitionBy}</>}
+                </div>
+                <ul className="list-disc pl-5 text-xs text-muted-foreground">
+                  {suggestion.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+                <div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      update("mergeTree", {
+                        orderBy: `(${suggestion.orderBy.join(", ")})`,
+                        partitionBy: suggestion.partitionBy,
+                      })
+                    }
+                  >
+                    Apply
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "Engine" && model.engine === "Distributed" && (
+          <div className="grid grid-cols-[160px_1fr] gap-x-4 gap-y-2 items-center">
+            <TextField
+              label="Cluster"
+              value={model.distributed.cluster}
+              onChange={(value) => update("distributed", { cluster: value })}
+            />
+            <TextField
+              label="Local Database"
+              value={model.distributed.database}
+              onChange={(value) => update("distributed", { database: value })}
+            />
+            <TextField
+              label="Local Table"
+              value={model.distributed.table}
+              onChange={(value) => update("distributed", { table: value })}
+            />
+            <TextField
+              label="Sharding Key"
+              value={model.distributed.shardingKey}
+              placeholder="rand()"
+              onChange={(shardingKey) => update("distributed", { shardingKey })}
+            />
+          </div>
+        )}
+
+        {step === "Engine" && model.engine === "Kafka" && (
+          <div className="grid grid-cols-[160px_1fr] gap-x-4 gap-y-2 items-center">
+            <TextField
+              label="Broker List"
+              value={model.kafka.brokerList}
+              placeholder="host1:9092,host2:9092"
+              onChange={(brokerList) => update("kafka", { brokerList })}
+            />
+            <TextField
+              label="Topic List"
+              value={model.kafka.topicList}
+              onChange={(topicList) => update("kafka", { topicList })}
+            />
+            <TextField
+              label="Consumer Group"
+              value={model.kafka.groupName}
+              onChange={(groupName) => update("kafka", { groupName })}
+            />
+            <TextField
+              label="Format"
+              value={model.kafka.format}
+              onChange={(format) => update("kafka", { format })}
+            />
+          </div>
+        )}
+
+        {step === "Engine" && model.engine === "Buffer" && (
+          <div className="grid grid-cols-[160px_1fr] gap-x-4 gap-y-2 items-center">
+            <TextField
+              label="Destination Database"
+              value={model.buffer.database}
+              onChange={(value) => update("buffer", { database: value })}
+            />
+            <TextField
+              label="Destination Table"
+              value={model.buffer.table}
+              onChange={(value) => update("buffer", { table: value })}
+            />
+            <TextField
+              label="Layers"
+              value={model.buffer.numLayers}
+              onChange={(numLayers) => update("buffer", { numLayers })}
+            />
+            <TextField
+              label="Min / Max Time"
+              value={`${model.buffer.minTime}, ${model.buffer.maxTime}`}
+              onChange={(value) => {
+                const [minTime = "", maxTime = ""] = value.split(",").map((v) => v.trim());
+                update("buffer", { minTime, maxTime });
+              }}
+            />
+            <TextField
+              label="Min / Max Rows"
+              value={`${model.buffer.minRows}, ${model.buffer.maxRows}`}
+              onChange={(value) => {
+                const [minRows = "", maxRows = ""] = value.split(",").map((v) => v.trim());
+                update("buffer", { minRows, maxRows });
+              }}
+            />
+            <TextField
+              label="Min / Max Bytes"
+              value={`${model.buffer.minBytes}, ${model.buffer.maxBytes}`}
+              onChange={(value) => {
+                const [minBytes = "", maxBytes = ""] = value.split(",").map((v) => v.trim());
+                update("buffer", { minBytes, maxBytes });
+              }}
+            />
+          </div>
+        )}
+
+        {step === "Engine" && model.engine === "MaterializedView" && (
+          <div className="grid grid-cols-[160px_1fr] gap-x-4 gap-y-2 items-center">
+            <TextField
+              label="Target Database"
+              value={model.materializedView.toDatabase}
+              onChange={(toDatabase) => update("materializedView", { toDatabase })}
+            />
+            <TextField
+              label="Target Table"
+              value={model.materializedView.toTable}
+              onChange={(toTable) => update("materializedView", { toTable })}
+            />
+            <Field label="SELECT">
+              <Textarea
+                className="font-mono text-xs min-h-[160px]"
+                value={model.materializedView.selectQuery}
+                placeholder="SELECT ... FROM db.source"
+                onChange={(e) => update("materializedView", { selectQuery: e.target.value })}
+              />
+            </Field>
+          </div>
+        )}
+
+        {step === "Review" && (
+          <div className="flex flex-col gap-2">
+            <div className="border rounded-md overflow-auto bg-muted/30">
+              <ThemedSyntaxHighlighter
+                language="sql"
+                customStyle={{
+                  margin: 0,
+                  padding: "0.75rem",
+                  fontSize: "12px",
+                  backgroundColor: "transparent",
+                }}
+                wrapLongLines
+              >
+                {sql}
+              </ThemedSyntaxHighlighter>
+            </div>
+            {errors.map((error) => (
+              <p key={error} className="text-destructive">
+                {error}
+              </p>
+            ))}
+            {executionError && (
+              <pre className="text-xs text-destructive whitespace-pre-wrap break-all max-h-[200px] overflow-auto">
+                {executionError}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={isExecuting} onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={stepIndex === 0}
+          onClick={() => setStep(STEPS[stepIndex - 1])}
+        >
+          Back
+        </Button>
+        {step === "Review" ? (
+          <Button
+            size="sm"
+            disabled={isExecuting || errors.length > 0}
+            onClick={handleExecute}
+            className="gap-1"
+          >
+            {isExecuting && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Create
+          </Button>
+        ) : (
+          <Button size="sm" onClick={() => setStep(STEPS[stepIndex + 1])}>
+            Next
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show a wizard that builds and executes the CREATE statement of a table in the given database
+ */
+export function showCreateTableDialog(options: {
+  database: string;
+  connection: Connection;
+  onSuccess: () => void;
+}) {
+  Dialog.showDialog({
+    title: `Create Table in ${options.database}`,
+    className: "sm:max-w-[960px]",
+    mainContent: (
+      <CreateTableWizard
+        database={options.database}
+        connection={options.connection}
+        onSuccess={options.onSuccess}
+      />
+    ),
+  });
+}
@@ -146,6 +146,14 @@ ORDER BY shard, replica`,
     return <span>{initialSelectedHost}</span>;
   }
 
+  if (connection && !connection.canQueryOnNode()) {
+    return (
+      <span title="Switching the node requires the Basic or the ClickHouse Header authentication">
+        {initialSelectedHost}
+      </span>
+    );
+  }
+
   return (
     <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger>
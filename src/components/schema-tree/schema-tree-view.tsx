@@ -10,7 +10,10 @@ import { cn } from "@/lib/utils";
 import { AlertCircle, Database, RotateCw, Search, Table as TableIcon, X } from "lucide-react";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { createPortal } from "react-dom";
+import type { BackupOperation } from "../system-table-tab/backup-commands";
+import { showBackupCommandDialog } from "../system-table-tab/backup-dialog";
 import { TabManager, type TabInfo } from "../tab-manager";
+import { showCreateTableDialog } from "./create-table-dialog";
 import { showDropTableConfirmationDialog } from "./drop-table-confirmation-dialog";
 import { buildSchemaTree } from "./schema-tree-builder";
 import {
@@ -22,6 +25,9 @@ import {
   type TableNodeData,
 } from "./schema-tree-loader";
 
+// Databases that can't be backed up or restored from the context menu
+const SYSTEM_DATABASES = ["system", "information_schema", "INFORMATION_SCHEMA"];
+
 /**
  * Extract table names and database names from schema load result
  */
@@ -240,16 +246,21 @@ export function SchemaTreeView({ initialSchemaData }: SchemaTreeViewProps) {
     const nodeData = node.data as SchemaNodeData | undefined;
     if (!nodeData) return;
 
-    // Show context menu only for table nodes (if not materialized view)
+    // Show context menu only for table nodes (if not materialized view) and user databases
+    let showMenu = false;
     if (nodeData.type === "table") {
       const tableData = nodeData as TableNodeData;
       // Only show context menu if table engine is not MaterializedView
-      if (tableData.fullTableEngine !== "MaterializedView") {
-        event.preventDefault();
-        event.stopPropagation();
-        setContextMenuNode(node);
-        setContextMenuPosition({ x: event.clientX, y: event.clientY });
-      }
+      showMenu = tableData.fullTableEngine !== "MaterializedView";
+    } else if (nodeData.type === "database") {
+      showMenu = !SYSTEM_DATABASES.includes((nodeData as DatabaseNodeData).name);
+    }
+
+    if (showMenu) {
+      event.preventDefault();
+      event.stopPropagation();
+      setContextMenuNode(node);
+      setContextMenuPosition({ x: event.clientX, y: event.clientY });
     }
   }, []);
 
@@ -287,6 +298,43 @@ export function SchemaTreeView({ initialSchemaData }: SchemaTreeViewProps) {
     setContextMenuPosition(null);
   }, [contextMenuNode, connection, loadDatabases]);
 
+  const handleCreateTable = useCallback(() => {
+    const nodeData = contextMenuNode?.data as SchemaNodeData | undefined;
+    if (connection && nodeData?.type === "database") {
+      showCreateTableDialog({
+        database: (nodeData as DatabaseNodeData).name,
+        connection,
+        onSuccess: () => loadDatabases(),
+      });
+    }
+    setContextMenuNode(null);
+    setContextMenuPosition(null);
+  }, [contextMenuNode, connection, loadDatabases]);
+
+  const handleBackupCommand = useCallback(
+    (operation: BackupOperation) => {
+      const nodeData = contextMenuNode?.data as SchemaNodeData | undefined;
+      if (connection && nodeData?.type === "table") {
+        const tableData = nodeData as TableNodeData;
+        showBackupCommandDialog({
+          operation,
+          database: tableData.database,
+          table: tableData.table,
+          connection,
+        });
+      } else if (connection && nodeData?.type === "database") {
+        showBackupCommandDialog({
+          operation,
+          database: (nodeData as DatabaseNodeData).name,
+          connection,
+        });
+      }
+      setContextMenuNode(null);
+      setContextMenuPosition(null);
+    },
+    [contextMenuNode, connection]
+  );
+
   const handleSelectCount = useCallback(() => {
     const node = contextMenuNode;
     if (!node) {
@@ -447,8 +495,24 @@ export function SchemaTreeView({ initialSchemaData }: SchemaTreeViewProps) {
               );
             }
 
-            // Only show drop table if engine is not 'Sys' (System tables)
+            // Only show backup and drop table if engine is not 'Sys' (System tables)
             if (tableData.tableEngine !== "Sys") {
+              menuItems.push(
+                <div
+                  key="backup-table"
+                  className="relative flex cursor-default select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-accent focus:text-accent-foreground hover:bg-accent hover:text-accent-foreground"
+                  onClick={() => handleBackupCommand("BACKUP")}
+                >
+                  Backup table...
+                </div>,
+                <div
+                  key="restore-table"
+                  className="relative flex cursor-default select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-accent focus:text-accent-foreground hover:bg-accent hover:text-accent-foreground"
+                  onClick={() => handleBackupCommand("RESTORE")}
+                >
+                  Restore table...
+                </div>
+              );
               menuItems.push(
                 <div
                   key="drop-table"
@@ -461,6 +525,32 @@ export function SchemaTreeView({ initialSchemaData }: SchemaTreeViewProps) {
             }
           }
 
+          if ((contextMenuNode.data as SchemaNodeData)?.type === "database") {
+            menuItems.push(
+              <div
+                key="create-table"
+                className="relative flex cursor-default select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-accent focus:text-accent-foreground hover:bg-accent hover:text-accent-foreground"
+                onClick={handleCreateTable}
+              >
+                Create table...
+              </div>,
+              <div
+                key="backup-database"
+                className="relative flex cursor-default select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-accent focus:text-accent-foreground hover:bg-accent hover:text-accent-foreground"
+                onClick={() => handleBackupCommand("BACKUP")}
+              >
+                Backup database...
+              </div>,
+              <div
+                key="restore-database"
+                className="relative flex cursor-default select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-accent focus:text-accent-foreground hover:bg-accent hover:text-accent-foreground"
+                onClick={() => handleBackupCommand("RESTORE")}
+              >
+                Restore database...
+              </div>
+            );
+          }
+
           // Only render context menu if there are items to show
           if (menuItems.length === 0) {
             return null;
@@ -1,3 +1,4 @@
+import { useConnection } from "@/components/connection/connection-context";
 import {
   AgentConfigurationManager,
   type AgentConfiguration,
@@ -11,13 +12,58 @@ import {
   DropdownMenuRadioItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_SQL_EXECUTION_POLICY,
+  type SqlExecutionPolicy,
+  type WriteStatementMode,
+} from "@/lib/ai/tools/client/sql-execution-policy";
+import { ConnectionManager } from "@/lib/connection/connection-manager";
 import { ChevronDown } from "lucide-react";
 import { useEffect, useState } from "react";
 
+const WRITE_STATEMENT_MODE_LABELS: Record<WriteStatementMode, string> = {
+  deny: "Deny",
+  approve: "Ask for approval",
+  allow: "Allow without asking",
+};
+
+const LIMIT_FIELDS: Array<{
+  key: "maxResultRows" | "maxExecutionTime" | "maxMemoryUsage";
+  label: string;
+  description: string;
+}> = [
+  {
+    key: "maxResultRows",
+    label: "Max Result Rows",
+    description:
+      "max_result_rows of agent read queries. Rows beyond the limit are not returned and the agent is told the result was truncated.",
+  },
+  {
+    key: "maxExecutionTime",
+    label: "Max Execution Time",
+    description: "max_execution_time of agent read queries, in seconds.",
+  },
+  {
+    key: "maxMemoryUsage",
+    label: "Max Memory Usage",
+    description: "max_memory_usage of agent read queries, in bytes.",
+  },
+];
+
 export function AgentEdit() {
+  const { connection } = useConnection();
+  const [connectionNames] = useState(() =>
+    ConnectionManager.getInstance()
+      .getConnections()
+      .map((c) => c.name)
+  );
+  const [policyConnection, setPolicyConnection] = useState(
+    () => connection?.name ?? connectionNames[0] ?? ""
+  );
   const [configuration, setConfiguration] = useState<AgentConfiguration>(
     AgentConfigurationManager.getConfiguration()
   );
@@ -39,6 +85,23 @@ export function AgentEdit() {
     AgentConfigurationManager.setConfiguration(newConfig);
   };
 
+  const policy: SqlExecutionPolicy = {
+    ...DEFAULT_SQL_EXECUTION_POLICY,
+    ...configuration.sqlExecutionPolicies?.[policyConnection],
+  };
+
+  const handlePolicyChange = (change: Partial<SqlExecutionPolicy>) => {
+    const newConfig = {
+      ...configuration,
+      sqlExecutionPolicies: {
+        ...configuration.sqlExecutionPolicies,
+        [policyConnection]: { ...policy, ...change },
+      },
+    };
+    setConfiguration(newConfig);
+    AgentConfigurationManager.setConfiguration(newConfig);
+  };
+
   return (
     <div className="h-full flex flex-col">
       <div className="px-4 py-2 grid gap-2">
@@ -84,6 +147,119 @@ export function AgentEdit() {
             Enable surgical pruning of SQL validations from history to save tokens.
           </div>
         </div>
+
+        <Separator />
+        <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+          <div className="space-y-1 pt-2">
+            <Label>SQL Execution Policy</Label>
+          </div>
+          <div className="flex items-center">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-full justify-between"
+                  disabled={connectionNames.length === 0}
+                >
+                  <span className="truncate">{policyConnection || "No connection"}</span>
+                  <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="w-[300px] z-[10000]">
+                <DropdownMenuRadioGroup
+                  value={policyConnection}
+                  onValueChange={setPolicyConnection}
+                >
+                  {connectionNames.map((name) => (
+                    <DropdownMenuRadioItem key={name} value={name}>
+                      {name}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          <div className="text-sm text-muted-foreground pt-2">
+            Guardrails applied to the SQL executed by the agent on the selected connection.
+          </div>
+        </div>
+
+        {policyConnection && (
+          <>
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2 pl-4">
+                <Label>Write Statements</Label>
+              </div>
+              <div className="flex items-center">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="w-full justify-between">
+                      {WRITE_STATEMENT_MODE_LABELS[policy.writeStatements]}
+                      <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent className="w-[300px] z-[10000]">
+                    <DropdownMenuRadioGroup
+                      value={policy.writeStatements}
+                      onValueChange={(value) =>
+                        handlePolicyChange({ writeStatements: value as WriteStatementMode })
+                      }
+                    >
+                      {Object.entries(WRITE_STATEMENT_MODE_LABELS).map(([value, label]) => (
+                        <DropdownMenuRadioItem key={value} value={value}>
+                          {label}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+              <div className="text-sm text-muted-foreground pt-2">
+                How statements other than SELECT, SHOW, DESCRIBE or EXPLAIN, such as ALTER, DROP or
+                INSERT, are handled.
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2 pl-4">
+                <Label>Read-only Queries</Label>
+              </div>
+              <div className="flex items-center h-10">
+                <Switch
+                  checked={policy.enforceReadOnly}
+                  onCheckedChange={(checked) => handlePolicyChange({ enforceReadOnly: checked })}
+                />
+              </div>
+              <div className="text-sm text-muted-foreground pt-2">
+                Execute read statements with readonly=2 so that the server rejects any modification.
+              </div>
+            </div>
+
+            {LIMIT_FIELDS.map((field) => (
+              <div key={field.key} className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+                <div className="space-y-1 pt-2 pl-4">
+                  <Label>{field.label}</Label>
+                </div>
+                <div className="flex items-center">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={policy[field.key]}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (Number.isInteger(value) && value >= 0) {
+                        handlePolicyChange({ [field.key]: value });
+                      }
+                    }}
+                  />
+                </div>
+                <div className="text-sm text-muted-foreground pt-2">
+                  {field.description} 0 means the limit of the server is used.
+                </div>
+              </div>
+            ))}
+          </>
+        )}
       </div>
     </div>
   );
@@ -1,3 +1,7 @@
+import {
+  DEFAULT_SQL_EXECUTION_POLICY,
+  type SqlExecutionPolicy,
+} from "@/lib/ai/tools/client/sql-execution-policy";
 import type { LocalStorage } from "@/lib/storage/local-storage-provider";
 import { StorageManager } from "@/lib/storage/storage-provider-manager";
 
@@ -9,6 +13,8 @@ export type AgentConfiguration = {
   mode: AgentMode;
   /** Whether to prune successful validate_sql tool calls from history. Default true. */
   pruneValidateSql?: boolean;
+  /** Guardrails of the SQL executed by the agent, keyed by connection name */
+  sqlExecutionPolicies?: Record<string, SqlExecutionPolicy>;
 };
 
 export class AgentConfigurationManager {
@@ -31,6 +37,13 @@ export class AgentConfigurationManager {
     return this.configuration!;
   }
 
+  public static getSqlExecutionPolicy(connectionName: string): SqlExecutionPolicy {
+    return {
+      ...DEFAULT_SQL_EXECUTION_POLICY,
+      ...this.getConfiguration().sqlExecutionPolicies?.[connectionName],
+    };
+  }
+
   public static setConfiguration(cfg: AgentConfiguration) {
     this.configuration = cfg;
     this.getStorage().setJSON(cfg);
@@ -0,0 +1,426 @@
+import { StatusPopover } from "@/components/connection/connection-edit-component";
+import { ModelManager } from "@/components/settings/models/model-manager";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CUSTOM_PROVIDER_PRESETS,
+  DEFAULT_AZURE_API_VERSION,
+  DEFAULT_MODEL_CAPABILITIES,
+  type CustomModel,
+  type CustomProvider,
+  type CustomProviderEndpoint,
+} from "@/lib/ai/llm/custom-provider";
+import { AlertCircle, ChevronDown, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+interface CustomProviderEditProps {
+  /** The provider to edit, undefined to create a new one */
+  provider?: CustomProvider;
+  onClose: () => void;
+}
+
+/**
+ * Parse headers written one per line as `Name: value`
+ */
+function parseHeaderLines(text: string): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const index = line.indexOf(":");
+    if (index > 0) {
+      headers[line.substring(0, index).trim()] = line.substring(index + 1).trim();
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+function formatHeaderLines(headers: Record<string, string> | undefined): string {
+  return Object.entries(headers ?? {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+export function CustomProviderEdit({ provider, onClose }: CustomProviderEditProps) {
+  const modelManager = ModelManager.getInstance();
+  const [state, setState] = useState<Omit<CustomProvider, "headers">>(
+    () =>
+      provider ?? {
+        name: CUSTOM_PROVIDER_PRESETS[0].label,
+        type: CUSTOM_PROVIDER_PRESETS[0].type,
+        baseURL: CUSTOM_PROVIDER_PRESETS[0].baseURL,
+        models: [],
+      }
+  );
+  const [headerText, setHeaderText] = useState(() => formatHeaderLines(provider?.headers));
+  const [apiKey, setApiKey] = useState(
+    () =>
+      (provider &&
+        modelManager.getProviderSettings().find((s) => s.provider === provider.name)?.apiKey) ||
+      ""
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  const getEndpoint = (): CustomProviderEndpoint => ({
+    type: state.type,
+    baseURL: state.baseURL.trim(),
+    headers: parseHeaderLines(headerText),
+    apiVersion: state.type === "azure-openai" ? state.apiVersion?.trim() || undefined : undefined,
+  });
+
+  const updateModel = (index: number, update: Partial<CustomModel>) => {
+    setState((prev) => ({
+      ...prev,
+      models: prev.models.map((m, i) => (i === index ? { ...m, ...update } : m)),
+    }));
+  };
+
+  const handleDiscover = async () => {
+    setIsDiscovering(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/models/discover", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ endpoint: getEndpoint(), apiKey: apiKey || undefined }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        models?: string[];
+        error?: string;
+      };
+      if (!response.ok || !data.models) {
+        throw new Error(data.error || `Failed to discover models: ${response.status}`);
+      }
+      if (data.models.length === 0) {
+        setError("The server did not return any model");
+        return;
+      }
+      setState((prev) => {
+        const known = new Set(prev.models.map((m) => m.modelId));
+        const discovered = data.models!.filter((id) => !known.has(id));
+        return {
+          ...prev,
+          models: [
+            ...prev.models,
+            ...discovered.map((modelId) => ({
+              modelId,
+              capabilities: { ...DEFAULT_MODEL_CAPABILITIES },
+            })),
+          ],
+        };
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      const saved: CustomProvider = {
+        ...state,
+        ...getEndpoint(),
+        models: state.models.map((m) => ({ ...m, modelId: m.modelId.trim() })),
+      };
+      modelManager.saveCustomProvider(saved, provider?.name);
+      modelManager.updateProviderSetting(saved.name.trim(), { apiKey });
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDelete = () => {
+    if (provider) {
+      modelManager.deleteCustomProvider(provider.name);
+    }
+    setShowDeleteConfirm(false);
+    onClose();
+  };
+
+  return (
+    <div className="grid gap-3 text-sm">
+      {!provider && (
+        <div className="grid grid-cols-[120px_1fr] gap-4 items-center">
+          <Label>Preset</Label>
+          <div className="flex flex-wrap gap-1">
+            {CUSTOM_PROVIDER_PRESETS.map((preset) => (
+              <Button
+                key={preset.label}
+                variant={state.name === preset.label ? "secondary" : "outline"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() =>
+                  setState((prev) => ({
+                    ...prev,
+                    name: preset.label,
+                    type: preset.type,
+                    baseURL: preset.baseURL,
+                  }))
+                }
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-[120px_1fr] gap-4 items-center">
+        <Label>Name</Label>
+        <Input
+          value={state.name}
+          onChange={(e) => setState((prev) => ({ ...prev, name: e.target.value }))}
+          className="h-8"
+        />
+      </div>
+
+      <div className="grid grid-cols-[120px_1fr] gap-4 items-center">
+        <Label>Type</Label>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 w-[220px] justify-between">
+              {state.type === "azure-openai" ? "Azure OpenAI" : "OpenAI-compatible"}
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem
+              onClick={() => setState((prev) => ({ ...prev, type: "openai-compatible" }))}
+            >
+              OpenAI-compatible
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => setState((prev) => ({ ...prev, type: "azure-openai" }))}
+            >
+              Azure OpenAI
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="grid grid-cols-[120px_1fr] gap-4 items-center">
+        <Label>Base URL</Label>
+        <Input
+          value={state.baseURL}
+          placeholder={
+            state.type === "azure-openai"
+              ? "https://<resource>.openai.azure.com"
+              : "http://localhost:11434/v1"
+          }
+          onChange={(e) => setState((prev) => ({ ...prev, baseURL: e.target.value }))}
+          className="h-8 font-mono text-xs"
+        />
+      </div>
+
+      {state.type === "azure-openai" && (
+        <div className="grid grid-cols-[120px_1fr] gap-4 items-center">
+          <Label>API Version</Label>
+          <Input
+            value={state.apiVersion ?? ""}
+            placeholder={DEFAULT_AZURE_API_VERSION}
+            onChange={(e) => setState((prev) => ({ ...prev, apiVersion: e.target.value }))}
+            className="h-8 w-[220px] font-mono text-xs"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-[120px_1fr] gap-4 items-center">
+        <Label>API Key</Label>
+        <Input
+          type="password"
+          value={apiKey}
+          placeholder="Optional for local servers"
+          onChange={(e) => setApiKey(e.target.value)}
+          className="h-8"
+          autoComplete="off"
+        />
+      </div>
+
+      <div className="grid grid-cols-[120px_1fr] gap-4 items-start">
+        <div className="space-y-1 pt-2">
+          <Label>Headers</Label>
+          <div className="text-xs text-muted-foreground">One per line</div>
+        </div>
+        <Textarea
+          value={headerText}
+          placeholder="X-Gateway-Token: ..."
+          onChange={(e) => setHeaderText(e.target.value)}
+          className="font-mono text-xs md:text-xs h-[60px]"
+          spellCheck={false}
+        />
+      </div>
+
+      <div className="grid grid-cols-[120px_1fr] gap-4 items-start">
+        <div className="space-y-1 pt-2">
+          <Label>{state.type === "azure-openai" ? "Deployments" : "Models"}</Label>
+          <div className="text-xs text-muted-foreground">
+            Without tool calling, the agent answers without inspecting the database
+          </div>
+        </div>
+        <div className="flex flex-col gap-2">
+          {state.models.length > 0 && (
+            <div className="grid grid-cols-[1fr_60px_70px_100px_32px] gap-2 items-center text-xs text-muted-foreground">
+              <span>Model ID</span>
+              <span>Tools</span>
+              <span>Reasoning</span>
+              <span>Context</span>
+              <span />
+            </div>
+          )}
+          <div className="max-h-[240px] overflow-y-auto flex flex-col gap-1">
+            {state.models.map((model, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[1fr_60px_70px_100px_32px] gap-2 items-center"
+              >
+                <Input
+                  value={model.modelId}
+                  placeholder={state.type === "azure-openai" ? "deployment name" : "llama3.1:8b"}
+                  onChange={(e) => updateModel(index, { modelId: e.target.value })}
+                  className="h-8 font-mono text-xs"
+                />
+                <Switch
+                  checked={model.capabilities.toolCalling}
+                  onCheckedChange={(toolCalling) =>
+                    updateModel(index, { capabilities: { ...model.capabilities, toolCalling } })
+                  }
+                />
+                <Switch
+                  checked={model.capabilities.reasoning}
+                  onCheckedChange={(reasoning) =>
+                    updateModel(index, { capabilities: { ...model.capabilities, reasoning } })
+                  }
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={model.capabilities.contextWindow ?? ""}
+                  placeholder="tokens"
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    updateModel(index, {
+                      capabilities: {
+                        ...model.capabilities,
+                        contextWindow: value > 0 ? value : undefined,
+                      },
+                    });
+                  }}
+                  className="h-8 text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Remove model"
+                  onClick={() =>
+                    setState((prev) => ({
+                      ...prev,
+                      models: prev.models.filter((_, i) => i !== index),
+                    }))
+                  }
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() =>
+                setState((prev) => ({
+                  ...prev,
+                  models: [
+                    ...prev.models,
+                    { modelId: "", capabilities: { ...DEFAULT_MODEL_CAPABILITIES } },
+                  ],
+                }))
+              }
+            >
+              <Plus className="h-4 w-4" />
+              Add model
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              disabled={isDiscovering || !state.baseURL.trim()}
+              onClick={handleDiscover}
+            >
+              {isDiscovering ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+              Discover models
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-destructive whitespace-pre-wrap">{error}</div>}
+      <div className="flex justify-end gap-2">
+        {provider && (
+          <StatusPopover
+            open={showDeleteConfirm}
+            onOpenChange={setShowDeleteConfirm}
+            trigger={
+              <Button variant="outline" size="sm" onClick={() => setShowDeleteConfirm(true)}>
+                Delete
+              </Button>
+            }
+            side="top"
+            align="start"
+            icon={
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+            }
+            title="Delete provider"
+          >
+            <div className="text-xs mb-3">
+              Remove provider {provider.name}, its models and its API key?
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8 rounded-sm text-sm"
+                onClick={() => setShowDeleteConfirm(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                size="sm"
+                className="h-8 rounded-sm text-sm"
+                onClick={handleDelete}
+              >
+                Delete
+              </Button>
+            </div>
+          </StatusPopover>
+        )}
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
-import { MODELS, type ModelProps } from "@/lib/ai/llm/llm-provider-factory";
+import {
+  validateCustomProviderEndpoint,
+  type CustomProvider,
+  type CustomProviderEndpoint,
+  type ModelCapabilities,
+} from "@/lib/ai/llm/custom-provider";
+import { CREATORS, MODELS, type ModelProps } from "@/lib/ai/llm/llm-provider-factory";
 import { PROVIDER_GITHUB_COPILOT } from "@/lib/ai/llm/provider-ids";
+import { CredentialVault } from "@/lib/storage/credential-vault";
 import { StorageManager } from "@/lib/storage/storage-provider-manager";
 
 export interface ModelSetting {
@@ -20,6 +27,12 @@ export interface ProviderSetting {
 
 export const MODEL_CONFIG_UPDATED_EVENT = "MODEL_CONFIG_UPDATED";
 
+// Namespace of provider secrets in the credential vault
+const VAULT_NAMESPACE = "providers";
+
+// Namespace of the header values of custom providers, which may carry credentials of a gateway
+const HEADERS_VAULT_NAMESPACE = "custom-provider-headers";
+
 class ModelManager {
   private static instance: ModelManager;
 
@@ -35,6 +48,12 @@ class ModelManager {
       .subStorage("settings:ai:provider-settings");
   }
 
+  private get customProvidersStorage() {
+    return StorageManager.getInstance()
+      .getStorageProvider()
+      .subStorage("settings:ai:custom-providers");
+  }
+
   private get selectedModelStorage() {
     return StorageManager.getInstance()
       .getStorageProvider()
@@ -53,6 +72,18 @@ class ModelManager {
     return ModelManager.instance;
   }
 
+  private constructor() {
+    CredentialVault.getInstance().subscribe((event) => {
+      if (event === "locked") {
+        this.notify();
+      } else {
+        // Move plaintext API keys into the vault, or back to plaintext when the vault is disabled
+        this.setCustomProviders(this.getCustomProviders());
+        this.setProviderSettings(this.getProviderSettings());
+      }
+    });
+  }
+
   /**
    * Set dynamic models and notify listeners
    */
@@ -65,7 +96,14 @@ class ModelManager {
    * Get all registered models (static + dynamic)
    */
   public getAllModels(): ModelProps[] {
-    const all = [...MODELS, ...this.dynamicModels];
+    const customModels: ModelProps[] = this.getCustomProviders().flatMap((provider) =>
+      provider.models.map((model) => ({
+        provider: provider.name,
+        modelId: model.modelId,
+        description: `${provider.type === "azure-openai" ? "Azure OpenAI deployment" : "Model"} served by ${provider.baseURL}`,
+      }))
+    );
+    const all = [...MODELS, ...this.dynamicModels, ...customModels];
     const seen = new Set<string>();
     const filtered = all.filter((model) => {
       const key = `${model.provider}:${model.modelId}`;
@@ -162,15 +200,47 @@ class ModelManager {
    * @returns Array of provider settings
    */
   public getProviderSettings(): ProviderSetting[] {
-    return this.providerSettingsStorage.getAsJSON<ProviderSetting[]>(() => []);
+    const settings = this.providerSettingsStorage.getAsJSON<ProviderSetting[]>(() => []);
+
+    // Secrets are kept in the vault when it's enabled, plaintext ones are not migrated yet
+    const vaultSecrets = CredentialVault.getInstance().getSecrets(VAULT_NAMESPACE);
+    if (!vaultSecrets) {
+      return settings;
+    }
+    return settings.map((setting) => {
+      const secrets = vaultSecrets[setting.provider];
+      return {
+        ...setting,
+        apiKey: setting.apiKey || secrets?.apiKey || "",
+        refreshToken: setting.refreshToken || secrets?.refreshToken || undefined,
+      };
+    });
   }
 
   /**
    * Save provider settings to localStorage
+   * Throws a VaultError if a setting carries a secret while the vault is locked.
    * @param settings - Array of provider settings to save
    */
   public setProviderSettings(settings: ProviderSetting[]): void {
-    this.providerSettingsStorage.setJSON(settings);
+    const secrets: Record<string, Record<string, string>> = {};
+    for (const setting of settings) {
+      secrets[setting.provider] = {
+        apiKey: setting.apiKey,
+        ...(setting.refreshToken ? { refreshToken: setting.refreshToken } : {}),
+      };
+    }
+
+    if (settings.some((setting) => setting.apiKey || setting.refreshToken)) {
+      CredentialVault.getInstance().assertCanSaveSecrets();
+    }
+    if (CredentialVault.getInstance().setSecrets(VAULT_NAMESPACE, secrets)) {
+      this.providerSettingsStorage.setJSON(
+        settings.map((setting) => ({ ...setting, apiKey: "", refreshToken: undefined }))
+      );
+    } else {
+      this.providerSettingsStorage.setJSON(settings);
+    }
     this.notify();
   }
 
@@ -259,6 +329,7 @@ class ModelManager {
   public getAvailableModels(autoSelectAvailable?: boolean): ModelProps[] {
     const modelSettings = this.getModelSettings();
     const providerSettings = this.getProviderSettings();
+    const customProviders = new Set(this.getCustomProviders().map((p) => p.name));
 
     const userModels = this.getAllModels().filter((model) => {
       // Filter out models that are disabled in settings
@@ -267,6 +338,9 @@ class ModelManager {
       );
       if (setting ? setting.disabled : model.disabled) return false;
 
+      // Custom providers such as a local Ollama may not need an API key
+      if (customProviders.has(model.provider)) return true;
+
       // Filter out models whose provider doesn't have an API key
       const providerSetting = providerSettings.find((p) => p.provider === model.provider);
       if (!providerSetting?.apiKey) return false;
@@ -289,6 +363,145 @@ If you have your API keys, you can configure your models in the settings.`,
 
     return userModels;
   }
+
+  /**
+   * Get the providers configured by the user, e.g. a self-hosted Ollama or an Azure OpenAI resource
+   */
+  public getCustomProviders(): CustomProvider[] {
+    const providers = this.customProvidersStorage.getAsJSON<CustomProvider[]>(() => []);
+
+    // Header values are kept in the vault when it's enabled, plaintext ones are not migrated yet
+    const vaultSecrets = CredentialVault.getInstance().getSecrets(HEADERS_VAULT_NAMESPACE);
+    if (!vaultSecrets) {
+      return providers;
+    }
+    return providers.map((provider) => {
+      if (!provider.headers) {
+        return provider;
+      }
+      const secrets = vaultSecrets[provider.name];
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(provider.headers)) {
+        headers[name] = value || secrets?.[name] || "";
+      }
+      return { ...provider, headers };
+    });
+  }
+
+  /**
+   * Save the custom providers, the header values go to the vault like the API keys.
+   * Throws a VaultError if a header has a value while the vault is locked.
+   */
+  private setCustomProviders(providers: CustomProvider[]): void {
+    const secrets: Record<string, Record<string, string>> = {};
+    for (const provider of providers) {
+      if (provider.headers) {
+        secrets[provider.name] = provider.headers;
+      }
+    }
+
+    if (Object.values(secrets).some((headers) => Object.values(headers).some((v) => v !== ""))) {
+      CredentialVault.getInstance().assertCanSaveSecrets();
+    }
+    if (CredentialVault.getInstance().setSecrets(HEADERS_VAULT_NAMESPACE, secrets)) {
+      this.customProvidersStorage.setJSON(
+        providers.map((provider) => ({
+          ...provider,
+          headers: provider.headers
+            ? Object.fromEntries(Object.keys(provider.headers).map((name) => [name, ""]))
+            : undefined,
+        }))
+      );
+    } else {
+      this.customProvidersStorage.setJSON(providers);
+    }
+  }
+
+  public getCustomProvider(name: string): CustomProvider | undefined {
+    return this.getCustomProviders().find((p) => p.name === name);
+  }
+
+  /**
+   * Validate and save a custom provider. The API key is kept in the provider settings like for other providers.
+   * Throws an Error with a message for the user if the provider is not valid.
+   * @param provider - The provider to save
+   * @param previousName - The name of the provider before the edit, to rename it
+   */
+  public saveCustomProvider(provider: CustomProvider, previousName?: string): void {
+    const name = provider.name.trim();
+    if (!name) {
+      throw new Error("The name of the provider is required");
+    }
+    if (name in CREATORS || name === "System") {
+      throw new Error(`[${name}] is the name of a built-in provider`);
+    }
+    const providers = this.getCustomProviders();
+    if (name !== previousName && providers.some((p) => p.name === name)) {
+      throw new Error(`A provider named [${name}] already exists`);
+    }
+    const error = validateCustomProviderEndpoint(provider);
+    if (error) {
+      throw new Error(error);
+    }
+    const modelIds = provider.models.map((m) => m.modelId.trim());
+    if (modelIds.some((id) => !id)) {
+      throw new Error("Model IDs must not be empty");
+    }
+    if (new Set(modelIds).size !== modelIds.length) {
+      throw new Error("Model IDs must be unique");
+    }
+
+    const saved: CustomProvider = { ...provider, name };
+    const index = providers.findIndex((p) => p.name === (previousName ?? name));
+    if (index >= 0) {
+      providers[index] = saved;
+    } else {
+      providers.push(saved);
+    }
+    this.setCustomProviders(providers);
+
+    if (previousName && previousName !== name) {
+      // Move the API key and the selection to the new name
+      this.setProviderSettings(
+        this.getProviderSettings().map((s) =>
+          s.provider === previousName ? { ...s, provider: name } : s
+        )
+      );
+      const selected = this.getSelectedModel();
+      if (selected?.provider === previousName) {
+        this.setSelectedModel({ ...selected, provider: name });
+      }
+    }
+    this.notify();
+  }
+
+  /**
+   * Delete a custom provider and its API key
+   * @param name - The name of the provider to delete
+   */
+  public deleteCustomProvider(name: string): void {
+    this.setCustomProviders(this.getCustomProviders().filter((p) => p.name !== name));
+    this.deleteProviderSetting(name);
+  }
+
+  /**
+   * Get the endpoint and the capabilities of a model of a custom provider, sent with the chat requests
+   * @returns undefined if the provider is not a custom provider
+   */
+  public getCustomModelConfig(
+    provider: string,
+    modelId: string
+  ): { endpoint: CustomProviderEndpoint; capabilities?: ModelCapabilities } | undefined {
+    const customProvider = this.getCustomProvider(provider);
+    if (!customProvider) {
+      return undefined;
+    }
+    const { type, baseURL, headers, apiVersion } = customProvider;
+    return {
+      endpoint: { type, baseURL, headers, apiVersion },
+      capabilities: customProvider.models.find((m) => m.modelId === modelId)?.capabilities,
+    };
+  }
 }
 
 export { ModelManager };
@@ -4,6 +4,7 @@ import {
   type ModelSetting,
   type ProviderSetting,
 } from "@/components/settings/models/model-manager";
+import { useCredentialVaultState } from "@/components/settings/security/credential-vault-edit";
 import { Dialog as SharedDialog } from "@/components/shared/use-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -20,9 +21,21 @@ import {
 import { useModelConfig } from "@/hooks/use-model-config";
 import { type ModelProps } from "@/lib/ai/llm/llm-provider-factory";
 import { PROVIDER_GITHUB_COPILOT } from "@/lib/ai/llm/provider-ids";
+import { VaultError } from "@/lib/storage/credential-vault";
 import { TextHighlighter } from "@/lib/text-highlighter";
-import { AlertCircle, ChevronDown, ExternalLink, Eye, EyeOff, Search } from "lucide-react";
+import { toastManager } from "@/lib/toast";
+import {
+  AlertCircle,
+  ChevronDown,
+  ExternalLink,
+  Eye,
+  EyeOff,
+  Pencil,
+  Plus,
+  Search,
+} from "lucide-react";
 import React, { useCallback, useEffect, useState } from "react";
+import { CustomProviderEdit } from "./custom-provider-edit";
 import { GitHubLoginComponent } from "./github-login-component";
 
 const PROVIDER_LINKS: Record<string, string> = {
@@ -37,6 +50,8 @@ const PROVIDER_LINKS: Record<string, string> = {
 export function ModelsEdit() {
   const { allModels, modelSettings, providerSettings, fetchDynamicModels } = useModelConfig();
   const modelManager = ModelManager.getInstance();
+  const vaultState = useCredentialVaultState();
+  const isVaultLocked = vaultState.enabled && vaultState.locked;
 
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -54,11 +69,28 @@ export function ModelsEdit() {
     [modelManager]
   );
 
+  // Secrets can't be saved while the credential vault is locked
+  const updateProviderSetting = useCallback(
+    (provider: string, updates: Partial<ProviderSetting>): boolean => {
+      try {
+        modelManager.updateProviderSetting(provider, updates);
+        return true;
+      } catch (e) {
+        if (!(e instanceof VaultError)) {
+          throw e;
+        }
+        toastManager.show(e.message, "error");
+        return false;
+      }
+    },
+    [modelManager]
+  );
+
   const handleProviderApiKeyChange = useCallback(
     (provider: string, apiKey: string) => {
-      modelManager.updateProviderSetting(provider, { apiKey });
+      updateProviderSetting(provider, { apiKey });
     },
-    [modelManager]
+    [updateProviderSetting]
   );
 
   const [providers, setProviders] = useState<Array<[string, ModelSetting[]]>>([]);
@@ -96,6 +128,17 @@ export function ModelsEdit() {
     );
 
     const entries = Object.entries(grouped);
+
+    // Custom providers are listed even before their models are added
+    for (const customProvider of modelManager.getCustomProviders()) {
+      if (
+        !grouped[customProvider.name] &&
+        (!queryLower || customProvider.name.toLowerCase().includes(queryLower))
+      ) {
+        entries.push([customProvider.name, [] as ModelSetting[]]);
+      }
+    }
+
     const hasCopilot = entries.some(([provider]) => provider === PROVIDER_GITHUB_COPILOT);
     if (!hasCopilot) {
       const copilotLabel = PROVIDER_GITHUB_COPILOT.toLowerCase();
@@ -106,7 +149,23 @@ export function ModelsEdit() {
 
     entries.sort(([a], [b]) => a.localeCompare(b));
     setProviders(entries);
-  }, [allModels, modelSettings, searchQuery]);
+  }, [allModels, modelSettings, searchQuery, modelManager]);
+
+  const handleEditCustomProvider = (provider?: string) => {
+    SharedDialog.showDialog({
+      title: provider ? `Edit ${provider}` : "Add Provider",
+      description:
+        "Connect an OpenAI-compatible server such as Ollama, vLLM or LM Studio, or an Azure OpenAI resource.",
+      className: "w-full max-w-[760px] sm:max-w-[760px]",
+      mainContent: (
+        <CustomProviderEdit
+          provider={provider ? modelManager.getCustomProvider(provider) : undefined}
+          onClose={() => SharedDialog.close()}
+        />
+      ),
+      disableBackdrop: true,
+    });
+  };
 
   const handleCopilotLogin = async () => {
     SharedDialog.showDialog({
@@ -116,13 +175,16 @@ export function ModelsEdit() {
       mainContent: (
         <GitHubLoginComponent
           onSuccess={(tokens) => {
-            modelManager.updateProviderSetting(PROVIDER_GITHUB_COPILOT, {
+            const saved = updateProviderSetting(PROVIDER_GITHUB_COPILOT, {
               apiKey: tokens.accessToken,
               refreshToken: tokens.refreshToken,
               accessTokenExpiresAt: tokens.accessTokenExpiresAt,
               refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
               authError: undefined,
             });
+            if (!saved) {
+              return;
+            }
             fetchDynamicModels(tokens.accessToken);
             SharedDialog.close();
           }}
@@ -202,11 +264,13 @@ export function ModelsEdit() {
     [visibleApiKeys]
   );
 
+  const customProviderNames = new Set(modelManager.getCustomProviders().map((p) => p.name));
+
   return (
     <>
       <div className="h-full flex flex-col">
         {/* Search Input */}
-        <div className="flex-shrink-0 relative">
+        <div className="flex-shrink-0 relative flex items-center">
           <Search className="h-4 w-4 text-muted-foreground absolute left-2 top-1/2 transform -translate-y-1/2" />
           <Input
             type="text"
@@ -215,6 +279,15 @@ export function ModelsEdit() {
             placeholder="Search models by ID..."
             className="w-full border-none pl-8"
           />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 gap-1 mr-2 shrink-0"
+            onClick={() => handleEditCustomProvider()}
+          >
+            <Plus className="h-4 w-4" />
+            Add Provider
+          </Button>
         </div>
 
         <div className="overflow-hidden flex-1 flex flex-col min-h-0">
@@ -234,6 +307,7 @@ export function ModelsEdit() {
                   const providerSetting = providerSettings.find(
                     (p: ProviderSetting) => p.provider === provider
                   );
+                  const isCustomProvider = customProviderNames.has(provider);
 
                   return (
                     <React.Fragment key={provider}>
@@ -338,6 +412,16 @@ export function ModelsEdit() {
                                 )}
                               </div>
                             )}
+                            {isCustomProvider && (
+                              <button
+                                type="button"
+                                onClick={() => handleEditCustomProvider(provider)}
+                                className="text-muted-foreground hover:text-foreground transition-colors"
+                                title={`Edit ${provider}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </button>
+                            )}
                             {provider !== PROVIDER_GITHUB_COPILOT && (
                               <div className="flex items-center gap-1 flex-1 ">
                                 <Input
@@ -357,7 +441,14 @@ export function ModelsEdit() {
                                     }
                                   }}
                                   onFocus={() => handleApiKeyFocus(provider)}
-                                  placeholder={`Enter ${provider} API key`}
+                                  disabled={isVaultLocked}
+                                  placeholder={
+                                    isVaultLocked
+                                      ? "Unlock the credential vault to edit the API key"
+                                      : isCustomProvider
+                                        ? "API key (optional)"
+                                        : `Enter ${provider} API key`
+                                  }
                                   className="w-full h-8 border-0 border-b border-muted-foreground/20 rounded-none pl-0 bg-transparent focus-visible:ring-0 pr-8"
                                 />
                                 {providerSetting?.apiKey && (
@@ -0,0 +1,300 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { CredentialVault, VaultError } from "@/lib/storage/credential-vault";
+import { toastManager } from "@/lib/toast";
+import { Loader2, Lock, LockOpen } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Track the enabled/locked state of the credential vault.
+ */
+export function useCredentialVaultState() {
+  const vault = CredentialVault.getInstance();
+  const [state, setState] = useState(() => ({
+    enabled: vault.isEnabled(),
+    locked: vault.isLocked(),
+  }));
+
+  useEffect(() => {
+    const update = () => setState({ enabled: vault.isEnabled(), locked: vault.isLocked() });
+    update();
+    return vault.subscribe(update);
+  }, [vault]);
+
+  return state;
+}
+
+function getErrorMessage(e: unknown): string {
+  if (e instanceof VaultError || e instanceof Error) {
+    return e.message;
+  }
+  return String(e);
+}
+
+/**
+ * Passphrase form to unlock the credential vault.
+ */
+export function CredentialVaultUnlockForm({ onUnlocked }: { onUnlocked?: () => void }) {
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = useCallback(async () => {
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await CredentialVault.getInstance().unlock(passphrase);
+      setPassphrase("");
+      onUnlocked?.();
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, [passphrase, onUnlocked]);
+
+  return (
+    <form
+      className="flex flex-col gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleUnlock();
+      }}
+    >
+      <div className="flex gap-2">
+        <Input
+          type="password"
+          autoFocus
+          placeholder="Master passphrase"
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          disabled={isUnlocking}
+        />
+        <Button type="submit" disabled={isUnlocking || passphrase.length === 0} className="gap-1">
+          {isUnlocking ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <LockOpen className="h-4 w-4" />
+          )}
+          Unlock
+        </Button>
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </form>
+  );
+}
+
+function NewPassphraseForm({
+  submitLabel,
+  onSubmit,
+}: {
+  submitLabel: string;
+  onSubmit: (passphrase: string) => Promise<void>;
+}) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("Passphrases don't match.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+      setPassphrase("");
+      setConfirmation("");
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      className="flex flex-col gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSubmit();
+      }}
+    >
+      <Input
+        type="password"
+        placeholder="New passphrase"
+        autoComplete="new-password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        disabled={isSubmitting}
+      />
+      <Input
+        type="password"
+        placeholder="Confirm passphrase"
+        autoComplete="new-password"
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        disabled={isSubmitting}
+      />
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      <Button type="submit" variant="outline" disabled={isSubmitting} className="gap-1">
+        {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+export function CredentialVaultEdit() {
+  const vault = CredentialVault.getInstance();
+  const { enabled, locked } = useCredentialVaultState();
+  const [autoLockMinutes, setAutoLockMinutes] = useState(() => vault.getAutoLockMinutes());
+
+  useEffect(() => {
+    setAutoLockMinutes(vault.getAutoLockMinutes());
+  }, [vault, enabled]);
+
+  const handleEnable = async (passphrase: string) => {
+    await vault.enable(passphrase);
+    toastManager.show("Credential vault enabled. Saved secrets are now encrypted.", "success");
+  };
+
+  const handleChangePassphrase = async (passphrase: string) => {
+    await vault.changePassphrase(passphrase);
+    toastManager.show("Passphrase changed.", "success");
+  };
+
+  const handleDisable = async () => {
+    try {
+      await vault.disable();
+      toastManager.show("Credential vault disabled. Secrets are stored as plaintext.", "success");
+    } catch (e) {
+      toastManager.show(getErrorMessage(e), "error");
+    }
+  };
+
+  const handleAutoLockChange = (value: string) => {
+    const minutes = parseInt(value, 10);
+    const normalized = Number.isFinite(minutes) && minutes > 0 ? minutes : 0;
+    setAutoLockMinutes(normalized);
+    vault.setAutoLockMinutes(normalized);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 grid gap-2">
+        <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+          <div className="space-y-1 pt-2">
+            <Label>Status</Label>
+          </div>
+          <div className="flex items-center gap-2 h-10 text-sm">
+            {!enabled && "Disabled"}
+            {enabled && locked && (
+              <>
+                <Lock className="h-4 w-4" /> Locked
+              </>
+            )}
+            {enabled && !locked && (
+              <>
+                <LockOpen className="h-4 w-4" /> Unlocked
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => vault.lock()}
+                >
+                  Lock now
+                </Button>
+              </>
+            )}
+          </div>
+          <div className="text-sm text-muted-foreground pt-2">
+            When enabled, connection passwords, tokens and model API keys are encrypted with a key
+            derived from your master passphrase. The passphrase is never stored.
+          </div>
+        </div>
+
+        <Separator />
+        {!enabled && (
+          <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+            <div className="space-y-1 pt-2">
+              <Label>Enable Vault</Label>
+            </div>
+            <NewPassphraseForm submitLabel="Enable" onSubmit={handleEnable} />
+            <div className="text-sm text-muted-foreground pt-2">
+              Existing plaintext secrets are encrypted when the vault is enabled. If you forget the
+              passphrase, the encrypted secrets can&apos;t be recovered.
+            </div>
+          </div>
+        )}
+
+        {enabled && locked && (
+          <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+            <div className="space-y-1 pt-2">
+              <Label>Unlock</Label>
+            </div>
+            <CredentialVaultUnlockForm />
+            <div className="text-sm text-muted-foreground pt-2">
+              Secrets entered while the vault is locked are kept as plaintext until the next unlock.
+            </div>
+          </div>
+        )}
+
+        {enabled && !locked && (
+          <>
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Auto Lock (minutes)</Label>
+              </div>
+              <Input
+                type="number"
+                min={0}
+                value={autoLockMinutes}
+                onChange={(e) => handleAutoLockChange(e.target.value)}
+              />
+              <div className="text-sm text-muted-foreground pt-2">
+                Lock the vault after this many minutes without activity. 0 means never.
+              </div>
+            </div>
+
+            <Separator />
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Change Passphrase</Label>
+              </div>
+              <NewPassphraseForm submitLabel="Change" onSubmit={handleChangePassphrase} />
+              <div className="text-sm text-muted-foreground pt-2">
+                All secrets are encrypted again with the new passphrase.
+              </div>
+            </div>
+
+            <Separator />
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Disable Vault</Label>
+              </div>
+              <Button variant="destructive" onClick={handleDisable}>
+                Disable
+              </Button>
+              <div className="text-sm text-muted-foreground pt-2">
+                Decrypt all secrets and store them as plaintext again.
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
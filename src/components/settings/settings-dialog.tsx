@@ -112,6 +112,16 @@ function SettingsDialogWrapper({
                             </SidebarMenuSubButton>
                           </SidebarMenuSubItem>
 
+                          <SidebarMenuSubItem>
+                            <SidebarMenuSubButton
+                              className="cursor-pointer"
+                              onClick={() => setActiveSection("skills")}
+                              isActive={activeSection === "skills"}
+                            >
+                              <span>Skills</span>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+
                           <SidebarMenuSubItem>
                             <SidebarMenuSubButton
                               className="cursor-pointer"
@@ -125,6 +135,65 @@ function SettingsDialogWrapper({
                       </CollapsibleContent>
                     </Collapsible>
                   </SidebarMenuItem>
+
+                  {/* Security Section */}
+                  <SidebarMenuItem>
+                    <Collapsible defaultOpen className="group/collapsible">
+                      <CollapsibleTrigger asChild>
+                        <SidebarMenuButton>
+                          <ChevronRight className="transition-transform group-data-[state=open]/collapsible:rotate-90" />
+                          <span>Security</span>
+                        </SidebarMenuButton>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent>
+                        <SidebarMenuSub>
+                          <SidebarMenuSubItem>
+                            <SidebarMenuSubButton
+                              className="cursor-pointer"
+                              onClick={() => setActiveSection("credential-vault")}
+                              isActive={activeSection === "credential-vault"}
+                            >
+                              <span>Credential Vault</span>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        </SidebarMenuSub>
+                      </CollapsibleContent>
+                    </Collapsible>
+                  </SidebarMenuItem>
+
+                  {/* Workspace Section */}
+                  <SidebarMenuItem>
+                    <Collapsible defaultOpen className="group/collapsible">
+                      <CollapsibleTrigger asChild>
+                        <SidebarMenuButton>
+                          <ChevronRight className="transition-transform group-data-[state=open]/collapsible:rotate-90" />
+                          <span>Workspace</span>
+                        </SidebarMenuButton>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent>
+                        <SidebarMenuSub>
+                          <SidebarMenuSubItem>
+                            <SidebarMenuSubButton
+                              className="cursor-pointer"
+                              onClick={() => setActiveSection("workspace-backup")}
+                              isActive={activeSection === "workspace-backup"}
+                            >
+                              <span>Backup & Restore</span>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                          <SidebarMenuSubItem>
+                            <SidebarMenuSubButton
+                              className="cursor-pointer"
+                              onClick={() => setActiveSection("storage-provider")}
+                              isActive={activeSection === "storage-provider"}
+                            >
+                              <span>Storage</span>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        </SidebarMenuSub>
+                      </CollapsibleContent>
+                    </Collapsible>
+                  </SidebarMenuItem>
                 </SidebarMenu>
               </SidebarGroup>
             </SidebarContent>
@@ -1,8 +1,19 @@
 import { AgentEdit } from "@/components/settings/agent/agent-edit";
 import { ModelsEdit } from "@/components/settings/models/models-edit";
 import { QueryContextEdit } from "@/components/settings/query-context/query-context-edit";
+import { CredentialVaultEdit } from "@/components/settings/security/credential-vault-edit";
+import { CustomSkillsEdit } from "@/components/settings/skills/custom-skills-edit";
+import { StorageProviderEdit } from "@/components/settings/storage/storage-provider-edit";
+import { WorkspaceBackupEdit } from "@/components/settings/workspace/workspace-backup-edit";
 
-export type SettingsSection = "query-context" | "models" | "agent";
+export type SettingsSection =
+  | "query-context"
+  | "models"
+  | "agent"
+  | "skills"
+  | "credential-vault"
+  | "workspace-backup"
+  | "storage-provider";
 
 export interface SettingsPageConfig {
   title: string;
@@ -26,4 +37,24 @@ export const SETTINGS_REGISTRY: Record<SettingsSection, SettingsPageConfig> = {
     description: "Configure agent behavior",
     component: AgentEdit,
   },
+  skills: {
+    title: "Skills",
+    description: "Manage your own skills, e.g. naming conventions or runbooks, for the agent",
+    component: CustomSkillsEdit,
+  },
+  "credential-vault": {
+    title: "Credential Vault",
+    description: "Encrypt saved passwords and API keys with a master passphrase",
+    component: CredentialVaultEdit,
+  },
+  "workspace-backup": {
+    title: "Backup & Restore",
+    description: "Export the workspace to a file or import it on another machine",
+    component: WorkspaceBackupEdit,
+  },
+  "storage-provider": {
+    title: "Storage",
+    description: "Choose where the workspace is stored and share it with your team",
+    component: StorageProviderEdit,
+  },
 };
@@ -0,0 +1,142 @@
+import {
+  BUNDLED_SKILL_NAMES,
+  normalizeSkillPath,
+  parseSkillFrontmatter,
+  validateCustomSkill,
+  type CustomSkill,
+} from "@/lib/ai/skills/custom-skill";
+import { StorageManager } from "@/lib/storage/storage-provider-manager";
+import { v7 as uuidv7 } from "uuid";
+
+export interface StoredCustomSkill extends CustomSkill {
+  id: string;
+  enabled: boolean;
+  /** Names of the connections the skill is enabled for, all connections if empty */
+  connections: string[];
+  updatedAt: string;
+}
+
+export type CustomSkillDraft = Pick<
+  StoredCustomSkill,
+  "content" | "resources" | "enabled" | "connections"
+> &
+  Partial<Pick<StoredCustomSkill, "id">>;
+
+export const NEW_SKILL_TEMPLATE = `---
+name: my-skill
+description: Describe when the agent should load this skill, e.g. when it writes queries on our tables.
+---
+
+# My Skill
+
+Instructions for the agent.
+`;
+
+/**
+ * Skills created by the user, kept in the storage provider and sent with each chat request
+ */
+export class CustomSkillManager {
+  private static instance: CustomSkillManager;
+
+  public static getInstance(): CustomSkillManager {
+    return this.instance || (this.instance = new this());
+  }
+
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    StorageManager.getInstance().subscribeToStorageProviderChange(() => this.notifyListeners());
+  }
+
+  private getStorage() {
+    return StorageManager.getInstance()
+      .getStorageProvider()
+      .subStorage("settings:ai:skills")
+      .withCompression(true);
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  public getSkills(): StoredCustomSkill[] {
+    const storage = this.getStorage();
+    return storage
+      .keys()
+      .map((id) => storage.getChildAsJSON<StoredCustomSkill | null>(id, () => null))
+      .filter((skill): skill is StoredCustomSkill => skill !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Validate and save a skill. The name and description are read from the frontmatter of its content.
+   * Throws an Error with a message for the user if the skill is not valid.
+   */
+  public saveSkill(draft: CustomSkillDraft): StoredCustomSkill {
+    const { name, description } = parseSkillFrontmatter(draft.content);
+    const resources: Record<string, string> = {};
+    for (const [p, content] of Object.entries(draft.resources)) {
+      resources[normalizeSkillPath(p)] = content;
+    }
+
+    const skill: StoredCustomSkill = {
+      id: draft.id ?? uuidv7(),
+      name: name ?? "",
+      description: description ?? "",
+      content: draft.content,
+      resources,
+      enabled: draft.enabled,
+      connections: draft.connections,
+      updatedAt: new Date().toISOString(),
+    };
+    const error = validateCustomSkill(skill);
+    if (error) {
+      throw new Error(error);
+    }
+    if (BUNDLED_SKILL_NAMES.includes(skill.name.toLowerCase())) {
+      throw new Error(
+        `[${skill.name}] is the name of a built-in skill, a custom skill with this name would never be loaded. Choose another name.`
+      );
+    }
+    const duplicate = this.getSkills().find(
+      (s) => s.id !== skill.id && s.name.toLowerCase() === skill.name.toLowerCase()
+    );
+    if (duplicate) {
+      throw new Error(`A skill named [${skill.name}] already exists`);
+    }
+
+    this.getStorage().setChildJSON(skill.id, skill);
+    this.notifyListeners();
+    return skill;
+  }
+
+  public deleteSkill(id: string): void {
+    this.getStorage().removeChild(id);
+    this.notifyListeners();
+  }
+
+  /**
+   * Skills enabled for the given connection, in the shape sent to the chat API
+   */
+  public getSkillsForConnection(connectionName: string): CustomSkill[] {
+    return this.getSkills()
+      .filter(
+        (skill) =>
+          skill.enabled &&
+          (skill.connections.length === 0 || skill.connections.includes(connectionName))
+      )
+      .map(({ name, description, content, resources }) => ({
+        name,
+        description,
+        content,
+        resources,
+      }));
+  }
+}
@@ -0,0 +1,488 @@
+import { StatusPopover } from "@/components/connection/connection-edit-component";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getByteLength,
+  MAX_CUSTOM_SKILL_RESOURCES,
+  MAX_SKILL_BYTES,
+  parseSkillFrontmatter,
+} from "@/lib/ai/skills/custom-skill";
+import { ConnectionManager } from "@/lib/connection/connection-manager";
+import { toastManager } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+import { AlertCircle, FilePlus, Plus, Trash2, Upload } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import {
+  CustomSkillManager,
+  NEW_SKILL_TEMPLATE,
+  type StoredCustomSkill,
+} from "./custom-skill-manager";
+
+const MARKDOWN_FILE_ACCEPT = ".md,.markdown,text/markdown,text/plain";
+
+// Resources are edited as a list so that their paths can be renamed
+interface SkillEditorState {
+  id?: string;
+  content: string;
+  resources: Array<{ path: string; content: string }>;
+  connections: string[];
+}
+
+function toEditorState(skill: StoredCustomSkill): SkillEditorState {
+  return {
+    id: skill.id,
+    content: skill.content,
+    resources: Object.entries(skill.resources).map(([path, content]) => ({ path, content })),
+    connections: skill.connections,
+  };
+}
+
+/**
+ * Build the editor state of imported files. A file named SKILL.md is the manual, the other files
+ * are its resources. If there is no SKILL.md, the first file is the manual.
+ */
+async function importSkillFiles(files: File[]): Promise<SkillEditorState> {
+  const manual = files.find((file) => file.name.toLowerCase() === "skill.md") ?? files[0];
+  const resources = await Promise.all(
+    files
+      .filter((file) => file !== manual)
+      .map(async (file) => ({ path: file.name, content: await file.text() }))
+  );
+  return {
+    content: await manual.text(),
+    resources,
+    connections: [],
+  };
+}
+
+function formatSize(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB / ${MAX_SKILL_BYTES / 1024} KB`;
+}
+
+function SizeIndicator({ text }: { text: string }) {
+  const bytes = getByteLength(text);
+  return (
+    <span
+      className={cn("text-xs text-muted-foreground", bytes > MAX_SKILL_BYTES && "text-destructive")}
+    >
+      {formatSize(bytes)}
+    </span>
+  );
+}
+
+function useCustomSkills(): StoredCustomSkill[] {
+  const [skills, setSkills] = useState<StoredCustomSkill[]>([]);
+  useEffect(() => {
+    const manager = CustomSkillManager.getInstance();
+    setSkills(manager.getSkills());
+    return manager.subscribe(() => setSkills(manager.getSkills()));
+  }, []);
+  return skills;
+}
+
+function SkillEditor({
+  initialState,
+  onSaved,
+  onDeleted,
+}: {
+  initialState: SkillEditorState;
+  onSaved: (skill: StoredCustomSkill) => void;
+  onDeleted: () => void;
+}) {
+  const [state, setState] = useState<SkillEditorState>(initialState);
+  const [error, setError] = useState<string | null>(null);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [connectionNames] = useState(() =>
+    ConnectionManager.getInstance()
+      .getConnections()
+      .map((c) => c.name)
+  );
+  const resourceInputRef = useRef<HTMLInputElement>(null);
+
+  const frontmatter = parseSkillFrontmatter(state.content);
+
+  const updateResource = (index: number, change: Partial<{ path: string; content: string }>) => {
+    setState((prev) => ({
+      ...prev,
+      resources: prev.resources.map((r, i) => (i === index ? { ...r, ...change } : r)),
+    }));
+  };
+
+  const handleAddResourceFiles = async (files: File[]) => {
+    const added = await Promise.all(
+      files.map(async (file) => ({ path: file.name, content: await file.text() }))
+    );
+    setState((prev) => ({ ...prev, resources: [...prev.resources, ...added] }));
+  };
+
+  const handleSave = () => {
+    const resources: Record<string, string> = {};
+    for (const resource of state.resources) {
+      const path = resource.path.trim();
+      if (Object.hasOwn(resources, path)) {
+        setError(`Resource [${path}] is defined more than once`);
+        return;
+      }
+      resources[path] = resource.content;
+    }
+
+    try {
+      const manager = CustomSkillManager.getInstance();
+      // The enabled flag is toggled from the list, keep its current value
+      const existing = manager.getSkills().find((skill) => skill.id === state.id);
+      const saved = manager.saveSkill({
+        id: state.id,
+        content: state.content,
+        resources,
+        enabled: existing?.enabled ?? true,
+        connections: state.connections,
+      });
+      setError(null);
+      setState((prev) => ({ ...prev, id: saved.id }));
+      toastManager.show(`Skill [${saved.name}] saved.`, "success");
+      onSaved(saved);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDelete = () => {
+    if (state.id) {
+      CustomSkillManager.getInstance().deleteSkill(state.id);
+    }
+    setShowDeleteConfirm(false);
+    onDeleted();
+  };
+
+  const toggleConnection = (name: string, checked: boolean) => {
+    setState((prev) => ({
+      ...prev,
+      connections: checked
+        ? [...prev.connections, name]
+        : prev.connections.filter((c) => c !== name),
+    }));
+  };
+
+  return (
+    <div className="px-4 py-2 grid gap-2">
+      <div className="grid grid-cols-[200px_1fr] gap-8 items-start">
+        <div className="space-y-1 pt-2">
+          <Label>SKILL.md</Label>
+          <div className="text-xs text-muted-foreground">
+            {frontmatter.name ? `name: ${frontmatter.name}` : "No name in the frontmatter"}
+          </div>
+        </div>
+        <div className="flex flex-col gap-1">
+          <Textarea
+            value={state.content}
+            onChange={(e) => setState((prev) => ({ ...prev, content: e.target.value }))}
+            className="font-mono text-xs md:text-xs h-[320px]"
+            spellCheck={false}
+          />
+          <div className="flex justify-between">
+            <span className="text-xs text-muted-foreground">
+              The frontmatter must have a name and a description. The description tells the agent
+              when to load the skill.
+            </span>
+            <SizeIndicator text={state.content} />
+          </div>
+        </div>
+      </div>
+
+      <Separator />
+      <div className="grid grid-cols-[200px_1fr] gap-8 items-start">
+        <div className="space-y-1 pt-2">
+          <Label>Resources</Label>
+          <div className="text-xs text-muted-foreground">
+            Files the manual refers to, loaded by the agent on demand, e.g. rules/naming.md
+          </div>
+        </div>
+        <div className="flex flex-col gap-2">
+          {state.resources.map((resource, index) => (
+            <div key={index} className="flex flex-col gap-1 border rounded-md p-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={resource.path}
+                  placeholder="rules/naming.md"
+                  onChange={(e) => updateResource(index, { path: e.target.value })}
+                  className="h-8 font-mono text-xs"
+                />
+                <SizeIndicator text={resource.content} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Remove resource"
+                  onClick={() =>
+                    setState((prev) => ({
+                      ...prev,
+                      resources: prev.resources.filter((_, i) => i !== index),
+                    }))
+                  }
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              <Textarea
+                value={resource.content}
+                onChange={(e) => updateResource(index, { content: e.target.value })}
+                className="font-mono text-xs md:text-xs h-[120px]"
+                spellCheck={false}
+              />
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              ref={resourceInputRef}
+              type="file"
+              multiple
+              accept={MARKDOWN_FILE_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                handleAddResourceFiles(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              disabled={state.resources.length >= MAX_CUSTOM_SKILL_RESOURCES}
+              onClick={() =>
+                setState((prev) => ({
+                  ...prev,
+                  resources: [...prev.resources, { path: "", content: "" }],
+                }))
+              }
+            >
+              <Plus className="h-4 w-4" />
+              Add resource
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              disabled={state.resources.length >= MAX_CUSTOM_SKILL_RESOURCES}
+              onClick={() => resourceInputRef.current?.click()}
+            >
+              <FilePlus className="h-4 w-4" />
+              Add files...
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <Separator />
+      <div className="grid grid-cols-[200px_1fr] gap-8 items-start">
+        <div className="space-y-1 pt-2">
+          <Label>Connections</Label>
+        </div>
+        <div className="flex flex-col gap-2 pt-2 max-w-[300px]">
+          <label className="flex items-center justify-between text-sm">
+            All connections
+            <Switch
+              checked={state.connections.length === 0}
+              onCheckedChange={(checked) =>
+                setState((prev) => ({
+                  ...prev,
+                  connections: checked ? [] : connectionNames.slice(0, 1),
+                }))
+              }
+              disabled={connectionNames.length === 0}
+            />
+          </label>
+          {state.connections.length > 0 &&
+            connectionNames.map((name) => (
+              <label key={name} className="flex items-center justify-between text-sm pl-4">
+                <span className="truncate">{name}</span>
+                <Switch
+                  checked={state.connections.includes(name)}
+                  onCheckedChange={(checked) => toggleConnection(name, checked)}
+                />
+              </label>
+            ))}
+        </div>
+      </div>
+
+      <Separator />
+      <div className="grid grid-cols-[200px_1fr] gap-8 items-start">
+        <div />
+        <div className="flex flex-col gap-2">
+          {error && <div className="text-xs text-destructive whitespace-pre-wrap">{error}</div>}
+          <div className="flex gap-2">
+            <Button onClick={handleSave}>Save</Button>
+            <StatusPopover
+              open={showDeleteConfirm}
+              onOpenChange={setShowDeleteConfirm}
+              trigger={
+                <Button variant="outline" onClick={() => setShowDeleteConfirm(true)}>
+                  {state.id ? "Delete" : "Discard"}
+                </Button>
+              }
+              side="top"
+              align="start"
+              icon={
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+              }
+              title={state.id ? "Confirm deletion" : "Confirm discard"}
+            >
+              <div className="text-xs mb-3">
+                {state.id
+                  ? "Are you sure to delete this skill?"
+                  : "Are you sure to discard this new skill?"}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-8"
+                  onClick={() => setShowDeleteConfirm(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="sm"
+                  className="h-8"
+                  onClick={handleDelete}
+                >
+                  {state.id ? "Delete" : "Discard"}
+                </Button>
+              </div>
+            </StatusPopover>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function CustomSkillsEdit() {
+  const skills = useCustomSkills();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Key of the editor, changes when another skill is selected so that the editor is reset
+  const [editorKey, setEditorKey] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editorState, setEditorState] = useState<SkillEditorState | null>(null);
+
+  const openEditor = (state: SkillEditorState | null) => {
+    setSelectedId(state?.id ?? null);
+    setEditorState(state);
+    setEditorKey((key) => key + 1);
+  };
+
+  const handleImport = async (files: File[]) => {
+    if (files.length === 0) {
+      return;
+    }
+    try {
+      openEditor(await importSkillFiles(files));
+    } catch (e) {
+      toastManager.show(
+        `Failed to import skill: ${e instanceof Error ? e.message : String(e)}`,
+        "error"
+      );
+    }
+  };
+
+  const handleToggleEnabled = (skill: StoredCustomSkill, enabled: boolean) => {
+    try {
+      CustomSkillManager.getInstance().saveSkill({ ...skill, enabled });
+    } catch (e) {
+      toastManager.show(e instanceof Error ? e.message : String(e), "error");
+    }
+  };
+
+  return (
+    <div className="h-full flex overflow-hidden">
+      <div className="w-[260px] shrink-0 border-r flex flex-col">
+        <div className="flex items-center gap-1 p-2 border-b">
+          <input
+            ref={importInputRef}
+            type="file"
+            multiple
+            accept={MARKDOWN_FILE_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              handleImport(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1 flex-1"
+            onClick={() =>
+              openEditor({ content: NEW_SKILL_TEMPLATE, resources: [], connections: [] })
+            }
+          >
+            <Plus className="h-4 w-4" />
+            New
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1 flex-1"
+            title="Import a SKILL.md and its resource files"
+            onClick={() => importInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            Import...
+          </Button>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {skills.map((skill) => (
+            <div
+              key={skill.id}
+              className={cn(
+                "flex items-start gap-2 px-2 py-1.5 border-b cursor-pointer hover:bg-muted/50",
+                selectedId === skill.id && "bg-muted"
+              )}
+              onClick={() => openEditor(toEditorState(skill))}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">{skill.name}</div>
+                <div className="text-xs text-muted-foreground line-clamp-2">
+                  {skill.description}
+                </div>
+              </div>
+              <Switch
+                checked={skill.enabled}
+                onClick={(e) => e.stopPropagation()}
+                onCheckedChange={(checked) => handleToggleEnabled(skill, checked)}
+                title={skill.enabled ? "Disable skill" : "Enable skill"}
+              />
+            </div>
+          ))}
+          {skills.length === 0 && (
+            <div className="text-center text-sm text-muted-foreground py-4 px-2">
+              No custom skill. Create one or import a SKILL.md to teach the agent your conventions.
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {editorState ? (
+          <SkillEditor
+            key={editorKey}
+            initialState={editorState}
+            onSaved={(skill) => setSelectedId(skill.id)}
+            onDeleted={() => openEditor(null)}
+          />
+        ) : (
+          <div className="text-sm text-muted-foreground p-4">
+            Custom skills are listed to the agent next to the built-in skills. The agent loads a
+            skill when its description matches the task.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
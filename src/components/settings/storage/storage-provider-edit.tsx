@@ -0,0 +1,345 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Connection } from "@/lib/connection/connection";
+import { ConnectionManager } from "@/lib/connection/connection-manager";
+import {
+  CLICKHOUSE_STORAGE_PROVIDER_TYPE,
+  ClickHouseStorageProvider,
+  getStorageTableDDL,
+  normalizeClickHouseStorageOptions,
+  type ClickHouseStorageOptions,
+  type StorageSyncStatus,
+} from "@/lib/storage/clickhouse-storage-provider";
+import {
+  LOCAL_STORAGE_PROVIDER_TYPE,
+  StorageManager,
+} from "@/lib/storage/storage-provider-manager";
+import { toastManager } from "@/lib/toast";
+import { format } from "date-fns";
+import { ChevronDown, Loader2, RefreshCw } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+
+const PROVIDER_LABELS: Record<string, string> = {
+  [LOCAL_STORAGE_PROVIDER_TYPE]: "Browser (local only)",
+  [CLICKHOUSE_STORAGE_PROVIDER_TYPE]: "ClickHouse table",
+};
+
+const SYNC_STATE_LABELS: Record<StorageSyncStatus["state"], string> = {
+  syncing: "Syncing...",
+  synced: "Synced",
+  offline: "Offline, using local cache",
+  error: "Sync failed",
+};
+
+function getErrorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function useActiveClickHouseProvider(): ClickHouseStorageProvider | null {
+  const manager = StorageManager.getInstance();
+  const [provider, setProvider] = useState(() => manager.getActiveProvider());
+
+  useEffect(() => {
+    return manager.subscribeToStorageProviderChange(() => setProvider(manager.getActiveProvider()));
+  }, [manager]);
+
+  return provider instanceof ClickHouseStorageProvider ? provider : null;
+}
+
+function SyncStatusRow({ provider }: { provider: ClickHouseStorageProvider }) {
+  const [status, setStatus] = useState(() => provider.getStatus());
+
+  useEffect(() => {
+    setStatus(provider.getStatus());
+    return provider.subscribe(setStatus);
+  }, [provider]);
+
+  return (
+    <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+      <div className="space-y-1 pt-2">
+        <Label>Sync Status</Label>
+      </div>
+      <Button
+        variant="outline"
+        className="gap-1"
+        disabled={status.state === "syncing"}
+        onClick={() => provider.sync()}
+      >
+        {status.state === "syncing" ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <RefreshCw className="h-4 w-4" />
+        )}
+        Sync now
+      </Button>
+      <div className="text-sm text-muted-foreground pt-2 space-y-1">
+        <div className={status.state === "error" ? "text-destructive" : "text-foreground"}>
+          {SYNC_STATE_LABELS[status.state]}
+          {status.lastSyncAt && `, last synced at ${format(status.lastSyncAt, "HH:mm:ss")}`}
+        </div>
+        {status.error && <div className="text-xs whitespace-pre-wrap">{status.error}</div>}
+        <div>
+          {status.pendingKeys} pending change(s).
+          {status.conflicts > 0 &&
+            ` ${status.conflicts} local change(s) were replaced by newer changes from others.`}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function StorageProviderEdit() {
+  const manager = StorageManager.getInstance();
+  const activeClickHouseProvider = useActiveClickHouseProvider();
+  const connectionNames = useMemo(
+    () =>
+      ConnectionManager.getInstance()
+        .getConnections()
+        .map((conn) => conn.name),
+    []
+  );
+
+  const [providerType, setProviderType] = useState(() => manager.getProviderSettings().type);
+  const [options, setOptions] = useState<ClickHouseStorageOptions>(() => {
+    const saved = manager.getProviderSettings().options?.[CLICKHOUSE_STORAGE_PROVIDER_TYPE];
+    try {
+      return normalizeClickHouseStorageOptions(saved);
+    } catch {
+      return normalizeClickHouseStorageOptions(undefined);
+    }
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [isCreatingTable, setIsCreatingTable] = useState(false);
+
+  const updateOptions = (update: Partial<ClickHouseStorageOptions>) => {
+    setOptions((prev) => ({ ...prev, ...update }));
+    setError(null);
+  };
+
+  const handleCreateTable = async () => {
+    const config = ConnectionManager.getInstance()
+      .getConnections()
+      .find((conn) => conn.name === options.connectionName);
+    if (!config) {
+      setError("Please select a connection.");
+      return;
+    }
+    setIsCreatingTable(true);
+    setError(null);
+    try {
+      const normalized = normalizeClickHouseStorageOptions(options);
+      await Connection.create(config).query(getStorageTableDDL(normalized.table)).response;
+      toastManager.show(`Table ${normalized.table} is ready.`, "success");
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setIsCreatingTable(false);
+    }
+  };
+
+  const handleApply = () => {
+    const current = manager.getProviderSettings();
+    try {
+      if (providerType === CLICKHOUSE_STORAGE_PROVIDER_TYPE) {
+        if (!options.connectionName) {
+          throw new Error("Please select a connection.");
+        }
+        const normalized = normalizeClickHouseStorageOptions(options);
+        manager.setProviderSettings({
+          type: providerType,
+          options: { ...current.options, [CLICKHOUSE_STORAGE_PROVIDER_TYPE]: normalized },
+        });
+        setOptions(normalized);
+      } else {
+        manager.setProviderSettings({ ...current, type: providerType });
+      }
+      toastManager.show("Storage settings saved.", "success");
+    } catch (e) {
+      setError(getErrorMessage(e));
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 grid gap-2">
+        <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+          <div className="space-y-1 pt-2">
+            <Label>Storage Provider</Label>
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="w-full justify-between">
+                {PROVIDER_LABELS[providerType] ?? providerType}
+                <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-[300px] z-[10000]">
+              <DropdownMenuRadioGroup
+                value={providerType}
+                onValueChange={(value) => {
+                  setProviderType(value);
+                  setError(null);
+                }}
+              >
+                {Object.entries(PROVIDER_LABELS).map(([type, label]) => (
+                  <DropdownMenuRadioItem key={type} value={type}>
+                    {label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <div className="text-sm text-muted-foreground pt-2">
+            Where snippets, dashboards and query history are saved. With a ClickHouse table, the
+            shared keys are synced to the table so that members using the same namespace see the
+            same content. The browser still keeps a local cache that works when the server is not
+            reachable.
+          </div>
+        </div>
+
+        {providerType === CLICKHOUSE_STORAGE_PROVIDER_TYPE && (
+          <>
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Connection</Label>
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="w-full justify-between">
+                    {options.connectionName || "Select a connection"}
+                    <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="w-[300px] z-[10000]">
+                  <DropdownMenuRadioGroup
+                    value={options.connectionName}
+                    onValueChange={(value) => updateOptions({ connectionName: value })}
+                  >
+                    {connectionNames.map((name) => (
+                      <DropdownMenuRadioItem key={name} value={name}>
+                        {name}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <div className="text-sm text-muted-foreground pt-2">
+                The connection that hosts the storage table. The user of the connection needs SELECT
+                and INSERT privileges on the table.
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Table</Label>
+              </div>
+              <Input
+                value={options.table}
+                onChange={(e) => updateOptions({ table: e.target.value })}
+                placeholder="database.table"
+              />
+              <div className="text-sm text-muted-foreground pt-2">
+                Table name, optionally qualified by the database.
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Namespace</Label>
+              </div>
+              <Input
+                value={options.namespace}
+                onChange={(e) => updateOptions({ namespace: e.target.value })}
+              />
+              <div className="text-sm text-muted-foreground pt-2">
+                Members that use the same namespace share the same content. Use different namespaces
+                to keep teams apart in one table.
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Shared Keys</Label>
+              </div>
+              <Textarea
+                rows={4}
+                className="font-mono text-xs"
+                value={options.sharedKeys.join("\n")}
+                onChange={(e) => updateOptions({ sharedKeys: e.target.value.split("\n") })}
+              />
+              <div className="text-sm text-muted-foreground pt-2">
+                One storage key prefix per line. Other settings such as connections and API keys
+                always stay in the browser.
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Sync Interval (seconds)</Label>
+              </div>
+              <Input
+                type="number"
+                min={5}
+                value={options.syncIntervalSeconds}
+                onChange={(e) => updateOptions({ syncIntervalSeconds: Number(e.target.value) })}
+              />
+              <div className="text-sm text-muted-foreground pt-2">
+                How often changes made by others are pulled. Local changes are pushed shortly after
+                they're made.
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+              <div className="space-y-1 pt-2">
+                <Label>Table DDL</Label>
+              </div>
+              <div className="flex flex-col gap-2">
+                <pre className="text-xs bg-muted rounded-md p-2 overflow-auto whitespace-pre">
+                  {getStorageTableDDL(options.table)}
+                </pre>
+                <Button
+                  variant="outline"
+                  className="gap-1"
+                  disabled={isCreatingTable}
+                  onClick={handleCreateTable}
+                >
+                  {isCreatingTable && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Create table
+                </Button>
+              </div>
+              <div className="text-sm text-muted-foreground pt-2">
+                Create the table on the selected connection if it does not exist. Rows are
+                versioned, the latest version of each key wins.
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+          <div />
+          <div className="flex flex-col gap-2">
+            <Button onClick={handleApply}>Apply</Button>
+            {error && <div className="text-xs text-destructive whitespace-pre-wrap">{error}</div>}
+          </div>
+        </div>
+
+        {activeClickHouseProvider && (
+          <>
+            <Separator />
+            <SyncStatusRow provider={activeClickHouseProvider} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
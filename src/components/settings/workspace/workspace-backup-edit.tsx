@@ -0,0 +1,337 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { toastManager } from "@/lib/toast";
+import { format } from "date-fns";
+import { ChevronDown, Download, Loader2, Upload } from "lucide-react";
+import { useRef, useState } from "react";
+import { countWorkspaceConflicts, exportWorkspace, importWorkspace } from "./workspace-backup";
+import {
+  parseWorkspaceBundle,
+  WORKSPACE_SECTIONS,
+  type ConflictResolution,
+  type ImportSummary,
+  type WorkspaceBundle,
+  type WorkspaceSection,
+} from "./workspace-bundle";
+
+const ALL_SECTIONS = Object.keys(WORKSPACE_SECTIONS) as WorkspaceSection[];
+
+// "none" means the section is not imported
+type SectionImportChoice = ConflictResolution | "none";
+
+const IMPORT_CHOICE_LABELS: Record<SectionImportChoice, string> = {
+  none: "Don't import",
+  skip: "Skip existing",
+  overwrite: "Overwrite existing",
+  rename: "Rename imported",
+};
+
+function getSectionEntryCount(bundle: WorkspaceBundle, section: WorkspaceSection): number {
+  switch (section) {
+    case "connections":
+      return bundle.sections.connections?.length ?? 0;
+    case "snippets":
+      return bundle.sections.snippets?.length ?? 0;
+    case "queryContext":
+      return Object.keys(bundle.sections.queryContext ?? {}).length;
+    case "chats":
+      return bundle.sections.chats?.length ?? 0;
+    case "models":
+      return (
+        (bundle.sections.models?.providerSettings.length ?? 0) +
+        (bundle.sections.models?.modelSettings.length ?? 0)
+      );
+  }
+}
+
+function formatSummary(summary: ImportSummary): string {
+  return [
+    summary.added > 0 && `${summary.added} added`,
+    summary.overwritten > 0 && `${summary.overwritten} overwritten`,
+    summary.renamed > 0 && `${summary.renamed} renamed`,
+    summary.skipped > 0 && `${summary.skipped} skipped`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function downloadJSON(fileName: string, content: unknown) {
+  const blob = new Blob([JSON.stringify(content, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function ExportSection() {
+  const [sections, setSections] = useState<Set<WorkspaceSection>>(() => new Set(ALL_SECTIONS));
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const bundle = await exportWorkspace({ sections: [...sections], includeSecrets });
+      downloadJSON(`datastoria-workspace-${format(new Date(), "yyyyMMdd-HHmmss")}.json`, bundle);
+    } catch (e) {
+      toastManager.show(
+        `Failed to export workspace: ${e instanceof Error ? e.message : e}`,
+        "error"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+        <div className="space-y-1 pt-2">
+          <Label>Export Sections</Label>
+        </div>
+        <div className="flex flex-col gap-2 pt-2">
+          {ALL_SECTIONS.map((section) => (
+            <label key={section} className="flex items-center justify-between text-sm">
+              {WORKSPACE_SECTIONS[section].label}
+              <Switch
+                checked={sections.has(section)}
+                onCheckedChange={(checked) =>
+                  setSections((prev) => {
+                    const next = new Set(prev);
+                    if (checked) next.add(section);
+                    else next.delete(section);
+                    return next;
+                  })
+                }
+              />
+            </label>
+          ))}
+        </div>
+        <div className="text-sm text-muted-foreground pt-2">
+          Select the parts of the workspace to write into the backup file.
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+        <div className="space-y-1 pt-2">
+          <Label>Include Secrets</Label>
+        </div>
+        <div className="flex items-center h-10">
+          <Switch checked={includeSecrets} onCheckedChange={setIncludeSecrets} />
+        </div>
+        <div className="text-sm text-muted-foreground pt-2">
+          Include connection passwords, tokens and model API keys as plaintext. Keep it off when
+          sharing the file with teammates.
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+        <div />
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={isExporting || sections.size === 0}
+          className="gap-1"
+        >
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          Export
+        </Button>
+      </div>
+    </>
+  );
+}
+
+function ImportSection() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [bundle, setBundle] = useState<WorkspaceBundle | null>(null);
+  const [conflicts, setConflicts] = useState<Partial<Record<WorkspaceSection, number>>>({});
+  const [choices, setChoices] = useState<Partial<Record<WorkspaceSection, SectionImportChoice>>>(
+    {}
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [summaries, setSummaries] = useState<Partial<
+    Record<WorkspaceSection, ImportSummary>
+  > | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const bundleSections = bundle
+    ? ALL_SECTIONS.filter((section) => bundle.sections[section] !== undefined)
+    : [];
+
+  const handleFileChange = async (file: File | undefined) => {
+    setError(null);
+    setWarnings([]);
+    setSummaries(null);
+    setBundle(null);
+    if (!file) {
+      return;
+    }
+    try {
+      const { bundle: parsed, warnings: skipped } = parseWorkspaceBundle(await file.text());
+      const initialChoices: Partial<Record<WorkspaceSection, SectionImportChoice>> = {};
+      for (const section of ALL_SECTIONS) {
+        if (parsed.sections[section] !== undefined) {
+          initialChoices[section] = "skip";
+        }
+      }
+      setConflicts(await countWorkspaceConflicts(parsed));
+      setChoices(initialChoices);
+      setBundle(parsed);
+      setWarnings(skipped);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!bundle) {
+      return;
+    }
+    const resolutions: Partial<Record<WorkspaceSection, ConflictResolution>> = {};
+    for (const [section, choice] of Object.entries(choices)) {
+      if (choice && choice !== "none") {
+        resolutions[section as WorkspaceSection] = choice;
+      }
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      setSummaries(await importWorkspace(bundle, resolutions));
+      setConflicts(await countWorkspaceConflicts(bundle));
+      toastManager.show("Workspace imported.", "success");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+        <div className="space-y-1 pt-2">
+          <Label>Import File</Label>
+        </div>
+        <div className="flex flex-col gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              handleFileChange(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+          <Button
+            variant="outline"
+            className="gap-1"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            <Upload className="h-4 w-4" />
+            Choose backup file...
+          </Button>
+          {error && <div className="text-xs text-destructive whitespace-pre-wrap">{error}</div>}
+          {warnings.length > 0 && (
+            <div className="text-xs text-amber-600 dark:text-amber-400 whitespace-pre-wrap">
+              {warnings.join("\n")}
+            </div>
+          )}
+        </div>
+        <div className="text-sm text-muted-foreground pt-2">
+          {bundle
+            ? `Backup exported at ${bundle.exportedAt}${
+                bundle.includesSecrets ? "" : ", without secrets"
+              }.`
+            : "Restore a workspace backup file. You can choose how to handle existing entries for each section."}
+        </div>
+      </div>
+
+      {bundleSections.map((section) => (
+        <div key={section} className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+          <div className="space-y-1 pt-2 pl-4">
+            <Label>{WORKSPACE_SECTIONS[section].label}</Label>
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="w-full justify-between" disabled={isImporting}>
+                {IMPORT_CHOICE_LABELS[choices[section] ?? "none"]}
+                <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-[300px] z-[10000]">
+              <DropdownMenuRadioGroup
+                value={choices[section] ?? "none"}
+                onValueChange={(value) =>
+                  setChoices((prev) => ({ ...prev, [section]: value as SectionImportChoice }))
+                }
+              >
+                {(Object.keys(IMPORT_CHOICE_LABELS) as SectionImportChoice[])
+                  .filter(
+                    (choice) => choice !== "rename" || WORKSPACE_SECTIONS[section].supportsRename
+                  )
+                  .map((choice) => (
+                    <DropdownMenuRadioItem key={choice} value={choice}>
+                      {IMPORT_CHOICE_LABELS[choice]}
+                    </DropdownMenuRadioItem>
+                  ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <div className="text-sm text-muted-foreground pt-2">
+            {getSectionEntryCount(bundle!, section)} entries, {conflicts[section] ?? 0} already
+            exist.
+            {summaries?.[section] && (
+              <span className="text-foreground">
+                {" "}
+                Imported: {formatSummary(summaries[section])}.
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {bundle && (
+        <div className="grid grid-cols-[200px_300px_1fr] gap-8 items-start">
+          <div />
+          <Button onClick={handleImport} disabled={isImporting} className="gap-1">
+            {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </div>
+      )}
+    </>
+  );
+}
+
+export function WorkspaceBackupEdit() {
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 grid gap-2">
+        <ExportSection />
+        <Separator />
+        <ImportSection />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { chatStorage } from "@/components/chat/storage/chat-storage";
+import { QuerySnippetManager } from "@/components/query-tab/snippet/query-snippet-manager";
+import { ModelManager } from "@/components/settings/models/model-manager";
+import { QueryContextManager } from "@/components/settings/query-context/query-context-manager";
+import { ConnectionManager } from "@/lib/connection/connection-manager";
+import {
+  countImportAction,
+  newImportSummary,
+  removeConnectionSecrets,
+  removeProviderSecrets,
+  resolveImportAction,
+  WORKSPACE_BUNDLE_FORMAT,
+  WORKSPACE_BUNDLE_VERSION,
+  type ConflictResolution,
+  type ImportSummary,
+  type WorkspaceBundle,
+  type WorkspaceSection,
+} from "./workspace-bundle";
+
+export interface ExportWorkspaceOptions {
+  sections: WorkspaceSection[];
+  includeSecrets: boolean;
+}
+
+/**
+ * Collect the selected sections of the current workspace into a bundle.
+ */
+export async function exportWorkspace(options: ExportWorkspaceOptions): Promise<WorkspaceBundle> {
+  const { sections, includeSecrets } = options;
+  const bundle: WorkspaceBundle = {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    includesSecrets: includeSecrets,
+    sections: {},
+  };
+
+  if (sections.includes("connections")) {
+    const connections = ConnectionManager.getInstance().getConnections();
+    bundle.sections.connections = includeSecrets
+      ? connections.map((conn) => ({ ...conn }))
+      : connections.map(removeConnectionSecrets);
+  }
+
+  if (sections.includes("snippets")) {
+    bundle.sections.snippets = QuerySnippetManager.getInstance()
+      .getSnippets()
+      .filter((snippet) => !snippet.builtin);
+  }
+
+  if (sections.includes("queryContext")) {
+    bundle.sections.queryContext = QueryContextManager.getInstance().getStoredContext();
+  }
+
+  if (sections.includes("chats")) {
+    const chats = await chatStorage.getCharts();
+    bundle.sections.chats = await Promise.all(
+      chats.map(async (chat) => ({ chat, messages: await chatStorage.getMessages(chat.chatId) }))
+    );
+  }
+
+  if (sections.includes("models")) {
+    const manager = ModelManager.getInstance();
+    const providerSettings = manager.getProviderSettings();
+    bundle.sections.models = {
+      modelSettings: manager.getModelSettings(),
+      providerSettings: includeSecrets
+        ? providerSettings
+        : providerSettings.map(removeProviderSecrets),
+      // Custom headers may carry credentials of a gateway
+      customProviders: manager
+        .getCustomProviders()
+        .map((provider) => (includeSecrets ? provider : { ...provider, headers: undefined })),
+      selectedModel: manager.getSelectedModel(),
+    };
+  }
+
+  return bundle;
+}
+
+/**
+ * Returns the number of entries of each section that already exist in the current workspace.
+ */
+export async function countWorkspaceConflicts(
+  bundle: WorkspaceBundle
+): Promise<Partial<Record<WorkspaceSection, number>>> {
+  const { connections, snippets, queryContext, chats, models } = bundle.sections;
+  const conflicts: Partial<Record<WorkspaceSection, number>> = {};
+
+  if (connections) {
+    const manager = ConnectionManager.getInstance();
+    conflicts.connections = connections.filter((conn) => manager.contains(conn.name)).length;
+  }
+  if (snippets) {
+    const manager = QuerySnippetManager.getInstance();
+    conflicts.snippets = snippets.filter((snippet) => manager.hasSnippet(snippet.caption)).length;
+  }
+  if (queryContext) {
+    const stored = QueryContextManager.getInstance().getStoredContext();
+    conflicts.queryContext = Object.keys(queryContext).filter((key) => key in stored).length;
+  }
+  if (chats) {
+    const existing = new Set((await chatStorage.getCharts()).map((chat) => chat.chatId));
+    conflicts.chats = chats.filter((entry) => existing.has(entry.chat.chatId)).length;
+  }
+  if (models) {
+    const manager = ModelManager.getInstance();
+    const providers = new Set(manager.getProviderSettings().map((s) => s.provider));
+    const modelKeys = new Set(manager.getModelSettings().map((s) => `${s.provider}:${s.modelId}`));
+    const customProviders = new Set(manager.getCustomProviders().map((p) => p.name));
+    conflicts.models =
+      models.providerSettings.filter((s) => providers.has(s.provider)).length +
+      models.modelSettings.filter((s) => modelKeys.has(`${s.provider}:${s.modelId}`)).length +
+      (models.customProviders ?? []).filter((p) => customProviders.has(p.name)).length;
+  }
+  return conflicts;
+}
+
+function importConnections(bundle: WorkspaceBundle, resolution: ConflictResolution): ImportSummary {
+  const summary = newImportSummary();
+  const manager = ConnectionManager.getInstance();
+
+  for (const conn of bundle.sections.connections ?? []) {
+    const action = resolveImportAction(conn.name, (name) => manager.contains(name), resolution);
+    countImportAction(summary, action);
+
+    if (action.type === "skip") {
+      continue;
+    }
+    if (action.type === "overwrite") {
+      const existing = manager.getConnections().find((c) => c.name === conn.name);
+      // Keep the local secrets if the backup was exported without secrets
+      const secrets =
+        !bundle.includesSecrets && existing
+          ? {
+              password: existing.password,
+              token: existing.token,
+              customHeaders: conn.customHeaders ?? existing.customHeaders,
+            }
+          : {};
+      manager.replace(conn.name, { ...conn, ...secrets });
+    } else {
+      manager.add({ ...conn, name: action.key });
+    }
+  }
+  return summary;
+}
+
+function importSnippets(bundle: WorkspaceBundle, resolution: ConflictResolution): ImportSummary {
+  const summary = newImportSummary();
+  const manager = QuerySnippetManager.getInstance();
+
+  for (const snippet of bundle.sections.snippets ?? []) {
+    const action = resolveImportAction(
+      snippet.caption,
+      (caption) => manager.hasSnippet(caption),
+      resolution
+    );
+    countImportAction(summary, action);
+    if (action.type !== "skip") {
+      manager.addSnippet(action.key, snippet.sql);
+    }
+  }
+  return summary;
+}
+
+function importQueryContext(
+  bundle: WorkspaceBundle,
+  resolution: ConflictResolution
+): ImportSummary {
+  const summary = newImportSummary();
+  const manager = QueryContextManager.getInstance();
+  const context = { ...manager.getStoredContext() };
+
+  for (const [key, value] of Object.entries(bundle.sections.queryContext ?? {})) {
+    const action = resolveImportAction(key, (k) => k in context, resolution);
+    countImportAction(summary, action);
+    if (action.type !== "skip") {
+      context[key] = value;
+    }
+  }
+  manager.setContext(context);
+  return summary;
+}
+
+async function importChats(
+  bundle: WorkspaceBundle,
+  resolution: ConflictResolution
+): Promise<ImportSummary> {
+  const summary = newImportSummary();
+  const existingIds = new Set((await chatStorage.getCharts()).map((chat) => chat.chatId));
+
+  for (const { chat, messages } of bundle.sections.chats ?? []) {
+    let action = resolveImportAction(chat.chatId, (id) => existingIds.has(id), resolution);
+    if (action.type === "rename") {
+      // Chat ids are not visible, rename the chat with a new id and mark the title instead
+      action = { type: "rename", key: crypto.randomUUID() };
+    }
+    countImportAction(summary, action);
+    if (action.type === "skip") {
+      continue;
+    }
+
+    if (action.type === "overwrite") {
+      await chatStorage.clearMessages(action.key);
+    }
+    await chatStorage.saveChat({
+      ...chat,
+      chatId: action.key,
+      title: action.type === "rename" ? `${chat.title ?? "Untitled"} (imported)` : chat.title,
+      createdAt: new Date(chat.createdAt),
+      updatedAt: new Date(chat.updatedAt),
+    });
+    await chatStorage.saveMessages(
+      action.key,
+      messages.map((message) => ({
+        ...message,
+        createdAt: new Date(message.createdAt),
+        updatedAt: new Date(message.updatedAt),
+      }))
+    );
+    existingIds.add(action.key);
+  }
+  return summary;
+}
+
+function importModels(bundle: WorkspaceBundle, resolution: ConflictResolution): ImportSummary {
+  const summary = newImportSummary();
+  const models = bundle.sections.models;
+  if (!models) {
+    return summary;
+  }
+  const manager = ModelManager.getInstance();
+
+  for (const provider of models.customProviders ?? []) {
+    const existing = manager.getCustomProvider(provider.name);
+    const action = resolveImportAction(provider.name, () => existing !== undefined, resolution);
+    countImportAction(summary, action);
+    if (action.type === "skip") {
+      continue;
+    }
+    try {
+      // Keep the local headers if the backup was exported without secrets
+      manager.saveCustomProvider(
+        { ...provider, headers: provider.headers ?? existing?.headers },
+        existing?.name
+      );
+    } catch (e) {
+      console.error(`Failed to import provider [${provider.name}]:`, e);
+    }
+  }
+
+  const providerSettings = manager.getProviderSettings();
+  for (const setting of models.providerSettings) {
+    const index = providerSettings.findIndex((s) => s.provider === setting.provider);
+    const action = resolveImportAction(setting.provider, () => index >= 0, resolution);
+    countImportAction(summary, action);
+    if (action.type === "skip") {
+      continue;
+    }
+    if (index < 0) {
+      providerSettings.push(setting);
+    } else {
+      // Keep the local API key if the backup was exported without secrets
+      providerSettings[index] = bundle.includesSecrets
+        ? setting
+        : { ...providerSettings[index], ...setting, apiKey: providerSettings[index].apiKey };
+    }
+  }
+  manager.setProviderSettings(providerSettings);
+
+  const modelSettings = manager.getModelSettings();
+  for (const setting of models.modelSettings) {
+    const index = modelSettings.findIndex(
+      (s) => s.provider === setting.provider && s.modelId === setting.modelId
+    );
+    const action = resolveImportAction(setting.modelId, () => index >= 0, resolution);
+    countImportAction(summary, action);
+    if (action.type === "skip") {
+      continue;
+    }
+    if (index < 0) {
+      modelSettings.push(setting);
+    } else {
+      modelSettings[index] = setting;
+    }
+  }
+  manager.setModelSettings(modelSettings);
+
+  if (models.selectedModel && (resolution === "overwrite" || !manager.getSelectedModel())) {
+    manager.setSelectedModel(models.selectedModel);
+  }
+  return summary;
+}
+
+/**
+ * Import the sections of a bundle that have a resolution, sections without a resolution are not imported.
+ */
+export async function importWorkspace(
+  bundle: WorkspaceBundle,
+  resolutions: Partial<Record<WorkspaceSection, ConflictResolution>>
+): Promise<Partial<Record<WorkspaceSection, ImportSummary>>> {
+  const summaries: Partial<Record<WorkspaceSection, ImportSummary>> = {};
+
+  if (resolutions.connections && bundle.sections.connections) {
+    summaries.connections = importConnections(bundle, resolutions.connections);
+  }
+  if (resolutions.snippets && bundle.sections.snippets) {
+    summaries.snippets = importSnippets(bundle, resolutions.snippets);
+  }
+  if (resolutions.queryContext && bundle.sections.queryContext) {
+    summaries.queryContext = importQueryContext(bundle, resolutions.queryContext);
+  }
+  if (resolutions.chats && bundle.sections.chats) {
+    summaries.chats = await importChats(bundle, resolutions.chats);
+  }
+  if (resolutions.models && bundle.sections.models) {
+    summaries.models = importModels(bundle, resolutions.models);
+  }
+  return summaries;
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+  getUniqueName,
+  parseWorkspaceBundle,
+  removeConnectionSecrets,
+  resolveImportAction,
+  WORKSPACE_BUNDLE_FORMAT,
+} from "./workspace-bundle";
+
+describe("parseWorkspaceBundle", () => {
+  it("accepts a bundle of the current version", () => {
+    const { bundle, warnings } = parseWorkspaceBundle(
+      JSON.stringify({
+        format: WORKSPACE_BUNDLE_FORMAT,
+        version: 1,
+        exportedAt: "2026-01-01T00:00:00.000Z",
+        includesSecrets: false,
+        sections: { snippets: [{ caption: "a", sql: "SELECT 1", builtin: false }] },
+      })
+    );
+    expect(bundle.sections.snippets).toHaveLength(1);
+    expect(warnings).toEqual([]);
+  });
+
+  it("skips invalid entries and reports them", () => {
+    const { bundle, warnings } = parseWorkspaceBundle(
+      JSON.stringify({
+        format: WORKSPACE_BUNDLE_FORMAT,
+        version: 1,
+        exportedAt: "2026-01-01T00:00:00.000Z",
+        includesSecrets: false,
+        sections: {
+          connections: [
+            {
+              name: "prod",
+              url: "https://ch.example.com:8443",
+              user: "default",
+              password: "",
+              cluster: "",
+              editable: true,
+            },
+            { name: "broken", url: 42 },
+          ],
+          snippets: [{ caption: "a", sql: "SELECT 1", builtin: false }, "SELECT 2"],
+          models: {
+            modelSettings: [
+              { modelId: "gpt-4o", provider: "OpenAI", disabled: false },
+              { modelId: "o3", disabled: "no" },
+            ],
+            providerSettings: [{ provider: "OpenAI", apiKey: "" }],
+            customProviders: [
+              {
+                name: "metadata",
+                type: "openai-compatible",
+                baseURL: "http://169.254.169.254/v1",
+                models: [],
+              },
+            ],
+          },
+        },
+      })
+    );
+
+    expect(bundle.sections.connections?.map((c) => c.name)).toEqual(["prod"]);
+    expect(bundle.sections.snippets).toHaveLength(1);
+    expect(bundle.sections.models).toEqual({
+      modelSettings: [{ modelId: "gpt-4o", provider: "OpenAI", disabled: false, free: false }],
+      providerSettings: [{ provider: "OpenAI", apiKey: "" }],
+      customProviders: [],
+      selectedModel: undefined,
+    });
+    expect(warnings).toHaveLength(4);
+    expect(warnings[0]).toMatch(/^Connection \[broken\] is skipped: url: /);
+    expect(warnings[1]).toMatch(/^Snippet \[#2\] is skipped/);
+    expect(warnings[2]).toMatch(/^Model setting \[o3\] is skipped: provider: Required; disabled: /);
+    expect(warnings[3]).toContain("link-local");
+  });
+
+  it("validates chats and the query context", () => {
+    const { bundle, warnings } = parseWorkspaceBundle(
+      JSON.stringify({
+        format: WORKSPACE_BUNDLE_FORMAT,
+        version: 1,
+        exportedAt: "2026-01-01T00:00:00.000Z",
+        includesSecrets: false,
+        sections: {
+          queryContext: { max_execution_time: 60, default_format: "JSON", nested: { a: 1 } },
+          chats: [
+            {
+              chat: {
+                chatId: "c1",
+                title: "Slow queries",
+                createdAt: "2026-01-01T00:00:00.000Z",
+                updatedAt: "2026-01-01T00:00:00.000Z",
+              },
+              messages: [
+                {
+                  id: "m1",
+                  role: "user",
+                  parts: [{ type: "text", text: "why is it slow?" }],
+                  createdAt: "2026-01-01T00:00:00.000Z",
+                  updatedAt: "2026-01-01T00:00:00.000Z",
+                },
+              ],
+            },
+            {
+              chat: { chatId: "c2", title: "Broken", createdAt: "yesterday", updatedAt: 0 },
+              messages: [],
+            },
+            { chat: { chatId: "c3", createdAt: 0, updatedAt: 0 }, messages: "none" },
+          ],
+        },
+      })
+    );
+
+    expect(bundle.sections.queryContext).toEqual({
+      max_execution_time: 60,
+      default_format: "JSON",
+    });
+    expect(bundle.sections.chats?.map((entry) => entry.chat.chatId)).toEqual(["c1"]);
+    expect(bundle.sections.chats?.[0].messages[0].createdAt).toEqual(
+      new Date("2026-01-01T00:00:00.000Z")
+    );
+    expect(warnings).toHaveLength(3);
+    expect(warnings[0]).toMatch(/^Query context setting \[nested\] is skipped/);
+    expect(warnings[1]).toMatch(/^Chat \[Broken\] is skipped: chat.createdAt: /);
+    expect(warnings[2]).toMatch(/^Chat \[c3\] is skipped: messages: /);
+  });
+
+  it("rejects files that are not workspace backups", () => {
+    expect(() => parseWorkspaceBundle("not json")).toThrow("not a valid JSON");
+    expect(() => parseWorkspaceBundle('{"connections":[]}')).toThrow("not a workspace backup");
+  });
+
+  it("rejects bundles from a newer version", () => {
+    expect(() =>
+      parseWorkspaceBundle(
+        JSON.stringify({ format: WORKSPACE_BUNDLE_FORMAT, version: 2, sections: {} })
+      )
+    ).toThrow("not supported");
+  });
+});
+
+describe("removeConnectionSecrets", () => {
+  it("removes the credentials and the custom headers", () => {
+    expect(
+      removeConnectionSecrets({
+        name: "prod",
+        url: "https://ch.example.com:8443",
+        user: "default",
+        password: "secret",
+        cluster: "",
+        editable: true,
+        authType: "bearer",
+        token: "token",
+        customHeaders: { "X-Gateway-Token": "gateway-secret" },
+      })
+    ).toMatchObject({ password: "", token: "", customHeaders: undefined });
+  });
+});
+
+describe("resolveImportAction", () => {
+  const existing = new Set(["prod", "prod (2)"]);
+  const exists = (key: string) => existing.has(key);
+
+  it("adds entries that don't exist regardless of the resolution", () => {
+    expect(resolveImportAction("dev", exists, "skip")).toEqual({ type: "add", key: "dev" });
+  });
+
+  it("resolves conflicting entries", () => {
+    expect(resolveImportAction("prod", exists, "skip")).toEqual({ type: "skip", key: "prod" });
+    expect(resolveImportAction("prod", exists, "overwrite")).toEqual({
+      type: "overwrite",
+      key: "prod",
+    });
+    expect(resolveImportAction("prod", exists, "rename")).toEqual({
+      type: "rename",
+      key: "prod (3)",
+    });
+  });
+});
+
+describe("getUniqueName", () => {
+  it("returns the name itself when it's free", () => {
+    expect(getUniqueName("a", () => false)).toBe("a");
+  });
+});
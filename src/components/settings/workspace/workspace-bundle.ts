@@ -0,0 +1,416 @@
+import type { Snippet } from "@/components/query-tab/snippet/snippet";
+import type { ModelSetting, ProviderSetting } from "@/components/settings/models/model-manager";
+import type { QueryContext } from "@/components/settings/query-context/query-context";
+import type { Chat, Message, MessageMetadata, MessagePart } from "@/lib/ai/chat-types";
+import { validateCustomProviderEndpoint, type CustomProvider } from "@/lib/ai/llm/custom-provider";
+import {
+  CONNECTION_AUTH_TYPES,
+  type ConnectionAuthType,
+  type ConnectionConfig,
+} from "@/lib/connection/connection-config";
+import { z } from "zod";
+
+export const WORKSPACE_BUNDLE_FORMAT = "datastoria-workspace";
+export const WORKSPACE_BUNDLE_VERSION = 1;
+
+export type WorkspaceSection = "connections" | "snippets" | "queryContext" | "chats" | "models";
+
+export type ConflictResolution = "skip" | "overwrite" | "rename";
+
+export const WORKSPACE_SECTIONS: Record<
+  WorkspaceSection,
+  {
+    label: string;
+    // Sections whose entries have no name (key-value settings) can't be renamed
+    supportsRename: boolean;
+  }
+> = {
+  connections: { label: "Connections", supportsRename: true },
+  snippets: { label: "SQL Snippets", supportsRename: true },
+  queryContext: { label: "Query Context", supportsRename: false },
+  chats: { label: "Chats", supportsRename: true },
+  models: { label: "Model Configuration", supportsRename: false },
+};
+
+export interface WorkspaceChat {
+  chat: Chat;
+  messages: Message[];
+}
+
+export interface WorkspaceModels {
+  modelSettings: ModelSetting[];
+  providerSettings: ProviderSetting[];
+  /** Missing in bundles exported before custom providers existed */
+  customProviders?: CustomProvider[];
+  selectedModel?: { provider: string; modelId: string };
+}
+
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  includesSecrets: boolean;
+  sections: {
+    connections?: ConnectionConfig[];
+    snippets?: Snippet[];
+    queryContext?: Partial<QueryContext>;
+    chats?: WorkspaceChat[];
+    models?: WorkspaceModels;
+  };
+}
+
+export interface ImportSummary {
+  added: number;
+  overwritten: number;
+  renamed: number;
+  skipped: number;
+}
+
+export interface ImportAction {
+  type: "add" | "overwrite" | "rename" | "skip";
+  // The key to import the entry with, differs from the original one when renamed
+  key: string;
+}
+
+const connectionSchema = z.object({
+  name: z.string().min(1),
+  url: z.string().url(),
+  user: z.string(),
+  // Fields that older versions of the app didn't save get their defaults
+  password: z.string().default(""),
+  cluster: z.string().default(""),
+  editable: z.boolean().default(true),
+  authType: z
+    .enum(
+      CONNECTION_AUTH_TYPES.map((t) => t.value) as [ConnectionAuthType, ...ConnectionAuthType[]]
+    )
+    .optional(),
+  token: z.string().optional(),
+  customHeaders: z.record(z.string()).optional(),
+});
+
+const snippetSchema = z.object({
+  caption: z.string().min(1),
+  sql: z.string(),
+  builtin: z.boolean().default(false),
+});
+
+const modelSettingSchema = z.object({
+  modelId: z.string().min(1),
+  provider: z.string().min(1),
+  disabled: z.boolean().default(false),
+  free: z.boolean().default(false),
+});
+
+const providerSettingSchema = z.object({
+  provider: z.string().min(1),
+  apiKey: z.string(),
+  refreshToken: z.string().optional(),
+  accessTokenExpiresAt: z.number().optional(),
+  refreshTokenExpiresAt: z.number().optional(),
+  authError: z.string().optional(),
+});
+
+const customProviderSchema = z
+  .object({
+    name: z.string().min(1),
+    type: z.enum(["openai-compatible", "azure-openai"]),
+    baseURL: z.string(),
+    headers: z.record(z.string()).optional(),
+    apiVersion: z.string().optional(),
+    models: z.array(
+      z.object({
+        modelId: z.string().min(1),
+        capabilities: z.object({
+          toolCalling: z.boolean(),
+          reasoning: z.boolean(),
+          contextWindow: z.number().int().positive().optional(),
+        }),
+      })
+    ),
+  })
+  .superRefine((provider, ctx) => {
+    const error = validateCustomProviderEndpoint(provider);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
+
+// Dates are serialized as ISO strings by JSON.stringify
+const dateSchema = z.union([z.string(), z.number()]).pipe(z.coerce.date());
+
+const chatSchema = z.object({
+  chatId: z.string().min(1),
+  databaseId: z.string().optional(),
+  title: z.string().optional(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+});
+
+const messageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(["user", "assistant", "system", "data", "tool"]),
+  // Parts are rendered by their type, the ones the UI doesn't know are ignored
+  parts: z.array(
+    z.custom<MessagePart>(
+      (part) =>
+        typeof part === "object" &&
+        part !== null &&
+        typeof (part as { type?: unknown }).type === "string",
+      { message: "Invalid message part" }
+    )
+  ),
+  metadata: z
+    .custom<MessageMetadata>((metadata) => typeof metadata === "object" && metadata !== null, {
+      message: "Invalid metadata",
+    })
+    .optional(),
+  sequence: z.number().optional(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+});
+
+const workspaceChatSchema = z.object({
+  chat: chatSchema,
+  messages: z.array(messageSchema),
+});
+
+const queryContextValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const selectedModelSchema = z.object({ provider: z.string(), modelId: z.string() });
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ` : "") + issue.message)
+    .join("; ");
+}
+
+/**
+ * Keep the entries of a section that match the schema, the other ones are reported in warnings.
+ */
+function filterValidEntries<T>(
+  entries: unknown,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string,
+  getName: (entry: Record<string, unknown>) => unknown,
+  warnings: string[]
+): T[] | undefined {
+  if (entries === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(entries)) {
+    warnings.push(`${label} entries are skipped: not a list.`);
+    return undefined;
+  }
+
+  const valid: T[] = [];
+  entries.forEach((entry, index) => {
+    const result = schema.safeParse(entry);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+    const name =
+      typeof entry === "object" && entry !== null
+        ? getName(entry as Record<string, unknown>)
+        : undefined;
+    warnings.push(
+      `${label} [${typeof name === "string" && name ? name : `#${index + 1}`}] is skipped: ${formatIssues(result.error)}`
+    );
+  });
+  return valid;
+}
+
+/**
+ * Keep the settings of the query context whose value is a string, a number or a boolean.
+ */
+function filterValidQueryContext(
+  context: unknown,
+  warnings: string[]
+): Partial<QueryContext> | undefined {
+  if (context === undefined) {
+    return undefined;
+  }
+  if (typeof context !== "object" || context === null || Array.isArray(context)) {
+    warnings.push("Query context is skipped: not an object of settings.");
+    return undefined;
+  }
+
+  const valid: Partial<QueryContext> = {};
+  for (const [key, value] of Object.entries(context)) {
+    if (queryContextValueSchema.safeParse(value).success) {
+      valid[key] = value;
+    } else {
+      warnings.push(
+        `Query context setting [${key}] is skipped: not a string, a number or a boolean.`
+      );
+    }
+  }
+  return valid;
+}
+
+/**
+ * Parse and validate the content of a bundle file.
+ * Invalid entries of each section are removed from the bundle and reported in warnings.
+ */
+export function parseWorkspaceBundle(text: string): {
+  bundle: WorkspaceBundle;
+  warnings: string[];
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not a valid JSON file.");
+  }
+
+  const bundle = parsed as Partial<WorkspaceBundle> | null;
+  if (
+    typeof bundle !== "object" ||
+    bundle === null ||
+    bundle.format !== WORKSPACE_BUNDLE_FORMAT ||
+    typeof bundle.sections !== "object" ||
+    bundle.sections === null
+  ) {
+    throw new Error("The file is not a workspace backup.");
+  }
+  if (typeof bundle.version !== "number" || bundle.version > WORKSPACE_BUNDLE_VERSION) {
+    throw new Error(
+      `The backup version [${bundle.version}] is not supported. Please upgrade the application.`
+    );
+  }
+
+  const warnings: string[] = [];
+  const sections: WorkspaceBundle["sections"] = { ...bundle.sections };
+  sections.connections = filterValidEntries(
+    sections.connections,
+    connectionSchema,
+    "Connection",
+    (entry) => entry.name,
+    warnings
+  );
+  sections.snippets = filterValidEntries(
+    sections.snippets,
+    snippetSchema,
+    "Snippet",
+    (entry) => entry.caption,
+    warnings
+  );
+
+  sections.queryContext = filterValidQueryContext(sections.queryContext, warnings);
+  sections.chats = filterValidEntries(
+    sections.chats,
+    workspaceChatSchema,
+    "Chat",
+    (entry) => {
+      const chat = entry.chat as Partial<Chat> | undefined;
+      return chat?.title || chat?.chatId;
+    },
+    warnings
+  );
+
+  const models = sections.models as Partial<Record<keyof WorkspaceModels, unknown>> | undefined;
+  if (models !== undefined) {
+    const selectedModel = selectedModelSchema.safeParse(models.selectedModel);
+    if (models.selectedModel !== undefined && !selectedModel.success) {
+      warnings.push("The selected model is skipped: it's not a valid model.");
+    }
+    sections.models = {
+      modelSettings:
+        filterValidEntries(
+          models.modelSettings,
+          modelSettingSchema,
+          "Model setting",
+          (entry) => entry.modelId,
+          warnings
+        ) ?? [],
+      providerSettings:
+        filterValidEntries(
+          models.providerSettings,
+          providerSettingSchema,
+          "Provider setting",
+          (entry) => entry.provider,
+          warnings
+        ) ?? [],
+      customProviders: filterValidEntries(
+        models.customProviders,
+        customProviderSchema,
+        "Custom provider",
+        (entry) => entry.name,
+        warnings
+      ),
+      selectedModel: selectedModel.success ? selectedModel.data : undefined,
+    };
+  }
+
+  return { bundle: { ...(bundle as WorkspaceBundle), sections }, warnings };
+}
+
+/**
+ * Returns the given name if it's not used, otherwise appends ' (n)' with the smallest free number.
+ */
+export function getUniqueName(name: string, exists: (name: string) => boolean): string {
+  if (!exists(name)) {
+    return name;
+  }
+  for (let i = 2; ; i++) {
+    const candidate = `${name} (${i})`;
+    if (!exists(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Decide how to import an entry identified by the given key.
+ * Entries whose key is not used are always added, conflicting entries are handled by the resolution.
+ */
+export function resolveImportAction(
+  key: string,
+  exists: (key: string) => boolean,
+  resolution: ConflictResolution
+): ImportAction {
+  if (!exists(key)) {
+    return { type: "add", key };
+  }
+  if (resolution === "rename") {
+    return { type: "rename", key: getUniqueName(key, exists) };
+  }
+  return { type: resolution, key };
+}
+
+export function newImportSummary(): ImportSummary {
+  return { added: 0, overwritten: 0, renamed: 0, skipped: 0 };
+}
+
+export function countImportAction(summary: ImportSummary, action: ImportAction) {
+  switch (action.type) {
+    case "add":
+      summary.added++;
+      break;
+    case "overwrite":
+      summary.overwritten++;
+      break;
+    case "rename":
+      summary.renamed++;
+      break;
+    case "skip":
+      summary.skipped++;
+      break;
+  }
+}
+
+export function removeConnectionSecrets(connection: ConnectionConfig): ConnectionConfig {
+  // Custom headers may carry credentials of a gateway
+  return { ...connection, password: "", token: "", customHeaders: undefined };
+}
+
+export function removeProviderSecrets(setting: ProviderSetting): ProviderSetting {
+  return {
+    ...setting,
+    apiKey: "",
+    refreshToken: undefined,
+    accessTokenExpiresAt: undefined,
+    refreshTokenExpiresAt: undefined,
+  };
+}
@@ -93,6 +93,9 @@ class DashboardFilterComponent extends Component<FilterProps, FilterState> {
       this.filterSpecByName.set(filter.name, filter);
       if (filter.nameConverter) {
         this.nameConverts.set(filter.name, filter.nameConverter);
+      } else if (filter.nameTemplate) {
+        const template = filter.nameTemplate;
+        this.nameConverts.set(filter.name, (name) => template.replaceAll("{name}", name));
       } else {
         this.nameConverts.set(filter.name, (name) => name);
       }
@@ -151,6 +154,9 @@ class DashboardFilterComponent extends Component<FilterProps, FilterState> {
         this.filterSpecByName.set(filter.name, filter);
         if (filter.nameConverter) {
           this.nameConverts.set(filter.name, filter.nameConverter);
+        } else if (filter.nameTemplate) {
+          const template = filter.nameTemplate;
+          this.nameConverts.set(filter.name, (name) => template.replaceAll("{name}", name));
         } else {
           this.nameConverts.set(filter.name, (name) => name);
         }
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { parseDashboardJSON, toDashboardJSON } from "./dashboard-json";
+import type { Dashboard, TableDescriptor } from "./dashboard-model";
+
+describe("toDashboardJSON", () => {
+  it("drops function-valued fields and converts maps", () => {
+    const table: TableDescriptor = {
+      type: "table",
+      datasource: { sql: "SELECT 1" },
+      fieldOptions: new Map([
+        ["a", { format: "binary_size" }],
+        ["b", { format: (v: unknown) => String(v) }],
+      ]),
+    };
+    const dashboard: Dashboard = { version: 3, filter: {}, charts: [table] };
+
+    const { json, warnings } = toDashboardJSON("Test", dashboard);
+
+    expect(json.dashboard.charts[0]).toEqual({
+      type: "table",
+      datasource: { sql: "SELECT 1" },
+      fieldOptions: { a: { format: "binary_size" }, b: {} },
+    });
+    expect(warnings).toEqual([
+      "charts[0].fieldOptions.b.format is a function and is not exported. Use a format name instead.",
+    ]);
+    expect(parseDashboardJSON(JSON.parse(JSON.stringify(json))).name).toBe("Test");
+  });
+});
+
+describe("parseDashboardJSON", () => {
+  it("reports every invalid field", () => {
+    expect(() =>
+      parseDashboardJSON({
+        kind: "datastoria-dashboard",
+        schemaVersion: 1,
+        name: "Test",
+        dashboard: {
+          version: 3,
+          filter: {},
+          charts: [{ type: "line", gridPos: { w: 30, h: 4 }, datasource: { sql: "SELECT 1" } }],
+        },
+      })
+    ).toThrow(/charts\.0/);
+  });
+});
@@ -0,0 +1,224 @@
+import { z } from "zod";
+import type { Dashboard } from "./dashboard-model";
+
+/**
+ * Portable JSON representation of a dashboard.
+ *
+ * Dashboards defined in code may contain function-valued fields (nameConverter, renderAction,
+ * function formatters, action columns). These can't be serialised, so they're dropped on export.
+ * Use the declarative replacements instead:
+ * - nameConverter -> nameTemplate
+ * - format as a function -> format as a FormatName with formatArgs
+ */
+export const DASHBOARD_JSON_KIND = "datastoria-dashboard";
+export const DASHBOARD_JSON_SCHEMA_VERSION = 1;
+
+const gridPosSchema = z.object({
+  x: z.number().int().min(0).max(23).optional(),
+  y: z.number().int().min(0).optional(),
+  w: z.number().int().min(1).max(24),
+  h: z.number().int().min(1),
+});
+
+const titleOptionSchema = z
+  .object({
+    title: z.string(),
+    link: z.string().optional(),
+    description: z.string().optional(),
+    align: z.enum(["left", "center", "right"]).optional(),
+    showTitle: z.boolean().optional(),
+    showRefreshButton: z.boolean().optional(),
+  })
+  .strict();
+
+const sqlQuerySchema = z.object({
+  sql: z.string().min(1),
+  headers: z.record(z.string()).optional(),
+  params: z.record(z.unknown()).optional(),
+});
+
+const fieldOptionSchema = z
+  .object({
+    name: z.string().optional(),
+    title: z.string().optional(),
+    format: z.string().optional(),
+    formatArgs: z.array(z.unknown()).optional(),
+  })
+  .passthrough();
+
+// Type specific options such as legendOption or gaugeOption are kept as they are,
+// only the fields shared by all panels and the fields that used to accept functions are checked
+const panelSchema: z.ZodType<Record<string, unknown>> = z.lazy(() =>
+  z
+    .object({
+      type: z.string().min(1),
+      id: z.string().optional(),
+      titleOption: titleOptionSchema.optional(),
+      collapsed: z.boolean().optional(),
+      gridPos: gridPosSchema.optional(),
+      datasource: sqlQuerySchema,
+      fieldOptions: z.record(fieldOptionSchema).optional(),
+      drilldown: z.record(panelSchema).optional(),
+    })
+    .passthrough()
+);
+
+const groupSchema = z.object({
+  title: z.string(),
+  collapsed: z.boolean().optional(),
+  charts: z.array(panelSchema),
+});
+
+const selectorFilterSchema = z
+  .object({
+    filterType: z.literal("select"),
+    name: z.string().min(1),
+    displayText: z.string(),
+    datasource: z.union([
+      z.object({
+        type: z.literal("inline"),
+        values: z.array(z.object({ label: z.string(), value: z.string() })),
+      }),
+      z.object({ type: z.literal("sql"), sql: z.string().min(1) }),
+    ]),
+    supportedComparators: z.array(z.string()).optional(),
+    onPreviousFilters: z.boolean().optional(),
+    nameTemplate: z.string().optional(),
+    expressionTemplate: z.record(z.string()).optional(),
+    defaultPattern: z.object({ comparator: z.string(), values: z.array(z.string()) }).optional(),
+  })
+  .strict();
+
+const dateTimeFilterSchema = z
+  .object({
+    filterType: z.literal("date_time"),
+    alias: z.string(),
+    displayText: z.string(),
+    width: z.number().optional(),
+    timeColumn: z.string().min(1),
+    defaultTimeSpan: z.string().optional(),
+  })
+  .strict();
+
+const dashboardSchema = z.object({
+  name: z.string().optional(),
+  version: z.literal(3),
+  filter: z.object({
+    selectors: z
+      .array(
+        z.object({
+          type: z.string(),
+          name: z.string(),
+          fields: z.array(z.union([selectorFilterSchema, dateTimeFilterSchema])),
+        })
+      )
+      .optional(),
+    showTimeSpanSelector: z.boolean().optional(),
+    showRefresh: z.boolean().optional(),
+    showAutoRefresh: z.boolean().optional(),
+  }),
+  charts: z.array(z.union([groupSchema, panelSchema])),
+});
+
+export const dashboardJSONSchema = z.object({
+  kind: z.literal(DASHBOARD_JSON_KIND),
+  schemaVersion: z.literal(DASHBOARD_JSON_SCHEMA_VERSION),
+  name: z.string().min(1),
+  dashboard: dashboardSchema,
+});
+
+export type DashboardJSON = Omit<z.infer<typeof dashboardJSONSchema>, "dashboard"> & {
+  dashboard: Dashboard;
+};
+
+/**
+ * Convert a value to plain JSON, function-valued fields are dropped and reported in warnings.
+ */
+function toPlainValue(value: unknown, path: string, warnings: string[]): unknown {
+  if (typeof value === "function") {
+    const field = path.substring(path.lastIndexOf(".") + 1);
+    const replacement =
+      field === "nameConverter"
+        ? " Use nameTemplate instead."
+        : field === "format"
+          ? " Use a format name instead."
+          : "";
+    warnings.push(`${path} is a function and is not exported.${replacement}`);
+    return undefined;
+  }
+  if (value instanceof Map) {
+    return toPlainValue(Object.fromEntries(value), path, warnings);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => toPlainValue(item, `${path}[${i}]`, warnings));
+  }
+  if (value !== null && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const plain = toPlainValue(child, path ? `${path}.${key}` : key, warnings);
+      if (plain !== undefined) {
+        result[key] = plain;
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Serialise a dashboard to the portable JSON format.
+ * Returns the fields that could not be exported in warnings.
+ */
+export function toDashboardJSON(
+  name: string,
+  dashboard: Dashboard
+): { json: DashboardJSON; warnings: string[] } {
+  const warnings: string[] = [];
+  const plain = toPlainValue(dashboard, "", warnings) as Dashboard;
+
+  // Action columns only make sense with their render functions
+  for (const chart of plain.charts) {
+    const panels = "datasource" in chart ? [chart] : chart.charts;
+    for (const panel of panels) {
+      if ("actions" in panel) {
+        delete panel.actions;
+      }
+    }
+  }
+
+  return {
+    json: {
+      kind: DASHBOARD_JSON_KIND,
+      schemaVersion: DASHBOARD_JSON_SCHEMA_VERSION,
+      name,
+      dashboard: { ...plain, name },
+    },
+    warnings,
+  };
+}
+
+/**
+ * Validate a parsed JSON value against the dashboard schema.
+ * Throws an error that lists every problem found if it's not a valid dashboard.
+ */
+export function parseDashboardJSON(value: unknown): DashboardJSON {
+  const result = dashboardJSONSchema.safeParse(value);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new Error(`Invalid dashboard JSON:\n${problems.join("\n")}`);
+  }
+  return result.data as DashboardJSON;
+}
+
+/**
+ * Whether the parsed JSON value claims to be a dashboard in the portable JSON format.
+ */
+export function isDashboardJSON(value: unknown): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Record<string, unknown>).kind === DASHBOARD_JSON_KIND
+  );
+}
@@ -61,6 +61,10 @@ export interface SelectorFilterSpec {
   // Callback to convert name to the name in the expression
   nameConverter?: (name: string) => string;
 
+  // Declarative alternative of nameConverter for dashboards defined in JSON,
+  // {name} is replaced by the filter name, e.g. "ProfileEvents['{name}']"
+  nameTemplate?: string;
+
   /**
    * Optional comparator -> expression template map.
    * If set (and comparator matches), it overrides `QueryPattern.toQueryString()`.
@@ -183,6 +187,9 @@ export interface GridPos {
 export interface PanelDescriptor {
   type: string; // "line" | "bar" | "area" | "pie" | "scatter" | "heatmap" | "table" | "transpose-table" | "stat" | "custom"
 
+  // Stable identifier of the panel. Only required by user-defined dashboards to reference panels
+  id?: string;
+
   titleOption?: TitleOption;
 
   // If not given, it defaults to false
@@ -278,6 +285,15 @@ export interface TableDescriptor extends PanelDescriptor {
     mode: "server";
     pageSize: number;
   };
+
+  // Export configuration. Table panels can be exported unless enabled is false
+  exportOption?: {
+    enabled?: boolean;
+    // SQL template used for export instead of datasource.sql, e.g. the query without a LIMIT clause
+    sql?: string;
+    // Default row limit shown in the export dialog
+    defaultRowLimit?: number;
+  };
 }
 
 // Transpose Table Descriptor interface
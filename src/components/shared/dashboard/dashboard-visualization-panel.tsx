@@ -1,7 +1,12 @@
 "use client";
 
+import {
+  canCreateAlertRule,
+  showAlertRuleEditDialog,
+} from "@/components/alerting/alert-rule-edit-dialog";
 import { useConnection } from "@/components/connection/connection-context";
 import { AskAIButton } from "@/components/shared/ask-ai-button";
+import { showExportResultDialog } from "@/components/shared/export-result-dialog";
 import { Dialog } from "@/components/shared/use-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ErrorCode } from "@/lib/clickhouse/clickhouse-error-parser";
@@ -575,6 +580,39 @@ export const DashboardVisualizationPanel = forwardRef<
     });
   }, [data, meta, typedDescriptor.titleOption?.title]);
 
+  // Handler for exporting the full result of a table panel to a file
+  const exportOption =
+    typedDescriptor.type === "table"
+      ? (typedDescriptor as TableDescriptor).exportOption
+      : undefined;
+  const canExport =
+    typedDescriptor.type === "table" &&
+    exportOption?.enabled !== false &&
+    !!typedDescriptor.datasource?.sql;
+  const handleExport = useCallback(() => {
+    if (!connection || !typedDescriptor.datasource?.sql) {
+      return;
+    }
+    const lastParams = getLastRefreshParameter();
+    const sql = new SQLQueryBuilder(exportOption?.sql ?? typedDescriptor.datasource.sql)
+      .timeSpan(lastParams.timeSpan, connection.metadata?.timezone || "UTC")
+      .filterExpression(lastParams.filterExpression)
+      .build();
+    showExportResultDialog({
+      connection,
+      sql,
+      fileName: typedDescriptor.titleOption?.title || "result",
+      defaultRowLimit: exportOption?.defaultRowLimit,
+    });
+  }, [connection, typedDescriptor, exportOption, getLastRefreshParameter]);
+
+  const canCreateAlert = !!connection && canCreateAlertRule(typedDescriptor);
+  const handleCreateAlert = useCallback(() => {
+    if (connection) {
+      showAlertRuleEditDialog({ connection, panel: typedDescriptor });
+    }
+  }, [connection, typedDescriptor]);
+
   // Get dropdown items - combine facade-level items with visualization-specific items
   const getDropdownItems = useCallback(() => {
     // Get visualization-specific dropdown items (without "Show query")
@@ -593,10 +631,27 @@ export const DashboardVisualizationPanel = forwardRef<
             Show query result
           </DashboardDropdownMenuItem>
         )}
+        {canExport && (
+          <DashboardDropdownMenuItem onClick={handleExport}>Export data</DashboardDropdownMenuItem>
+        )}
+        {canCreateAlert && (
+          <DashboardDropdownMenuItem onClick={handleCreateAlert}>
+            Create alert rule
+          </DashboardDropdownMenuItem>
+        )}
         {vizItems}
       </>
     );
-  }, [typedDescriptor.datasource, handleShowQuery, data.length, handleShowRawData]);
+  }, [
+    typedDescriptor.datasource,
+    handleShowQuery,
+    data.length,
+    handleShowRawData,
+    canExport,
+    handleExport,
+    canCreateAlert,
+    handleCreateAlert,
+  ]);
 
   // Render error state
   const renderError = () => (
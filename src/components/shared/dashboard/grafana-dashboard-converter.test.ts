@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { StatDescriptor, TimeseriesDescriptor } from "./dashboard-model";
+import { convertGrafanaDashboard, translateGrafanaSQL } from "./grafana-dashboard-converter";
+
+const CLICKHOUSE = { type: "grafana-clickhouse-datasource", uid: "ch" };
+
+describe("translateGrafanaSQL", () => {
+  it("replaces the macros of the official plugin", () => {
+    expect(
+      translateGrafanaSQL(
+        "SELECT $__timeInterval(event_time) AS t, count() FROM system.query_log WHERE $__timeFilter(event_time) GROUP BY t"
+      )
+    ).toBe(
+      "SELECT toUnixTimestamp(toStartOfInterval(event_time, INTERVAL {rounding:UInt32} SECOND)) AS t, count() FROM system.query_log WHERE event_time >= {from:String} AND event_time < {to:String} GROUP BY t"
+    );
+  });
+
+  it("replaces the macros of the Altinity plugin with the configured columns", () => {
+    expect(
+      translateGrafanaSQL("SELECT $timeSeries AS t, count() FROM $table WHERE $timeFilter", {
+        database: "system",
+        table: "query_log",
+        dateColDataType: "event_date",
+        dateTimeColDataType: "event_time",
+      })
+    ).toBe(
+      "SELECT toUnixTimestamp(toStartOfInterval(event_time, INTERVAL {rounding:UInt32} SECOND)) AS t, count() FROM system.query_log WHERE event_date >= toDate({from:String}) AND event_date <= toDate({to:String}) AND event_time >= {from:String} AND event_time < {to:String}"
+    );
+  });
+
+  it("rejects dashboard variables", () => {
+    expect(() => translateGrafanaSQL("SELECT * FROM t WHERE host = '${host}'")).toThrow(
+      '"${host}" is not supported'
+    );
+  });
+});
+
+describe("convertGrafanaDashboard", () => {
+  it("converts panels and reports the ones that can't be translated", () => {
+    const result = convertGrafanaDashboard({
+      dashboard: {
+        title: "Queries",
+        panels: [
+          {
+            type: "timeseries",
+            title: "QPS",
+            datasource: CLICKHOUSE,
+            gridPos: { x: 0, y: 0, w: 12, h: 8 },
+            fieldConfig: {
+              defaults: { custom: { drawStyle: "bars", stacking: { mode: "normal" } } },
+            },
+            targets: [
+              { rawSql: "SELECT $__timeInterval(event_time) AS t, count() FROM t GROUP BY t" },
+            ],
+          },
+          {
+            type: "row",
+            title: "More",
+            panels: [
+              {
+                type: "stat",
+                title: "Running",
+                gridPos: { x: 12, y: 0, w: 6, h: 4 },
+                options: { reduceOptions: { calcs: ["max"] } },
+                targets: [{ rawSql: "SELECT count() FROM system.processes" }],
+              },
+              { type: "text", title: "Notes" },
+            ],
+          },
+          {
+            type: "timeseries",
+            title: "CPU",
+            datasource: { type: "prometheus", uid: "prom" },
+            targets: [{ expr: "rate(cpu[5m])" }],
+          },
+        ],
+      },
+    });
+
+    expect(result.name).toBe("Queries");
+    expect(result.dashboard.charts).toHaveLength(2);
+
+    const timeseries = result.dashboard.charts[0] as TimeseriesDescriptor;
+    expect(timeseries.type).toBe("bar");
+    expect(timeseries.stacked).toBe(true);
+    expect(timeseries.gridPos).toEqual({ x: 0, y: 0, w: 12, h: 8 });
+
+    const stat = result.dashboard.charts[1] as StatDescriptor;
+    expect(stat.type).toBe("stat");
+    expect(stat.valueOption?.reducer).toBe("max");
+
+    expect(result.untranslated).toEqual([
+      { title: "Notes", type: "text", reason: 'panel type "text" is not supported' },
+      { title: "CPU", type: "timeseries", reason: 'datasource "prometheus" is not ClickHouse' },
+    ]);
+  });
+
+  it("rejects JSON that is not a Grafana dashboard", () => {
+    expect(() => convertGrafanaDashboard({ title: "x" })).toThrow();
+  });
+});
@@ -0,0 +1,325 @@
+import type {
+  Dashboard,
+  GaugeDescriptor,
+  PanelDescriptor,
+  Reducer,
+  StatDescriptor,
+  TimeseriesDescriptor,
+} from "./dashboard-model";
+
+/**
+ * A panel of the Grafana dashboard that is not imported, with the reason
+ */
+export interface UntranslatedGrafanaPanel {
+  title: string;
+  type: string;
+  reason: string;
+}
+
+export interface GrafanaConversionResult {
+  name: string;
+  dashboard: Dashboard & { charts: PanelDescriptor[] };
+  untranslated: UntranslatedGrafanaPanel[];
+}
+
+// Only the fields used by the converter
+interface GrafanaTarget {
+  refId?: string;
+  hide?: boolean;
+  datasource?: unknown;
+  // grafana-clickhouse-datasource
+  rawSql?: string;
+  // vertamedia-clickhouse-datasource (Altinity plugin)
+  query?: string;
+  database?: string;
+  table?: string;
+  dateTimeColDataType?: string;
+  dateColDataType?: string;
+}
+
+interface GrafanaPanel {
+  type?: string;
+  title?: string;
+  description?: string;
+  datasource?: unknown;
+  gridPos?: { x?: number; y?: number; w?: number; h?: number };
+  targets?: GrafanaTarget[];
+  panels?: GrafanaPanel[];
+  // Legacy graph panel
+  bars?: boolean;
+  lines?: boolean;
+  stack?: boolean;
+  fill?: number;
+  fieldConfig?: {
+    defaults?: {
+      min?: number;
+      max?: number;
+      custom?: {
+        drawStyle?: string;
+        fillOpacity?: number;
+        stacking?: { mode?: string };
+      };
+    };
+  };
+  options?: {
+    reduceOptions?: { calcs?: string[] };
+    legend?: { showLegend?: boolean; displayMode?: string; placement?: string };
+  };
+}
+
+const CLICKHOUSE_DATASOURCE_TYPES = [
+  "grafana-clickhouse-datasource",
+  "vertamedia-clickhouse-datasource",
+];
+
+const GRAFANA_CALC_TO_REDUCER: Record<string, Reducer> = {
+  lastNotNull: "last",
+  last: "last",
+  firstNotNull: "first",
+  first: "first",
+  min: "min",
+  max: "max",
+  mean: "avg",
+  sum: "sum",
+  count: "count",
+};
+
+function getDatasourceType(datasource: unknown): string | undefined {
+  if (datasource && typeof datasource === "object") {
+    const type = (datasource as { type?: unknown }).type;
+    return typeof type === "string" ? type : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Replace the macros of the Grafana ClickHouse datasources with the template parameters of SQLQueryBuilder.
+ * Throws an error if the SQL contains macros or dashboard variables that have no equivalent.
+ */
+export function translateGrafanaSQL(sql: string, target: GrafanaTarget = {}): string {
+  const timeInterval = (column: string) =>
+    `toUnixTimestamp(toStartOfInterval(${column}, INTERVAL {rounding:UInt32} SECOND))`;
+  const timeFilter = (column: string) => `${column} >= {from:String} AND ${column} < {to:String}`;
+  const dateFilter = (column: string) =>
+    `${column} >= toDate({from:String}) AND ${column} <= toDate({to:String})`;
+
+  let result = sql
+    // grafana-clickhouse-datasource
+    .replace(/\$__timeFilter(?:_ms)?\(\s*([^)]+?)\s*\)/g, (_, column) => timeFilter(column))
+    .replace(/\$__dateFilter\(\s*([^)]+?)\s*\)/g, (_, column) => dateFilter(column))
+    .replace(
+      /\$__dateTimeFilter\(\s*([^,)]+?)\s*,\s*([^)]+?)\s*\)/g,
+      (_, dateColumn, timeColumn) => `${dateFilter(dateColumn)} AND ${timeFilter(timeColumn)}`
+    )
+    .replace(/\$__timeInterval(?:_ms)?\(\s*([^)]+?)\s*\)/g, (_, column) => timeInterval(column))
+    .replace(/\$__fromTime(?:_ms)?\b/g, "toDateTime({from:String})")
+    .replace(/\$__toTime(?:_ms)?\b/g, "toDateTime({to:String})")
+    .replace(/\$__interval_s\b/g, "{rounding:UInt32}")
+    // Grafana global variables, $__from and $__to are in milliseconds
+    .replace(/\$__from\b|\$\{__from\}/g, "{startTimestampMs:UInt64}")
+    .replace(/\$__to\b|\$\{__to\}/g, "{endTimestampMs:UInt64}");
+
+  // vertamedia-clickhouse-datasource macros that depend on the columns configured in the query editor
+  const timeColumn = target.dateTimeColDataType;
+  const dateColumn = target.dateColDataType;
+  if (timeColumn) {
+    result = result
+      .replace(/\$timeSeries\b/g, timeInterval(timeColumn))
+      .replace(
+        /\$timeFilter\b/g,
+        dateColumn
+          ? `${dateFilter(dateColumn)} AND ${timeFilter(timeColumn)}`
+          : timeFilter(timeColumn)
+      );
+  }
+  if (target.table) {
+    const table = target.database ? `${target.database}.${target.table}` : target.table;
+    result = result.replace(/\$table\b/g, table);
+  }
+  result = result
+    .replace(/\$from\b/g, "{startTimestamp:UInt32}")
+    .replace(/\$to\b/g, "{endTimestamp:UInt32}")
+    .replace(/\$interval\b/g, "{rounding:UInt32}");
+
+  const unsupported = result.match(/\$\{?[A-Za-z_][\w.:]*\}?(\([^)]*\))?/);
+  if (unsupported) {
+    throw new Error(`"${unsupported[0]}" is not supported`);
+  }
+  return result;
+}
+
+function toGridPos(gridPos: GrafanaPanel["gridPos"]): PanelDescriptor["gridPos"] {
+  // Grafana also uses a 24 column grid
+  const w = Math.min(24, Math.max(1, gridPos?.w ?? 12));
+  const h = Math.max(1, gridPos?.h ?? 8);
+  return {
+    x: gridPos?.x !== undefined ? Math.min(24 - w, Math.max(0, gridPos.x)) : undefined,
+    y: gridPos?.y !== undefined ? Math.max(0, gridPos.y) : undefined,
+    w,
+    h,
+  };
+}
+
+function getTimeseriesType(panel: GrafanaPanel): TimeseriesDescriptor["type"] {
+  if (panel.type === "graph") {
+    if (panel.bars && !panel.lines) {
+      return "bar";
+    }
+    return (panel.fill ?? 0) > 0 ? "area" : "line";
+  }
+  const custom = panel.fieldConfig?.defaults?.custom;
+  if (custom?.drawStyle === "bars") {
+    return "bar";
+  }
+  return (custom?.fillOpacity ?? 0) > 0 ? "area" : "line";
+}
+
+const SUPPORTED_PANEL_TYPES = [
+  "timeseries",
+  "graph",
+  "stat",
+  "singlestat",
+  "gauge",
+  "bargauge",
+  "piechart",
+  "table",
+];
+
+function convertPanel(panel: GrafanaPanel, dashboardDatasource: unknown): PanelDescriptor {
+  if (!panel.type || !SUPPORTED_PANEL_TYPES.includes(panel.type)) {
+    throw new Error(`panel type "${panel.type}" is not supported`);
+  }
+  const datasourceType = getDatasourceType(panel.datasource ?? dashboardDatasource);
+  if (datasourceType && !CLICKHOUSE_DATASOURCE_TYPES.includes(datasourceType)) {
+    throw new Error(`datasource "${datasourceType}" is not ClickHouse`);
+  }
+
+  const targets = (panel.targets ?? []).filter((target) => !target.hide);
+  if (targets.length === 0) {
+    throw new Error("the panel has no query");
+  }
+  if (targets.length > 1) {
+    throw new Error("panels with multiple queries are not supported");
+  }
+  const target = targets[0];
+  const targetDatasourceType = getDatasourceType(target.datasource);
+  if (targetDatasourceType && !CLICKHOUSE_DATASOURCE_TYPES.includes(targetDatasourceType)) {
+    throw new Error(`datasource "${targetDatasourceType}" is not ClickHouse`);
+  }
+  const rawSql = target.rawSql ?? target.query;
+  if (!rawSql || rawSql.trim() === "") {
+    throw new Error("the query is not written in SQL");
+  }
+
+  const base: PanelDescriptor = {
+    type: "",
+    titleOption: {
+      title: panel.title ?? "",
+      description: panel.description || undefined,
+      align: "center",
+    },
+    gridPos: toGridPos(panel.gridPos),
+    datasource: { sql: translateGrafanaSQL(rawSql.trim(), target) },
+  };
+
+  const reducer =
+    GRAFANA_CALC_TO_REDUCER[panel.options?.reduceOptions?.calcs?.[0] ?? "lastNotNull"];
+
+  switch (panel.type) {
+    case "timeseries":
+    case "graph": {
+      const legend = panel.options?.legend;
+      const descriptor: TimeseriesDescriptor = {
+        ...base,
+        type: getTimeseriesType(panel),
+        legendOption: {
+          placement:
+            legend?.showLegend === false || legend?.displayMode === "hidden" ? "none" : "bottom",
+        },
+      };
+      const stacking = panel.fieldConfig?.defaults?.custom?.stacking?.mode;
+      if (panel.stack || (stacking && stacking !== "none")) {
+        descriptor.stacked = true;
+      }
+      return descriptor;
+    }
+    case "stat":
+    case "singlestat":
+      return {
+        ...base,
+        type: "stat",
+        valueOption: { reducer: reducer ?? "last" },
+      } as StatDescriptor;
+    case "gauge":
+    case "bargauge":
+      return {
+        ...base,
+        type: "gauge",
+        gaugeOption: {
+          min: panel.fieldConfig?.defaults?.min ?? 0,
+          max: panel.fieldConfig?.defaults?.max ?? 100,
+        },
+      } as GaugeDescriptor;
+    case "piechart":
+      return { ...base, type: "pie" };
+    case "table":
+      return { ...base, type: "table" };
+    default:
+      throw new Error(`panel type "${panel.type}" is not supported`);
+  }
+}
+
+/**
+ * Whether the parsed JSON value looks like a Grafana dashboard model
+ */
+export function isGrafanaDashboard(value: unknown): boolean {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const model = (value as { dashboard?: unknown }).dashboard ?? value;
+  return (
+    typeof model === "object" &&
+    model !== null &&
+    Array.isArray((model as { panels?: unknown }).panels)
+  );
+}
+
+/**
+ * Convert a Grafana dashboard that uses a ClickHouse datasource to a dashboard.
+ * Panels that can't be converted are skipped and returned in untranslated with the reason.
+ */
+export function convertGrafanaDashboard(grafana: unknown): GrafanaConversionResult {
+  // The HTTP API wraps the dashboard model as { dashboard, meta }
+  const unwrapped = (grafana as { dashboard?: unknown } | null)?.dashboard ?? grafana;
+  if (!isGrafanaDashboard(unwrapped)) {
+    throw new Error("Not a Grafana dashboard, the 'panels' array is missing.");
+  }
+
+  const model = unwrapped as { title?: string; panels: GrafanaPanel[]; datasource?: unknown };
+  const name = model.title || "Grafana Dashboard";
+
+  // Panels in a collapsed row are nested in the row panel
+  const panels = model.panels.flatMap((panel) =>
+    panel.type === "row" ? (panel.panels ?? []) : [panel]
+  );
+
+  const charts: PanelDescriptor[] = [];
+  const untranslated: UntranslatedGrafanaPanel[] = [];
+  for (const panel of panels) {
+    try {
+      charts.push(convertPanel(panel, model.datasource));
+    } catch (e) {
+      untranslated.push({
+        title: panel.title || "(untitled)",
+        type: panel.type ?? "unknown",
+        reason: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  return {
+    name,
+    dashboard: { name, version: 3, filter: {}, charts },
+    untranslated,
+  };
+}
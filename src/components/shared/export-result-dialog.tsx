@@ -0,0 +1,231 @@
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { QueryError, type Connection } from "@/lib/connection/connection";
+import { Formatter } from "@/lib/formatter";
+import {
+  createExportFileSink,
+  EXPORT_FORMATS,
+  exportQueryResult,
+  getExportFileName,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportProgress,
+} from "@/lib/query-result-exporter";
+import { toastManager } from "@/lib/toast";
+import { Download, Loader2, Square } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+export interface ShowExportResultDialogOptions {
+  connection: Connection;
+  // The statement to re-run for export
+  sql: string;
+  // File name without extension
+  fileName?: string;
+  defaultRowLimit?: number;
+}
+
+type ExportState =
+  | { status: "idle" }
+  | { status: "exporting"; progress: ExportProgress }
+  | { status: "done"; progress: ExportProgress; fileName: string }
+  | { status: "error"; message: string };
+
+function ExportResultDialogContent({
+  connection,
+  sql,
+  fileName = "result",
+  defaultRowLimit,
+}: ShowExportResultDialogOptions) {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: "csv",
+    rowLimit: defaultRowLimit,
+    includeHeader: true,
+    compression: "none",
+  });
+  const [state, setState] = useState<ExportState>({ status: "idle" });
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel the running export when the dialog is closed
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const formatInfo = EXPORT_FORMATS[options.format];
+  const isExporting = state.status === "exporting";
+  const binarySizeFormatter = Formatter.getInstance().getFormatter("binary_size");
+
+  const handleExport = async () => {
+    const exportFileName = getExportFileName(fileName, options);
+    let sink;
+    try {
+      sink = await createExportFileSink(
+        exportFileName,
+        options.compression === "gzip" ? "application/gzip" : formatInfo.mimeType
+      );
+    } catch (error) {
+      setState({
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    if (sink === null) {
+      return;
+    }
+
+    setState({ status: "exporting", progress: { receivedBytes: 0, writtenBytes: 0 } });
+    try {
+      let lastProgress: ExportProgress = { receivedBytes: 0, writtenBytes: 0 };
+      const { done, abortController } = exportQueryResult(
+        connection,
+        sql,
+        options,
+        sink,
+        (progress) => {
+          lastProgress = progress;
+          setState({ status: "exporting", progress });
+        }
+      );
+      abortControllerRef.current = abortController;
+
+      await done;
+      setState({ status: "done", progress: lastProgress, fileName: exportFileName });
+      toastManager.show(`Exported to ${exportFileName}`, "success");
+    } catch (error) {
+      if (abortControllerRef.current?.signal.aborted) {
+        setState({ status: "error", message: "Export was cancelled." });
+        return;
+      }
+      let message = error instanceof Error ? error.message : String(error);
+      if (error instanceof QueryError && error.data) {
+        message = String(error.data);
+      }
+      setState({ status: "error", message });
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  return (
+    <div className="grid gap-4 pt-2">
+      <div className="grid grid-cols-[120px_1fr] gap-x-4 gap-y-3 items-center">
+        <Label>Format</Label>
+        <div className="flex flex-wrap gap-3">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <label
+              key={format}
+              className="inline-flex items-center gap-2 text-sm whitespace-nowrap"
+            >
+              <input
+                type="radio"
+                name="export-format"
+                value={format}
+                checked={options.format === format}
+                disabled={isExporting}
+                onChange={() => setOptions((prev) => ({ ...prev, format }))}
+              />
+              {EXPORT_FORMATS[format].label}
+            </label>
+          ))}
+        </div>
+
+        <Label>Row Limit</Label>
+        <Input
+          type="number"
+          min={0}
+          className="h-8 w-[200px]"
+          placeholder="No limit"
+          value={options.rowLimit ?? ""}
+          disabled={isExporting}
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10);
+            setOptions((prev) => ({ ...prev, rowLimit: value > 0 ? value : undefined }));
+          }}
+        />
+
+        <Label>Include Header</Label>
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={formatInfo.supportsHeader ? options.includeHeader : true}
+            disabled={isExporting || !formatInfo.supportsHeader}
+            onCheckedChange={(checked) =>
+              setOptions((prev) => ({ ...prev, includeHeader: checked }))
+            }
+          />
+          {!formatInfo.supportsHeader && (
+            <span className="text-xs text-muted-foreground">
+              Column names are always part of {formatInfo.label}
+            </span>
+          )}
+        </div>
+
+        <Label>Gzip Compression</Label>
+        <Switch
+          checked={options.compression === "gzip"}
+          disabled={isExporting}
+          onCheckedChange={(checked) =>
+            setOptions((prev) => ({ ...prev, compression: checked ? "gzip" : "none" }))
+          }
+        />
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        The query is executed again on the server and the result is written to{" "}
+        <span className="font-mono">{getExportFileName(fileName, options)}</span> as it arrives.
+      </div>
+
+      {state.status === "exporting" && (
+        <div className="text-xs text-muted-foreground">
+          Received {binarySizeFormatter(state.progress.receivedBytes)}, written{" "}
+          {binarySizeFormatter(state.progress.writtenBytes)}
+        </div>
+      )}
+      {state.status === "done" && (
+        <div className="text-xs text-muted-foreground">
+          Exported {binarySizeFormatter(state.progress.writtenBytes)} to {state.fileName}
+        </div>
+      )}
+      {state.status === "error" && (
+        <div className="text-xs text-destructive whitespace-pre-wrap break-all max-h-[160px] overflow-auto">
+          {state.message}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {isExporting ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => abortControllerRef.current?.abort()}
+            className="gap-1"
+          >
+            <Square className="h-3 w-3" />
+            Cancel
+          </Button>
+        ) : null}
+        <Button size="sm" onClick={handleExport} disabled={isExporting} className="gap-1">
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          Export
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show a dialog to export the full result of a query to a file in a chosen format.
+ */
+export function showExportResultDialog(options: ShowExportResultDialogOptions) {
+  Dialog.showDialog({
+    title: "Export Query Result",
+    className: "sm:max-w-[640px]",
+    mainContent: <ExportResultDialogContent {...options} />,
+  });
+}
@@ -1,6 +1,8 @@
 import { SchemaTreeView } from "@/components/schema-tree/schema-tree-view";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Book, Database } from "lucide-react";
+import { Book, Database, History, Library } from "lucide-react";
+import { ExecutionHistoryListView } from "../query-tab/execution-history/execution-history-list-view";
+import { SavedQueryListView } from "../query-tab/saved-query/saved-query-list-view";
 import { SnippetListView } from "../query-tab/snippet/snippet-list-view";
 import type { SchemaLoadResult } from "../schema-tree/schema-tree-loader";
 
@@ -26,6 +28,20 @@ export function SidebarPanel({ initialSchemaData }: SidebarPanelProps) {
           <Book className="h-4 w-4 mr-2" />
           Snippets
         </TabsTrigger>
+        <TabsTrigger
+          value="queries"
+          className="flex-1 rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-background h-full px-2"
+        >
+          <Library className="h-4 w-4 mr-2" />
+          Queries
+        </TabsTrigger>
+        <TabsTrigger
+          value="history"
+          className="flex-1 rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-background h-full px-2"
+        >
+          <History className="h-4 w-4 mr-2" />
+          History
+        </TabsTrigger>
       </TabsList>
       <TabsContent value="database" className="flex-1 overflow-hidden mt-0 min-h-0">
         <SchemaTreeView initialSchemaData={initialSchemaData} />
@@ -33,6 +49,12 @@ export function SidebarPanel({ initialSchemaData }: SidebarPanelProps) {
       <TabsContent value="snippets" className="flex-1 overflow-hidden mt-0 min-h-0">
         <SnippetListView />
       </TabsContent>
+      <TabsContent value="queries" className="flex-1 overflow-hidden mt-0 min-h-0">
+        <SavedQueryListView />
+      </TabsContent>
+      <TabsContent value="history" className="flex-1 overflow-hidden mt-0 min-h-0">
+        <ExecutionHistoryListView />
+      </TabsContent>
     </Tabs>
   );
 }
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { buildBackupCommandSQL, isBackupFailed, isBackupInProgress } from "./backup-commands";
+
+describe("buildBackupCommandSQL", () => {
+  it("builds a table backup with partitions, base backup and settings", () => {
+    expect(
+      buildBackupCommandSQL("BACKUP", {
+        database: "db",
+        table: "events",
+        partitions: ["'2024-01'", "'2024-02'"],
+        destination: { type: "Disk", disk: "backups", path: "events/2/" },
+        baseBackup: { type: "Disk", disk: "backups", path: "events/1/" },
+        settings: ["compression_level = 3"],
+        async: true,
+        cluster: "default",
+      })
+    ).toBe(
+      "BACKUP TABLE `db`.`events` PARTITIONS '2024-01', '2024-02' ON CLUSTER `default` TO Disk('backups', 'events/2/') SETTINGS base_backup = Disk('backups', 'events/1/'), compression_level = 3 ASYNC"
+    );
+  });
+
+  it("builds a database restore and masks the S3 secret in the preview", () => {
+    const options = {
+      database: "db",
+      destination: {
+        type: "S3" as const,
+        url: "https://bucket.s3.amazonaws.com/db/",
+        accessKeyId: "key",
+        secretAccessKey: "it's secret",
+      },
+    };
+    expect(buildBackupCommandSQL("RESTORE", options)).toBe(
+      "RESTORE DATABASE `db` FROM S3('https://bucket.s3.amazonaws.com/db/', 'key', 'it''s secret')"
+    );
+    expect(buildBackupCommandSQL("RESTORE", options, true)).toBe(
+      "RESTORE DATABASE `db` FROM S3('https://bucket.s3.amazonaws.com/db/', 'key', '******')"
+    );
+    expect(
+      buildBackupCommandSQL("BACKUP", {
+        database: "db",
+        destination: { type: "File", path: "db.zip" },
+      })
+    ).toBe("BACKUP DATABASE `db` TO File('db.zip')");
+  });
+
+  it("classifies the backup status", () => {
+    expect(isBackupInProgress("CREATING_BACKUP")).toBe(true);
+    expect(isBackupInProgress("RESTORED")).toBe(false);
+    expect(isBackupFailed("RESTORE_FAILED")).toBe(true);
+    expect(isBackupFailed("BACKUP_CREATED")).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { SqlUtils } from "@/lib/sql-utils";
+
+export type BackupOperation = "BACKUP" | "RESTORE";
+
+// See https://clickhouse.com/docs/operations/backup#configure-a-backup-destination
+export type BackupDestination =
+  | { type: "Disk"; disk: string; path: string }
+  | { type: "File"; path: string }
+  | { type: "S3"; url: string; accessKeyId?: string; secretAccessKey?: string };
+
+export type BackupDestinationType = BackupDestination["type"];
+
+export const BACKUP_DESTINATION_TYPES: BackupDestinationType[] = ["Disk", "File", "S3"];
+
+export interface BackupCommandOptions {
+  database: string;
+  // Backup or restore the whole database when not given
+  table?: string;
+  // Partition expressions, only for a table
+  partitions?: string[];
+  destination: BackupDestination;
+  // Base backup of an incremental backup
+  baseBackup?: BackupDestination;
+  // Additional settings, e.g. allow_non_empty_tables = true
+  settings?: string[];
+  async?: boolean;
+  cluster?: string;
+}
+
+// Values of the status column of system.backups and system.backup_log
+const IN_PROGRESS_STATUSES = ["CREATING_BACKUP", "RESTORING"];
+const FAILED_STATUSES = [
+  "BACKUP_FAILED",
+  "RESTORE_FAILED",
+  "BACKUP_CANCELLED",
+  "RESTORE_CANCELLED",
+];
+
+export function isBackupInProgress(status: string): boolean {
+  return IN_PROGRESS_STATUSES.includes(status);
+}
+
+export function isBackupFailed(status: string): boolean {
+  return FAILED_STATUSES.includes(status);
+}
+
+/**
+ * Format a backup destination, e.g. Disk('backups', 'db/1/').
+ * The S3 secret is masked when maskSecret is set, which is used to preview the SQL.
+ */
+export function formatBackupDestination(
+  destination: BackupDestination,
+  maskSecret: boolean = false
+): string {
+  const quote = (value: string) => `'${SqlUtils.escapeSqlString(value)}'`;
+  switch (destination.type) {
+    case "Disk":
+      return `Disk(${quote(destination.disk)}, ${quote(destination.path)})`;
+    case "File":
+      return `File(${quote(destination.path)})`;
+    case "S3": {
+      const args = [quote(destination.url)];
+      if (destination.accessKeyId) {
+        const secret = destination.secretAccessKey ?? "";
+        args.push(quote(destination.accessKeyId), quote(maskSecret && secret ? "******" : secret));
+      }
+      return `S3(${args.join(", ")})`;
+    }
+  }
+}
+
+export function buildBackupCommandSQL(
+  operation: BackupOperation,
+  options: BackupCommandOptions,
+  maskSecret: boolean = false
+): string {
+  const database = SqlUtils.escapeSqlIdentifier(options.database);
+
+  let sql = operation;
+  if (options.table) {
+    sql += ` TABLE ${database}.${SqlUtils.escapeSqlIdentifier(options.table)}`;
+    const partitions = (options.partitions ?? []).filter((p) => p.length > 0);
+    if (partitions.length > 0) {
+      sql += ` PARTITIONS ${partitions.join(", ")}`;
+    }
+  } else {
+    sql += ` DATABASE ${database}`;
+  }
+
+  if (options.cluster) {
+    sql += ` ON CLUSTER ${SqlUtils.escapeSqlIdentifier(options.cluster)}`;
+  }
+
+  sql += ` ${operation === "BACKUP" ? "TO" : "FROM"} ${formatBackupDestination(options.destination, maskSecret)}`;
+
+  const settings: string[] = [];
+  if (options.baseBackup) {
+    settings.push(`base_backup = ${formatBackupDestination(options.baseBackup, maskSecret)}`);
+  }
+  settings.push(...(options.settings ?? []).filter((s) => s.length > 0));
+  if (settings.length > 0) {
+    sql += ` SETTINGS ${settings.join(", ")}`;
+  }
+
+  if (options.async) {
+    sql += " ASYNC";
+  }
+  return sql;
+}
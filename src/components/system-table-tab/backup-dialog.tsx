@@ -0,0 +1,414 @@
+import { ThemedSyntaxHighlighter } from "@/components/shared/themed-syntax-highlighter";
+import { Dialog } from "@/components/shared/use-dialog";
+import { TabManager } from "@/components/tab-manager";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { Connection, JSONFormatResponse } from "@/lib/connection/connection";
+import { SqlUtils } from "@/lib/sql-utils";
+import { toastManager } from "@/lib/toast";
+import { format } from "date-fns";
+import { ChevronDown, Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import {
+  BACKUP_DESTINATION_TYPES,
+  buildBackupCommandSQL,
+  isBackupFailed,
+  isBackupInProgress,
+  type BackupCommandOptions,
+  type BackupDestination,
+  type BackupDestinationType,
+  type BackupOperation,
+} from "./backup-commands";
+
+const TRACK_INTERVAL_MS = 3000;
+
+interface BackupDraft {
+  destinationType: BackupDestinationType;
+  disk: string;
+  // Path of Disk and File destinations, URL of S3 destinations
+  location: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  partitions: string;
+  incremental: boolean;
+  baseLocation: string;
+  settings: string;
+  async: boolean;
+  onCluster: boolean;
+}
+
+function createDestination(draft: BackupDraft, location: string): BackupDestination {
+  switch (draft.destinationType) {
+    case "Disk":
+      return { type: "Disk", disk: draft.disk.trim(), path: location };
+    case "File":
+      return { type: "File", path: location };
+    case "S3":
+      return {
+        type: "S3",
+        url: location,
+        accessKeyId: draft.accessKeyId.trim() || undefined,
+        secretAccessKey: draft.secretAccessKey,
+      };
+  }
+}
+
+function toCommandOptions(
+  draft: BackupDraft,
+  database: string,
+  table: string | undefined,
+  cluster: string | undefined
+): BackupCommandOptions {
+  if (draft.location.trim() === "") {
+    throw new Error(draft.destinationType === "S3" ? "URL is required" : "Path is required");
+  }
+  if (draft.destinationType === "Disk" && draft.disk.trim() === "") {
+    throw new Error("Disk is required");
+  }
+  if (draft.incremental && draft.baseLocation.trim() === "") {
+    throw new Error("Base backup is required for an incremental backup");
+  }
+
+  return {
+    database,
+    table,
+    partitions: table
+      ? draft.partitions
+          .split(",")
+          .map((p) => p.trim())
+          .filter((p) => p.length > 0)
+      : undefined,
+    destination: createDestination(draft, draft.location.trim()),
+    baseBackup: draft.incremental ? createDestination(draft, draft.baseLocation.trim()) : undefined,
+    settings: draft.settings
+      .split("\n")
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0),
+    async: draft.async,
+    cluster: draft.onCluster ? cluster : undefined,
+  };
+}
+
+/**
+ * Poll system.backups until an asynchronous operation completes and notify the user of its result
+ */
+function trackBackupOperation(connection: Connection, id: string, title: string) {
+  const poll = async () => {
+    try {
+      const response = await connection.query(
+        `SELECT status, error FROM system.backups WHERE id = '${SqlUtils.escapeSqlString(id)}'`,
+        { default_format: "JSON" }
+      ).response;
+      const row = response.data.json<JSONFormatResponse>().data[0] as
+        | { status: string; error: string }
+        | undefined;
+      if (row && isBackupInProgress(row.status)) {
+        setTimeout(poll, TRACK_INTERVAL_MS);
+        return;
+      }
+      if (!row) {
+        toastManager.show(`${title}: the operation ${id} is not found in system.backups.`, "error");
+      } else if (isBackupFailed(row.status)) {
+        toastManager.show(`${title} ${row.status}: ${row.error}`, "error");
+      } else {
+        toastManager.show(`${title} ${row.status}.`, "success");
+      }
+    } catch (e) {
+      toastManager.show(
+        `Failed to track ${title}: ${e instanceof Error ? e.message : String(e)}`,
+        "error"
+      );
+    }
+  };
+  setTimeout(poll, TRACK_INTERVAL_MS);
+}
+
+function openBackupsTab() {
+  TabManager.openTab({
+    id: "system-table:backups",
+    type: "system-table",
+    tableName: "backups",
+  });
+}
+
+function BackupCommandContent({
+  operation,
+  database,
+  table,
+  connection,
+}: {
+  operation: BackupOperation;
+  database: string;
+  table?: string;
+  connection: Connection;
+}) {
+  const [draft, setDraft] = useState<BackupDraft>(() => ({
+    destinationType: "Disk",
+    disk: "backups",
+    location:
+      operation === "BACKUP"
+        ? `${database}/${table ? `${table}/` : ""}${format(new Date(), "yyyyMMdd-HHmmss")}/`
+        : "",
+    accessKeyId: "",
+    secretAccessKey: "",
+    partitions: "",
+    incremental: false,
+    baseLocation: "",
+    settings: "",
+    async: true,
+    onCluster: true,
+  }));
+  const [isExecuting, setExecuting] = useState(false);
+  const [executionError, setExecutionError] = useState<string | null>(null);
+
+  const cluster = connection.cluster && connection.cluster.length > 0 ? connection.cluster : "";
+  const target = table ? `${database}.${table}` : database;
+  const title = `${operation} ${target}`;
+
+  const update = (changes: Partial<BackupDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setExecutionError(null);
+  };
+
+  const preview = useMemo(() => {
+    try {
+      const options = toCommandOptions(draft, database, table, cluster || undefined);
+      return { sql: buildBackupCommandSQL(operation, options, true) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [draft, database, table, cluster, operation]);
+
+  const handleExecute = async () => {
+    setExecuting(true);
+    setExecutionError(null);
+    try {
+      const options = toCommandOptions(draft, database, table, cluster || undefined);
+      const response = await connection.query(buildBackupCommandSQL(operation, options), {
+        default_format: "JSON",
+      }).response;
+      const row = response.data.json<JSONFormatResponse>().data[0] as
+        | { id: string; status: string }
+        | undefined;
+
+      if (draft.async && row) {
+        toastManager.show(`${title} started, you'll be notified when it completes.`, "success");
+        trackBackupOperation(connection, row.id, title);
+      } else {
+        toastManager.show(`${title} ${row?.status ?? "finished"}.`, "success");
+      }
+      Dialog.close();
+      openBackupsTab();
+    } catch (e) {
+      setExecutionError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExecuting(false);
+    }
+  };
+
+  const locationLabel = draft.destinationType === "S3" ? "URL" : "Path";
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="grid grid-cols-[140px_1fr] gap-x-4 gap-y-2 items-center">
+        <Label>{table ? "Table" : "Database"}</Label>
+        <div className="font-mono">{target}</div>
+
+        <Label>{operation === "BACKUP" ? "Destination" : "Source"}</Label>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="w-40 justify-between h-9">
+              {draft.destinationType}
+              <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="z-[10002]">
+            <DropdownMenuRadioGroup
+              value={draft.destinationType}
+              onValueChange={(v) => update({ destinationType: v as BackupDestinationType })}
+            >
+              {BACKUP_DESTINATION_TYPES.map((type) => (
+                <DropdownMenuRadioItem key={type} value={type}>
+                  {type}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {draft.destinationType === "Disk" && (
+          <>
+            <Label>Disk</Label>
+            <Input value={draft.disk} onChange={(e) => update({ disk: e.target.value })} />
+          </>
+        )}
+
+        <Label>{locationLabel}</Label>
+        <Input
+          value={draft.location}
+          placeholder={
+            draft.destinationType === "S3"
+              ? "https://bucket.s3.amazonaws.com/backups/"
+              : draft.destinationType === "File"
+                ? "backup.zip"
+                : "path/"
+          }
+          onChange={(e) => update({ location: e.target.value })}
+        />
+
+        {draft.destinationType === "S3" && (
+          <>
+            <Label>Access key ID</Label>
+            <Input
+              value={draft.accessKeyId}
+              placeholder="Use the server credentials when empty"
+              onChange={(e) => update({ accessKeyId: e.target.value })}
+            />
+            <Label>Secret access key</Label>
+            <Input
+              type="password"
+              autoComplete="off"
+              value={draft.secretAccessKey}
+              onChange={(e) => update({ secretAccessKey: e.target.value })}
+            />
+          </>
+        )}
+
+        {table && (
+          <>
+            <Label>Partitions</Label>
+            <Input
+              value={draft.partitions}
+              placeholder="Partition expressions, comma separated, e.g. '2024-01'. Empty means all"
+              onChange={(e) => update({ partitions: e.target.value })}
+            />
+          </>
+        )}
+
+        {operation === "BACKUP" && (
+          <>
+            <Label>Incremental</Label>
+            <Switch
+              checked={draft.incremental}
+              onCheckedChange={(incremental) => update({ incremental })}
+            />
+            {draft.incremental && (
+              <>
+                <Label>Base backup {locationLabel.toLowerCase()}</Label>
+                <Input
+                  value={draft.baseLocation}
+                  placeholder={`${locationLabel} of the backup this one is based on`}
+                  onChange={(e) => update({ baseLocation: e.target.value })}
+                />
+              </>
+            )}
+          </>
+        )}
+
+        <Label className="self-start pt-2">Settings</Label>
+        <Textarea
+          value={draft.settings}
+          rows={3}
+          className="font-mono text-xs"
+          placeholder={
+            operation === "BACKUP"
+              ? "One per line, e.g. compression_level = 3"
+              : "One per line, e.g. allow_non_empty_tables = true"
+          }
+          onChange={(e) => update({ settings: e.target.value })}
+        />
+
+        <Label>Async</Label>
+        <Switch checked={draft.async} onCheckedChange={(async) => update({ async })} />
+
+        {cluster && (
+          <>
+            <Label>On cluster {cluster}</Label>
+            <Switch
+              checked={draft.onCluster}
+              onCheckedChange={(onCluster) => update({ onCluster })}
+            />
+          </>
+        )}
+      </div>
+
+      <div>
+        <p className="font-medium mb-1">SQL to execute:</p>
+        {preview.sql !== undefined ? (
+          <div className="border rounded-md overflow-auto bg-muted/30">
+            <ThemedSyntaxHighlighter
+              language="sql"
+              customStyle={{
+                margin: 0,
+                padding: "0.75rem",
+                fontSize: "12px",
+                backgroundColor: "transparent",
+              }}
+              wrapLongLines
+            >
+              {preview.sql}
+            </ThemedSyntaxHighlighter>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">{preview.error}</p>
+        )}
+      </div>
+
+      {executionError && (
+        <pre className="text-xs text-destructive whitespace-pre-wrap break-all max-h-[200px] overflow-auto">
+          {executionError}
+        </pre>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={isExecuting} onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          variant={operation === "RESTORE" ? "destructive" : "default"}
+          disabled={isExecuting || preview.sql === undefined}
+          onClick={handleExecute}
+          className="gap-1"
+        >
+          {isExecuting && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          Execute
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show a form that composes a BACKUP or RESTORE of a database or a table
+ */
+export function showBackupCommandDialog(options: {
+  operation: BackupOperation;
+  database: string;
+  table?: string;
+  connection: Connection;
+}) {
+  const target = options.table ? `${options.database}.${options.table}` : options.database;
+  Dialog.showDialog({
+    title: `${options.operation} ${options.table ? "TABLE" : "DATABASE"} ${target}`,
+    className: "sm:max-w-[720px]",
+    mainContent: (
+      <BackupCommandContent
+        operation={options.operation}
+        database={options.database}
+        table={options.table}
+        connection={options.connection}
+      />
+    ),
+  });
+}
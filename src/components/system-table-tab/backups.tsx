@@ -0,0 +1,212 @@
+"use client";
+
+import { useConnection } from "@/components/connection/connection-context";
+import type {
+  Dashboard,
+  DateTimeFilterSpec,
+  FilterSpec,
+  SelectorFilterSpec,
+  StatDescriptor,
+  TableDescriptor,
+} from "@/components/shared/dashboard/dashboard-model";
+import DashboardPage from "@/components/shared/dashboard/dashboard-page";
+import { memo, useMemo } from "react";
+
+interface BackupsProps {
+  database: string;
+  table: string;
+}
+
+const BACKUP_FIELD_OPTIONS = {
+  total_size: { format: "binary_size" },
+  uncompressed_size: { format: "binary_size" },
+  compressed_size: { format: "binary_size" },
+  bytes_read: { format: "binary_size" },
+  error: { format: "truncatedText", formatArgs: [200] },
+};
+
+export const Backups = memo(({ database: _database, table: _table }: BackupsProps) => {
+  const { connection } = useConnection();
+
+  const hasCluster = connection?.cluster && connection?.cluster.length > 0;
+  const hostColumn = hasCluster ? "FQDN() AS host_name," : "";
+
+  const dashboard = useMemo<Dashboard>(() => {
+    const stat = (title: string, sql: string, description?: string): StatDescriptor => ({
+      type: "stat",
+      titleOption: { title, description, showTitle: true },
+      datasource: { sql },
+      gridPos: { w: 6, h: 3 },
+    });
+
+    return {
+      version: 3,
+      filter: {},
+      charts: [
+        stat(
+          "Running",
+          "SELECT countIf(status IN ('CREATING_BACKUP', 'RESTORING')) FROM {clusterAllReplicas:system.backups} WHERE {filterExpression:String}",
+          "Backups and restores in progress"
+        ),
+        stat(
+          "Failed",
+          "SELECT countIf(status IN ('BACKUP_FAILED', 'RESTORE_FAILED')) FROM {clusterAllReplicas:system.backups} WHERE {filterExpression:String}",
+          "Failed operations since the server started"
+        ),
+        stat(
+          "Backups Created",
+          "SELECT countIf(status = 'BACKUP_CREATED') FROM {clusterAllReplicas:system.backups} WHERE {filterExpression:String}"
+        ),
+        stat(
+          "Backup Size",
+          "SELECT formatReadableSize(sumIf(total_size, status = 'BACKUP_CREATED')) FROM {clusterAllReplicas:system.backups} WHERE {filterExpression:String}",
+          "Total size of the backups created since the server started"
+        ),
+        {
+          type: "table",
+          titleOption: {
+            title: "Backup Operations",
+            description: "Operations since the server started, from system.backups",
+            showTitle: true,
+            align: "left",
+          },
+          datasource: {
+            sql: `
+SELECT
+  ${hostColumn}
+  id,
+  name,
+  status,
+  error,
+  start_time,
+  end_time,
+  dateDiff('second', start_time, if(end_time > start_time, end_time, now())) AS duration,
+  num_files,
+  total_size,
+  num_entries,
+  uncompressed_size,
+  compressed_size,
+  files_read,
+  bytes_read
+FROM {clusterAllReplicas:system.backups}
+WHERE {filterExpression:String}
+ORDER BY start_time DESC`,
+          },
+          headOption: { isSticky: true },
+          sortOption: {
+            serverSideSorting: true,
+            initialSort: { column: "start_time", direction: "desc" },
+          },
+          pagination: { mode: "server", pageSize: 100 },
+          miscOption: {
+            enableIndexColumn: true,
+            enableShowRowDetail: true,
+            enableCompactMode: true,
+          },
+          gridPos: { w: 24, h: 14 },
+          fieldOptions: {
+            ...BACKUP_FIELD_OPTIONS,
+            duration: { format: "seconds" },
+          },
+        } as TableDescriptor,
+        {
+          type: "table",
+          titleOption: {
+            title: "Backup Log",
+            description: "Status changes of the operations, from system.backup_log",
+            showTitle: true,
+            align: "left",
+          },
+          datasource: {
+            sql: `
+SELECT
+  ${hostColumn}
+  event_time_microseconds,
+  id,
+  name,
+  status,
+  error,
+  start_time,
+  end_time,
+  num_files,
+  total_size,
+  uncompressed_size,
+  compressed_size
+FROM {clusterAllReplicas:system.backup_log}
+WHERE {filterExpression:String}
+AND event_date >= toDate({from:String})
+AND event_date <= toDate({to:String})
+AND event_time_microseconds >= {from:String}
+AND event_time_microseconds < {to:String}
+ORDER BY event_time_microseconds DESC`,
+          },
+          headOption: { isSticky: true },
+          sortOption: {
+            serverSideSorting: true,
+            initialSort: { column: "event_time_microseconds", direction: "desc" },
+          },
+          pagination: { mode: "server", pageSize: 100 },
+          miscOption: {
+            enableIndexColumn: true,
+            enableShowRowDetail: true,
+            enableCompactMode: true,
+          },
+          gridPos: { w: 24, h: 12 },
+          fieldOptions: BACKUP_FIELD_OPTIONS,
+        } as TableDescriptor,
+      ],
+    };
+  }, [hostColumn]);
+
+  const filterSpecs = useMemo<FilterSpec[]>(() => {
+    const specs: FilterSpec[] = [
+      {
+        filterType: "date_time",
+        alias: "_interval",
+        displayText: "time",
+        timeColumn: "event_time_microseconds",
+        defaultTimeSpan: "Last 1 Days",
+      } as DateTimeFilterSpec,
+      {
+        filterType: "select",
+        name: "status",
+        displayText: "status",
+        datasource: {
+          type: "inline",
+          values: [
+            "CREATING_BACKUP",
+            "BACKUP_CREATED",
+            "BACKUP_FAILED",
+            "RESTORING",
+            "RESTORED",
+            "RESTORE_FAILED",
+          ].map((status) => ({ label: status, value: status })),
+        },
+      } as SelectorFilterSpec,
+    ];
+    if (hasCluster) {
+      specs.push({
+        filterType: "select",
+        name: "FQDN()",
+        displayText: "FQDN",
+        datasource: {
+          type: "sql",
+          sql: `select distinct host_name from system.clusters WHERE cluster = '{cluster}' order by FQDN()`,
+        },
+      } as SelectorFilterSpec);
+    }
+    return specs;
+  }, [hasCluster]);
+
+  return (
+    <DashboardPage
+      panels={dashboard}
+      filterSpecs={filterSpecs}
+      showInputFilter={false}
+      timezone={connection?.metadata.timezone ?? "UTC"}
+      showTimeSpanSelector={true}
+      showRefresh={true}
+      showAutoRefresh={true}
+    />
+  );
+});
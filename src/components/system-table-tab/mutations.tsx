@@ -0,0 +1,450 @@
+"use client";
+
+import { useConnection } from "@/components/connection/connection-context";
+import type {
+  ActionColumn,
+  Dashboard,
+  FilterSpec,
+  SelectorFilterSpec,
+  StatDescriptor,
+  TableDescriptor,
+} from "@/components/shared/dashboard/dashboard-model";
+import DashboardPage from "@/components/shared/dashboard/dashboard-page";
+import { ThemedSyntaxHighlighter } from "@/components/shared/themed-syntax-highlighter";
+import { Dialog } from "@/components/shared/use-dialog";
+import { TabManager } from "@/components/tab-manager";
+import { Button } from "@/components/ui/button";
+import { SqlUtils } from "@/lib/sql-utils";
+import { FileSearch, Loader2, XCircle } from "lucide-react";
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+interface MutationsProps {
+  database: string;
+  table: string;
+}
+
+interface MutationButtonProps {
+  row: Record<string, unknown>;
+}
+
+function getMutationStatement(row: Record<string, unknown>): string {
+  const table = `${SqlUtils.escapeSqlIdentifier(row.database as string)}.${SqlUtils.escapeSqlIdentifier(row.table as string)}`;
+  return `ALTER TABLE ${table} ${row.command as string}`;
+}
+
+const MutationDetailButton = memo(({ row }: MutationButtonProps) => {
+  const handleShowDetail = useCallback(() => {
+    const failReason = (row.latest_fail_reason as string) || "";
+    const partsToDo = (row.parts_to_do_names as string[]) || [];
+
+    Dialog.showDialog({
+      title: `Mutation ${row.mutation_id as string}`,
+      className: "max-w-[900px]",
+      mainContent: (
+        <div className="space-y-3 text-sm">
+          <div className="grid grid-cols-[160px_1fr] gap-x-4 gap-y-1">
+            <span className="font-medium">Table</span>
+            <span className="font-mono">
+              {row.database as string}.{row.table as string}
+            </span>
+            {row.host_name !== undefined && (
+              <>
+                <span className="font-medium">Host</span>
+                <span className="font-mono">{row.host_name as string}</span>
+              </>
+            )}
+            <span className="font-medium">Created</span>
+            <span>{row.create_time as string}</span>
+            <span className="font-medium">Parts to do</span>
+            <span>{String(row.parts_to_do)}</span>
+            <span className="font-medium">Latest failed part</span>
+            <span className="font-mono">{(row.latest_failed_part as string) || "-"}</span>
+            <span className="font-medium">Latest fail time</span>
+            <span>{failReason ? (row.latest_fail_time as string) : "-"}</span>
+          </div>
+          <div>
+            <p className="font-medium mb-1">Command</p>
+            <div className="border rounded-md overflow-auto bg-muted/30 max-h-[200px]">
+              <ThemedSyntaxHighlighter
+                language="sql"
+                customStyle={{
+                  margin: 0,
+                  padding: "0.75rem",
+                  fontSize: "12px",
+                  backgroundColor: "transparent",
+                }}
+                wrapLongLines
+              >
+                {getMutationStatement(row)}
+              </ThemedSyntaxHighlighter>
+            </div>
+          </div>
+          {failReason && (
+            <div>
+              <p className="font-medium mb-1">Latest fail reason</p>
+              <pre className="text-xs text-destructive whitespace-pre-wrap break-all bg-muted/30 rounded-md p-2 max-h-[240px] overflow-auto">
+                {failReason}
+              </pre>
+            </div>
+          )}
+          {partsToDo.length > 0 && (
+            <div>
+              <p className="font-medium mb-1">Parts to do ({partsToDo.length})</p>
+              <div className="text-xs font-mono bg-muted/30 rounded-md p-2 max-h-[160px] overflow-auto">
+                {partsToDo.join(", ")}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                Dialog.close();
+                TabManager.activateQueryTab({ query: getMutationStatement(row), mode: "insert" });
+              }}
+            >
+              Open Command in Query Editor
+            </Button>
+            <Button size="sm" onClick={() => Dialog.close()}>
+              Close
+            </Button>
+          </div>
+        </div>
+      ),
+    });
+  }, [row]);
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      title="Show details"
+      onClick={(e) => {
+        e.stopPropagation();
+        handleShowDetail();
+      }}
+      className="h-7 px-2"
+    >
+      <FileSearch className="h-3.5 w-3.5" />
+    </Button>
+  );
+});
+
+const KillMutationButton = memo(({ row }: MutationButtonProps) => {
+  const { connection } = useConnection();
+  const mutationId = row.mutation_id as string;
+  const isKillingRef = useRef(false);
+
+  const handleKillMutation = useCallback(async () => {
+    if (!connection) {
+      Dialog.alert({
+        title: "Error",
+        description: "Connection is not available",
+      });
+      return;
+    }
+
+    const database = row.database as string;
+    const table = row.table as string;
+    const condition = `database = '${SqlUtils.escapeSqlString(database)}' AND table = '${SqlUtils.escapeSqlString(table)}' AND mutation_id = '${SqlUtils.escapeSqlString(mutationId)}'`;
+
+    const hasCluster = connection.cluster && connection.cluster.length > 0;
+    const killMutation = hasCluster
+      ? `KILL MUTATION ON CLUSTER '${connection.cluster}' WHERE ${condition} SETTINGS distributed_ddl_task_timeout = 0`
+      : `KILL MUTATION WHERE ${condition}`;
+
+    // Create a reactive component for the button content
+    const KillButtonContent = () => {
+      const [killingState, setKillingState] = useState(isKillingRef.current);
+
+      // Poll for state changes from the ref
+      useEffect(() => {
+        const interval = setInterval(() => {
+          const currentState = isKillingRef.current;
+          if (currentState !== killingState) {
+            setKillingState(currentState);
+          }
+        }, 50);
+        return () => clearInterval(interval);
+      }, [killingState]);
+
+      return killingState ? (
+        <>
+          <Loader2 className="h-3.5 w-3.5 animate-spin" /> Killing...
+        </>
+      ) : (
+        "Kill Mutation"
+      );
+    };
+
+    Dialog.confirm({
+      title: "Kill Mutation",
+      className: "max-w-[800px]",
+      description: `Are you sure you want to kill mutation ${mutationId} on ${database}.${table}?`,
+      mainContent: (
+        <div className="mt-4 space-y-2 pb-6">
+          <div>
+            <p className="text-sm font-medium mb-2">Mutation:</p>
+            <div className="border rounded-md overflow-auto bg-muted/30 max-h-[300px]">
+              <ThemedSyntaxHighlighter
+                language="sql"
+                customStyle={{
+                  margin: 0,
+                  padding: "0.75rem",
+                  fontSize: "12px",
+                  backgroundColor: "transparent",
+                }}
+                wrapLongLines
+              >
+                {getMutationStatement(row)}
+              </ThemedSyntaxHighlighter>
+            </div>
+          </div>
+          <p className="text-sm text-destructive">
+            Parts that have already been mutated are not rolled back. For replicated tables, the
+            mutation is removed on all replicas. Use &quot;Open Command in Query Editor&quot; in the
+            details to retry it after the cause of the failure is fixed.
+          </p>
+        </div>
+      ),
+      dialogButtons: [
+        {
+          text: "Cancel",
+          onClick: async () => !isKillingRef.current,
+          default: false,
+          variant: "outline",
+        },
+        {
+          content: <KillButtonContent />,
+          onClick: async () => {
+            isKillingRef.current = true;
+            try {
+              await connection.query(killMutation, {
+                default_format: "JSON",
+              }).response;
+
+              // Wait at least seconds for better UX
+              await new Promise((resolve) => setTimeout(resolve, 500));
+
+              Dialog.alert({
+                title: "Success",
+                description: `Mutation ${mutationId} has been killed successfully.`,
+              });
+              return true;
+            } catch (error) {
+              const errorMessage =
+                error instanceof Error ? error.message : "Failed to kill mutation";
+              Dialog.alert({
+                title: "Error",
+                description: `Failed to kill mutation: ${errorMessage}`,
+              });
+              return false;
+            } finally {
+              isKillingRef.current = false;
+            }
+          },
+          default: true,
+          variant: "destructive",
+        },
+      ],
+      canClose: () => {
+        return !isKillingRef.current;
+      },
+    });
+  }, [mutationId, row, connection]);
+
+  // Finished or killed mutations can't be killed
+  if (!mutationId || row.is_done === 1 || row.is_done === true) {
+    return null;
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      title="Kill mutation"
+      onClick={(e) => {
+        e.stopPropagation();
+        handleKillMutation();
+      }}
+      className="h-7 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+    >
+      <XCircle className="h-3.5 w-3.5" />
+    </Button>
+  );
+});
+
+export const Mutations = memo(({ database: _database, table: _table }: MutationsProps) => {
+  const { connection } = useConnection();
+
+  const hasCluster = connection?.cluster && connection?.cluster.length > 0;
+
+  const dashboard = useMemo<Dashboard>(() => {
+    const stat = (title: string, sql: string): StatDescriptor => ({
+      type: "stat",
+      titleOption: { title, showTitle: true },
+      datasource: { sql },
+      gridPos: { w: 6, h: 3 },
+    });
+
+    return {
+      version: 3,
+      filter: {},
+      charts: [
+        stat(
+          "Running Mutations",
+          "SELECT count() FROM {clusterAllReplicas:system.mutations} WHERE NOT is_done AND {filterExpression:String}"
+        ),
+        stat(
+          "Failing Mutations",
+          "SELECT count() FROM {clusterAllReplicas:system.mutations} WHERE NOT is_done AND latest_fail_reason <> '' AND {filterExpression:String}"
+        ),
+        stat(
+          "Parts To Do",
+          "SELECT sum(parts_to_do) FROM {clusterAllReplicas:system.mutations} WHERE NOT is_done AND {filterExpression:String}"
+        ),
+        stat(
+          "Tables With Running Mutations",
+          "SELECT uniqExact(database, table) FROM {clusterAllReplicas:system.mutations} WHERE NOT is_done AND {filterExpression:String}"
+        ),
+        {
+          type: "table",
+          titleOption: {
+            title: `System Mutations`,
+            description:
+              "Progress is estimated from parts_to_do and the number of active parts of the table on each replica",
+            showTitle: true,
+            align: "left",
+          },
+          datasource: {
+            // The active parts are joined on each replica since parts_to_do is per replica
+            sql: `
+SELECT
+  ${hasCluster ? "host_name," : ""}
+  database,
+  table,
+  mutation_id,
+  command,
+  create_time,
+  progress,
+  parts_to_do,
+  is_done,
+  latest_fail_time,
+  latest_fail_reason,
+  latest_failed_part,
+  is_killed,
+  parts_to_do_names
+FROM {clusterAllReplicas:view(
+  SELECT
+    FQDN() AS host_name,
+    m.*,
+    if(m.is_done, 100, if(p.active_parts = 0, 0, round(100 * (1 - least(m.parts_to_do, p.active_parts) / p.active_parts), 1))) AS progress
+  FROM system.mutations AS m
+  LEFT JOIN (SELECT database, table, count() AS active_parts FROM system.parts WHERE active GROUP BY database, table) AS p
+  USING (database, table)
+)}
+WHERE {filterExpression:String}
+ORDER BY create_time DESC`,
+          },
+          headOption: { isSticky: true },
+          sortOption: {
+            serverSideSorting: true,
+            initialSort: { column: "create_time", direction: "desc" },
+          },
+          pagination: { mode: "server", pageSize: 100 },
+          miscOption: {
+            enableIndexColumn: true,
+            enableShowRowDetail: true,
+            enableCompactMode: true,
+          },
+          gridPos: { w: 24, h: 18 },
+          fieldOptions: {
+            command: { format: "sql" },
+            progress: { format: "percentage_bar", formatArgs: [100, 16] },
+            latest_fail_reason: { format: "truncatedText", formatArgs: [200] },
+            parts_to_do_names: { format: "complexType" },
+          },
+          actions: [
+            {
+              title: "Action",
+              align: "center",
+              position: 1,
+              renderAction: (row: Record<string, unknown>) => (
+                <div className="flex items-center justify-center">
+                  <MutationDetailButton row={row} />
+                  <KillMutationButton row={row} />
+                </div>
+              ),
+            } as ActionColumn,
+          ],
+        } as TableDescriptor,
+      ],
+    };
+  }, [hasCluster]);
+
+  const filterSpecs = useMemo<FilterSpec[]>(() => {
+    const specs: FilterSpec[] = [
+      {
+        filterType: "select",
+        name: "is_done",
+        displayText: "is_done",
+        datasource: {
+          type: "inline",
+          values: [
+            { label: "Running", value: "0" },
+            { label: "Done", value: "1" },
+          ],
+        },
+        defaultPattern: {
+          comparator: "=",
+          values: ["0"],
+        },
+      } as SelectorFilterSpec,
+      {
+        filterType: "select",
+        name: "database",
+        displayText: "database",
+        datasource: {
+          type: "sql",
+          sql: `SELECT DISTINCT database FROM system.mutations ORDER BY database`,
+        },
+      } as SelectorFilterSpec,
+      {
+        filterType: "select",
+        name: "table",
+        displayText: "table",
+        datasource: {
+          type: "sql",
+          sql: `SELECT DISTINCT table FROM system.mutations WHERE {filterExpression:String} ORDER BY table`,
+        },
+      } as SelectorFilterSpec,
+    ];
+    if (hasCluster) {
+      specs.push({
+        filterType: "select",
+        name: "FQDN()",
+        displayText: "FQDN",
+        datasource: {
+          type: "sql",
+          sql: `select distinct host_name from system.clusters WHERE cluster = '{cluster}' order by FQDN()`,
+        },
+      } as SelectorFilterSpec);
+    }
+    return specs;
+  }, [hasCluster]);
+
+  return (
+    <DashboardPage
+      panels={dashboard}
+      filterSpecs={filterSpecs}
+      showInputFilter={false}
+      timezone={connection?.metadata.timezone ?? "UTC"}
+      showTimeSpanSelector={false}
+      showRefresh={true}
+      showAutoRefresh={true}
+    />
+  );
+});
@@ -78,10 +78,9 @@ ORDER BY event_time DESC
           sql: `select distinct host_name from system.clusters WHERE cluster = '{cluster}' order by FQDN()`,
         },
 
-        defaultPattern: {
-          comparator: "=",
-          values: [connection!.metadata.remoteHostName],
-        },
+        defaultPattern: connection!.metadata.remoteHostName
+          ? { comparator: "=", values: [connection!.metadata.remoteHostName] }
+          : undefined,
       } as SelectorFilterSpec,
       {
         filterType: "select",
@@ -243,10 +243,9 @@ export const Processes = memo(({ database: _database, table: _table }: Processes
               type: "sql",
               sql: `select distinct host_name from system.clusters WHERE cluster = '{cluster}' order by FQDN()`,
             },
-            defaultPattern: {
-              comparator: "=",
-              values: [connection!.metadata.remoteHostName],
-            },
+            defaultPattern: connection!.metadata.remoteHostName
+              ? { comparator: "=", values: [connection!.metadata.remoteHostName] }
+              : undefined,
           } as SelectorFilterSpec,
         ]
       : [];
@@ -47,10 +47,9 @@ FROM {clusterAllReplicas:system.query_views_log}
 WHERE {filterExpression:String} order by hostname`,
         },
 
-        defaultPattern: {
-          comparator: "=",
-          values: [connection!.metadata.remoteHostName],
-        },
+        defaultPattern: connection!.metadata.remoteHostName
+          ? { comparator: "=", values: [connection!.metadata.remoteHostName] }
+          : undefined,
       } as SelectorFilterSpec,
       {
         filterType: "select",
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { buildReplicaCommandSQL } from "./replica-commands";
+
+describe("buildReplicaCommandSQL", () => {
+  it("builds commands for the local replica", () => {
+    expect(buildReplicaCommandSQL("SYNC", "db", "events")).toBe(
+      "SYSTEM SYNC REPLICA `db`.`events`"
+    );
+    expect(buildReplicaCommandSQL("SYNC", "db", "events", { syncMode: "LIGHTWEIGHT" })).toBe(
+      "SYSTEM SYNC REPLICA `db`.`events` LIGHTWEIGHT"
+    );
+    expect(buildReplicaCommandSQL("RESTART", "db", "my`table")).toBe(
+      "SYSTEM RESTART REPLICA `db`.`my``table`"
+    );
+  });
+
+  it("places ON CLUSTER where each statement expects it", () => {
+    const options = { cluster: "default", syncMode: "DEFAULT" as const };
+    expect(buildReplicaCommandSQL("SYNC", "db", "events", options)).toBe(
+      "SYSTEM SYNC REPLICA ON CLUSTER `default` `db`.`events`"
+    );
+    expect(buildReplicaCommandSQL("RESTART", "db", "events", options)).toBe(
+      "SYSTEM RESTART REPLICA ON CLUSTER `default` `db`.`events`"
+    );
+    expect(buildReplicaCommandSQL("RESTORE", "db", "events", options)).toBe(
+      "SYSTEM RESTORE REPLICA `db`.`events` ON CLUSTER `default`"
+    );
+  });
+});
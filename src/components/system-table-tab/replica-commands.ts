@@ -0,0 +1,46 @@
+import { SqlUtils } from "@/lib/sql-utils";
+
+export type ReplicaCommand = "SYNC" | "RESTART" | "RESTORE";
+
+// See https://clickhouse.com/docs/sql-reference/statements/system#sync-replica
+export type SyncReplicaMode = "DEFAULT" | "STRICT" | "LIGHTWEIGHT" | "PULL";
+
+export const SYNC_REPLICA_MODES: SyncReplicaMode[] = ["DEFAULT", "STRICT", "LIGHTWEIGHT", "PULL"];
+
+export const REPLICA_COMMAND_DESCRIPTIONS: Record<ReplicaCommand, string> = {
+  SYNC: "Wait until the replica has fetched and processed the entries of the replication log. The statement returns when the queue is processed or the receive timeout is reached.",
+  RESTART:
+    "Reinitialize the ZooKeeper session of the table and compare the local parts with ZooKeeper. The table can't be written to during the restart.",
+  RESTORE:
+    "Recreate the metadata of the replica in ZooKeeper from the local parts. Only use it when the replica is read-only because its metadata in ZooKeeper has been lost.",
+};
+
+export interface ReplicaCommandOptions {
+  syncMode?: SyncReplicaMode;
+  // Run the command on all replicas of the cluster
+  cluster?: string;
+}
+
+export function buildReplicaCommandSQL(
+  command: ReplicaCommand,
+  database: string,
+  table: string,
+  options: ReplicaCommandOptions = {}
+): string {
+  const name = `${SqlUtils.escapeSqlIdentifier(database)}.${SqlUtils.escapeSqlIdentifier(table)}`;
+  const onCluster = options.cluster
+    ? ` ON CLUSTER ${SqlUtils.escapeSqlIdentifier(options.cluster)}`
+    : "";
+
+  switch (command) {
+    case "SYNC": {
+      const mode = options.syncMode && options.syncMode !== "DEFAULT" ? ` ${options.syncMode}` : "";
+      return `SYSTEM SYNC REPLICA${onCluster} ${name}${mode}`;
+    }
+    case "RESTART":
+      return `SYSTEM RESTART REPLICA${onCluster} ${name}`;
+    case "RESTORE":
+      // The ON CLUSTER clause follows the table name in this statement
+      return `SYSTEM RESTORE REPLICA ${name}${onCluster}`;
+  }
+}
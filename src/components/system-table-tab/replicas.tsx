@@ -0,0 +1,434 @@
+"use client";
+
+import { useConnection } from "@/components/connection/connection-context";
+import type {
+  ActionColumn,
+  Dashboard,
+  FilterSpec,
+  SelectorFilterSpec,
+  StatDescriptor,
+  TableDescriptor,
+} from "@/components/shared/dashboard/dashboard-model";
+import DashboardPage from "@/components/shared/dashboard/dashboard-page";
+import { ThemedSyntaxHighlighter } from "@/components/shared/themed-syntax-highlighter";
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import type { Connection } from "@/lib/connection/connection";
+import { toastManager } from "@/lib/toast";
+import { ChevronDown, Loader2, MoreHorizontal } from "lucide-react";
+import { memo, useMemo, useState } from "react";
+import {
+  buildReplicaCommandSQL,
+  REPLICA_COMMAND_DESCRIPTIONS,
+  SYNC_REPLICA_MODES,
+  type ReplicaCommand,
+  type SyncReplicaMode,
+} from "./replica-commands";
+
+interface ReplicasProps {
+  database: string;
+  table: string;
+}
+
+function ReplicaCommandContent({
+  command,
+  row,
+  connection,
+}: {
+  command: ReplicaCommand;
+  row: Record<string, unknown>;
+  connection: Connection;
+}) {
+  const [syncMode, setSyncMode] = useState<SyncReplicaMode>("DEFAULT");
+  const [isExecuting, setExecuting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const database = row.database as string;
+  const table = row.table as string;
+  const cluster = connection.cluster && connection.cluster.length > 0 ? connection.cluster : "";
+  const sql = buildReplicaCommandSQL(command, database, table, {
+    syncMode,
+    cluster: cluster || undefined,
+  });
+
+  const handleExecute = async () => {
+    setExecuting(true);
+    setError(null);
+    try {
+      await connection.query(sql, { default_format: "JSON" }).response;
+      toastManager.show(`SYSTEM ${command} REPLICA on ${database}.${table} finished.`, "success");
+      Dialog.close();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExecuting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <p className="text-muted-foreground">{REPLICA_COMMAND_DESCRIPTIONS[command]}</p>
+
+      {command === "SYNC" && (
+        <div className="flex items-center gap-4">
+          <Label>Mode</Label>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="w-40 justify-between">
+                {syncMode}
+                <ChevronDown className="h-4 w-4 opacity-50" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="z-[10002]">
+              <DropdownMenuRadioGroup
+                value={syncMode}
+                onValueChange={(v) => setSyncMode(v as SyncReplicaMode)}
+              >
+                {SYNC_REPLICA_MODES.map((mode) => (
+                  <DropdownMenuRadioItem key={mode} value={mode}>
+                    {mode}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+
+      {command === "RESTORE" && !row.is_readonly && (
+        <p className="text-destructive">
+          This replica is not read-only. SYSTEM RESTORE REPLICA fails unless the metadata of the
+          replica has been lost in ZooKeeper.
+        </p>
+      )}
+
+      {cluster && (
+        <p className="text-muted-foreground">
+          The statement runs on all nodes of cluster {cluster}, since the node a query is sent to
+          can&apos;t be chosen.
+        </p>
+      )}
+
+      <div>
+        <p className="font-medium mb-1">SQL to execute:</p>
+        <div className="border rounded-md overflow-auto bg-muted/30">
+          <ThemedSyntaxHighlighter
+            language="sql"
+            customStyle={{
+              margin: 0,
+              padding: "0.75rem",
+              fontSize: "12px",
+              backgroundColor: "transparent",
+            }}
+            wrapLongLines
+          >
+            {sql}
+          </ThemedSyntaxHighlighter>
+        </div>
+      </div>
+
+      {error && (
+        <pre className="text-xs text-destructive whitespace-pre-wrap break-all max-h-[200px] overflow-auto">
+          {error}
+        </pre>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={isExecuting} onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          variant={command === "SYNC" ? "default" : "destructive"}
+          disabled={isExecuting}
+          onClick={handleExecute}
+          className="gap-1"
+        >
+          {isExecuting && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          Execute
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function showReplicaCommandDialog(
+  command: ReplicaCommand,
+  row: Record<string, unknown>,
+  connection: Connection
+) {
+  Dialog.showDialog({
+    title: `SYSTEM ${command} REPLICA ${row.database as string}.${row.table as string}`,
+    className: "max-w-[720px]",
+    mainContent: <ReplicaCommandContent command={command} row={row} connection={connection} />,
+  });
+}
+
+const ReplicaActionsButton = memo(({ row }: { row: Record<string, unknown> }) => {
+  const { connection } = useConnection();
+  if (!connection) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <MoreHorizontal className="h-3.5 w-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onClick={() => showReplicaCommandDialog("SYNC", row, connection)}>
+          Sync Replica...
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => showReplicaCommandDialog("RESTART", row, connection)}>
+          Restart Replica...
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => showReplicaCommandDialog("RESTORE", row, connection)}>
+          Restore Replica...
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
+
+export const Replicas = memo(({ database: _database, table: _table }: ReplicasProps) => {
+  const { connection } = useConnection();
+
+  const hasCluster = connection?.cluster && connection?.cluster.length > 0;
+  const hostColumn = hasCluster ? "FQDN() AS host_name," : "";
+
+  const dashboard = useMemo<Dashboard>(() => {
+    const stat = (title: string, sql: string, description?: string): StatDescriptor => ({
+      type: "stat",
+      titleOption: { title, description, showTitle: true },
+      datasource: { sql },
+      gridPos: { w: 4, h: 3 },
+    });
+
+    return {
+      version: 3,
+      filter: {},
+      charts: [
+        stat(
+          "Replicated Tables",
+          "SELECT count() FROM {clusterAllReplicas:system.replicas} WHERE {filterExpression:String}"
+        ),
+        stat(
+          "Read-only Replicas",
+          "SELECT countIf(is_readonly OR is_session_expired) FROM {clusterAllReplicas:system.replicas} WHERE {filterExpression:String}",
+          "Replicas that are read-only or whose ZooKeeper session has expired"
+        ),
+        stat(
+          "Max Absolute Delay",
+          "SELECT max(absolute_delay) FROM {clusterAllReplicas:system.replicas} WHERE {filterExpression:String}",
+          "Seconds the most lagging replica is behind"
+        ),
+        stat(
+          "Queue Size",
+          "SELECT sum(queue_size) FROM {clusterAllReplicas:system.replicas} WHERE {filterExpression:String}"
+        ),
+        stat(
+          "Stuck Queue Entries",
+          "SELECT count() FROM {clusterAllReplicas:system.replication_queue} WHERE (num_tries > 1 OR last_exception <> '') AND {filterExpression:String}",
+          "Queue entries that have failed or have been retried"
+        ),
+        stat(
+          "Active Fetches",
+          "SELECT count() FROM {clusterAllReplicas:system.replicated_fetches} WHERE {filterExpression:String}"
+        ),
+        {
+          type: "table",
+          titleOption: { title: "Replicas", showTitle: true, align: "left" },
+          datasource: {
+            sql: `
+SELECT
+  ${hostColumn}
+  database,
+  table,
+  is_readonly,
+  is_session_expired,
+  absolute_delay,
+  queue_size,
+  inserts_in_queue,
+  merges_in_queue,
+  log_max_index - log_pointer AS log_lag,
+  active_replicas,
+  total_replicas,
+  last_queue_update,
+  zookeeper_exception
+FROM {clusterAllReplicas:system.replicas}
+WHERE {filterExpression:String}
+ORDER BY absolute_delay DESC`,
+          },
+          headOption: { isSticky: true },
+          sortOption: {
+            serverSideSorting: true,
+            initialSort: { column: "absolute_delay", direction: "desc" },
+          },
+          pagination: { mode: "server", pageSize: 100 },
+          miscOption: {
+            enableIndexColumn: true,
+            enableShowRowDetail: true,
+            enableCompactMode: true,
+          },
+          gridPos: { w: 24, h: 14 },
+          fieldOptions: {
+            absolute_delay: { format: "seconds" },
+            zookeeper_exception: { format: "truncatedText", formatArgs: [200] },
+          },
+          actions: [
+            {
+              title: "Action",
+              align: "center",
+              position: 1,
+              renderAction: (row: Record<string, unknown>) => <ReplicaActionsButton row={row} />,
+            } as ActionColumn,
+          ],
+        } as TableDescriptor,
+        {
+          type: "table",
+          titleOption: {
+            title: "Stuck Replication Queue Entries",
+            description: "Entries that have failed, have been retried or postponed",
+            showTitle: true,
+            align: "left",
+          },
+          datasource: {
+            sql: `
+SELECT
+  ${hostColumn}
+  database,
+  table,
+  type,
+  create_time,
+  new_part_name,
+  is_currently_executing,
+  num_tries,
+  last_attempt_time,
+  last_exception,
+  num_postponed,
+  postpone_reason,
+  last_postpone_time
+FROM {clusterAllReplicas:system.replication_queue}
+WHERE (num_tries > 1 OR last_exception <> '' OR postpone_reason <> '')
+AND {filterExpression:String}
+ORDER BY num_tries DESC`,
+          },
+          headOption: { isSticky: true },
+          sortOption: {
+            serverSideSorting: true,
+            initialSort: { column: "num_tries", direction: "desc" },
+          },
+          pagination: { mode: "server", pageSize: 100 },
+          miscOption: {
+            enableIndexColumn: true,
+            enableShowRowDetail: true,
+            enableCompactMode: true,
+          },
+          gridPos: { w: 24, h: 14 },
+          fieldOptions: {
+            last_exception: { format: "truncatedText", formatArgs: [200] },
+            postpone_reason: { format: "truncatedText", formatArgs: [200] },
+          },
+        } as TableDescriptor,
+        {
+          type: "table",
+          titleOption: { title: "Replicated Fetches", showTitle: true, align: "left" },
+          datasource: {
+            sql: `
+SELECT
+  ${hostColumn}
+  database,
+  table,
+  result_part_name,
+  source_replica_hostname,
+  elapsed,
+  round(progress * 100, 1) AS progress,
+  total_size_bytes_compressed,
+  bytes_read_compressed
+FROM {clusterAllReplicas:system.replicated_fetches}
+WHERE {filterExpression:String}
+ORDER BY elapsed DESC`,
+          },
+          headOption: { isSticky: true },
+          miscOption: {
+            enableIndexColumn: true,
+            enableCompactMode: true,
+          },
+          gridPos: { w: 24, h: 10 },
+          fieldOptions: {
+            elapsed: { format: "seconds" },
+            progress: { format: "percentage_bar", formatArgs: [100, 16] },
+            total_size_bytes_compressed: { format: "binary_size" },
+            bytes_read_compressed: { format: "binary_size" },
+          },
+        } as TableDescriptor,
+      ],
+    };
+  }, [hostColumn]);
+
+  const filterSpecs = useMemo<FilterSpec[]>(() => {
+    const specs: FilterSpec[] = [
+      {
+        filterType: "select",
+        name: "database",
+        displayText: "database",
+        datasource: {
+          type: "sql",
+          sql: `SELECT DISTINCT database FROM system.replicas ORDER BY database`,
+        },
+      } as SelectorFilterSpec,
+      {
+        filterType: "select",
+        name: "table",
+        displayText: "table",
+        datasource: {
+          type: "sql",
+          sql: `SELECT DISTINCT table FROM system.replicas WHERE {filterExpression:String} ORDER BY table`,
+        },
+      } as SelectorFilterSpec,
+    ];
+    if (hasCluster) {
+      specs.push({
+        filterType: "select",
+        name: "FQDN()",
+        displayText: "FQDN",
+        datasource: {
+          type: "sql",
+          sql: `select distinct host_name from system.clusters WHERE cluster = '{cluster}' order by FQDN()`,
+        },
+      } as SelectorFilterSpec);
+    }
+    return specs;
+  }, [hasCluster]);
+
+  return (
+    <DashboardPage
+      panels={dashboard}
+      filterSpecs={filterSpecs}
+      showInputFilter={false}
+      timezone={connection?.metadata.timezone ?? "UTC"}
+      showTimeSpanSelector={false}
+      showRefresh={true}
+      showAutoRefresh={true}
+    />
+  );
+});
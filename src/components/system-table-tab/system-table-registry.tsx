@@ -1,17 +1,32 @@
+import { Backups } from "./backups";
 import { Dashboards } from "./dashboards";
 import { DistributedDDLQueue } from "./distributed-ddl-queue";
+import { Mutations } from "./mutations";
 import { OpenTelemetrySpanLog } from "./opentelemetry-span-log";
 import { PartLog } from "./part-log";
 import { Processes } from "./processes";
 import { QueryLog } from "./query-log";
 import { QueryViewsLog } from "./query-views-log";
+import { Replicas } from "./replicas";
+import { TextLog } from "./text-log";
 import { Zookeeper } from "./zookeeper";
 
 /**
  * Type definition for a system table tab entry
  */
 export type SystemTableTabEntry = {
-  component: React.ComponentType<{ database: string; table: string }>;
+  component: React.ComponentType<SystemTableComponentProps>;
+};
+
+/**
+ * Props of a system table rendering component, queryId and eventDate are set when the table is
+ * opened for a specific query
+ */
+export type SystemTableComponentProps = {
+  database: string;
+  table: string;
+  queryId?: string;
+  eventDate?: string;
 };
 
 /**
@@ -20,13 +35,17 @@ export type SystemTableTabEntry = {
  * Value: tab entry
  */
 export const SYSTEM_TABLE_REGISTRY = new Map<string, SystemTableTabEntry>([
+  ["backups", { component: Backups }],
   ["dashboards", { component: Dashboards }],
   ["distributed_ddl_queue", { component: DistributedDDLQueue }],
+  ["mutations", { component: Mutations }],
   ["opentelemetry_span_log", { component: OpenTelemetrySpanLog }],
   ["query_log", { component: QueryLog }],
   ["query_views_log", { component: QueryViewsLog }],
   ["part_log", { component: PartLog }],
   ["processes", { component: Processes }],
+  ["replicas", { component: Replicas }],
+  ["text_log", { component: TextLog }],
   ["zookeeper", { component: Zookeeper }],
 ]);
 
@@ -38,6 +57,8 @@ function normalizeSystemTableName(tableName: string): string {
     return "part_log";
   } else if (/^opentelemetry_span_log_\d+$/.test(tableName)) {
     return "opentelemetry_span_log";
+  } else if (/^text_log_\d+$/.test(tableName)) {
+    return "text_log";
   }
   return tableName;
 }
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { appendTextLogRows, buildTextLogTailSQL, type TextLogRow } from "./text-log-tail";
+
+function row(ts_us: number, host?: string): TextLogRow {
+  return {
+    host,
+    event_time_microseconds: "",
+    ts_us,
+    thread_id: 1,
+    level: "Information",
+    query_id: "",
+    logger_name: "test",
+    message: String(ts_us),
+  };
+}
+
+describe("text log live tail", () => {
+  it("polls the lines after the cursor minus the overlap window", () => {
+    const sql = buildTextLogTailSQL(1_700_000_000_123_456, false);
+    expect(sql).toContain("event_time >= toDateTime(1699999970)");
+    expect(sql).toContain("ts_us > 1699999970123456");
+    expect(sql).toContain("ORDER BY ts_us DESC");
+    expect(sql).not.toContain("FQDN()");
+    expect(buildTextLogTailSQL(0, true)).toContain("FQDN() AS host");
+  });
+
+  it("appends lines in time order and drops the oldest ones", () => {
+    const rows = [row(1), row(2)];
+    expect(appendTextLogRows(rows, [])).toBe(rows);
+    expect(appendTextLogRows(rows, [row(4), row(3)]).map((r) => r.ts_us)).toEqual([1, 2, 3, 4]);
+    expect(appendTextLogRows(rows, [row(3), row(4)], 3).map((r) => r.ts_us)).toEqual([2, 3, 4]);
+  });
+
+  it("keeps the lines of a replica that were flushed after newer lines of another one", () => {
+    // node2 flushed its 2nd line after the first poll read the 3rd line of node1
+    const rows = appendTextLogRows([], [row(1, "node1"), row(3, "node1")]);
+    const next = appendTextLogRows(rows, [row(1, "node1"), row(2, "node2"), row(3, "node1")]);
+    expect(next.map((r) => `${r.host}:${r.ts_us}`)).toEqual(["node1:1", "node2:2", "node1:3"]);
+    expect(appendTextLogRows(next, [row(2, "node2"), row(3, "node1")])).toBe(next);
+  });
+});
@@ -0,0 +1,113 @@
+export interface TextLogRow {
+  host?: string;
+  event_time_microseconds: string;
+  // Cursor of the live tail, from toUnixTimestamp64Micro(event_time_microseconds)
+  ts_us: number;
+  thread_id: number;
+  level: string;
+  query_id: string;
+  logger_name: string;
+  message: string;
+}
+
+// Levels of the Enum8 level column of system.text_log, from the most to the least severe
+export const TEXT_LOG_LEVELS = [
+  "Fatal",
+  "Critical",
+  "Error",
+  "Warning",
+  "Notice",
+  "Information",
+  "Debug",
+  "Trace",
+  "Test",
+];
+
+export const TEXT_LOG_LEVEL_CLASS_NAMES: Record<string, string> = {
+  Fatal: "text-red-700 dark:text-red-400 font-semibold",
+  Critical: "text-red-700 dark:text-red-400 font-semibold",
+  Error: "text-red-600 dark:text-red-400",
+  Warning: "text-amber-600 dark:text-amber-400",
+  Notice: "text-blue-600 dark:text-blue-400",
+  Information: "text-green-700 dark:text-green-400",
+  Debug: "text-muted-foreground",
+  Trace: "text-muted-foreground/70",
+  Test: "text-muted-foreground/70",
+};
+
+// Maximum number of lines kept in the viewer, the oldest ones are dropped during live tail
+export const MAX_TEXT_LOG_LINES = 5000;
+
+/**
+ * Each poll re-reads the lines of this window before the cursor. Lines reach system.text_log when
+ * the server flushes its log buffer (every 7.5 seconds by default), and the replicas flush
+ * independently, so a line can show up after newer lines of the same or another replica were read.
+ */
+const TEXT_LOG_TAIL_OVERLAP_MICROSECONDS = 30_000_000;
+
+/**
+ * SQL that loads the latest log lines logged after the given cursor minus the overlap window.
+ * Newest first, so that a busy server whose window holds more lines than the limit still moves the tail.
+ * The lines that were already read are removed by appendTextLogRows.
+ * {filterExpression:String} is left for the SQLQueryBuilder.
+ */
+export function buildTextLogTailSQL(afterMicroseconds: number, withHost: boolean): string {
+  const fromMicroseconds = Math.max(0, afterMicroseconds - TEXT_LOG_TAIL_OVERLAP_MICROSECONDS);
+  const fromSeconds = Math.floor(fromMicroseconds / 1_000_000);
+  return `
+SELECT
+  ${withHost ? "FQDN() AS host," : ""}
+  event_time_microseconds,
+  toUnixTimestamp64Micro(event_time_microseconds) AS ts_us,
+  thread_id,
+  level,
+  query_id,
+  logger_name,
+  message
+FROM {clusterAllReplicas:system.text_log}
+WHERE {filterExpression:String}
+AND event_date >= toDate(toDateTime(${fromSeconds}))
+AND event_time >= toDateTime(${fromSeconds})
+AND ts_us > ${fromMicroseconds}
+ORDER BY ts_us DESC
+LIMIT ${MAX_TEXT_LOG_LINES}`;
+}
+
+function getTextLogRowKey(row: TextLogRow): string {
+  return [
+    row.host ?? "",
+    row.ts_us,
+    row.thread_id,
+    row.query_id,
+    row.logger_name,
+    row.message,
+  ].join("\u0000");
+}
+
+/**
+ * Append the lines of a poll to the lines shown, skipping the lines of the overlap window that are
+ * already shown, keeping the lines ordered by time and at most maxLines of them
+ */
+export function appendTextLogRows(
+  rows: TextLogRow[],
+  incoming: TextLogRow[],
+  maxLines: number = MAX_TEXT_LOG_LINES
+): TextLogRow[] {
+  if (incoming.length === 0) {
+    return rows;
+  }
+
+  const oldestIncoming = Math.min(...incoming.map((row) => row.ts_us));
+  const shown = new Set<string>();
+  for (let i = rows.length - 1; i >= 0 && rows[i].ts_us >= oldestIncoming; i--) {
+    shown.add(getTextLogRowKey(rows[i]));
+  }
+  const added = incoming.filter((row) => !shown.has(getTextLogRowKey(row)));
+  if (added.length === 0) {
+    return rows;
+  }
+
+  // Replicas are polled by one query so their lines are interleaved by time here
+  const merged = [...rows, ...added].sort((a, b) => a.ts_us - b.ts_us);
+  return merged.length > maxLines ? merged.slice(merged.length - maxLines) : merged;
+}
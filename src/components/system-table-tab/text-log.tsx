@@ -0,0 +1,384 @@
+"use client";
+
+import { useConnection } from "@/components/connection/connection-context";
+import type {
+  Dashboard,
+  DateTimeFilterSpec,
+  FilterSpec,
+  SelectorFilterSpec,
+  TimeseriesDescriptor,
+} from "@/components/shared/dashboard/dashboard-model";
+import DashboardPage from "@/components/shared/dashboard/dashboard-page";
+import { useDashboardRefresh } from "@/components/shared/dashboard/dashboard-panel-container";
+import { SQLQueryBuilder } from "@/components/shared/dashboard/sql-query-builder";
+import type { TimeSpan } from "@/components/shared/dashboard/timespan-selector";
+import { QueryIdLink } from "@/components/shared/query-id-link";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AnsiText, containsAnsiCodes } from "@/lib/ansi-parser";
+import type { JSONFormatResponse } from "@/lib/connection/connection";
+import { hostNameManager } from "@/lib/host-name-manager";
+import { format, isValid, parseISO } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  appendTextLogRows,
+  buildTextLogTailSQL,
+  MAX_TEXT_LOG_LINES,
+  TEXT_LOG_LEVEL_CLASS_NAMES,
+  TEXT_LOG_LEVELS,
+  type TextLogRow,
+} from "./text-log-tail";
+
+interface TextLogProps {
+  database: string;
+  table: string;
+  // Show the logs of a query, set when the viewer is opened from the query log inspector
+  queryId?: string;
+  eventDate?: string;
+}
+
+const LIVE_TAIL_INTERVAL_MS = 2000;
+
+/**
+ * Time span label that covers the whole day of the given event date
+ */
+function getEventDateTimeSpanLabel(eventDate: string): string | undefined {
+  const start = parseISO(eventDate.substring(0, 10) + "T00:00:00");
+  if (!isValid(start)) {
+    return undefined;
+  }
+  const end = new Date(start.getTime() + 24 * 3600 * 1000 - 1000);
+  return `${format(start, "yyyy-MM-dd'T'HH:mm:ssXXX")} - ${format(end, "yyyy-MM-dd'T'HH:mm:ssXXX")}`;
+}
+
+const TextLogLine = memo(({ row, showHost }: { row: TextLogRow; showHost: boolean }) => {
+  return (
+    <div className="flex gap-2 px-2 py-0.5 hover:bg-muted/50 font-mono text-xs leading-5">
+      <span className="shrink-0 text-muted-foreground tabular-nums">
+        {row.event_time_microseconds}
+      </span>
+      {showHost && <span className="shrink-0 text-muted-foreground">{row.host}</span>}
+      <span className="shrink-0 text-muted-foreground tabular-nums">[{row.thread_id}]</span>
+      <span className="shrink-0 w-14">
+        {row.query_id ? (
+          <QueryIdLink displayQueryId={row.query_id} queryId={row.query_id} />
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        )}
+      </span>
+      <span className={`shrink-0 w-20 ${TEXT_LOG_LEVEL_CLASS_NAMES[row.level] ?? ""}`}>
+        &lt;{row.level}&gt;
+      </span>
+      <span className="shrink-0 text-muted-foreground">{row.logger_name}:</span>
+      <span className="min-w-0 whitespace-pre-wrap break-all">
+        {containsAnsiCodes(row.message) ? <AnsiText>{row.message}</AnsiText> : row.message}
+      </span>
+    </div>
+  );
+});
+
+const TextLogLinesView = memo(({ showHost }: { showHost: boolean }) => {
+  const { connection } = useConnection();
+  const [rows, setRows] = useState<TextLogRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLiveTail, setLiveTail] = useState(false);
+
+  const currentTimeSpanRef = useRef<TimeSpan | undefined>(undefined);
+  const currentFilterExpressionRef = useRef<string | undefined>(undefined);
+  const rowsRef = useRef<TextLogRow[]>([]);
+  const isPollingRef = useRef(false);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+
+  const updateRows = useCallback((newRows: TextLogRow[]) => {
+    rowsRef.current = newRows;
+    setRows(newRows);
+  }, []);
+
+  const fetchData = useCallback(
+    async (timeSpan?: TimeSpan, filterExpression?: string) => {
+      if (!connection) return;
+
+      const effectiveTimeSpan = timeSpan ?? currentTimeSpanRef.current;
+      if (!effectiveTimeSpan) return;
+
+      currentTimeSpanRef.current = effectiveTimeSpan;
+      currentFilterExpressionRef.current = filterExpression;
+
+      setIsLoading(true);
+      setError(null);
+      try {
+        // The latest lines of the time span, shown oldest first like a log file
+        const sql = new SQLQueryBuilder(
+          `
+SELECT
+  ${showHost ? "FQDN() AS host," : ""}
+  event_time_microseconds,
+  toUnixTimestamp64Micro(event_time_microseconds) AS ts_us,
+  thread_id,
+  level,
+  query_id,
+  logger_name,
+  message
+FROM {clusterAllReplicas:system.text_log}
+WHERE {filterExpression:String}
+AND event_date >= toDate({from:String})
+AND event_date <= toDate({to:String})
+AND event_time >= {from:String}
+AND event_time < {to:String}
+ORDER BY ts_us DESC
+LIMIT ${MAX_TEXT_LOG_LINES}`
+        )
+          .timeSpan(effectiveTimeSpan, connection.metadata.timezone || "UTC")
+          .filterExpression(filterExpression)
+          .build();
+
+        const response = await connection.query(sql, {
+          default_format: "JSON",
+          output_format_json_quote_64bit_integers: 0,
+        }).response;
+        const fetchedRows = response.data.json<JSONFormatResponse>()
+          .data as unknown as TextLogRow[];
+        updateRows(
+          fetchedRows.reverse().map((row) => ({
+            ...row,
+            host: row.host ? hostNameManager.getShortHostname(row.host) : row.host,
+          }))
+        );
+      } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to fetch data";
+        console.error("Error fetching text log:", err);
+        setError(errorMessage);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [connection, showHost, updateRows]
+  );
+
+  // Register for dashboard refresh - this will be called when the dashboard refreshes
+  useDashboardRefresh(fetchData);
+
+  const pollTail = useCallback(async () => {
+    const timeSpan = currentTimeSpanRef.current;
+    if (!connection || !timeSpan || isPollingRef.current) return;
+
+    isPollingRef.current = true;
+    try {
+      const lastRow = rowsRef.current[rowsRef.current.length - 1];
+      const cursor = lastRow ? lastRow.ts_us : new Date(timeSpan.startISO8601).getTime() * 1000;
+      const sql = new SQLQueryBuilder(buildTextLogTailSQL(cursor, showHost))
+        .filterExpression(currentFilterExpressionRef.current)
+        .build();
+
+      const response = await connection.query(sql, {
+        default_format: "JSON",
+        output_format_json_quote_64bit_integers: 0,
+      }).response;
+      const incoming = response.data.json<JSONFormatResponse>().data as unknown as TextLogRow[];
+      updateRows(
+        appendTextLogRows(
+          rowsRef.current,
+          incoming.map((row) => ({
+            ...row,
+            host: row.host ? hostNameManager.getShortHostname(row.host) : row.host,
+          }))
+        )
+      );
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to fetch data");
+    } finally {
+      isPollingRef.current = false;
+    }
+  }, [connection, showHost, updateRows]);
+
+  useEffect(() => {
+    if (!isLiveTail) return;
+    const timer = setInterval(pollTail, LIVE_TAIL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLiveTail, pollTail]);
+
+  // Keep the newest lines in view while tailing
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (isLiveTail && container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [rows, isLiveTail]);
+
+  return (
+    <div className="flex flex-col border rounded-md mx-2 mb-2 min-h-0">
+      <div className="flex items-center gap-4 px-2 py-1 border-b text-sm">
+        <span className="font-semibold">Log Messages</span>
+        <span className="text-xs text-muted-foreground">
+          {rows.length >= MAX_TEXT_LOG_LINES
+            ? `Latest ${MAX_TEXT_LOG_LINES} lines`
+            : `${rows.length} lines`}
+        </span>
+        {isLoading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+        <div className="ml-auto flex items-center gap-2">
+          <Label htmlFor="text-log-live-tail" className="text-xs">
+            Live tail
+          </Label>
+          <Switch id="text-log-live-tail" checked={isLiveTail} onCheckedChange={setLiveTail} />
+        </div>
+      </div>
+      {error ? (
+        <div className="p-4 text-red-500 text-center">Error: {error}</div>
+      ) : (
+        <div ref={scrollContainerRef} className="overflow-auto h-[600px] py-1">
+          {rows.length === 0 && !isLoading ? (
+            <div className="p-4 text-sm text-muted-foreground text-center">
+              No log messages in the selected time range
+            </div>
+          ) : (
+            rows.map((row, index) => (
+              <TextLogLine key={`${row.ts_us}-${index}`} row={row} showHost={showHost} />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const TextLog = memo(
+  ({ database: _database, table: _table, queryId, eventDate }: TextLogProps) => {
+    const { connection } = useConnection();
+    const hasCluster = !!connection?.cluster && connection.cluster.length > 0;
+
+    const filterSpecs = useMemo<FilterSpec[]>(() => {
+      const specs: FilterSpec[] = [
+        {
+          filterType: "date_time",
+          alias: "_interval",
+          displayText: "time",
+          timeColumn: "event_time",
+          defaultTimeSpan:
+            (eventDate && getEventDateTimeSpanLabel(eventDate)) ||
+            (queryId ? "Today" : "Last 15 Mins"),
+        } as DateTimeFilterSpec,
+        {
+          filterType: "select",
+          name: "level",
+          displayText: "level",
+          onPreviousFilters: true,
+          datasource: {
+            type: "inline",
+            values: TEXT_LOG_LEVELS.map((level) => ({ label: level, value: level })),
+          },
+        } as SelectorFilterSpec,
+        {
+          filterType: "select",
+          name: "logger_name",
+          displayText: "logger",
+          onPreviousFilters: true,
+          datasource: {
+            type: "sql",
+            sql: `
+SELECT DISTINCT logger_name
+FROM {clusterAllReplicas:system.text_log}
+WHERE ({filterExpression:String})
+  AND event_date >= toDate({from:String})
+  AND event_date <= toDate({to:String})
+  AND event_time >= {from:String}
+  AND event_time < {to:String}
+ORDER BY logger_name
+LIMIT 500`,
+          },
+        } as SelectorFilterSpec,
+        {
+          filterType: "select",
+          name: "query_id",
+          displayText: "query_id",
+          onPreviousFilters: true,
+          datasource: {
+            type: "sql",
+            sql: `
+SELECT DISTINCT query_id
+FROM {clusterAllReplicas:system.text_log}
+WHERE ({filterExpression:String})
+  AND event_date >= toDate({from:String})
+  AND event_date <= toDate({to:String})
+  AND event_time >= {from:String}
+  AND event_time < {to:String}
+  AND query_id <> ''
+LIMIT 100`,
+          },
+          defaultPattern: queryId ? { comparator: "=", values: [queryId] } : undefined,
+        } as SelectorFilterSpec,
+      ];
+      if (hasCluster) {
+        specs.push({
+          filterType: "select",
+          name: "FQDN()",
+          displayText: "FQDN",
+          onPreviousFilters: true,
+          datasource: {
+            type: "sql",
+            sql: `select distinct host_name from system.clusters WHERE cluster = '{cluster}' order by FQDN()`,
+          },
+        } as SelectorFilterSpec);
+      }
+      return specs;
+    }, [hasCluster, queryId, eventDate]);
+
+    const dashboard = useMemo<Dashboard>(() => {
+      return {
+        version: 3,
+        filter: {},
+        charts: [
+          {
+            type: "bar",
+            titleOption: { title: "Log Messages By Level", showTitle: true, align: "left" },
+            datasource: {
+              sql: `
+SELECT
+    toStartOfInterval(event_time, interval {rounding:UInt32} second) as t,
+    toString(level) AS level,
+    count(1) as count
+FROM {clusterAllReplicas:system.text_log}
+WHERE
+  {filterExpression:String}
+  AND event_date >= toDate({from:String})
+  AND event_date <= toDate({to:String})
+  AND event_time >= {from:String}
+  AND event_time < {to:String}
+GROUP BY t, level
+ORDER BY t, level
+`,
+            },
+            legendOption: {
+              placement: "inside",
+            },
+            fieldOptions: {
+              t: { name: "t", type: "datetime" },
+              count: { name: "count", type: "number" },
+              level: { name: "level", type: "string" },
+            },
+            stacked: true,
+            height: 150,
+            gridPos: { w: 24, h: 4 },
+          } as TimeseriesDescriptor,
+        ],
+      };
+    }, []);
+
+    return (
+      <DashboardPage
+        panels={dashboard}
+        filterSpecs={filterSpecs}
+        showInputFilter={true}
+        timezone={connection?.metadata.timezone ?? "UTC"}
+        showTimeSpanSelector={true}
+        showRefresh={true}
+        showAutoRefresh={false}
+        chartSelectionFilterName="level"
+      >
+        <TextLogLinesView showHost={hasCluster} />
+      </DashboardPage>
+    );
+  }
+);
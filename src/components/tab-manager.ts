@@ -16,7 +16,9 @@ export type TabType =
   | "dashboard"
   | "query-log"
   | "span-log"
-  | "system-table";
+  | "system-table"
+  | "access"
+  | "schema-diff";
 
 export interface BaseTabInfo {
   id: string;
@@ -28,6 +30,15 @@ export interface QueryTabInfo extends BaseTabInfo {
   initialQuery?: string;
   initialMode?: "replace" | "insert" | "none";
   initialExecute?: boolean;
+  // Values of the {name:Type} parameters of the initial query when it's executed
+  initialParameters?: Record<string, string>;
+  // Statements to execute one by one by the batch executor of the query tab
+  initialBatch?: QueryBatch;
+}
+
+export interface QueryBatch {
+  statements: string[];
+  failureMode: "abort" | "continue";
 }
 
 export interface TableTabInfo extends BaseTabInfo {
@@ -57,6 +68,12 @@ export interface ClusterTabInfo extends BaseTabInfo {
   cluster: string;
 }
 
+export interface DashboardTabInfo extends BaseTabInfo {
+  type: "dashboard";
+  dashboardId: string;
+  title?: string;
+}
+
 export interface QueryLogTabInfo extends BaseTabInfo {
   type: "query-log";
   queryId?: string;
@@ -72,6 +89,17 @@ export interface SpanLogTabInfo extends BaseTabInfo {
 export interface SystemTableTabInfo extends BaseTabInfo {
   type: "system-table";
   tableName: string;
+  // Open the table for a specific query, only used by the tables that support it
+  queryId?: string;
+  eventDate?: string;
+}
+
+export interface AccessTabInfo extends BaseTabInfo {
+  type: "access";
+}
+
+export interface SchemaDiffTabInfo extends BaseTabInfo {
+  type: "schema-diff";
 }
 
 export type TabInfo =
@@ -81,9 +109,12 @@ export type TabInfo =
   | DatabaseTabInfo
   | NodeTabInfo
   | ClusterTabInfo
+  | DashboardTabInfo
   | QueryLogTabInfo
   | SpanLogTabInfo
-  | SystemTableTabInfo;
+  | SystemTableTabInfo
+  | AccessTabInfo
+  | SchemaDiffTabInfo;
 
 /**
  * Event detail for active tab changes
@@ -160,6 +191,8 @@ export class TabManager {
     query?: string;
     mode?: "replace" | "insert" | "none";
     execute?: boolean;
+    parameters?: Record<string, string>;
+    batch?: QueryBatch;
   }): void {
     // Query tab always has ID "query"
     TabManager.openTab({
@@ -168,6 +201,21 @@ export class TabManager {
       initialQuery: options?.query,
       initialMode: options?.mode,
       initialExecute: options?.execute,
+      initialParameters: options?.parameters,
+      initialBatch: options?.batch,
+    });
+  }
+
+  /**
+   * Open the query in a new query tab, next to the default query tab
+   */
+  static openNewQueryTab(options: { query: string; execute?: boolean }): void {
+    TabManager.openTab({
+      id: `query:${Date.now()}`,
+      type: "query",
+      initialQuery: options.query,
+      initialMode: "replace",
+      initialExecute: options.execute,
     });
   }
 
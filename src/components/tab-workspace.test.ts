@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { TabInfo } from "./tab-manager";
+import { getWorkspacePath, parseWorkspacePath, toPersistableTab } from "./tab-workspace";
+
+function roundTrip(tab: TabInfo): TabInfo | null {
+  const url = new URL(getWorkspacePath("prod cluster", tab), "http://localhost");
+  const parsed = parseWorkspacePath(url.pathname, url.search);
+  expect(parsed?.connectionName).toBe("prod cluster");
+  return parsed?.tab ?? null;
+}
+
+describe("tab workspace URLs", () => {
+  it("builds a readable path for the query log inspector", () => {
+    expect(
+      getWorkspacePath("prod", {
+        id: "Query Log: 1234-abcd",
+        type: "query-log",
+        queryId: "1234-abcd",
+        eventDate: "2026-10-18",
+      })
+    ).toBe("/c/prod/query-log/1234-abcd?date=2026-10-18");
+  });
+
+  it("restores every tab type from its path", () => {
+    const tabs: TabInfo[] = [
+      { id: "query", type: "query" },
+      {
+        id: "table:db.my/table",
+        type: "table",
+        database: "db",
+        table: "my/table",
+        engine: "MergeTree",
+      },
+      { id: "database:db", type: "database", database: "db" },
+      { id: "dependency:db", type: "dependency", database: "db" },
+      { id: "cluster:default", type: "cluster", cluster: "default" },
+      { id: "dashboard:abc", type: "dashboard", dashboardId: "abc" },
+      { id: "Span Log: t1", type: "span-log", traceId: "t1", eventDate: undefined },
+      {
+        id: "system-table:text_log:q1",
+        type: "system-table",
+        tableName: "text_log",
+        queryId: "q1",
+        eventDate: "2026-10-18",
+      },
+      { id: "access", type: "access" },
+      { id: "schema-diff", type: "schema-diff" },
+    ];
+    for (const tab of tabs) {
+      expect(roundTrip(tab)).toEqual(tab);
+    }
+  });
+
+  it("keeps the full host name of a node tab in the id", () => {
+    const tab = roundTrip({ id: "node:ch-1.example.com", type: "node", host: "ch-1" });
+    expect(tab?.id).toBe("node:ch-1.example.com");
+  });
+
+  it("ignores paths that are not workspace URLs", () => {
+    expect(parseWorkspacePath("/login")).toBeNull();
+    expect(parseWorkspacePath("/c/prod")).toEqual({ connectionName: "prod", tab: null });
+    expect(parseWorkspacePath("/c/prod/unknown")).toEqual({ connectionName: "prod", tab: null });
+  });
+
+  it("drops the initial query of a query tab before it's persisted", () => {
+    expect(
+      toPersistableTab({
+        id: "query",
+        type: "query",
+        initialQuery: "DROP TABLE t",
+        initialExecute: true,
+      })
+    ).toEqual({ id: "query", type: "query" });
+  });
+});
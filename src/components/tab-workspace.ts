@@ -0,0 +1,202 @@
+import type { TabInfo } from "@/components/tab-manager";
+import { hostNameManager } from "@/lib/host-name-manager";
+import { StorageManager } from "@/lib/storage/storage-provider-manager";
+
+/**
+ * Open tabs and the active tab of a connection, restored when the page is reloaded
+ */
+export interface TabWorkspace {
+  tabs: TabInfo[];
+  activeTab: string;
+}
+
+// All workspace URLs start with /c/<connection name>
+const PATH_PREFIX = "/c/";
+
+/**
+ * Remove the fields of a tab that only apply when it's opened, e.g. the query to execute,
+ * so that a restored tab does not execute anything again.
+ */
+export function toPersistableTab(tab: TabInfo): TabInfo {
+  if (tab.type === "query") {
+    return { id: tab.id, type: "query" };
+  }
+  return tab;
+}
+
+function encode(...segments: string[]): string {
+  return segments.map((segment) => encodeURIComponent(segment)).join("/");
+}
+
+function withSearch(path: string, params: Record<string, string | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) {
+      search.set(key, value);
+    }
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Build the URL of a tab, e.g. /c/prod/query-log/<queryId>
+ */
+export function getWorkspacePath(connectionName: string, tab: TabInfo | null): string {
+  const base = `${PATH_PREFIX}${encode(connectionName)}`;
+  if (tab === null) {
+    return base;
+  }
+
+  switch (tab.type) {
+    case "query":
+    case "access":
+    case "schema-diff":
+      return `${base}/${tab.type}`;
+    case "table":
+      return withSearch(`${base}/table/${encode(tab.database, tab.table)}`, {
+        engine: tab.engine,
+      });
+    case "dependency":
+    case "database":
+      return `${base}/${tab.type}/${encode(tab.database)}`;
+    case "node":
+      // The id keeps the full host name while the host of the tab is the short one
+      return `${base}/node/${encode(tab.id.startsWith("node:") ? tab.id.substring(5) : tab.host)}`;
+    case "cluster":
+      return `${base}/cluster/${encode(tab.cluster)}`;
+    case "dashboard":
+      return `${base}/dashboard/${encode(tab.dashboardId)}`;
+    case "query-log":
+      return withSearch(`${base}/query-log${tab.queryId ? `/${encode(tab.queryId)}` : ""}`, {
+        date: tab.eventDate,
+      });
+    case "span-log":
+      return withSearch(`${base}/span-log${tab.traceId ? `/${encode(tab.traceId)}` : ""}`, {
+        date: tab.eventDate,
+      });
+    case "system-table":
+      return withSearch(
+        `${base}/system-table/${encode(tab.tableName)}${tab.queryId ? `/${encode(tab.queryId)}` : ""}`,
+        { date: tab.eventDate }
+      );
+  }
+}
+
+/**
+ * Parse the URL built by getWorkspacePath.
+ * Returns null if the path is not a workspace URL, tab is null if the URL only selects the connection.
+ */
+export function parseWorkspacePath(
+  pathname: string,
+  search: string = ""
+): { connectionName: string; tab: TabInfo | null } | null {
+  if (!pathname.startsWith(PATH_PREFIX)) {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = pathname
+      .substring(PATH_PREFIX.length)
+      .split("/")
+      .filter((segment) => segment.length > 0)
+      .map((segment) => decodeURIComponent(segment));
+  } catch {
+    // Malformed escape sequence
+    return null;
+  }
+  const [connectionName, type, ...args] = segments;
+  if (!connectionName) {
+    return null;
+  }
+
+  const params = new URLSearchParams(search);
+  const date = params.get("date") ?? undefined;
+  const tab = ((): TabInfo | null => {
+    switch (type) {
+      case "query":
+      case "access":
+      case "schema-diff":
+        return { id: type, type };
+      case "table":
+        return args.length >= 2
+          ? {
+              id: `table:${args[0]}.${args[1]}`,
+              type: "table",
+              database: args[0],
+              table: args[1],
+              engine: params.get("engine") ?? undefined,
+            }
+          : null;
+      case "dependency":
+      case "database":
+        return args[0] ? { id: `${type}:${args[0]}`, type, database: args[0] } : null;
+      case "node":
+        return args[0]
+          ? { id: `node:${args[0]}`, type: "node", host: hostNameManager.getShortHostname(args[0]) }
+          : null;
+      case "cluster":
+        return args[0] ? { id: `cluster:${args[0]}`, type: "cluster", cluster: args[0] } : null;
+      case "dashboard":
+        return args[0]
+          ? { id: `dashboard:${args[0]}`, type: "dashboard", dashboardId: args[0] }
+          : null;
+      case "query-log":
+        return {
+          id: `Query Log: ${args[0] ?? ""}`,
+          type: "query-log",
+          queryId: args[0],
+          eventDate: date,
+        };
+      case "span-log":
+        return {
+          id: `Span Log: ${args[0] ?? ""}`,
+          type: "span-log",
+          traceId: args[0],
+          eventDate: date,
+        };
+      case "system-table":
+        return args[0]
+          ? {
+              id: args[1] ? `system-table:${args[0]}:${args[1]}` : `system-table:${args[0]}`,
+              type: "system-table",
+              tableName: args[0],
+              queryId: args[1],
+              eventDate: date,
+            }
+          : null;
+      default:
+        return null;
+    }
+  })();
+
+  return { connectionName, tab };
+}
+
+/**
+ * Keeps the workspace of each connection in the storage provider
+ */
+export class TabWorkspaceStorage {
+  private static getStorage() {
+    return StorageManager.getInstance().getStorageProvider().subStorage("workspace-tabs");
+  }
+
+  public static load(connectionName: string): TabWorkspace | null {
+    const workspace = TabWorkspaceStorage.getStorage().getChildAsJSON<TabWorkspace | null>(
+      connectionName,
+      () => null
+    );
+    if (!workspace || !Array.isArray(workspace.tabs)) {
+      return null;
+    }
+    return workspace;
+  }
+
+  public static save(connectionName: string, workspace: TabWorkspace): void {
+    TabWorkspaceStorage.getStorage().setChildJSON(connectionName, {
+      tabs: workspace.tabs.map(toPersistableTab),
+      activeTab: workspace.activeTab,
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import type { ColumnSchema } from "@/components/schema-diff-tab/schema-diff";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, Trash2 } from "lucide-react";
+
+export const DEFAULT_KINDS = ["", "DEFAULT", "MATERIALIZED", "ALIAS", "EPHEMERAL"];
+
+export function createEmptyColumn(): ColumnSchema {
+  return { name: "", type: "", defaultKind: "", defaultExpression: "", codec: "", comment: "" };
+}
+
+interface ColumnListEditorProps<T extends ColumnSchema> {
+  columns: T[];
+  onChange: (columns: T[]) => void;
+  // Stable key of a row, the index is used when not given
+  getKey?: (column: T, index: number) => string;
+}
+
+/**
+ * Grid of editable column definitions: name, type, default, codec and comment
+ */
+export function ColumnListEditor<T extends ColumnSchema>({
+  columns,
+  onChange,
+  getKey,
+}: ColumnListEditorProps<T>) {
+  const updateColumn = (index: number, value: Partial<ColumnSchema>) =>
+    onChange(columns.map((column, i) => (i === index ? { ...column, ...value } : column)));
+
+  return (
+    <div className="grid grid-cols-[1fr_1fr_130px_1fr_1fr_1fr_32px] gap-1 items-center text-xs text-muted-foreground">
+      <span>Name</span>
+      <span>Type</span>
+      <span>Default</span>
+      <span>Expression</span>
+      <span>Codec</span>
+      <span>Comment</span>
+      <span />
+      {columns.map((column, index) => (
+        <div key={getKey ? getKey(column, index) : index} className="contents">
+          <Input
+            className="h-8 font-mono"
+            value={column.name}
+            onChange={(e) => updateColumn(index, { name: e.target.value })}
+          />
+          <Input
+            className="h-8 font-mono"
+            value={column.type}
+            placeholder="String"
+            onChange={(e) => updateColumn(index, { type: e.target.value })}
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 justify-between">
+                {column.defaultKind || "(none)"}
+                <ChevronDown className="h-4 w-4 opacity-50" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuRadioGroup
+                value={column.defaultKind}
+                onValueChange={(defaultKind) =>
+                  updateColumn(index, {
+                    defaultKind,
+                    defaultExpression: defaultKind ? column.defaultExpression : "",
+                  })
+                }
+              >
+                {DEFAULT_KINDS.map((kind) => (
+                  <DropdownMenuRadioItem key={kind} value={kind}>
+                    {kind || "(none)"}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Input
+            className="h-8 font-mono"
+            value={column.defaultExpression}
+            disabled={!column.defaultKind}
+            onChange={(e) => updateColumn(index, { defaultExpression: e.target.value })}
+          />
+          <Input
+            className="h-8 font-mono"
+            value={column.codec}
+            placeholder="CODEC(ZSTD(1))"
+            onChange={(e) => updateColumn(index, { codec: e.target.value })}
+          />
+          <Input
+            className="h-8"
+            value={column.comment}
+            onChange={(e) => updateColumn(index, { comment: e.target.value })}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 shrink-0"
+            onClick={() => onChange(columns.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
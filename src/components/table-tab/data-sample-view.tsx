@@ -25,6 +25,7 @@ const DataSampleViewComponent = forwardRef<RefreshableTabViewRef, DataSampleView
     // 1. Modify RefreshableTableComponent to support a defaultFormatter prop
     // 2. Update the descriptor after the first data load with discovered column names
     const tableDescriptor = useMemo<TableDescriptor>(() => {
+      const fullTableName = `${SqlUtils.escapeSqlString(database)}.${SqlUtils.escapeSqlString(table)}`;
       return {
         type: "table",
         id: `data-sample-${database}-${table}`,
@@ -34,13 +35,18 @@ const DataSampleViewComponent = forwardRef<RefreshableTabViewRef, DataSampleView
           isSticky: true,
         },
         datasource: {
-          sql: `SELECT * FROM ${SqlUtils.escapeSqlString(database)}.${SqlUtils.escapeSqlString(table)} LIMIT 1000`,
+          sql: `SELECT * FROM ${fullTableName} LIMIT 1000`,
           params: {
             default_format: "JSON",
             output_format_json_quote_64bit_integers: 0,
           },
         },
         fieldOptions: {},
+        exportOption: {
+          // Export is not restricted by the sample size
+          sql: `SELECT * FROM ${fullTableName}`,
+          defaultRowLimit: 100000,
+        },
       };
     }, [database, table]);
 
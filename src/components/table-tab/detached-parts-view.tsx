@@ -0,0 +1,419 @@
+import { useConnection } from "@/components/connection/connection-context";
+import type { FieldOption, TableDescriptor } from "@/components/shared/dashboard/dashboard-model";
+import type { DashboardVisualizationComponent } from "@/components/shared/dashboard/dashboard-visualization-layout";
+import { DashboardVisualizationPanel } from "@/components/shared/dashboard/dashboard-visualization-panel";
+import type { TimeSpan } from "@/components/shared/dashboard/timespan-selector";
+import { ThemedSyntaxHighlighter } from "@/components/shared/themed-syntax-highlighter";
+import { Dialog } from "@/components/shared/use-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Connection, JSONCompactFormatResponse } from "@/lib/connection/connection";
+import { SqlUtils } from "@/lib/sql-utils";
+import { toastManager } from "@/lib/toast";
+import { Loader2, Paperclip, Trash2 } from "lucide-react";
+import {
+  forwardRef,
+  memo,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { v7 as uuidv7 } from "uuid";
+import {
+  buildDetachedPartCommandSQL,
+  canAttachDetachedPart,
+  describeDetachedPartReason,
+  getDetachedPartCommandSettings,
+  getDetachedPartSessionSettings,
+  isSessionNotFoundError,
+  type DetachedPartAction,
+} from "./detached-parts";
+import type { RefreshableTabViewRef } from "./table-tab";
+
+// Reasons listed under the table, the others are explained in the tooltip of the reason column
+const COMMON_REASONS = ["", "broken", "unexpected", "ignored", "clone", "noquorum"];
+
+interface DetachedPartCommandProps {
+  action: DetachedPartAction;
+  database: string;
+  table: string;
+  row: Record<string, unknown>;
+  connection: Connection;
+  onSuccess: () => void;
+}
+
+function DetachedPartCommandContent({
+  action,
+  database,
+  table,
+  row,
+  connection,
+  onSuccess,
+}: DetachedPartCommandProps) {
+  const [confirmText, setConfirmText] = useState("");
+  const [isExecuting, setExecuting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const partName = row.name as string;
+  const reason = (row.reason as string) ?? "";
+  const host = row.host_name as string | undefined;
+  const sql = buildDetachedPartCommandSQL(action, database, table, partName);
+  const settings = getDetachedPartCommandSettings(action);
+
+  // Dropping removes the files from disk, so the part name has to be typed to confirm
+  const isConfirmed = action === "ATTACH" || confirmText === partName;
+
+  const handleExecute = async () => {
+    setExecuting(true);
+    setError(null);
+    const verb = action === "ATTACH" ? "attach" : "drop";
+    const sessionId = uuidv7();
+    try {
+      // Detached parts are local to a replica, and the statement is executed on the node the request is sent to.
+      // Both requests share a session, so that the command fails instead of running on another node.
+      if (host) {
+        const { response } = connection.query("SELECT FQDN()", {
+          default_format: "JSONCompact",
+          ...getDetachedPartSessionSettings(sessionId, false),
+        });
+        const currentHost = (await response).data.json<JSONCompactFormatResponse>().data[0][0];
+        if (currentHost !== host) {
+          setError(
+            `The part is on ${host}, but the request was served by ${currentHost}. Connect to ${host} directly to ${verb} this part.`
+          );
+          return;
+        }
+      }
+
+      await connection.query(sql, {
+        default_format: "JSON",
+        ...settings,
+        ...(host ? getDetachedPartSessionSettings(sessionId, true) : {}),
+      }).response;
+      toastManager.show(
+        `Part ${partName} ${action === "ATTACH" ? "attached" : "dropped"} successfully`,
+        "success"
+      );
+      Dialog.close();
+      onSuccess();
+    } catch (e) {
+      if (isSessionNotFoundError(e)) {
+        setError(
+          `The request was routed to another node than ${host}, so the part was not changed. Connect to ${host} directly to ${verb} this part.`
+        );
+        return;
+      }
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExecuting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="grid grid-cols-[120px_1fr] gap-x-4 gap-y-1">
+        <span className="text-muted-foreground">Part</span>
+        <span className="font-mono break-all">{partName}</span>
+        {host && (
+          <>
+            <span className="text-muted-foreground">Replica</span>
+            <span>{host}</span>
+          </>
+        )}
+        <span className="text-muted-foreground">Reason</span>
+        <span>
+          <span className="font-mono">{reason === "" ? "(none)" : reason}</span>
+          <span className="text-muted-foreground"> — {describeDetachedPartReason(reason)}</span>
+        </span>
+      </div>
+
+      {action === "DROP" && (
+        <div className="flex flex-col gap-1">
+          <p className="text-destructive">
+            The part is removed from the detached directory permanently. This action cannot be
+            reverted.
+          </p>
+          <p className="text-muted-foreground">
+            Type <span className="font-mono text-foreground">{partName}</span> to confirm.
+          </p>
+          <Input
+            value={confirmText}
+            onChange={(e) => setConfirmText(e.target.value)}
+            className="h-8 font-mono"
+            placeholder={partName}
+          />
+        </div>
+      )}
+
+      <div>
+        <p className="font-medium mb-1">SQL to execute:</p>
+        <div className="border rounded-md overflow-auto bg-muted/30">
+          <ThemedSyntaxHighlighter
+            language="sql"
+            customStyle={{
+              margin: 0,
+              padding: "0.75rem",
+              fontSize: "12px",
+              backgroundColor: "transparent",
+            }}
+            wrapLongLines
+          >
+            {sql +
+              Object.entries(settings)
+                .map(([name, value]) => `\nSETTINGS ${name} = ${value}`)
+                .join("")}
+          </ThemedSyntaxHighlighter>
+        </div>
+      </div>
+
+      {error && (
+        <pre className="text-xs text-destructive whitespace-pre-wrap break-all max-h-[200px] overflow-auto">
+          {error}
+        </pre>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={isExecuting} onClick={() => Dialog.close()}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          variant={action === "ATTACH" ? "default" : "destructive"}
+          disabled={isExecuting || !isConfirmed}
+          onClick={handleExecute}
+          className="gap-1"
+        >
+          {isExecuting && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          {action === "ATTACH" ? "Attach Part" : "Drop Part"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function showDetachedPartCommandDialog(props: DetachedPartCommandProps) {
+  Dialog.showDialog({
+    title: props.action === "ATTACH" ? "Attach Part" : "Drop Detached Part",
+    className: "max-w-[720px]",
+    mainContent: <DetachedPartCommandContent {...props} />,
+  });
+}
+
+export interface DetachedPartsViewProps {
+  database: string;
+  table: string;
+  autoLoad?: boolean;
+}
+
+const DetachedPartsViewComponent = forwardRef<RefreshableTabViewRef, DetachedPartsViewProps>(
+  ({ database, table, autoLoad = false }, ref) => {
+    const { connection } = useConnection();
+    const tableComponentRef = useRef<DashboardVisualizationComponent | null>(null);
+    const isMountedRef = useRef(true);
+
+    const hasCluster = connection?.cluster && connection.cluster.length > 0;
+
+    useImperativeHandle(ref, () => ({
+      refresh: (_timeSpan?: TimeSpan) => {
+        tableComponentRef.current?.refresh({ forceRefresh: true });
+      },
+    }));
+
+    useEffect(() => {
+      isMountedRef.current = true;
+      if (autoLoad) {
+        tableComponentRef.current?.refresh({});
+      }
+
+      return () => {
+        isMountedRef.current = false;
+      };
+    }, [autoLoad]);
+
+    const handleActionClick = useCallback(
+      (action: DetachedPartAction, row: Record<string, unknown>) => {
+        if (!connection) {
+          return;
+        }
+
+        showDetachedPartCommandDialog({
+          action,
+          database,
+          table,
+          row,
+          connection,
+          onSuccess: () => {
+            if (isMountedRef.current) {
+              tableComponentRef.current?.refresh({ forceRefresh: true });
+            }
+          },
+        });
+      },
+      [connection, database, table]
+    );
+
+    const tableDescriptor = useMemo<TableDescriptor>(() => {
+      return {
+        type: "table",
+        id: `detached-parts-view-${database}-${table}`,
+        titleOption: {
+          title: "Detached Parts",
+          description: "Parts in the detached directory of the table, from system.detached_parts",
+          align: "left",
+        },
+        collapsed: false,
+        width: 100,
+        miscOption: { enableIndexColumn: true },
+        datasource: {
+          sql: `
+SELECT
+    ${hasCluster ? "FQDN() AS host_name," : ""}
+    name,
+    reason,
+    partition_id,
+    disk,
+    bytes_on_disk,
+    modification_time,
+    path
+FROM
+    {clusterAllReplicas:system.detached_parts}
+WHERE
+    database = '${SqlUtils.escapeSqlString(database)}'
+    AND table = '${SqlUtils.escapeSqlString(table)}'
+ORDER BY
+    modification_time DESC`,
+          headers: {
+            "Content-Type": "text/plain",
+          },
+        },
+        fieldOptions: {
+          host_name: {
+            title: "Replica",
+            sortable: true,
+            format: "shortHostName",
+          },
+          name: {
+            title: "Part",
+            sortable: true,
+          },
+          reason: {
+            title: "Reason",
+            sortable: true,
+            align: "center",
+            format: (value: unknown) => {
+              const reason = String(value ?? "");
+              return (
+                <span
+                  title={describeDetachedPartReason(reason)}
+                  className="cursor-help underline decoration-dotted"
+                >
+                  {reason === "" ? "(none)" : reason}
+                </span>
+              );
+            },
+          },
+          partition_id: {
+            title: "Partition ID",
+            sortable: true,
+            align: "center",
+          },
+          disk: {
+            title: "Disk",
+            sortable: true,
+            align: "center",
+          },
+          bytes_on_disk: {
+            title: "On Disk Size",
+            sortable: true,
+            align: "center",
+            format: "binary_size",
+          },
+          modification_time: {
+            title: "Modification Time",
+            sortable: true,
+            align: "center",
+          },
+          path: {
+            title: "Path",
+            format: "truncatedText",
+            formatArgs: [80],
+          },
+        } as Record<string, FieldOption>,
+
+        actions: [
+          {
+            title: "Action",
+            align: "center",
+
+            renderAction: (row: Record<string, unknown>, _rowIndex: number) => {
+              const partName = String(row.name || "");
+              const canAttach = canAttachDetachedPart(String(row.reason ?? ""));
+              return (
+                <div className="flex items-center justify-center gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleActionClick("ATTACH", row)}
+                    className="h-4 w-4 p-0"
+                    disabled={!canAttach}
+                    title={
+                      canAttach
+                        ? `Attach part ${partName}`
+                        : "Only parts detached by the user can be attached"
+                    }
+                    aria-label={`Attach part ${partName}`}
+                  >
+                    <Paperclip className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleActionClick("DROP", row)}
+                    className="h-4 w-4 p-0"
+                    title={`Drop detached part ${partName}`}
+                    aria-label={`Drop detached part ${partName}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              );
+            },
+          },
+        ],
+
+        sortOption: {
+          initialSort: {
+            column: "modification_time",
+            direction: "desc",
+          },
+        },
+      };
+    }, [database, table, hasCluster, handleActionClick]);
+
+    return (
+      <div className="flex flex-col gap-2">
+        <DashboardVisualizationPanel ref={tableComponentRef} descriptor={tableDescriptor} />
+        <div className="text-xs text-muted-foreground px-1 pb-2">
+          <p className="font-medium text-foreground mb-1">Common reasons</p>
+          <dl className="grid grid-cols-[120px_1fr] gap-x-4 gap-y-1">
+            {COMMON_REASONS.map((reason) => (
+              <div key={reason} className="contents">
+                <dt className="font-mono">{reason === "" ? "(none)" : reason}</dt>
+                <dd>{describeDetachedPartReason(reason)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+    );
+  }
+);
+
+DetachedPartsViewComponent.displayName = "DetachedPartsView";
+
+export const DetachedPartsView = memo(DetachedPartsViewComponent);
@@ -0,0 +1,72 @@
+import { QueryError } from "@/lib/connection/connection";
+import { describe, expect, it } from "vitest";
+import {
+  buildDetachedPartCommandSQL,
+  canAttachDetachedPart,
+  describeDetachedPartReason,
+  getDetachedPartCommandSettings,
+  getDetachedPartSessionSettings,
+  isSessionNotFoundError,
+} from "./detached-parts";
+
+describe("buildDetachedPartCommandSQL", () => {
+  it("builds ATTACH PART and DROP DETACHED PART statements", () => {
+    expect(buildDetachedPartCommandSQL("ATTACH", "db", "events", "202401_1_5_1")).toBe(
+      "ALTER TABLE `db`.`events` ATTACH PART '202401_1_5_1'"
+    );
+    expect(buildDetachedPartCommandSQL("DROP", "db", "my`table", "broken_all_1_1_0")).toBe(
+      "ALTER TABLE `db`.`my``table` DROP DETACHED PART 'broken_all_1_1_0'"
+    );
+  });
+
+  it("enables allow_drop_detached only for DROP", () => {
+    expect(getDetachedPartCommandSettings("DROP")).toEqual({ allow_drop_detached: 1 });
+    expect(getDetachedPartCommandSettings("ATTACH")).toEqual({});
+  });
+});
+
+describe("detached part reasons", () => {
+  it("only allows parts detached by the user to be attached", () => {
+    expect(canAttachDetachedPart("")).toBe(true);
+    expect(canAttachDetachedPart("broken")).toBe(false);
+    expect(canAttachDetachedPart("unexpected")).toBe(false);
+  });
+
+  it("explains known reasons", () => {
+    expect(describeDetachedPartReason("ignored")).toContain("covered by a bigger part");
+    expect(describeDetachedPartReason("something-new")).toBe("Unknown reason.");
+  });
+});
+
+describe("detached part session", () => {
+  it("checks that the command runs in the session of the FQDN() check", () => {
+    expect(getDetachedPartSessionSettings("s1", false)).toEqual({
+      session_id: "s1",
+      session_timeout: 60,
+    });
+    expect(getDetachedPartSessionSettings("s1", true)).toMatchObject({
+      session_id: "s1",
+      session_check: 1,
+    });
+  });
+
+  it("detects a command routed to another node", () => {
+    expect(
+      isSessionNotFoundError(
+        new QueryError("Failed", 404, { "x-clickhouse-exception-code": "372" }, "")
+      )
+    ).toBe(true);
+    expect(
+      isSessionNotFoundError(
+        new QueryError(
+          "Failed",
+          404,
+          {},
+          "Code: 372. DB::Exception: Session not found. (SESSION_NOT_FOUND)"
+        )
+      )
+    ).toBe(true);
+    expect(isSessionNotFoundError(new QueryError("Failed", 500, {}, "Code: 60."))).toBe(false);
+    expect(isSessionNotFoundError(new Error("SESSION_NOT_FOUND"))).toBe(false);
+  });
+});
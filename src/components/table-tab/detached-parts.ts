@@ -0,0 +1,88 @@
+import { QueryError } from "@/lib/connection/connection";
+import { SqlUtils } from "@/lib/sql-utils";
+
+export type DetachedPartAction = "ATTACH" | "DROP";
+
+// Explanations of the reason column of system.detached_parts, see MergeTreePartInfo::DetachedPartReason
+export const DETACHED_PART_REASONS: Record<string, string> = {
+  "": "Detached by ALTER TABLE ... DETACH PART/PARTITION. The part is intact and can be attached again.",
+  broken:
+    "The part failed the check on server start or during a read, e.g. a checksum mismatch or a missing file. Inspect it before dropping, the data is usually recoverable from another replica.",
+  "broken-on-start":
+    "The part was found broken when the table was loaded on server start. The replica fetches it from other replicas if it's a replicated table.",
+  "covered-by-broken":
+    "The part is covered by a broken part that was detached, so it was detached as well.",
+  unexpected:
+    "The part exists on disk but isn't in the ZooKeeper metadata of the replica, e.g. after an unclean shutdown. It's normally safe to drop once the replica is in sync.",
+  ignored:
+    "The part is covered by a bigger part, e.g. the source part of a merge that wasn't removed before a restart. It's normally safe to drop.",
+  noquorum: "The insert of the part didn't reach the required quorum, so the part was detached.",
+  clone:
+    "The part was moved away when the replica was cloned from another replica because it was lost. It's normally safe to drop.",
+  attaching: "The part is being attached right now.",
+  deleting: "The part is being dropped right now.",
+  "tmp-fetch": "Temporary part of an unfinished fetch from another replica.",
+  "merge-not-byte-identical":
+    "The result of a merge differed from the same part on another replica, so the local copy was replaced by a fetched one.",
+  "mutate-not-byte-identical":
+    "The result of a mutation differed from the same part on another replica, so the local copy was replaced by a fetched one.",
+  "broken-from-backup": "The part was found broken while restoring from a backup.",
+};
+
+export function describeDetachedPartReason(reason: string): string {
+  return DETACHED_PART_REASONS[reason] ?? "Unknown reason.";
+}
+
+/**
+ * Only parts detached by the user keep a valid part name.
+ * Other parts have the reason as prefix of the name and need to be renamed on disk before they can be attached.
+ */
+export function canAttachDetachedPart(reason: string): boolean {
+  return reason === "";
+}
+
+export function buildDetachedPartCommandSQL(
+  action: DetachedPartAction,
+  database: string,
+  table: string,
+  partName: string
+): string {
+  const name = `${SqlUtils.escapeSqlIdentifier(database)}.${SqlUtils.escapeSqlIdentifier(table)}`;
+  const part = `'${SqlUtils.escapeSqlString(partName)}'`;
+  return action === "ATTACH"
+    ? `ALTER TABLE ${name} ATTACH PART ${part}`
+    : `ALTER TABLE ${name} DROP DETACHED PART ${part}`;
+}
+
+/**
+ * DROP DETACHED PART is rejected by the server unless the allow_drop_detached setting is enabled
+ */
+export function getDetachedPartCommandSettings(
+  action: DetachedPartAction
+): Record<string, unknown> {
+  return action === "DROP" ? { allow_drop_detached: 1 } : {};
+}
+
+/**
+ * Settings that keep the FQDN() check and the command on the same node.
+ * A session lives on the server that created it, so when a load balancer routes the command to another
+ * node, session_check makes it fail with SESSION_NOT_FOUND instead of running on the wrong replica.
+ */
+export function getDetachedPartSessionSettings(
+  sessionId: string,
+  check: boolean
+): Record<string, unknown> {
+  return check
+    ? { session_id: sessionId, session_timeout: 60, session_check: 1 }
+    : { session_id: sessionId, session_timeout: 60 };
+}
+
+/**
+ * Whether the command failed because it was routed to a node that does not have the session
+ */
+export function isSessionNotFoundError(error: unknown): boolean {
+  return (
+    error instanceof QueryError &&
+    (error.errorCode === "372" || String(error.data ?? "").includes("SESSION_NOT_FOUND"))
+  );
+}
@@ -0,0 +1,77 @@
+import { parseCreateTableQuery, type TableSchema } from "@/components/schema-diff-tab/schema-diff";
+import { describe, expect, it } from "vitest";
+import { buildTableAlterPlan, toEditableModel } from "./table-alter-builder";
+
+const createQuery =
+  "CREATE TABLE db.events (`id` UInt64, `msg` String CODEC(ZSTD(1)), `ts` DateTime DEFAULT now(), INDEX idx_msg msg TYPE bloom_filter(0.01) GRANULARITY 1, PROJECTION by_ts (SELECT * ORDER BY ts)) ENGINE = MergeTree ORDER BY id TTL ts + toIntervalDay(30) SETTINGS index_granularity = 8192";
+
+const current: TableSchema = {
+  name: "events",
+  engine: "MergeTree",
+  partitionKey: "",
+  sortingKey: "id",
+  primaryKey: "id",
+  columns: [
+    { name: "id", type: "UInt64", defaultKind: "", defaultExpression: "", codec: "", comment: "" },
+    {
+      name: "msg",
+      type: "String",
+      defaultKind: "",
+      defaultExpression: "",
+      codec: "CODEC(ZSTD(1))",
+      comment: "",
+    },
+    {
+      name: "ts",
+      type: "DateTime",
+      defaultKind: "DEFAULT",
+      defaultExpression: "now()",
+      codec: "",
+      comment: "",
+    },
+  ],
+  createQuery,
+  ...parseCreateTableQuery(createQuery),
+};
+
+describe("buildTableAlterPlan", () => {
+  it("builds nothing for an unchanged model", () => {
+    expect(buildTableAlterPlan(current, toEditableModel(current), "db")).toEqual({
+      statements: [],
+      warnings: [],
+    });
+  });
+
+  it("orders renames, column changes, indexes, TTL and settings", () => {
+    const model = toEditableModel(current);
+    model.columns[1] = { ...model.columns[1], name: "message", type: "LowCardinality(String)" };
+    model.columns[2] = { ...model.columns[2], defaultKind: "", defaultExpression: "" };
+    model.columns.push({
+      name: "level",
+      type: "UInt8",
+      defaultKind: "DEFAULT",
+      defaultExpression: "0",
+      codec: "",
+      comment: "severity",
+    });
+    model.indexes = [];
+    model.ttl = "ts + toIntervalDay(7)";
+    model.settings.push({ name: "ttl_only_drop_parts", value: "1" });
+
+    const plan = buildTableAlterPlan(current, model, "db", "default");
+    const alter = "ALTER TABLE `db`.`events` ON CLUSTER `default`";
+    expect(plan.statements).toEqual([
+      `${alter} RENAME COLUMN \`msg\` TO \`message\``,
+      `${alter} DROP INDEX \`idx_msg\``,
+      `${alter} ADD COLUMN \`level\` UInt8 DEFAULT 0 COMMENT 'severity' AFTER \`ts\``,
+      `${alter} MODIFY COLUMN \`message\` LowCardinality(String) CODEC(ZSTD(1))`,
+      `${alter} MODIFY COLUMN \`ts\` REMOVE DEFAULT`,
+      `${alter} MODIFY COLUMN \`ts\` DateTime`,
+      `${alter} MODIFY TTL ts + toIntervalDay(7)`,
+      `${alter} MODIFY SETTING ttl_only_drop_parts = 1`,
+    ]);
+    expect(plan.warnings).toHaveLength(2);
+    expect(plan.warnings[0]).toContain("Changing the type of message");
+    expect(plan.warnings[1]).toContain("MODIFY TTL");
+  });
+});
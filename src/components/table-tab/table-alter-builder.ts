@@ -0,0 +1,172 @@
+import {
+  buildAlterStatements,
+  diffTable,
+  type ColumnSchema,
+  type TableSchema,
+} from "@/components/schema-diff-tab/schema-diff";
+import { SqlUtils } from "@/lib/sql-utils";
+
+export interface EditableColumn extends ColumnSchema {
+  // Name of the column in the current table, undefined for a new column
+  originalName?: string;
+}
+
+export interface EditableIndex {
+  name: string;
+  expression: string;
+  // e.g. minmax, set(100), bloom_filter(0.01)
+  type: string;
+  granularity: string;
+}
+
+export interface EditableProjection {
+  name: string;
+  // The SELECT of the projection, without the brackets
+  query: string;
+}
+
+export interface EditableSetting {
+  name: string;
+  value: string;
+}
+
+export interface EditableTableModel {
+  columns: EditableColumn[];
+  indexes: EditableIndex[];
+  projections: EditableProjection[];
+  ttl: string;
+  settings: EditableSetting[];
+}
+
+export interface TableAlterPlan {
+  statements: string[];
+  // Operations that start a mutation rewriting the parts of the table
+  warnings: string[];
+}
+
+function parseIndexDefinition(definition: string): EditableIndex {
+  const match =
+    /^INDEX\s+(`(?:[^`]|``)*`|\S+)\s+(.*)\s+TYPE\s+(.*?)(?:\s+GRANULARITY\s+(\d+))?$/s.exec(
+      definition
+    );
+  return match
+    ? { name: match[1], expression: match[2], type: match[3], granularity: match[4] ?? "" }
+    : { name: "", expression: definition, type: "", granularity: "" };
+}
+
+function parseProjectionDefinition(definition: string): EditableProjection {
+  const match = /^PROJECTION\s+(`(?:[^`]|``)*`|\S+)\s+\((.*)\)$/s.exec(definition);
+  return match ? { name: match[1], query: match[2] } : { name: "", query: definition };
+}
+
+function formatIndexDefinition(index: EditableIndex): string {
+  const granularity = index.granularity ? ` GRANULARITY ${index.granularity}` : "";
+  return `INDEX ${index.name} ${index.expression} TYPE ${index.type}${granularity}`;
+}
+
+function formatProjectionDefinition(projection: EditableProjection): string {
+  return `PROJECTION ${projection.name} (${projection.query})`;
+}
+
+function unquote(name: string): string {
+  return name.startsWith("`") && name.endsWith("`")
+    ? name.substring(1, name.length - 1).replaceAll("``", "`")
+    : name;
+}
+
+export function toEditableModel(table: TableSchema): EditableTableModel {
+  return {
+    columns: table.columns.map((column) => ({ ...column, originalName: column.name })),
+    indexes: Object.values(table.indexes).map(parseIndexDefinition),
+    projections: Object.values(table.projections).map(parseProjectionDefinition),
+    ttl: table.ttl,
+    settings: Object.entries(table.settings).map(([name, value]) => ({ name, value })),
+  };
+}
+
+/**
+ * Diff the edited model against the current table and build the ALTER statements in execution order.
+ * Renames are executed first, the other changes are computed against the renamed columns.
+ */
+export function buildTableAlterPlan(
+  current: TableSchema,
+  model: EditableTableModel,
+  database: string,
+  cluster?: string
+): TableAlterPlan {
+  const onCluster = cluster ? ` ON CLUSTER ${SqlUtils.escapeSqlIdentifier(cluster)}` : "";
+  const alter = `ALTER TABLE ${SqlUtils.escapeSqlIdentifier(database)}.${SqlUtils.escapeSqlIdentifier(current.name)}${onCluster}`;
+
+  const statements: string[] = [];
+  const renames = new Map<string, string>();
+  for (const column of model.columns) {
+    if (column.originalName !== undefined && column.originalName !== column.name) {
+      renames.set(column.originalName, column.name);
+      statements.push(
+        `${alter} RENAME COLUMN ${SqlUtils.escapeSqlIdentifier(column.originalName)} TO ${SqlUtils.escapeSqlIdentifier(column.name)}`
+      );
+    }
+  }
+
+  const renamed: TableSchema = {
+    ...current,
+    columns: current.columns.map((c) => ({ ...c, name: renames.get(c.name) ?? c.name })),
+  };
+  const edited: TableSchema = {
+    ...current,
+    columns: model.columns
+      .filter((c) => c.name.length > 0 && c.type.length > 0)
+      .map(({ originalName: _originalName, ...column }) => column),
+    indexes: Object.fromEntries(
+      model.indexes
+        .filter((i) => i.name.length > 0)
+        .map((i) => [unquote(i.name), formatIndexDefinition(i)])
+    ),
+    projections: Object.fromEntries(
+      model.projections
+        .filter((p) => p.name.length > 0)
+        .map((p) => [unquote(p.name), formatProjectionDefinition(p)])
+    ),
+    ttl: model.ttl.trim(),
+    settings: Object.fromEntries(
+      model.settings.filter((s) => s.name.length > 0).map((s) => [s.name, s.value])
+    ),
+  };
+
+  const changes = diffTable(edited, renamed, database, database);
+  statements.push(
+    ...buildAlterStatements(edited, renamed, changes, {
+      sourceDatabase: database,
+      targetDatabase: database,
+      cluster,
+    })
+  );
+
+  const warnings: string[] = [];
+  for (const change of changes) {
+    if (change.kind === "column" && change.status === "removed") {
+      warnings.push(`DROP COLUMN ${change.name} removes the column from all parts by a mutation.`);
+    } else if (change.kind === "column" && change.status === "changed") {
+      const before = renamed.columns.find((c) => c.name === change.name);
+      const after = edited.columns.find((c) => c.name === change.name);
+      if (before && after && before.type !== after.type) {
+        warnings.push(
+          `Changing the type of ${change.name} from ${before.type} to ${after.type} rewrites the column in all parts by a mutation.`
+        );
+      }
+    } else if (change.kind === "ttl" && change.status !== "removed") {
+      warnings.push(
+        "MODIFY TTL applies the TTL to all existing parts by a mutation unless materialize_ttl_after_modify is disabled."
+      );
+    } else if (
+      (change.kind === "index" || change.kind === "projection") &&
+      change.status !== "removed"
+    ) {
+      warnings.push(
+        `The ${change.kind} ${change.name} only applies to new parts. Run MATERIALIZE ${change.kind.toUpperCase()} to build it for existing parts, which is a mutation.`
+      );
+    }
+  }
+
+  return { statements, warnings };
+}
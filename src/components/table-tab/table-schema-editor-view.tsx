@@ -0,0 +1,386 @@
+import { useConnection } from "@/components/connection/connection-context";
+import type { TableSchema } from "@/components/schema-diff-tab/schema-diff";
+import { loadSchemaSnapshot } from "@/components/schema-diff-tab/schema-diff-loader";
+import type { TimeSpan } from "@/components/shared/dashboard/timespan-selector";
+import { ThemedSyntaxHighlighter } from "@/components/shared/themed-syntax-highlighter";
+import { Dialog } from "@/components/shared/use-dialog";
+import { TabManager } from "@/components/tab-manager";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, ChevronDown, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  forwardRef,
+  memo,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import { ColumnListEditor, createEmptyColumn } from "./column-list-editor";
+import {
+  buildTableAlterPlan,
+  toEditableModel,
+  type EditableTableModel,
+} from "./table-alter-builder";
+import type { RefreshableTabViewRef } from "./table-tab";
+
+function Section({
+  title,
+  onAdd,
+  children,
+}: {
+  title: string;
+  onAdd?: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-semibold">{title}</span>
+        {onAdd && (
+          <Button variant="ghost" size="sm" className="h-6 px-1" onClick={onAdd}>
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function RemoveButton({ onClick }: { onClick: () => void }) {
+  return (
+    <Button variant="ghost" size="sm" className="h-8 w-8 p-0 shrink-0" onClick={onClick}>
+      <Trash2 className="h-4 w-4 text-destructive" />
+    </Button>
+  );
+}
+
+export interface TableSchemaEditorViewProps {
+  database: string;
+  table: string;
+  autoLoad?: boolean;
+}
+
+/**
+ * Edit the columns, skip indexes, projections, TTL and settings of a table.
+ * The edited model is compared with the current table to generate the ALTER statements.
+ */
+const TableSchemaEditorViewComponent = forwardRef<
+  RefreshableTabViewRef,
+  TableSchemaEditorViewProps
+>(({ database, table, autoLoad = false }, ref) => {
+  const { connection } = useConnection();
+  const [current, setCurrent] = useState<TableSchema | null>(null);
+  const [model, setModel] = useState<EditableTableModel | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [onCluster, setOnCluster] = useState(true);
+  const [failureMode, setFailureMode] = useState<"abort" | "continue">("abort");
+
+  const cluster = connection?.cluster && connection.cluster.length > 0 ? connection.cluster : "";
+
+  const load = useCallback(async () => {
+    if (!connection) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const snapshot = await loadSchemaSnapshot(connection, database, table);
+      const schema = snapshot.tables[0];
+      if (!schema) {
+        throw new Error(`Table ${database}.${table} is not found`);
+      }
+      setCurrent(schema);
+      setModel(toEditableModel(schema));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [connection, database, table]);
+
+  useImperativeHandle(ref, () => ({
+    refresh: (_timeSpan?: TimeSpan) => {
+      void load();
+    },
+  }));
+
+  useEffect(() => {
+    if (autoLoad) {
+      void load();
+    }
+  }, [autoLoad, load]);
+
+  const plan = useMemo(
+    () =>
+      current && model
+        ? buildTableAlterPlan(current, model, database, onCluster && cluster ? cluster : undefined)
+        : { statements: [], warnings: [] },
+    [current, model, database, onCluster, cluster]
+  );
+
+  const update = (updater: (model: EditableTableModel) => EditableTableModel) =>
+    setModel((prev) => (prev ? updater(prev) : prev));
+
+  const updateItem = <K extends "indexes" | "projections" | "settings">(
+    key: K,
+    index: number,
+    value: Partial<EditableTableModel[K][number]>
+  ) =>
+    update((m) => ({
+      ...m,
+      [key]: m[key].map((item, i) => (i === index ? { ...item, ...value } : item)),
+    }));
+
+  const removeItem = (key: "indexes" | "projections" | "settings", index: number) =>
+    update((m) => ({ ...m, [key]: m[key].filter((_, i) => i !== index) }));
+
+  const handleExecute = () => {
+    // Lines for changes that can't be applied by ALTER are comments
+    const statements = plan.statements.filter((statement) => !statement.startsWith("--"));
+    const run = () => {
+      TabManager.activateQueryTab({ batch: { statements, failureMode } });
+      return Promise.resolve(true);
+    };
+
+    Dialog.confirm({
+      title: "Alter Table",
+      description: `Execute ${statements.length} statement(s) on ${database}.${table} in the query tab?${
+        plan.warnings.length > 0 ? " Some of them start mutations on the existing data." : ""
+      }`,
+      dialogButtons: [
+        {
+          text: "Execute",
+          variant: plan.warnings.length > 0 ? "destructive" : "default",
+          default: true,
+          onClick: async () => {
+            await run();
+            // Reload after the statements are sent so that the next edit starts from the new schema
+            setTimeout(() => void load(), 2000);
+            return true;
+          },
+        },
+        { text: "Cancel", default: false, variant: "outline", onClick: async () => true },
+      ],
+    });
+  };
+
+  if (!model) {
+    return (
+      <div className="p-2 text-sm">
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+        {error && <pre className="text-xs text-destructive whitespace-pre-wrap">{error}</pre>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 py-2">
+      <Section
+        title="Columns"
+        onAdd={() => update((m) => ({ ...m, columns: [...m.columns, createEmptyColumn()] }))}
+      >
+        <ColumnListEditor
+          columns={model.columns}
+          onChange={(columns) => update((m) => ({ ...m, columns }))}
+          getKey={(column, index) => column.originalName ?? `new-${index}`}
+        />
+      </Section>
+
+      <Section
+        title="Skip Indexes"
+        onAdd={() =>
+          update((m) => ({
+            ...m,
+            indexes: [...m.indexes, { name: "", expression: "", type: "minmax", granularity: "1" }],
+          }))
+        }
+      >
+        {model.indexes.length > 0 && (
+          <div className="grid grid-cols-[1fr_2fr_1fr_100px_32px] gap-1 items-center text-xs text-muted-foreground">
+            <span>Name</span>
+            <span>Expression</span>
+            <span>Type</span>
+            <span>Granularity</span>
+            <span />
+            {model.indexes.map((index, i) => (
+              <div key={i} className="contents">
+                <Input
+                  className="h-8 font-mono"
+                  value={index.name}
+                  onChange={(e) => updateItem("indexes", i, { name: e.target.value })}
+                />
+                <Input
+                  className="h-8 font-mono"
+                  value={index.expression}
+                  onChange={(e) => updateItem("indexes", i, { expression: e.target.value })}
+                />
+                <Input
+                  className="h-8 font-mono"
+                  value={index.type}
+                  placeholder="bloom_filter(0.01)"
+                  onChange={(e) => updateItem("indexes", i, { type: e.target.value })}
+                />
+                <Input
+                  className="h-8 font-mono"
+                  value={index.granularity}
+                  onChange={(e) => updateItem("indexes", i, { granularity: e.target.value })}
+                />
+                <RemoveButton onClick={() => removeItem("indexes", i)} />
+              </div>
+            ))}
+          </div>
+        )}
+      </Section>
+
+      <Section
+        title="Projections"
+        onAdd={() =>
+          update((m) => ({ ...m, projections: [...m.projections, { name: "", query: "" }] }))
+        }
+      >
+        {model.projections.map((projection, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <Input
+              className="h-8 w-48 font-mono"
+              value={projection.name}
+              placeholder="name"
+              onChange={(e) => updateItem("projections", i, { name: e.target.value })}
+            />
+            <Input
+              className="h-8 font-mono"
+              value={projection.query}
+              placeholder="SELECT * ORDER BY column"
+              onChange={(e) => updateItem("projections", i, { query: e.target.value })}
+            />
+            <RemoveButton onClick={() => removeItem("projections", i)} />
+          </div>
+        ))}
+      </Section>
+
+      <Section title="TTL">
+        <Textarea
+          className="font-mono text-xs min-h-[60px]"
+          value={model.ttl}
+          placeholder="event_time + INTERVAL 30 DAY"
+          onChange={(e) => update((m) => ({ ...m, ttl: e.target.value }))}
+        />
+      </Section>
+
+      <Section
+        title="Settings"
+        onAdd={() => update((m) => ({ ...m, settings: [...m.settings, { name: "", value: "" }] }))}
+      >
+        {model.settings.map((setting, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <Input
+              className="h-8 w-72 font-mono"
+              value={setting.name}
+              onChange={(e) => updateItem("settings", i, { name: e.target.value })}
+            />
+            <span>=</span>
+            <Input
+              className="h-8 w-72 font-mono"
+              value={setting.value}
+              onChange={(e) => updateItem("settings", i, { value: e.target.value })}
+            />
+            <RemoveButton onClick={() => removeItem("settings", i)} />
+          </div>
+        ))}
+      </Section>
+
+      <Section title="Statements">
+        {plan.statements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes.</p>
+        ) : (
+          <div className="border rounded-md overflow-auto bg-muted/30">
+            <ThemedSyntaxHighlighter
+              language="sql"
+              customStyle={{
+                margin: 0,
+                padding: "0.75rem",
+                fontSize: "12px",
+                backgroundColor: "transparent",
+              }}
+              wrapLongLines
+            >
+              {plan.statements
+                .map((statement) => (statement.startsWith("--") ? statement : `${statement};`))
+                .join("\n")}
+            </ThemedSyntaxHighlighter>
+          </div>
+        )}
+        {plan.warnings.map((warning) => (
+          <p key={warning} className="flex items-start gap-1 text-sm text-amber-600">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            {warning}
+          </p>
+        ))}
+
+        <div className="flex items-center gap-4">
+          {cluster && (
+            <div className="flex items-center gap-2">
+              <Switch id="alter-on-cluster" checked={onCluster} onCheckedChange={setOnCluster} />
+              <Label htmlFor="alter-on-cluster">ON CLUSTER {cluster}</Label>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Label>On failure</Label>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="w-48 justify-between">
+                  {failureMode === "abort" ? "Abort remaining" : "Continue with next"}
+                  <ChevronDown className="h-4 w-4 opacity-50" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuRadioGroup
+                  value={failureMode}
+                  onValueChange={(v) => setFailureMode(v as "abort" | "continue")}
+                >
+                  <DropdownMenuRadioItem value="abort">Abort remaining</DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem value="continue">Continue with next</DropdownMenuRadioItem>
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={plan.statements.length === 0}
+              onClick={() => current && setModel(toEditableModel(current))}
+            >
+              Reset
+            </Button>
+            <Button
+              size="sm"
+              disabled={plan.statements.every((statement) => statement.startsWith("--"))}
+              onClick={handleExecute}
+            >
+              Execute in Query Tab
+            </Button>
+          </div>
+        </div>
+        {error && <pre className="text-xs text-destructive whitespace-pre-wrap">{error}</pre>}
+      </Section>
+    </div>
+  );
+});
+
+TableSchemaEditorViewComponent.displayName = "TableSchemaEditorView";
+
+export const TableSchemaEditorView = memo(TableSchemaEditorViewComponent);
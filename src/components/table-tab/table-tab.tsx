@@ -8,12 +8,14 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, RefreshCw } from "lucide-react";
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { DataSampleView } from "./data-sample-view";
+import { DetachedPartsView } from "./detached-parts-view";
 import { PartHistoryView } from "./part-history-view";
 import { PartitionSizeView } from "./partition-view";
 import { QueryHistoryView } from "./query-history-view";
 import { TableDependenciesView } from "./table-dependencies-view";
 import { TableMetadataView } from "./table-metadata-view";
 import { TableOverviewView } from "./table-overview-view";
+import { TableSchemaEditorView } from "./table-schema-editor-view";
 
 export interface TableTabProps {
   database: string;
@@ -66,6 +68,8 @@ const TableTabComponent = ({ database, table, engine }: TableTabProps) => {
             "partitions",
             "query-history",
             "part-history",
+            "detached-parts",
+            "schema-editor",
           ]))
       : new Set([
           "data-sample",
@@ -75,6 +79,8 @@ const TableTabComponent = ({ database, table, engine }: TableTabProps) => {
           "partitions",
           "query-history",
           "part-history",
+          "detached-parts",
+          "schema-editor",
         ]);
   }, [engine]);
 
@@ -115,6 +121,8 @@ const TableTabComponent = ({ database, table, engine }: TableTabProps) => {
   const partitionRef = useRef<RefreshableTabViewRef | null>(null);
   const queryHistoryRef = useRef<RefreshableTabViewRef | null>(null);
   const partHistoryRef = useRef<RefreshableTabViewRef | null>(null);
+  const detachedPartsRef = useRef<RefreshableTabViewRef | null>(null);
+  const schemaEditorRef = useRef<RefreshableTabViewRef | null>(null);
 
   // Helper function to get the current ref based on active tab
   // Directly access refs to avoid unnecessary callback recreation
@@ -134,6 +142,10 @@ const TableTabComponent = ({ database, table, engine }: TableTabProps) => {
         return queryHistoryRef.current;
       case "part-history":
         return partHistoryRef.current;
+      case "detached-parts":
+        return detachedPartsRef.current;
+      case "schema-editor":
+        return schemaEditorRef.current;
       default:
         return null;
     }
@@ -265,6 +277,22 @@ const TableTabComponent = ({ database, table, engine }: TableTabProps) => {
                   Part History
                 </TabsTrigger>
               )}
+              {availableTabs.has("detached-parts") && (
+                <TabsTrigger
+                  value="detached-parts"
+                  className="border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:rounded-b-none data-[state=active]:bg-transparent"
+                >
+                  Detached Parts
+                </TabsTrigger>
+              )}
+              {availableTabs.has("schema-editor") && (
+                <TabsTrigger
+                  value="schema-editor"
+                  className="border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:rounded-b-none data-[state=active]:bg-transparent"
+                >
+                  Edit Schema
+                </TabsTrigger>
+              )}
             </TabsList>
             {hasRefresh ? (
               <div className="flex items-center gap-2">
@@ -427,6 +455,34 @@ const TableTabComponent = ({ database, table, engine }: TableTabProps) => {
               />
             </div>
           )}
+          {availableTabs.has("detached-parts") && (
+            <div
+              className={`absolute inset-0 overflow-auto px-2 ${currentTab === "detached-parts" ? "block" : "hidden"}`}
+              role="tabpanel"
+              aria-hidden={currentTab !== "detached-parts"}
+            >
+              <DetachedPartsView
+                ref={detachedPartsRef}
+                database={database}
+                table={table}
+                autoLoad={loadedTabs.has("detached-parts")}
+              />
+            </div>
+          )}
+          {availableTabs.has("schema-editor") && (
+            <div
+              className={`absolute inset-0 overflow-auto px-2 ${currentTab === "schema-editor" ? "block" : "hidden"}`}
+              role="tabpanel"
+              aria-hidden={currentTab !== "schema-editor"}
+            >
+              <TableSchemaEditorView
+                ref={schemaEditorRef}
+                database={database}
+                table={table}
+                autoLoad={loadedTabs.has("schema-editor")}
+              />
+            </div>
+          )}
         </div>
       </Tabs>
     </div>
@@ -24,7 +24,8 @@ export async function createGeneralAgent({
   const model = LanguageModelProviderFactory.createModel(
     modelConfig.provider,
     modelConfig.modelId,
-    modelConfig.apiKey
+    modelConfig.apiKey,
+    modelConfig.endpoint
   );
 
   const systemPrompt = `You are a helpful ClickHouse Assistant.
@@ -58,7 +58,8 @@ export async function generateChatTitle(
       const model = LanguageModelProviderFactory.createModel(
         modelConfig.provider,
         modelConfig.modelId,
-        modelConfig.apiKey
+        modelConfig.apiKey,
+        modelConfig.endpoint
       );
 
       const temperature = LanguageModelProviderFactory.getDefaultTemperature(modelConfig.modelId);
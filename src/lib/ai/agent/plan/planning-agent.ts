@@ -195,7 +195,8 @@ async function classifyByLLM(input: InputMessages, modelConfig: InputModel): Pro
   const model = LanguageModelProviderFactory.createModel(
     modelConfig.provider,
     modelConfig.modelId,
-    modelConfig.apiKey
+    modelConfig.apiKey,
+    modelConfig.endpoint
   );
 
   const plannerPrompt = new PlannerPromptBuilder()
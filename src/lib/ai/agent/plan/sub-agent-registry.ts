@@ -3,6 +3,7 @@ import { createGeneralAgent } from "@/lib/ai/agent/general-agent";
 import { streamSqlGeneration } from "@/lib/ai/agent/sql-generation-agent";
 import { streamSqlOptimization } from "@/lib/ai/agent/sql-optimization-agent";
 import { streamVisualization } from "@/lib/ai/agent/visualization-agent";
+import type { CustomProviderEndpoint, ModelCapabilities } from "@/lib/ai/llm/custom-provider";
 import type { ModelMessage } from "ai";
 
 /**
@@ -12,6 +13,9 @@ export interface InputModel {
   provider: string;
   modelId: string;
   apiKey: string;
+  /** Endpoint of a custom provider, e.g. a self-hosted OpenAI-compatible server */
+  endpoint?: CustomProviderEndpoint;
+  capabilities?: ModelCapabilities;
 }
 
 /**
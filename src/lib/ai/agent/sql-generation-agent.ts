@@ -411,7 +411,8 @@ export async function sqlGenerationAgent(
     const model = LanguageModelProviderFactory.createModel(
       modelConfig.provider,
       modelConfig.modelId,
-      modelConfig.apiKey
+      modelConfig.apiKey,
+      modelConfig.endpoint
     );
 
     // Build base messages for processing
@@ -479,7 +480,8 @@ export async function streamSqlGeneration({
   const model = LanguageModelProviderFactory.createModel(
     modelConfig.provider,
     modelConfig.modelId,
-    modelConfig.apiKey
+    modelConfig.apiKey,
+    modelConfig.endpoint
   );
 
   const temperature = LanguageModelProviderFactory.getDefaultTemperature(modelConfig.modelId);
@@ -21,7 +21,8 @@ export async function streamSqlOptimization({
   const model = LanguageModelProviderFactory.createModel(
     modelConfig.provider,
     modelConfig.modelId,
-    modelConfig.apiKey
+    modelConfig.apiKey,
+    modelConfig.endpoint
   );
 
   const temperature = LanguageModelProviderFactory.getDefaultTemperature(modelConfig.modelId);
@@ -243,7 +243,8 @@ When type is "pie":
     const model = LanguageModelProviderFactory.createModel(
       modelConfig.provider,
       modelConfig.modelId,
-      modelConfig.apiKey
+      modelConfig.apiKey,
+      modelConfig.endpoint
     );
 
     // Use streamText instead of generateText to avoid proxy timeouts
@@ -325,7 +326,8 @@ export async function streamVisualization({
   const model = LanguageModelProviderFactory.createModel(
     modelConfig.provider,
     modelConfig.modelId,
-    modelConfig.apiKey
+    modelConfig.apiKey,
+    modelConfig.endpoint
   );
 
   const temperature = LanguageModelProviderFactory.getDefaultTemperature(modelConfig.modelId);
@@ -1,10 +1,15 @@
 import type { PlannerMetadata } from "@/lib/ai/agent/plan/planning-types";
+import type { CustomSkill } from "@/lib/ai/skills/custom-skill";
 import type { ClientTools } from "@/lib/ai/tools/client/client-tools";
 import type { InferUITools, LanguageModelUsage, UIDataTypes, UIMessage } from "ai";
 
 export interface AgentContext {
   /** Whether to prune successful validate_sql tool calls from history. Default: true. */
   pruneValidateSql?: boolean;
+  /** Skills managed by the user, served by the skill tools next to the bundled skills. */
+  customSkills?: CustomSkill[];
+  /** Context window (tokens) of the model. Older turns are dropped to fit, set by the server from the model capabilities. */
+  contextWindow?: number;
 }
 
 export type MessageRole = "user" | "assistant" | "system" | "data" | "tool";
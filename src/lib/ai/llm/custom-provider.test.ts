@@ -0,0 +1,198 @@
+import { generateText } from "ai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getModelListURL,
+  isEndpointAllowed,
+  parseModelList,
+  sanitizeModelCapabilities,
+  validateCustomProviderEndpoint,
+} from "./custom-provider";
+import { LanguageModelProviderFactory } from "./llm-provider-factory";
+
+describe("validateCustomProviderEndpoint", () => {
+  it("accepts http and https endpoints", () => {
+    expect(
+      validateCustomProviderEndpoint({
+        type: "openai-compatible",
+        baseURL: "http://localhost:11434/v1",
+        headers: { "X-Gateway-Token": "secret" },
+      })
+    ).toBeNull();
+    expect(
+      validateCustomProviderEndpoint({
+        type: "azure-openai",
+        baseURL: "https://my-resource.openai.azure.com",
+        apiVersion: "2024-10-21",
+      })
+    ).toBeNull();
+  });
+
+  it("rejects unknown types, other protocols and invalid headers", () => {
+    expect(validateCustomProviderEndpoint({ type: "bedrock", baseURL: "https://a" })).toContain(
+      "Unsupported"
+    );
+    expect(
+      validateCustomProviderEndpoint({ type: "openai-compatible", baseURL: "file:///etc/passwd" })
+    ).toContain("http or https");
+    expect(
+      validateCustomProviderEndpoint({ type: "openai-compatible", baseURL: "http://a/v1?x=1" })
+    ).toContain("query string");
+    expect(
+      validateCustomProviderEndpoint({
+        type: "openai-compatible",
+        baseURL: "http://a/v1/%2E%2e/admin",
+      })
+    ).toContain("path segments");
+    expect(
+      validateCustomProviderEndpoint({
+        type: "openai-compatible",
+        baseURL: "http://a/v1",
+        headers: { "X-Token": "a\r\nHost: b" },
+      })
+    ).toContain("Invalid header");
+    expect(validateCustomProviderEndpoint(null)).not.toBeNull();
+  });
+
+  it("refuses link-local and cloud metadata addresses", () => {
+    for (const baseURL of [
+      "http://169.254.169.254/latest",
+      "http://metadata.google.internal/v1",
+      "http://[fe80::1]:8080/v1",
+      "http://[::ffff:169.254.169.254]/v1",
+    ]) {
+      expect(validateCustomProviderEndpoint({ type: "openai-compatible", baseURL })).toContain(
+        "link-local"
+      );
+    }
+  });
+});
+
+describe("isEndpointAllowed", () => {
+  it("denies every endpoint without an allowlist", () => {
+    expect(isEndpointAllowed("http://10.0.0.1:8000/v1", undefined)).toBe(false);
+    expect(isEndpointAllowed("http://localhost:11434/v1", " ")).toBe(false);
+    expect(isEndpointAllowed("http://10.0.0.1:8000/v1", ",")).toBe(false);
+  });
+
+  it("matches the URL prefixes of the allowlist on path boundaries", () => {
+    const allowlist = "http://localhost:11434/v1/, https://my-resource.openai.azure.com";
+    expect(isEndpointAllowed("http://localhost:11434/v1", allowlist)).toBe(true);
+    expect(isEndpointAllowed("https://my-resource.openai.azure.com/", allowlist)).toBe(true);
+    expect(isEndpointAllowed("https://my-resource.openai.azure.com.evil.io", allowlist)).toBe(
+      false
+    );
+    expect(isEndpointAllowed("http://localhost:8000/v1", allowlist)).toBe(false);
+  });
+
+  it("can't be escaped with dot segments", () => {
+    const allowlist = "http://10.0.0.5:8000/v1";
+    expect(isEndpointAllowed("http://10.0.0.5:8000/v1/../../admin", allowlist)).toBe(false);
+    expect(isEndpointAllowed("http://10.0.0.5:8000/v1/%2e%2e/admin", allowlist)).toBe(false);
+    expect(isEndpointAllowed("http://10.0.0.5:8000/v1/./models/..", allowlist)).toBe(false);
+    expect(isEndpointAllowed("HTTP://10.0.0.5:8000/v1/", allowlist)).toBe(true);
+  });
+});
+
+describe("model discovery", () => {
+  it("lists the models of OpenAI-compatible servers and the deployments of Azure", () => {
+    expect(
+      getModelListURL({ type: "openai-compatible", baseURL: "http://localhost:1234/v1/" })
+    ).toBe("http://localhost:1234/v1/models");
+    expect(
+      getModelListURL({ type: "azure-openai", baseURL: "https://r.openai.azure.com" })
+    ).toMatch(/^https:\/\/r\.openai\.azure\.com\/openai\/deployments\?api-version=/);
+  });
+
+  it("parses the OpenAI and the Ollama shapes", () => {
+    expect(
+      parseModelList({ object: "list", data: [{ id: "qwen2.5" }, { id: "llama3.1" }, {}] })
+    ).toEqual(["llama3.1", "qwen2.5"]);
+    expect(parseModelList({ models: [{ name: "llama3.1:8b" }] })).toEqual(["llama3.1:8b"]);
+    expect(parseModelList("not a list")).toEqual([]);
+  });
+});
+
+describe("sanitizeModelCapabilities", () => {
+  it("falls back to the defaults for missing or invalid flags", () => {
+    expect(sanitizeModelCapabilities(undefined)).toEqual({
+      toolCalling: true,
+      reasoning: false,
+      contextWindow: undefined,
+    });
+    expect(
+      sanitizeModelCapabilities({ toolCalling: false, reasoning: "yes", contextWindow: -1 })
+    ).toEqual({ toolCalling: false, reasoning: false, contextWindow: undefined });
+    expect(sanitizeModelCapabilities({ contextWindow: 32768 }).contextWindow).toBe(32768);
+  });
+});
+
+describe("LanguageModelProviderFactory.createModel with an endpoint", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  const completion = {
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 0,
+    model: "gpt-4o",
+    choices: [
+      { index: 0, message: { role: "assistant", content: "SELECT 1" }, finish_reason: "stop" },
+    ],
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  };
+
+  it("calls the deployment of an Azure OpenAI resource with its api-version and api-key", async () => {
+    vi.stubEnv("CUSTOM_MODEL_ENDPOINT_ALLOWLIST", "https://my-resource.openai.azure.com");
+    const fetchMock = vi.fn(async () => Response.json(completion));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const model = LanguageModelProviderFactory.createModel("Azure", "prod-gpt4o", "azure-key", {
+      type: "azure-openai",
+      baseURL: "https://my-resource.openai.azure.com/",
+      apiVersion: "2024-10-21",
+      headers: { "X-Team": "data" },
+    });
+    const result = await generateText({ model, prompt: "count rows" });
+
+    expect(result.text).toBe("SELECT 1");
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe(
+      "https://my-resource.openai.azure.com/openai/deployments/prod-gpt4o/chat/completions?api-version=2024-10-21"
+    );
+    const headers = new Headers(init.headers);
+    expect(headers.get("api-key")).toBe("azure-key");
+    expect(headers.get("x-team")).toBe("data");
+    expect(headers.get("authorization")).toBeNull();
+  });
+
+  it("does not require an API key and accepts models that are not in MODELS", () => {
+    vi.stubEnv("CUSTOM_MODEL_ENDPOINT_ALLOWLIST", "http://localhost:11434/v1");
+    const model = LanguageModelProviderFactory.createModel("Ollama", "llama3.1:8b", "", {
+      type: "openai-compatible",
+      baseURL: "http://localhost:11434/v1",
+    });
+    expect(model).toMatchObject({ modelId: "llama3.1:8b" });
+  });
+
+  it("rejects endpoints outside of the allowlist of the server", () => {
+    vi.stubEnv("CUSTOM_MODEL_ENDPOINT_ALLOWLIST", "http://localhost:11434/v1");
+    expect(() =>
+      LanguageModelProviderFactory.createModel("vLLM", "qwen", "", {
+        type: "openai-compatible",
+        baseURL: "http://10.0.0.1:8000/v1",
+      })
+    ).toThrow("not allowed");
+  });
+
+  it("rejects every endpoint when the server has no allowlist", () => {
+    vi.stubEnv("CUSTOM_MODEL_ENDPOINT_ALLOWLIST", "");
+    expect(() =>
+      LanguageModelProviderFactory.createModel("Ollama", "llama3.1:8b", "", {
+        type: "openai-compatible",
+        baseURL: "http://localhost:11434/v1",
+      })
+    ).toThrow("CUSTOM_MODEL_ENDPOINT_ALLOWLIST");
+  });
+});
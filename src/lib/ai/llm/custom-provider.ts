@@ -0,0 +1,273 @@
+// Custom providers: OpenAI-compatible servers (Ollama, vLLM, LM Studio...) and Azure OpenAI deployments configured by the user.
+// Endpoints are checked when the provider is saved and again by the API routes before they call the model server.
+
+export type CustomProviderType = "openai-compatible" | "azure-openai";
+
+/** Azure OpenAI data plane API version used when none is configured */
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+/** The Azure deployment list is only served by this API version */
+const AZURE_DEPLOYMENTS_API_VERSION = "2022-12-01";
+
+export interface CustomProviderPreset {
+  label: string;
+  type: CustomProviderType;
+  baseURL: string;
+}
+
+export const CUSTOM_PROVIDER_PRESETS: CustomProviderPreset[] = [
+  { label: "Ollama", type: "openai-compatible", baseURL: "http://localhost:11434/v1" },
+  { label: "vLLM", type: "openai-compatible", baseURL: "http://localhost:8000/v1" },
+  { label: "LM Studio", type: "openai-compatible", baseURL: "http://localhost:1234/v1" },
+  { label: "Azure OpenAI", type: "azure-openai", baseURL: "https://<resource>.openai.azure.com" },
+  { label: "OpenAI-compatible", type: "openai-compatible", baseURL: "" },
+];
+
+/**
+ * What a model supports. Self-hosted models often lack tool calling or have a small context window,
+ * so the orchestrator adapts the request to them.
+ */
+export interface ModelCapabilities {
+  /** Whether the model supports tool calling. Without it the agent answers without tools. */
+  toolCalling: boolean;
+  /** Whether the model is a reasoning model. Such models are called without a temperature. */
+  reasoning: boolean;
+  /** Context window in tokens. Older turns of the conversation are dropped to fit in it. */
+  contextWindow?: number;
+}
+
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  toolCalling: true,
+  reasoning: false,
+};
+
+/**
+ * Where and how to call a custom provider, sent with the model config of each chat request
+ */
+export interface CustomProviderEndpoint {
+  type: CustomProviderType;
+  /** e.g. http://localhost:11434/v1, or https://<resource>.openai.azure.com for Azure */
+  baseURL: string;
+  /** Extra headers sent with each request, e.g. for a gateway in front of the model server */
+  headers?: Record<string, string>;
+  /** `api-version` query parameter of Azure OpenAI */
+  apiVersion?: string;
+}
+
+export interface CustomModel {
+  /** Model ID, or the deployment name for Azure OpenAI */
+  modelId: string;
+  capabilities: ModelCapabilities;
+}
+
+export interface CustomProvider extends CustomProviderEndpoint {
+  /** Unique name of the provider, shown as the provider of its models */
+  name: string;
+  models: CustomModel[];
+}
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9a-zA-Z-]+$/;
+
+/** A `.` or `..` path segment, also percent-encoded, that would move the requests out of the base URL */
+const DOT_SEGMENT_PATTERN = /[/\\](?:\.|%2e){1,2}(?=[/\\?#]|$)/i;
+
+/**
+ * Hosts of cloud metadata services, never a model server.
+ * Link-local addresses (169.254.0.0/16, fe80::/10) are refused as well.
+ */
+const METADATA_HOSTS = new Set([
+  "metadata.google.internal",
+  "metadata",
+  "100.100.100.200",
+  "[fd00:ec2::254]",
+]);
+
+export function normalizeBaseURL(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+/**
+ * Origin and resolved path of a URL without the trailing slash, undefined if it's not a valid URL
+ */
+function toCanonicalURL(url: string): string | undefined {
+  try {
+    const parsed = new URL(url.trim());
+    return normalizeBaseURL(parsed.origin + parsed.pathname);
+  } catch {
+    return undefined;
+  }
+}
+
+function isLinkLocalOrMetadataHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return (
+    METADATA_HOSTS.has(host) ||
+    /^169\.254\.\d+\.\d+$/.test(host) ||
+    /^\[fe[89ab][0-9a-f]:/.test(host) ||
+    // IPv4-mapped IPv6 of a link-local address, e.g. [::ffff:a9fe:a9fe]
+    /^\[::ffff:a9fe:/.test(host)
+  );
+}
+
+/**
+ * Validate an endpoint, returns the error message or null if it's valid
+ */
+export function validateCustomProviderEndpoint(input: unknown): string | null {
+  if (typeof input !== "object" || input === null) {
+    return "The endpoint of the provider is missing";
+  }
+  const endpoint = input as Partial<Record<keyof CustomProviderEndpoint, unknown>>;
+  if (endpoint.type !== "openai-compatible" && endpoint.type !== "azure-openai") {
+    return `Unsupported provider type [${String(endpoint.type)}]`;
+  }
+  if (typeof endpoint.baseURL !== "string") {
+    return "The base URL is required";
+  }
+
+  let url: URL;
+  try {
+    url = new URL(endpoint.baseURL.trim());
+  } catch {
+    return `Invalid base URL [${endpoint.baseURL}]`;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "The base URL must use http or https";
+  }
+  if (url.search || url.hash) {
+    return "The base URL must not have a query string or a fragment";
+  }
+  if (url.username || url.password) {
+    return "The base URL must not have credentials, use the API key or the headers";
+  }
+  if (DOT_SEGMENT_PATTERN.test(endpoint.baseURL.trim())) {
+    return "The base URL must not have '.' or '..' path segments";
+  }
+  if (isLinkLocalOrMetadataHost(url.hostname)) {
+    return "The base URL must not be a link-local or a cloud metadata address";
+  }
+
+  if (endpoint.headers !== undefined) {
+    if (typeof endpoint.headers !== "object" || endpoint.headers === null) {
+      return "Headers must be an object of strings";
+    }
+    for (const [name, value] of Object.entries(endpoint.headers)) {
+      if (!HEADER_NAME_PATTERN.test(name) || typeof value !== "string" || /[\r\n]/.test(value)) {
+        return `Invalid header [${name}]`;
+      }
+    }
+  }
+  if (endpoint.apiVersion !== undefined && typeof endpoint.apiVersion !== "string") {
+    return "The API version must be a string";
+  }
+  return null;
+}
+
+/**
+ * Read the capabilities sent by a client, falling back to the defaults for missing or invalid flags
+ */
+export function sanitizeModelCapabilities(input: unknown): ModelCapabilities {
+  const capabilities = (typeof input === "object" && input !== null ? input : {}) as Partial<
+    Record<keyof ModelCapabilities, unknown>
+  >;
+  const contextWindow = capabilities.contextWindow;
+  return {
+    toolCalling:
+      typeof capabilities.toolCalling === "boolean"
+        ? capabilities.toolCalling
+        : DEFAULT_MODEL_CAPABILITIES.toolCalling,
+    reasoning:
+      typeof capabilities.reasoning === "boolean"
+        ? capabilities.reasoning
+        : DEFAULT_MODEL_CAPABILITIES.reasoning,
+    contextWindow:
+      typeof contextWindow === "number" && Number.isInteger(contextWindow) && contextWindow > 0
+        ? contextWindow
+        : undefined,
+  };
+}
+
+/**
+ * Whether the base URL is allowed by a comma separated list of URL prefixes.
+ * Both are compared after the URL parser resolved them, so that dot segments can't escape a prefix.
+ * An empty list allows no endpoint: the server would otherwise send requests to any address it can reach,
+ * including the internal ones that a hostname may resolve to.
+ */
+export function isEndpointAllowed(baseURL: string, allowlist: string | undefined): boolean {
+  const prefixes = (allowlist ?? "")
+    .split(",")
+    .filter((prefix) => prefix.trim().length > 0)
+    .map(toCanonicalURL);
+  if (prefixes.length === 0) {
+    return false;
+  }
+  const url = toCanonicalURL(baseURL);
+  if (url === undefined || DOT_SEGMENT_PATTERN.test(baseURL.trim())) {
+    return false;
+  }
+  return prefixes.some(
+    (prefix) => prefix !== undefined && (url === prefix || url.startsWith(prefix + "/"))
+  );
+}
+
+/**
+ * Headers of a request to the provider: authentication followed by the custom headers
+ */
+export function getRequestHeaders(
+  endpoint: CustomProviderEndpoint,
+  apiKey: string | undefined
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    if (endpoint.type === "azure-openai") {
+      headers["api-key"] = apiKey;
+    } else {
+      headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+  }
+  return { ...headers, ...endpoint.headers };
+}
+
+/**
+ * Base URL of the chat completions API. Azure serves each deployment under its own path.
+ */
+export function getChatBaseURL(endpoint: CustomProviderEndpoint, modelId: string): string {
+  const baseURL = normalizeBaseURL(endpoint.baseURL);
+  if (endpoint.type === "azure-openai") {
+    return `${baseURL}/openai/deployments/${encodeURIComponent(modelId)}`;
+  }
+  return baseURL;
+}
+
+/**
+ * URL that lists the models of the provider: /v1/models, or the deployments for Azure
+ */
+export function getModelListURL(endpoint: CustomProviderEndpoint): string {
+  const baseURL = normalizeBaseURL(endpoint.baseURL);
+  if (endpoint.type === "azure-openai") {
+    return `${baseURL}/openai/deployments?api-version=${AZURE_DEPLOYMENTS_API_VERSION}`;
+  }
+  return `${baseURL}/models`;
+}
+
+/**
+ * Read the model IDs from a model list response.
+ * Accepts the OpenAI shape `{ data: [{ id }] }` and the native Ollama shape `{ models: [{ name }] }`.
+ */
+export function parseModelList(json: unknown): string[] {
+  if (typeof json !== "object" || json === null) {
+    return [];
+  }
+  const { data, models } = json as { data?: unknown; models?: unknown };
+  const ids: string[] = [];
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      if (typeof item?.id === "string") ids.push(item.id);
+    }
+  }
+  if (Array.isArray(models)) {
+    for (const item of models) {
+      if (typeof item?.name === "string") ids.push(item.name);
+    }
+  }
+  return Array.from(new Set(ids)).sort((a, b) => a.localeCompare(b));
+}
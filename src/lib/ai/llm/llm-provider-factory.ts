@@ -3,9 +3,18 @@ import { createCerebras } from "@ai-sdk/cerebras";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createGroq } from "@ai-sdk/groq";
 import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
 import { createGitHubCopilotOpenAICompatible } from "@opeoginni/github-copilot-openai-compatible";
 import type { LanguageModel } from "ai";
+import {
+  DEFAULT_AZURE_API_VERSION,
+  getChatBaseURL,
+  getRequestHeaders,
+  isEndpointAllowed,
+  validateCustomProviderEndpoint,
+  type CustomProviderEndpoint,
+} from "./custom-provider";
 import { mockModel } from "./models.mock";
 import { PROVIDER_GITHUB_COPILOT } from "./provider-ids";
 
@@ -332,20 +341,31 @@ export class LanguageModelProviderFactory {
    *
    * Priority:
    * 1. If USE_MOCK_LLM=true, returns mock models
-   * 2. Otherwise, creates a model with the provided provider, modelId, and apiKey
+   * 2. If an endpoint is given, creates a model of the custom provider it describes
+   * 3. Otherwise, creates a model with the provided provider, modelId, and apiKey
    *
    * @param provider - Provider name (e.g., "OpenAI", "Google", "Anthropic", "OpenRouter", "Groq")
    * @param modelId - Model ID to use
-   * @param apiKey - API key to use
+   * @param apiKey - API key to use, optional for custom providers
+   * @param endpoint - Endpoint of a custom provider configured by the user
    * @returns The created LanguageModel instance
    * @throws Error if provider, modelId, or apiKey are missing, or if the provider is not supported
    */
-  static createModel(provider: string, modelId: string, apiKey: string): LanguageModel {
+  static createModel(
+    provider: string,
+    modelId: string,
+    apiKey: string,
+    endpoint?: CustomProviderEndpoint
+  ): LanguageModel {
     if (isMockMode) {
       console.log("🤖 Using MOCK LLM models (no API costs)");
       return mockModel;
     }
 
+    if (endpoint) {
+      return this.createCustomProviderModel(provider, modelId, apiKey, endpoint);
+    }
+
     if (!provider || !modelId || !apiKey) {
       throw new Error("Provider, modelId, and apiKey are required to create a model");
     }
@@ -366,4 +386,39 @@ export class LanguageModelProviderFactory {
 
     return creator(modelId, apiKey);
   }
+
+  /**
+   * Create a model served by an OpenAI-compatible server or an Azure OpenAI deployment.
+   * The endpoint comes from the client, so it is validated and checked against CUSTOM_MODEL_ENDPOINT_ALLOWLIST.
+   */
+  private static createCustomProviderModel(
+    provider: string,
+    modelId: string,
+    apiKey: string,
+    endpoint: CustomProviderEndpoint
+  ): LanguageModel {
+    if (!provider || !modelId) {
+      throw new Error("Provider and modelId are required to create a model");
+    }
+    const error = validateCustomProviderEndpoint(endpoint);
+    if (error) {
+      throw new Error(error);
+    }
+    if (!isEndpointAllowed(endpoint.baseURL, process.env.CUSTOM_MODEL_ENDPOINT_ALLOWLIST)) {
+      throw new Error(
+        `The endpoint of provider ${provider} is not allowed by the server, add it to CUSTOM_MODEL_ENDPOINT_ALLOWLIST`
+      );
+    }
+
+    return createOpenAICompatible({
+      name: provider,
+      baseURL: getChatBaseURL(endpoint, modelId),
+      headers: getRequestHeaders(endpoint, apiKey),
+      queryParams:
+        endpoint.type === "azure-openai"
+          ? { "api-version": endpoint.apiVersion || DEFAULT_AZURE_API_VERSION }
+          : undefined,
+      includeUsage: true,
+    })(modelId);
+  }
 }
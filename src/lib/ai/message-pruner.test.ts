@@ -152,4 +152,32 @@ describe("MessagePruner.prune", () => {
     const compressed = MessagePruner.prune(messages, { pruneValidateSql: false });
     expect(compressed[0].parts).toHaveLength(2); // Should NOT be pruned
   });
+
+  it("drops the oldest turns to fit in the context window of the model", () => {
+    const turn = (id: string, text: string) => [
+      { id: `u${id}`, role: "user", parts: [{ type: "text", text }] },
+      { id: `a${id}`, role: "assistant", parts: [{ type: "text", text }] },
+    ];
+    const messages = toMessages([
+      ...turn("1", "x".repeat(4000)),
+      ...turn("2", "y".repeat(400)),
+      { id: "u3", role: "user", parts: [{ type: "text", text: "current question" }] },
+    ]);
+
+    const pruned = MessagePruner.prune(messages, { contextWindow: 1000 });
+    expect(pruned.map((m) => m.id)).toEqual(["u2", "a2", "u3"]);
+    expect(MessagePruner.prune(messages, { contextWindow: 100_000 })).toHaveLength(5);
+  });
+
+  it("keeps the current turn even when it exceeds the context window", () => {
+    const messages = toMessages([
+      { id: "u1", role: "user", parts: [{ type: "text", text: "old question" }] },
+      { id: "a1", role: "assistant", parts: [{ type: "text", text: "old answer" }] },
+      { id: "u2", role: "user", parts: [{ type: "text", text: "z".repeat(4000) }] },
+      { id: "a2", role: "assistant", parts: [{ type: "text", text: "in flight" }] },
+    ]);
+
+    const pruned = MessagePruner.prune(messages, { contextWindow: 100 });
+    expect(pruned.map((m) => m.id)).toEqual(["u2", "a2"]);
+  });
 });
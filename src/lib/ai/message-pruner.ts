@@ -3,6 +3,15 @@ import type { AgentContext } from "./chat-types";
 
 const VALIDATE_SQL_TOOL_NAME = "validate_sql";
 
+/**
+ * Share of the context window given to the conversation history.
+ * The rest is left for the system prompt, the tool definitions and the response.
+ */
+const HISTORY_CONTEXT_WINDOW_RATIO = 0.6;
+
+/** Rough number of characters per token, used to estimate the size of messages without a tokenizer */
+const CHARS_PER_TOKEN = 4;
+
 export class MessagePruner {
   /**
    * Main entry point for message pruning.
@@ -12,10 +21,52 @@ export class MessagePruner {
    */
   static prune(messages: UIMessage[], context?: AgentContext): UIMessage[] {
     // By default, pruning is enabled unless explicitly disabled.
-    if (context?.pruneValidateSql === false) {
-      return messages;
+    const pruned =
+      context?.pruneValidateSql === false
+        ? messages
+        : this.pruneHistoricalToolParts(messages, VALIDATE_SQL_TOOL_NAME);
+
+    if (context?.contextWindow) {
+      return this.pruneToContextWindow(pruned, context.contextWindow);
     }
-    return this.pruneHistoricalToolParts(messages, VALIDATE_SQL_TOOL_NAME);
+    return pruned;
+  }
+
+  /**
+   * Drops the oldest messages until the estimated size of the history fits in the context window of the model.
+   * The current turn, from the last user message to the end, is always kept.
+   * The history still starts with a user message after dropping.
+   */
+  private static pruneToContextWindow(messages: UIMessage[], contextWindow: number): UIMessage[] {
+    if (messages.length === 0) return messages;
+
+    let lastUserIndex = messages.length - 1;
+    while (lastUserIndex > 0 && messages[lastUserIndex].role !== "user") {
+      lastUserIndex--;
+    }
+
+    let budget = Math.floor(contextWindow * HISTORY_CONTEXT_WINDOW_RATIO);
+    for (let i = lastUserIndex; i < messages.length; i++) {
+      budget -= this.estimateTokens(messages[i]);
+    }
+
+    let start = lastUserIndex;
+    while (start > 0) {
+      const tokens = this.estimateTokens(messages[start - 1]);
+      if (tokens > budget) {
+        break;
+      }
+      budget -= tokens;
+      start--;
+    }
+    while (start < lastUserIndex && messages[start].role !== "user") {
+      start++;
+    }
+    return start === 0 ? messages : messages.slice(start);
+  }
+
+  private static estimateTokens(message: UIMessage): number {
+    return Math.ceil(JSON.stringify(message.parts ?? []).length / CHARS_PER_TOKEN);
   }
 
   /**
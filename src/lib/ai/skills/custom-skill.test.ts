@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUNDLED_SKILL_NAMES,
+  isSafeSkillPath,
+  MAX_CUSTOM_SKILLS_TOTAL_BYTES,
+  MAX_SKILL_BYTES,
+  parseSkillFrontmatter,
+  sanitizeCustomSkills,
+  validateCustomSkill,
+  type CustomSkill,
+} from "./custom-skill";
+import { SkillManager } from "./skill-manager";
+
+const skill = (name: string, extra?: Partial<CustomSkill>): CustomSkill => ({
+  name,
+  description: "Naming conventions of our tables",
+  content: `---\nname: ${name}\n---\n# Manual`,
+  resources: {},
+  ...extra,
+});
+
+describe("parseSkillFrontmatter", () => {
+  it("reads the name and description and strips the frontmatter", () => {
+    expect(
+      parseSkillFrontmatter(
+        '---\nname: naming\ndescription: "Use it when: writing DDL"\n---\n\n# Naming\nBody'
+      )
+    ).toEqual({ name: "naming", description: "Use it when: writing DDL", body: "# Naming\nBody" });
+  });
+
+  it("returns the whole text as the body without frontmatter", () => {
+    expect(parseSkillFrontmatter("# Manual\n")).toEqual({ body: "# Manual" });
+  });
+});
+
+describe("validateCustomSkill", () => {
+  it("accepts a valid skill", () => {
+    expect(validateCustomSkill(skill("naming", { resources: { "rules/a.md": "x" } }))).toBeNull();
+  });
+
+  it("rejects invalid names, unsafe paths and oversized files", () => {
+    expect(validateCustomSkill(skill("../etc"))).toContain("'name'");
+    expect(validateCustomSkill(skill("naming", { description: "" }))).toContain("'description'");
+    expect(validateCustomSkill(skill("naming", { resources: { "../a.md": "x" } }))).toContain(
+      "Invalid resource path"
+    );
+    expect(validateCustomSkill(skill("naming", { resources: { "SKILL.md": "x" } }))).toContain(
+      "Invalid resource path"
+    );
+    expect(
+      validateCustomSkill(skill("naming", { content: "x".repeat(MAX_SKILL_BYTES + 1) }))
+    ).toContain("exceeds");
+  });
+
+  it("checks resource paths stay inside the skill", () => {
+    expect(isSafeSkillPath("rules/naming.md")).toBe(true);
+    expect(isSafeSkillPath("/etc/passwd")).toBe(false);
+    expect(isSafeSkillPath("C:\\skills\\a.md")).toBe(false);
+    expect(isSafeSkillPath("rules\\..\\..\\a.md")).toBe(false);
+  });
+});
+
+describe("sanitizeCustomSkills", () => {
+  it("drops malformed, invalid, duplicate and reserved skills", () => {
+    const result = sanitizeCustomSkills(
+      [
+        skill("naming"),
+        skill("NAMING"),
+        skill("sql-expert"),
+        { name: "broken" },
+        skill("catalog", { resources: { "a.md": 1 as unknown as string } }),
+        skill("runbook"),
+      ],
+      ["sql-expert"]
+    );
+    expect(result.map((s) => s.name)).toEqual(["naming", "runbook"]);
+  });
+
+  it("drops the skills beyond the total size of a request", () => {
+    const file = "x".repeat(MAX_SKILL_BYTES);
+    const files = (count: number) =>
+      Object.fromEntries(Array.from({ length: count }, (_, i) => [`r${i}.md`, file]));
+    const count = Math.floor(MAX_CUSTOM_SKILLS_TOTAL_BYTES / MAX_SKILL_BYTES) - 1;
+
+    const result = sanitizeCustomSkills(
+      [
+        skill("catalog", { resources: files(count) }),
+        skill("runbook", { resources: files(1) }),
+        skill("naming"),
+      ],
+      []
+    );
+    expect(result.map((s) => s.name)).toEqual(["catalog", "naming"]);
+  });
+
+  it("ignores a payload that is not an array", () => {
+    expect(sanitizeCustomSkills({ name: "naming" }, [])).toEqual([]);
+  });
+});
+
+describe("BUNDLED_SKILL_NAMES", () => {
+  it("lists the skills bundled with the app", () => {
+    expect(
+      SkillManager.listSkills()
+        .map((s) => s.name)
+        .sort()
+    ).toEqual([...BUNDLED_SKILL_NAMES].sort());
+  });
+});
@@ -0,0 +1,189 @@
+// Custom skills: skill packs managed by the user in the browser and sent with each chat request.
+// The settings page validates a skill before it's saved, and the chat route checks it again since the request comes from the browser.
+
+/** Max size (bytes) for a single SKILL.md or resource file. Rejects larger files to avoid OOM and abuse. 512KB fits typical manuals. */
+export const MAX_SKILL_BYTES = 512 * 1024;
+
+/** Max number of custom skills sent with a chat request */
+export const MAX_CUSTOM_SKILLS = 20;
+
+/** Max number of resource files of a custom skill */
+export const MAX_CUSTOM_SKILL_RESOURCES = 50;
+
+/** Max total size (bytes) of the custom skills of a chat request, the skills beyond it are dropped */
+export const MAX_CUSTOM_SKILLS_TOTAL_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Lower-cased names of the skills bundled with the app.
+ * The browser can't read the skill directory, so the names are listed at build time, see next.config.ts.
+ * A custom skill can't use them because the bundled skill is always loaded instead.
+ */
+export const BUNDLED_SKILL_NAMES = (process.env.BUNDLED_SKILL_NAMES ?? "")
+  .split(",")
+  .filter((name) => name.length > 0)
+  .map((name) => name.toLowerCase());
+
+export interface CustomSkill {
+  /** Frontmatter `name` of the SKILL.md */
+  name: string;
+  /** Frontmatter `description` of the SKILL.md */
+  description: string;
+  /** Full markdown of the SKILL.md, including the frontmatter */
+  content: string;
+  /** Key: relative path such as rules/naming.md, value: markdown of the file */
+  resources: Record<string, string>;
+}
+
+const SKILL_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+export function getByteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Size of the content and the resources of a skill
+ */
+export function getCustomSkillBytes(skill: CustomSkill): number {
+  return Object.values(skill.resources).reduce(
+    (total, resource) => total + getByteLength(resource),
+    getByteLength(skill.content)
+  );
+}
+
+/**
+ * Parse the `name` and `description` of the YAML frontmatter of a SKILL.md.
+ * Only single line `key: value` entries are supported, which is what skill manuals use.
+ */
+export function parseSkillFrontmatter(markdown: string): {
+  name?: string;
+  description?: string;
+  body: string;
+} {
+  const match = markdown.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { body: markdown.trim() };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const entry = line.match(/^([a-zA-Z_][\w-]*)\s*:\s*(.*)$/);
+    if (entry) {
+      fields[entry[1]] = entry[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+    }
+  }
+  return {
+    name: fields["name"] || undefined,
+    description: fields["description"] || undefined,
+    body: markdown.substring(match[0].length).trim(),
+  };
+}
+
+/**
+ * Use forward slashes and drop the leading ./ so that a resource is found by any spelling of its path
+ */
+export function normalizeSkillPath(p: string): string {
+  return p
+    .trim()
+    .replaceAll("\\", "/")
+    .replace(/^(\.\/)+/, "");
+}
+
+/**
+ * Whether the path is relative and stays inside the skill, e.g. rules/naming.md
+ */
+export function isSafeSkillPath(p: string): boolean {
+  if (p.length === 0 || p.startsWith("/") || p.startsWith("\\") || /^[a-zA-Z]:/.test(p)) {
+    return false;
+  }
+  return p
+    .replaceAll("\\", "/")
+    .split("/")
+    .every((segment) => segment !== "..");
+}
+
+/**
+ * Validate a custom skill, returns the error message or null if it's valid
+ */
+export function validateCustomSkill(skill: CustomSkill): string | null {
+  if (!SKILL_NAME_PATTERN.test(skill.name)) {
+    return "The frontmatter of the skill must have a 'name' made of letters, digits, '-', '_' or '.'";
+  }
+  if (!skill.description) {
+    return `The frontmatter of skill [${skill.name}] must have a 'description' that tells the agent when to load it`;
+  }
+  if (getByteLength(skill.content) > MAX_SKILL_BYTES) {
+    return `SKILL.md of skill [${skill.name}] exceeds ${MAX_SKILL_BYTES} bytes`;
+  }
+
+  const paths = Object.keys(skill.resources);
+  if (paths.length > MAX_CUSTOM_SKILL_RESOURCES) {
+    return `Skill [${skill.name}] has more than ${MAX_CUSTOM_SKILL_RESOURCES} resource files`;
+  }
+  for (const p of paths) {
+    if (!isSafeSkillPath(p) || p.toLowerCase() === "skill.md") {
+      return `Invalid resource path [${p}] of skill [${skill.name}]`;
+    }
+    if (getByteLength(skill.resources[p]) > MAX_SKILL_BYTES) {
+      return `Resource [${p}] of skill [${skill.name}] exceeds ${MAX_SKILL_BYTES} bytes`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate the custom skills received in a chat request.
+ * Invalid skills, duplicates and skills that have the name of a bundled skill are dropped,
+ * and so are the skills beyond MAX_CUSTOM_SKILLS or MAX_CUSTOM_SKILLS_TOTAL_BYTES.
+ */
+export function sanitizeCustomSkills(input: unknown, reservedNames: string[]): CustomSkill[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+
+  const names = new Set(reservedNames.map((name) => name.toLowerCase()));
+  const skills: CustomSkill[] = [];
+  let totalBytes = 0;
+  for (const item of input) {
+    if (skills.length >= MAX_CUSTOM_SKILLS) {
+      break;
+    }
+    if (
+      typeof item !== "object" ||
+      item === null ||
+      typeof item.name !== "string" ||
+      typeof item.description !== "string" ||
+      typeof item.content !== "string" ||
+      typeof item.resources !== "object" ||
+      item.resources === null ||
+      Object.values(item.resources).some((value) => typeof value !== "string")
+    ) {
+      continue;
+    }
+
+    const skill: CustomSkill = {
+      name: item.name,
+      description: item.description,
+      content: item.content,
+      resources: item.resources,
+    };
+    if (validateCustomSkill(skill) !== null || names.has(skill.name.toLowerCase())) {
+      continue;
+    }
+    const bytes = getCustomSkillBytes(skill);
+    if (totalBytes + bytes > MAX_CUSTOM_SKILLS_TOTAL_BYTES) {
+      continue;
+    }
+    totalBytes += bytes;
+    names.add(skill.name.toLowerCase());
+    skills.push(skill);
+  }
+  return skills;
+}
+
+/**
+ * Find a custom skill by name, case-insensitively
+ */
+export function findCustomSkill(skills: CustomSkill[], name: string): CustomSkill | undefined {
+  const normalized = name.trim().toLowerCase();
+  return skills.find((skill) => skill.name.toLowerCase() === normalized);
+}
@@ -3,6 +3,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import matter from "gray-matter";
+import { MAX_SKILL_BYTES } from "./custom-skill";
 
 export interface SkillMetadata {
   name: string;
@@ -26,8 +27,6 @@ type SkillCache = {
 
 export class SkillManager {
   private static readonly SKILL_FILENAME = "SKILL.md";
-  /** Max size (bytes) for a single SKILL.md file. Rejects larger files to avoid OOM and abuse. 512KB fits typical manuals. */
-  private static readonly MAX_SKILL_BYTES = 512 * 1024;
 
   private static cache: SkillCache | null = null;
 
@@ -108,9 +107,9 @@ export class SkillManager {
     try {
       const stat = fs.statSync(skillPath);
       if (!stat.isFile()) return null;
-      if (stat.size > SkillManager.MAX_SKILL_BYTES) {
+      if (stat.size > MAX_SKILL_BYTES) {
         console.warn(
-          `[SkillManager] Skipping skill file (exceeds ${SkillManager.MAX_SKILL_BYTES} bytes): ${skillPath} (${stat.size} bytes)`
+          `[SkillManager] Skipping skill file (exceeds ${MAX_SKILL_BYTES} bytes): ${skillPath} (${stat.size} bytes)`
         );
         return null;
       }
@@ -167,6 +166,23 @@ export class SkillManager {
     return SkillManager.cache;
   }
 
+  /**
+   * Names of the skills under a directory, without loading their content.
+   * Used at build time to tell the browser which skill names are taken by bundled skills.
+   */
+  public static readSkillNames(rootDir: string): string[] {
+    const names: string[] = [];
+    for (const skillFile of SkillManager.walkDirsForSkillFiles(rootDir)) {
+      const raw = SkillManager.readSkillFile(skillFile);
+      if (!raw) continue;
+      const data = matter(raw).data as Record<string, unknown>;
+      names.push(
+        typeof data.name === "string" ? data.name : path.basename(path.dirname(skillFile))
+      );
+    }
+    return names.sort((a, b) => a.localeCompare(b));
+  }
+
   /** Return metadata for all bundled skills. */
   public static listSkills(): SkillMetadata[] {
     return SkillManager.getCache().list;
@@ -242,9 +258,9 @@ export class SkillManager {
       const stat = fs.statSync(fullPath);
       if (!stat.isFile()) return null;
       // Reuse SKILL size limit for now; most rule files/AGENTS.md are much smaller.
-      if (stat.size > SkillManager.MAX_SKILL_BYTES) {
+      if (stat.size > MAX_SKILL_BYTES) {
         console.warn(
-          `[SkillManager] Skipping resource (exceeds ${SkillManager.MAX_SKILL_BYTES} bytes): ${fullPath} (${stat.size} bytes)`
+          `[SkillManager] Skipping resource (exceeds ${MAX_SKILL_BYTES} bytes): ${fullPath} (${stat.size} bytes)`
         );
         return null;
       }
@@ -21,10 +21,12 @@ export type ToolProgressCallback = (
 /**
  * Tool executor function type
  * Takes tool input and connection, returns tool output
- * Optionally accepts a progress callback for tools that support progress tracking
+ * Optionally accepts a progress callback for tools that support progress tracking,
+ * and the id of the tool call for tools that render an interaction in the chat
  */
 export type ToolExecutor<TInput, TOutput> = (
   input: TInput,
   connection: Connection,
-  progressCallback?: ToolProgressCallback
+  progressCallback?: ToolProgressCallback,
+  toolCallId?: string
 ) => Promise<TOutput>;
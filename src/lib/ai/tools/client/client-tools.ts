@@ -119,7 +119,7 @@ export const ClientTools = {
   }),
   execute_sql: tool({
     description:
-      "Execute SQL query on ClickHouse database (client-side execution). Use this tool to select data from the database to improve your response.",
+      "Execute SQL query on ClickHouse database (client-side execution). Use this tool to select data from the database to improve your response. Read queries run with resource limits and a result may be truncated (see 'truncated'), and statements other than SELECT, SHOW, DESCRIBE or EXPLAIN may be rejected or require the approval of the user.",
     inputSchema: z.object({
       sql: z.string().describe("The SQL query to execute"),
     }),
@@ -128,7 +128,10 @@ export const ClientTools = {
       rows: z.array(z.any()).optional(),
       rowCount: z.number(),
       sampleRow: z.any().optional(),
+      truncated: z.boolean().optional(),
+      warning: z.string().optional(),
       error: z.string().optional(),
+      approval: z.enum(["approved", "denied"]).optional(),
     }),
   }),
   validate_sql: tool({
@@ -1,5 +1,12 @@
+import { AgentConfigurationManager } from "@/components/settings/agent/agent-manager";
 import { QueryError } from "@/lib/connection/connection";
 import type { ToolExecutor } from "./client-tool-types";
+import { useSqlApprovalStore } from "./sql-approval-store";
+import {
+  classifySqlStatement,
+  getSqlExecutionSettings,
+  truncateResultRows,
+} from "./sql-execution-policy";
 
 type ExecuteSqlInput = {
   sql: string;
@@ -10,7 +17,11 @@ type ExecuteSqlOutput = {
   rows?: Array<Record<string, unknown>>;
   rowCount: number;
   sampleRow?: Record<string, unknown>;
+  /** Set when the result has more rows than the max result rows of the connection */
+  truncated?: boolean;
+  warning?: string;
   error?: string;
+  approval?: "approved" | "denied";
 };
 
 type JsonCompactResponse = {
@@ -18,15 +29,54 @@ type JsonCompactResponse = {
   data?: unknown[][];
 };
 
+function errorOutput(error: string): ExecuteSqlOutput {
+  return {
+    error,
+    columns: [],
+    rows: [],
+    rowCount: 0,
+    sampleRow: {},
+  };
+}
+
 export const executeSqlExecutor: ToolExecutor<ExecuteSqlInput, ExecuteSqlOutput> = async (
   input,
-  connection
+  connection,
+  _progressCallback,
+  toolCallId
 ) => {
+  let approval: ExecuteSqlOutput["approval"];
   try {
     const { sql } = input;
 
+    // Apply the SQL execution policy of the connection before anything is sent to the server
+    const policy = AgentConfigurationManager.getSqlExecutionPolicy(connection.name);
+    const { kind, statementType } = classifySqlStatement(sql);
+    if (kind === "write") {
+      if (policy.writeStatements === "deny") {
+        return errorOutput(
+          `${statementType} statements are not allowed on this connection. Only read statements such as SELECT can be executed.`
+        );
+      }
+      if (policy.writeStatements === "approve") {
+        const approved =
+          toolCallId !== undefined &&
+          (await useSqlApprovalStore.getState().requestApproval(toolCallId, sql, statementType));
+        if (!approved) {
+          return {
+            ...errorOutput(
+              "The user denied the execution of this statement. Do not retry it, ask the user how to proceed instead."
+            ),
+            approval: "denied",
+          };
+        }
+        approval = "approved";
+      }
+    }
+
     const { response } = connection.query(sql, {
       default_format: "JSONCompact",
+      ...getSqlExecutionSettings(policy, kind),
     });
     const apiResponse = await response;
     const responseData = apiResponse.data.json() as JsonCompactResponse;
@@ -39,7 +89,10 @@ export const executeSqlExecutor: ToolExecutor<ExecuteSqlInput, ExecuteSqlOutput>
         type: m.type,
       })) || [];
 
-    const rowsData = (responseData?.data as unknown[][]) || [];
+    const { rows: rowsData, truncated } = truncateResultRows(
+      (responseData?.data as unknown[][]) || [],
+      policy
+    );
     const rows = rowsData.map((row: unknown[]) => {
       const obj: Record<string, unknown> = {};
       columns.forEach((col: { name: string }, idx: number) => {
@@ -53,24 +106,20 @@ export const executeSqlExecutor: ToolExecutor<ExecuteSqlInput, ExecuteSqlOutput>
       rows,
       rowCount: rows.length,
       sampleRow: rows[0] || {},
+      ...(truncated && {
+        truncated,
+        warning: `The result was truncated to the first ${rows.length} rows by the max result rows limit of the connection, the query returns more rows. Do not draw conclusions about the total count from rowCount, use count() or aggregations instead.`,
+      }),
+      ...(approval && { approval }),
     };
   } catch (error) {
     if (error instanceof QueryError && (error as QueryError).data) {
-      return {
-        error: (error as QueryError).data,
-        columns: [],
-        rows: [],
-        rowCount: 0,
-        sampleRow: {},
-      };
+      return { ...errorOutput((error as QueryError).data), ...(approval && { approval }) };
     }
     console.error("Error executing execute_sql tool:", error);
     return {
-      error: error instanceof Error ? error.message : "Unknown error",
-      columns: [],
-      rows: [],
-      rowCount: 0,
-      sampleRow: {},
+      ...errorOutput(error instanceof Error ? error.message : "Unknown error"),
+      ...(approval && { approval }),
     };
   }
 };
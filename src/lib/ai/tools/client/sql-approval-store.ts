@@ -0,0 +1,61 @@
+import { create } from "zustand";
+
+/**
+ * A statement of the agent that waits for the decision of the user
+ */
+export interface PendingSqlApproval {
+  toolCallId: string;
+  sql: string;
+  statementType: string;
+  resolve: (approved: boolean) => void;
+}
+
+interface SqlApprovalState {
+  pending: Map<string, PendingSqlApproval>;
+  /**
+   * Wait until the user approves or denies the statement in the chat
+   */
+  requestApproval: (toolCallId: string, sql: string, statementType: string) => Promise<boolean>;
+  resolveApproval: (toolCallId: string, approved: boolean) => void;
+  /**
+   * Deny all pending statements, e.g. when the chat is stopped
+   */
+  denyAll: () => void;
+}
+
+/**
+ * Zustand store connecting the execute_sql tool, which waits for a decision,
+ * with the approval card rendered in the chat message of the tool call
+ */
+export const useSqlApprovalStore = create<SqlApprovalState>((set, get) => ({
+  pending: new Map<string, PendingSqlApproval>(),
+
+  requestApproval: (toolCallId: string, sql: string, statementType: string) => {
+    return new Promise<boolean>((resolve) => {
+      set((state) => {
+        const pending = new Map(state.pending);
+        pending.set(toolCallId, { toolCallId, sql, statementType, resolve });
+        return { pending };
+      });
+    });
+  },
+
+  resolveApproval: (toolCallId: string, approved: boolean) => {
+    const approval = get().pending.get(toolCallId);
+    if (!approval) {
+      return;
+    }
+    set((state) => {
+      const pending = new Map(state.pending);
+      pending.delete(toolCallId);
+      return { pending };
+    });
+    approval.resolve(approved);
+  },
+
+  denyAll: () => {
+    const approvals = Array.from(get().pending.values());
+    set(() => ({ pending: new Map<string, PendingSqlApproval>() }));
+    approvals.forEach((approval) => approval.resolve(false));
+  },
+}));
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifySqlStatement,
+  DEFAULT_SQL_EXECUTION_POLICY,
+  getSqlExecutionSettings,
+  truncateResultRows,
+} from "./sql-execution-policy";
+
+describe("classifySqlStatement", () => {
+  it("classifies read statements", () => {
+    for (const sql of [
+      "SELECT 1",
+      "  with t as (select 1) select * from t",
+      "-- comment\nSHOW TABLES",
+      "/* hint */ DESCRIBE system.parts",
+      "EXPLAIN PIPELINE SELECT 1",
+      "(SELECT 1) UNION ALL (SELECT 2)",
+    ]) {
+      expect(classifySqlStatement(sql).kind).toBe("read");
+    }
+  });
+
+  it("classifies anything else as a write with its statement type", () => {
+    expect(classifySqlStatement("ALTER TABLE t DROP COLUMN c")).toEqual({
+      kind: "write",
+      statementType: "ALTER",
+    });
+    expect(classifySqlStatement("insert into t values (1)").statementType).toBe("INSERT");
+    expect(classifySqlStatement("SYSTEM STOP MERGES").kind).toBe("write");
+    expect(classifySqlStatement("").kind).toBe("write");
+  });
+
+  it("classifies a script as a write if any statement is not a read", () => {
+    expect(classifySqlStatement("SELECT 1; DROP TABLE t;")).toEqual({
+      kind: "write",
+      statementType: "DROP",
+    });
+  });
+});
+
+describe("getSqlExecutionSettings", () => {
+  it("forces readonly=2 only on read statements", () => {
+    expect(getSqlExecutionSettings(DEFAULT_SQL_EXECUTION_POLICY, "read")).toMatchObject({
+      readonly: 2,
+      max_result_rows: 10001,
+      result_overflow_mode: "break",
+      max_execution_time: 60,
+    });
+  });
+
+  it("does not limit writes approved by the user", () => {
+    expect(getSqlExecutionSettings(DEFAULT_SQL_EXECUTION_POLICY, "write")).toEqual({});
+  });
+
+  it("omits limits that are set to 0", () => {
+    expect(
+      getSqlExecutionSettings(
+        {
+          writeStatements: "deny",
+          enforceReadOnly: false,
+          maxResultRows: 0,
+          maxExecutionTime: 0,
+          maxMemoryUsage: 0,
+        },
+        "read"
+      )
+    ).toEqual({});
+  });
+});
+
+describe("truncateResultRows", () => {
+  const policy = { ...DEFAULT_SQL_EXECUTION_POLICY, maxResultRows: 2 };
+
+  it("flags a result that has more rows than the limit", () => {
+    expect(truncateResultRows([1, 2, 3], policy)).toEqual({ rows: [1, 2], truncated: true });
+  });
+
+  it("keeps a result that fits in the limit", () => {
+    expect(truncateResultRows([1, 2], policy)).toEqual({ rows: [1, 2], truncated: false });
+    expect(truncateResultRows([1, 2, 3], { ...policy, maxResultRows: 0 }).truncated).toBe(false);
+  });
+});
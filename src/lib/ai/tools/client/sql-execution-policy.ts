@@ -0,0 +1,116 @@
+import { SqlUtils } from "@/lib/sql-utils";
+
+/**
+ * How statements that may modify data or schema are handled when the agent executes them
+ * - deny: never executed, the model receives an error
+ * - approve: executed only after the user approves it in the chat
+ * - allow: executed without asking
+ */
+export type WriteStatementMode = "deny" | "approve" | "allow";
+
+/**
+ * Guardrails applied to the SQL executed by the agent on a connection
+ */
+export interface SqlExecutionPolicy {
+  writeStatements: WriteStatementMode;
+  /** Execute read statements with readonly=2 so that the server rejects anything else */
+  enforceReadOnly: boolean;
+  /** 0 means the limit of the server is used */
+  maxResultRows: number;
+  /** In seconds, 0 means the limit of the server is used */
+  maxExecutionTime: number;
+  /** In bytes, 0 means the limit of the server is used */
+  maxMemoryUsage: number;
+}
+
+export const DEFAULT_SQL_EXECUTION_POLICY: SqlExecutionPolicy = {
+  writeStatements: "approve",
+  enforceReadOnly: true,
+  maxResultRows: 10000,
+  maxExecutionTime: 60,
+  maxMemoryUsage: 4 * 1024 * 1024 * 1024,
+};
+
+export type SqlStatementKind = "read" | "write";
+
+export interface SqlStatementClassification {
+  kind: SqlStatementKind;
+  /** Leading keyword of the first statement that is not a read, or of the first statement, e.g. ALTER */
+  statementType: string;
+}
+
+// Statements that never modify data or schema
+const READ_STATEMENT_TYPES = new Set([
+  "SELECT",
+  "WITH",
+  "SHOW",
+  "DESCRIBE",
+  "DESC",
+  "EXPLAIN",
+  "EXISTS",
+]);
+
+/**
+ * Classify the statements of a SQL text by their leading keyword.
+ * Anything that is not a known read statement is classified as a write, so unknown statements
+ * always go through the approval. Read statements are additionally executed with readonly=2,
+ * so a misclassified statement is still rejected by the server.
+ */
+export function classifySqlStatement(sql: string): SqlStatementClassification {
+  const statements = SqlUtils.splitSqlStatements(SqlUtils.removeComments(sql));
+  let firstType = "";
+  for (const statement of statements) {
+    // Leading parentheses are allowed for queries like (SELECT 1) UNION ALL (SELECT 2)
+    const statementType = statement.match(/^[\s(]*([a-zA-Z]+)/)?.[1]?.toUpperCase() ?? "";
+    if (!READ_STATEMENT_TYPES.has(statementType)) {
+      return { kind: "write", statementType: statementType || "UNKNOWN" };
+    }
+    firstType ||= statementType;
+  }
+  return statements.length === 0
+    ? { kind: "write", statementType: "UNKNOWN" }
+    : { kind: "read", statementType: firstType };
+}
+
+/**
+ * Settings sent along with a statement executed by the agent.
+ * The limits only apply to reads: a write the user approved must not be cut off halfway.
+ */
+export function getSqlExecutionSettings(
+  policy: SqlExecutionPolicy,
+  kind: SqlStatementKind
+): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+  if (kind !== "read") {
+    return settings;
+  }
+  if (policy.enforceReadOnly) {
+    settings["readonly"] = 2;
+  }
+  if (policy.maxResultRows > 0) {
+    // One row more than the limit so that a truncated result can be told from a complete one
+    settings["max_result_rows"] = policy.maxResultRows + 1;
+    // Return the rows up to the limit instead of failing the query
+    settings["result_overflow_mode"] = "break";
+  }
+  if (policy.maxExecutionTime > 0) {
+    settings["max_execution_time"] = policy.maxExecutionTime;
+  }
+  if (policy.maxMemoryUsage > 0) {
+    settings["max_memory_usage"] = policy.maxMemoryUsage;
+  }
+  return settings;
+}
+
+/**
+ * Keep the rows within the result limit of the policy, and tell whether rows were dropped
+ */
+export function truncateResultRows<T>(
+  rows: T[],
+  policy: SqlExecutionPolicy
+): { rows: T[]; truncated: boolean } {
+  if (policy.maxResultRows > 0 && rows.length > policy.maxResultRows) {
+    return { rows: rows.slice(0, policy.maxResultRows), truncated: true };
+  }
+  return { rows, truncated: false };
+}
@@ -2,13 +2,18 @@
  * Server-Side Tools for the skill-based agent (chat-v2).
  * Tool definitions live here; execution is implemented in the corresponding modules (e.g. skill-tool).
  */
+import type { CustomSkill } from "@/lib/ai/skills/custom-skill";
 import { tool } from "ai";
 import { z } from "zod";
 import { SkillResourceTool, SkillTool } from "./skill-tool";
 
-export const ServerTools = {
+/**
+ * Create the server tools of a chat request. The custom skills of the request are listed
+ * in the catalogue of the skill tool next to the bundled skills.
+ */
+export const createServerTools = (customSkills: CustomSkill[] = []) => ({
   skill: tool({
-    description: SkillTool.getToolDescription(),
+    description: SkillTool.getToolDescription(customSkills),
     inputSchema: z.object({
       names: z
         .array(z.string())
@@ -17,7 +22,7 @@ export const ServerTools = {
           "Skill name(s) to load (e.g. ['optimization'] or ['optimization', 'visualization'])."
         ),
     }),
-    execute: SkillTool.execute,
+    execute: (input) => SkillTool.execute(input, customSkills),
   }),
 
   skill_resource: tool({
@@ -42,6 +47,6 @@ export const ServerTools = {
         .min(1)
         .describe("Resource requests: each has a skill name and relative paths to load."),
     }),
-    execute: SkillResourceTool.execute,
+    execute: (input) => SkillResourceTool.execute(input, customSkills),
   }),
-};
+});
@@ -5,14 +5,48 @@
  * - SkillResourceTool: loads additional reference files (rules/*.md, AGENTS.md) for
  *   skills whose manuals are already in context.
  *
- * Tool definitions live in server-tools.ts (ServerTools.skill / ServerTools.skill_resource).
+ * Both tools serve the skills bundled on the server's disk and the custom skills sent with the chat request.
+ * Tool definitions live in server-tools.ts (createServerTools).
  */
 import type { SkillResourceToolInput, SkillToolInput } from "@/lib/ai/chat-types";
+import {
+  findCustomSkill,
+  normalizeSkillPath,
+  parseSkillFrontmatter,
+  type CustomSkill,
+} from "@/lib/ai/skills/custom-skill";
 import { SkillManager } from "@/lib/ai/skills/skill-manager";
 
+function listSkillNames(customSkills: CustomSkill[]): string[] {
+  return [...SkillManager.listSkills().map((s) => s.name), ...customSkills.map((s) => s.name)];
+}
+
+function getCustomSkill(customSkills: CustomSkill[], name: string): string | null {
+  const skill = findCustomSkill(customSkills, name);
+  return skill
+    ? `# Manual Loaded: ${skill.name}\n\n${parseSkillFrontmatter(skill.content).body}`
+    : null;
+}
+
+function getCustomSkillResource(
+  customSkills: CustomSkill[],
+  skillName: string,
+  resourcePath: string
+): string | null {
+  const skill = findCustomSkill(customSkills, skillName);
+  const normalized = normalizeSkillPath(resourcePath);
+  if (!skill || !Object.hasOwn(skill.resources, normalized)) {
+    return null;
+  }
+  return skill.resources[normalized].trim();
+}
+
 export class SkillTool {
-  public static getToolDescription(): string {
-    const skills = SkillManager.listSkills();
+  public static getToolDescription(customSkills: CustomSkill[] = []): string {
+    const skills = [
+      ...SkillManager.listSkills(),
+      ...customSkills.map(({ name, description }) => ({ name, description })),
+    ];
     const xmlLines = skills
       .map(
         (s) => `  <skill><name>${s.name}</name><description>${s.description}</description></skill>`
@@ -36,13 +70,17 @@ ${xmlLines}
 </skills>`;
   }
 
-  public static async execute({ names }: SkillToolInput): Promise<string> {
-    const available = SkillManager.listSkills().map((s) => s.name);
+  public static async execute(
+    { names }: SkillToolInput,
+    customSkills: CustomSkill[] = []
+  ): Promise<string> {
+    const available = listSkillNames(customSkills);
     const loaded: string[] = [];
     const notFound: string[] = [];
 
     for (const name of names) {
-      const content = SkillManager.getSkill(name.trim());
+      const content =
+        SkillManager.getSkill(name.trim()) ?? getCustomSkill(customSkills, name.trim());
       if (content) loaded.push(content);
       else notFound.push(name);
     }
@@ -82,8 +120,11 @@ Usage:
 IMPORTANT: Do NOT use the 'skill' tool to reload the manual. This tool loads only the referenced files.`;
   }
 
-  public static async execute({ resources }: SkillResourceToolInput): Promise<string> {
-    const available = SkillManager.listSkills().map((s) => s.name);
+  public static async execute(
+    { resources }: SkillResourceToolInput,
+    customSkills: CustomSkill[] = []
+  ): Promise<string> {
+    const available = listSkillNames(customSkills);
     const loaded: string[] = [];
     const missing: string[] = [];
 
@@ -93,7 +134,8 @@ IMPORTANT: Do NOT use the 'skill' tool to reload the manual. This tool loads onl
       const paths = r.paths.map((p) => p.trim()).filter((p) => p.length > 0);
       for (const p of paths) {
         if (p.toLowerCase() === "skill.md") continue;
-        const content = SkillManager.getSkillResource(skill, p);
+        const content =
+          SkillManager.getSkillResource(skill, p) ?? getCustomSkillResource(customSkills, skill, p);
         if (content) {
           loaded.push(`# Skill Resource: ${skill} / ${p}\n\n${content}`);
         } else {
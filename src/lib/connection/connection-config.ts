@@ -1,3 +1,19 @@
+/**
+ * How the credentials of a connection are sent to the server.
+ * - basic: HTTP Basic `Authorization` header built from user/password
+ * - clickhouse-header: `X-ClickHouse-User` / `X-ClickHouse-Key` headers
+ * - bearer: `Authorization: Bearer <token>`, e.g. for a JWT-validating gateway
+ * - none: no credentials are sent, e.g. a proxy injects them
+ */
+export type ConnectionAuthType = "basic" | "clickhouse-header" | "bearer" | "none";
+
+export const CONNECTION_AUTH_TYPES: { value: ConnectionAuthType; label: string }[] = [
+  { value: "basic", label: "Basic" },
+  { value: "clickhouse-header", label: "ClickHouse Header" },
+  { value: "bearer", label: "Bearer Token" },
+  { value: "none", label: "None" },
+];
+
 export interface ConnectionConfig {
   name: string;
   url: string;
@@ -5,4 +21,18 @@ export interface ConnectionConfig {
   password: string;
   cluster: string;
   editable: boolean;
+
+  // Defaults to 'basic' for connections saved before auth types were introduced
+  authType?: ConnectionAuthType;
+  // Token for the 'bearer' auth type
+  token?: string;
+  // Extra HTTP headers sent with every request regardless of the auth type
+  customHeaders?: Record<string, string>;
+}
+
+/**
+ * Returns whether the server side user/password is known at the client side for the given auth type.
+ */
+export function hasPasswordCredential(authType: ConnectionAuthType | undefined): boolean {
+  return authType === undefined || authType === "basic" || authType === "clickhouse-header";
 }
@@ -1,5 +1,6 @@
+import { CredentialVault } from "../storage/credential-vault";
 import { StorageManager } from "../storage/storage-provider-manager";
-import type { ConnectionConfig } from "./connection-config";
+import type { ConnectionAuthType, ConnectionConfig } from "./connection-config";
 
 export const ConnectionChangeType = {
   ADD: 0,
@@ -16,6 +17,11 @@ export interface ConnectionChangeEventArgs {
   afterChange: ConnectionConfig | null;
 }
 
+// Namespace of connection secrets in the credential vault
+const VAULT_NAMESPACE = "connections";
+// Namespace of the custom header values of connections, which may carry credentials of a gateway
+const HEADERS_VAULT_NAMESPACE = "connection-headers";
+
 export class ConnectionManager {
   private static instance: ConnectionManager;
 
@@ -38,6 +44,10 @@ export class ConnectionManager {
       // Ignore
     }
 
+    // Secrets are kept in the vault when it's enabled, plaintext ones are not migrated yet
+    const vaultSecrets = CredentialVault.getInstance().getSecrets(VAULT_NAMESPACE) ?? {};
+    const vaultHeaders = CredentialVault.getInstance().getSecrets(HEADERS_VAULT_NAMESPACE) ?? {};
+
     this.connectionMap = new Map();
     this.connectionArray = [];
     for (const val of savedConnections) {
@@ -60,6 +70,9 @@ export class ConnectionManager {
         cluster?: string;
         isCluster?: boolean;
         editable?: boolean;
+        authType?: ConnectionAuthType;
+        token?: string;
+        customHeaders?: Record<string, string>;
       };
 
       // Process old data
@@ -72,9 +85,17 @@ export class ConnectionManager {
         name: connData.name,
         url: connData.url,
         user: connData.user,
-        password: connData.password || "",
+        password: connData.password || vaultSecrets[connData.name]?.password || "",
         cluster: cluster,
         editable: connData.editable !== undefined ? connData.editable : true,
+        authType: connData.authType || "basic",
+        token: connData.token || vaultSecrets[connData.name]?.token || "",
+        customHeaders: Object.fromEntries(
+          Object.entries(connData.customHeaders || {}).map(([header, value]) => [
+            header,
+            value || vaultHeaders[connData.name]?.[header] || "",
+          ])
+        ),
       };
 
       this.connectionArray.push(connection);
@@ -83,11 +104,55 @@ export class ConnectionManager {
     this.connectionArray.sort((a, c) => a.name.localeCompare(c.name));
   }
 
+  /**
+   * Save connections to storage. When the vault is unlocked, secrets and header values go to the vault
+   * and only blank secret fields are saved in plaintext storage.
+   * Throws a VaultError if the connections carry secrets while the vault is locked.
+   */
+  private saveToStorage(connections: ConnectionConfig[]): void {
+    const vault = CredentialVault.getInstance();
+    const secrets: Record<string, Record<string, string>> = {};
+    const headers: Record<string, Record<string, string>> = {};
+    let hasSecrets = false;
+    for (const conn of connections) {
+      secrets[conn.name] = { password: conn.password, token: conn.token ?? "" };
+      headers[conn.name] = conn.customHeaders ?? {};
+      hasSecrets ||=
+        !!conn.password || !!conn.token || Object.values(headers[conn.name]).some((v) => v !== "");
+    }
+    if (hasSecrets) {
+      vault.assertCanSaveSecrets();
+    }
+
+    if (vault.setSecrets(VAULT_NAMESPACE, secrets)) {
+      vault.setSecrets(HEADERS_VAULT_NAMESPACE, headers);
+      this.getConnectionStorage().setJSON(
+        connections.map((conn) => ({
+          ...conn,
+          password: "",
+          token: "",
+          customHeaders: Object.fromEntries(
+            Object.keys(conn.customHeaders ?? {}).map((header) => [header, ""])
+          ),
+        }))
+      );
+    } else {
+      this.getConnectionStorage().setJSON(connections);
+    }
+  }
+
   constructor() {
     this.connectionMap = new Map();
     this.connectionArray = [];
     this.loadFromStorage();
     StorageManager.getInstance().subscribeToStorageProviderChange(() => this.loadFromStorage());
+    CredentialVault.getInstance().subscribe((event) => {
+      this.loadFromStorage();
+      if (event !== "locked") {
+        // Move plaintext secrets into the vault, or back to plaintext when the vault is disabled
+        this.saveToStorage(this.connectionArray);
+      }
+    });
   }
 
   getConnections(): ConnectionConfig[] {
@@ -102,7 +167,7 @@ export class ConnectionManager {
     this.connectionArray.push(connection);
 
     try {
-      this.getConnectionStorage().setJSON(this.connectionArray);
+      this.saveToStorage(this.connectionArray);
     } catch (e) {
       this.connectionArray.pop();
       throw e;
@@ -127,7 +192,7 @@ export class ConnectionManager {
     const oldConnection = this.connectionArray[index];
     this.connectionArray[index] = newConnection;
     try {
-      this.getConnectionStorage().setJSON(this.connectionArray);
+      this.saveToStorage(this.connectionArray);
     } catch (e) {
       this.connectionArray[index] = oldConnection;
       throw e;
@@ -157,7 +222,7 @@ export class ConnectionManager {
     }
 
     if (oldConnection !== null) {
-      this.getConnectionStorage().setJSON(newConnectionArray);
+      this.saveToStorage(newConnectionArray);
 
       this.connectionArray = newConnectionArray;
       this.connectionMap.delete(name);
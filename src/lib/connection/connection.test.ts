@@ -84,3 +84,140 @@ describe("Connection query context parameters", () => {
     expect(url.searchParams.get("output_format_pretty_row_numbers")).toBe("true");
   });
 });
+
+describe("Connection authentication", () => {
+  beforeEach(() => {
+    mockGetContext.mockReset();
+    mockGetContext.mockReturnValue({});
+    vi.restoreAllMocks();
+  });
+
+  function mockFetch() {
+    return vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => new Response('{"data":[]}', { status: 200 }));
+  }
+
+  function getRequestHeaders(fetchMock: ReturnType<typeof mockFetch>) {
+    return (fetchMock.mock.calls[0][1] as RequestInit).headers as Record<string, string>;
+  }
+
+  it("uses basic authentication by default", async () => {
+    const fetchMock = mockFetch();
+    const connection = Connection.create({
+      name: "test",
+      url: "http://localhost:8123",
+      user: "default",
+      password: "secret",
+      cluster: "",
+      editable: true,
+    });
+
+    await connection.query("SELECT 1").response;
+
+    expect(getRequestHeaders(fetchMock)["Authorization"]).toBe(`Basic ${btoa("default:secret")}`);
+  });
+
+  it("sends ClickHouse user/key headers", async () => {
+    const fetchMock = mockFetch();
+    const connection = Connection.create({
+      name: "test",
+      url: "http://localhost:8123",
+      user: "default",
+      password: "secret",
+      cluster: "",
+      editable: true,
+      authType: "clickhouse-header",
+    });
+
+    await connection.queryRawResponse("SELECT 1").response;
+
+    const headers = getRequestHeaders(fetchMock);
+    expect(headers["X-ClickHouse-User"]).toBe("default");
+    expect(headers["X-ClickHouse-Key"]).toBe("secret");
+    expect(headers["Authorization"]).toBeUndefined();
+  });
+
+  it("sends bearer token and custom headers", async () => {
+    const fetchMock = mockFetch();
+    const connection = Connection.create({
+      name: "test",
+      url: "http://localhost:8123",
+      user: "",
+      password: "",
+      cluster: "",
+      editable: true,
+      authType: "bearer",
+      token: "jwt",
+      customHeaders: { "X-Tenant": "a", Authorization: "overridden" },
+    });
+
+    await connection.query("SELECT 1").response;
+
+    const headers = getRequestHeaders(fetchMock);
+    expect(headers["Authorization"]).toBe("Bearer jwt");
+    expect(headers["X-Tenant"]).toBe("a");
+  });
+
+  it("sends no credentials when auth type is none", async () => {
+    const fetchMock = mockFetch();
+    const connection = Connection.create({
+      name: "test",
+      url: "http://localhost:8123",
+      user: "default",
+      password: "",
+      cluster: "",
+      editable: true,
+      authType: "none",
+    });
+
+    await connection.query("SELECT 1").response;
+
+    expect(getRequestHeaders(fetchMock)["Authorization"]).toBeUndefined();
+  });
+
+  it("refuses to query a node when the password is unknown", async () => {
+    const fetchMock = mockFetch();
+    const connection = Connection.create({
+      name: "test",
+      url: "http://localhost:8123",
+      user: "",
+      password: "",
+      cluster: "",
+      editable: true,
+      authType: "bearer",
+      token: "jwt",
+    });
+    connection.metadata.remoteHostName = "node1";
+    connection.metadata.internalUser = "gateway";
+
+    expect(connection.canQueryOnNode()).toBe(false);
+    await expect(connection.queryOnNode("SELECT 1").response).rejects.toThrow(
+      /Querying the node \[node1\] is not supported with the 'bearer' authentication/
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    connection.metadata.remoteHostName = undefined;
+    await connection.queryOnNode("SELECT 1").response;
+    const body = (fetchMock.mock.calls[0][1] as RequestInit).body as string;
+    expect(body).not.toContain("remote(");
+  });
+
+  it("escapes the password embedded into remote()", async () => {
+    const fetchMock = mockFetch();
+    const connection = Connection.create({
+      name: "test",
+      url: "http://localhost:8123",
+      user: "default",
+      password: "it's\\",
+      cluster: "",
+      editable: true,
+    });
+    connection.metadata.remoteHostName = "node1";
+
+    await connection.queryOnNode("SELECT 1").response;
+
+    const body = (fetchMock.mock.calls[0][1] as RequestInit).body as string;
+    expect(body).toContain("'default', 'it\\'s\\\\')");
+  });
+});
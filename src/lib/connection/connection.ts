@@ -1,6 +1,11 @@
 import type { DependencyTableInfo } from "@/components/dependency-view/dependency-types";
 import { QueryContextManager } from "@/components/settings/query-context/query-context-manager";
-import type { ConnectionConfig } from "./connection-config";
+import { SqlUtils } from "@/lib/sql-utils";
+import {
+  hasPasswordCredential,
+  type ConnectionAuthType,
+  type ConnectionConfig,
+} from "./connection-config";
 
 // Re-export ConnectionConfig for convenience
 export type { ConnectionConfig };
@@ -130,6 +135,9 @@ export class Connection {
   readonly user: string;
   readonly password?: string;
   readonly cluster?: string;
+  readonly authType: ConnectionAuthType;
+  readonly token?: string;
+  readonly customHeaders: Record<string, string>;
 
   // Runtime properties
   readonly host: string;
@@ -147,6 +155,9 @@ export class Connection {
     this.user = config.user;
     this.password = config.password;
     this.cluster = config.cluster;
+    this.authType = config.authType ?? "basic";
+    this.token = config.token;
+    this.customHeaders = config.customHeaders ?? {};
 
     const urlObj = new URL(config.url);
     this.host = urlObj.origin;
@@ -206,6 +217,36 @@ export class Connection {
     return queryParameters;
   }
 
+  /**
+   * Build request headers.
+   * Precedence: custom headers of the connection < authentication headers < request headers
+   */
+  private buildRequestHeaders(headers?: Record<string, string>): Record<string, string> {
+    const requestHeaders: Record<string, string> = {
+      "Content-Type": "text/plain",
+      ...this.customHeaders,
+    };
+
+    switch (this.authType) {
+      case "basic":
+        requestHeaders["Authorization"] = `Basic ${btoa(`${this.user}:${this.password || ""}`)}`;
+        break;
+      case "clickhouse-header":
+        requestHeaders["X-ClickHouse-User"] = this.user;
+        if (this.password) {
+          requestHeaders["X-ClickHouse-Key"] = this.password;
+        }
+        break;
+      case "bearer":
+        requestHeaders["Authorization"] = `Bearer ${this.token || ""}`;
+        break;
+      case "none":
+        break;
+    }
+
+    return Object.assign(requestHeaders, headers);
+  }
+
   public query(
     sql: string,
     params?: Record<string, unknown>,
@@ -222,12 +263,7 @@ export class Connection {
     const [replacedSql] = this.resolveClusterTemplates(sql);
     sql = replacedSql;
 
-    const requestHeaders: Record<string, string> = headers || {};
-
-    // Set default ClickHouse headers if not provided
-    if (!requestHeaders["Content-Type"]) {
-      requestHeaders["Content-Type"] = "text/plain";
-    }
+    const requestHeaders = this.buildRequestHeaders(headers);
 
     const queryParameters = this.buildQueryParameters(params);
 
@@ -243,10 +279,6 @@ export class Connection {
       }
     });
 
-    // Build Basic Auth header
-    const basicAuth = btoa(`${this.user}:${this.password || ""}`);
-    requestHeaders["Authorization"] = `Basic ${basicAuth}`;
-
     // Create abort controller for the caller to use
     const abortController = new AbortController();
 
@@ -346,10 +378,7 @@ export class Connection {
     const [replacedSql] = this.resolveClusterTemplates(sql);
     sql = replacedSql;
 
-    const requestHeaders: Record<string, string> = headers || {};
-    if (!requestHeaders["Content-Type"]) {
-      requestHeaders["Content-Type"] = "text/plain";
-    }
+    const requestHeaders = this.buildRequestHeaders(headers);
 
     const queryParameters = this.buildQueryParameters(params);
 
@@ -360,9 +389,6 @@ export class Connection {
       }
     });
 
-    const basicAuth = btoa(`${this.user}:${this.password || ""}`);
-    requestHeaders["Authorization"] = `Basic ${basicAuth}`;
-
     const abortController = new AbortController();
 
     const response = (async (): Promise<Response> => {
@@ -427,6 +453,18 @@ export class Connection {
       return this.query(processedSql, params, headers);
     }
 
+    if (!this.canQueryOnNode()) {
+      return {
+        response: Promise.reject(
+          new QueryError(
+            `Querying the node [${node}] is not supported with the '${this.authType}' authentication: ` +
+              "the remote() table function needs the password of the user. Use the Basic or the ClickHouse Header authentication to query a specific node."
+          )
+        ),
+        abortController: new AbortController(),
+      };
+    }
+
     return this.query(
       `
 SELECT * FROM remote(
@@ -434,13 +472,31 @@ SELECT * FROM remote(
   view(
         ${processedSql}
   ), 
-  '${this.metadata.internalUser}', 
-  '${this.password}')`,
+  ${this.getRemoteCredentials()})`,
       params,
       headers
     );
   }
 
+  /**
+   * Whether queries can target a specific node of the cluster.
+   * queryOnNode passes the credentials to the remote() table function,
+   * so it's not possible when the password is not known at the client side (bearer token or no auth).
+   */
+  public canQueryOnNode(): boolean {
+    return hasPasswordCredential(this.authType);
+  }
+
+  /**
+   * Credentials arguments of the remote() table function used by queryOnNode.
+   * remote() only takes the credentials as arguments, the HTTP authentication of the request is not forwarded,
+   * so the password has to be embedded. The server masks the arguments of remote() in system.query_log,
+   * and auth types that don't know the password are refused by canQueryOnNode.
+   */
+  private getRemoteCredentials(): string {
+    return `${SqlUtils.toStringLiteral(this.metadata.internalUser)}, ${SqlUtils.toStringLiteral(this.password || "")}`;
+  }
+
   /**
    * Process cluster template variables in SQL query.
    * Templates:
@@ -1,10 +1,12 @@
 /**
  * Reads an HTTP response body stream line by line and invokes a callback for each line.
+ * The optional onChunk callback receives the byte length of every chunk read from the stream.
  */
 export class HttpResponseLineReader {
   static async read(
     reader: ReadableStreamDefaultReader<Uint8Array>,
-    onLine: (line: string) => void
+    onLine: (line: string) => void,
+    onChunk?: (byteLength: number) => void
   ): Promise<void> {
     const decoder = new TextDecoder();
     let buffer = "";
@@ -13,6 +15,8 @@ export class HttpResponseLineReader {
       const { done, value } = await reader.read();
       if (done) break;
 
+      onChunk?.(value.byteLength);
+
       buffer += decoder.decode(value, { stream: true });
       const lines = buffer.split(/\r?\n/);
       buffer = lines.pop() ?? "";
@@ -0,0 +1,177 @@
+import type { Connection } from "@/lib/connection/connection";
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildExportSql,
+  exportQueryResult,
+  findTrailingException,
+  getExportFileName,
+  SpreadsheetMLWriter,
+  type ExportOptions,
+} from "./query-result-exporter";
+
+describe("buildExportSql", () => {
+  it("appends the FORMAT clause after removing trailing semicolons", () => {
+    expect(buildExportSql("SELECT 1;  ", "CSVWithNames")).toBe("SELECT 1\nFORMAT CSVWithNames");
+  });
+
+  it("comments out an existing FORMAT clause", () => {
+    expect(buildExportSql("SELECT 1 FORMAT Pretty", "Parquet")).toBe(
+      "SELECT 1 /* FORMAT Pretty */\nFORMAT Parquet"
+    );
+  });
+
+  it("removes the vertical output marker", () => {
+    expect(buildExportSql("SELECT 1\\G", "JSONEachRow")).toBe("SELECT 1\nFORMAT JSONEachRow");
+  });
+});
+
+describe("getExportFileName", () => {
+  it("adds extension and compression suffix", () => {
+    expect(
+      getExportFileName("my result", { format: "csv", includeHeader: true, compression: "gzip" })
+    ).toBe("my_result.csv.gz");
+    expect(
+      getExportFileName("", { format: "jsonl", includeHeader: false, compression: "none" })
+    ).toBe("result.jsonl");
+  });
+});
+
+describe("SpreadsheetMLWriter", () => {
+  it("converts JSONCompactEachRowWithNamesAndTypes lines into rows", () => {
+    const writer = new SpreadsheetMLWriter(true);
+    const header = writer.line('["id","name"]');
+    const types = writer.line('["UInt64","String"]');
+    const row = writer.line('[1,"a<b"]');
+
+    expect(header).toBe(
+      '<Row><Cell><Data ss:Type="String">id</Data></Cell><Cell><Data ss:Type="String">name</Data></Cell></Row>\n'
+    );
+    expect(types).toBe("");
+    expect(row).toBe(
+      '<Row><Cell><Data ss:Type="Number">1</Data></Cell><Cell><Data ss:Type="String">a&lt;b</Data></Cell></Row>\n'
+    );
+  });
+
+  it("skips the header row when it is excluded", () => {
+    const writer = new SpreadsheetMLWriter(false);
+    expect(writer.line('["id"]')).toBe("");
+    expect(writer.line('["Nullable(Int32)"]')).toBe("");
+    expect(writer.line("[null]")).toBe("<Row><Cell/></Row>\n");
+  });
+});
+
+describe("findTrailingException", () => {
+  it("finds the exceptions appended to text, JSON and marked responses", () => {
+    expect(
+      findTrailingException(
+        "a,b\n1,2\nCode: 241. DB::Exception: Memory limit exceeded. (MEMORY_LIMIT_EXCEEDED)\n"
+      )
+    ).toBe("Code: 241. DB::Exception: Memory limit exceeded. (MEMORY_LIMIT_EXCEEDED)");
+    expect(
+      findTrailingException('{"a":1}\n{"exception": "Code: 159. DB::Exception: Timeout"}\n')
+    ).toBe("Code: 159. DB::Exception: Timeout");
+    expect(
+      findTrailingException(
+        "1,2\n__exception__\r\nCode: 395. DB::Exception: boom\r\n__exception__\r\n"
+      )
+    ).toBe("Code: 395. DB::Exception: boom");
+  });
+
+  it("accepts complete responses", () => {
+    expect(findTrailingException('a,b\n1,"Code: 1. DB::Exception: quoted"\n')).toBeUndefined();
+    expect(findTrailingException("")).toBeUndefined();
+  });
+});
+
+describe("exportQueryResult", () => {
+  function createSink() {
+    const abort = vi.fn();
+    const finish = vi.fn();
+    const stream = new WritableStream<Uint8Array>({ abort });
+    return { sink: { stream, finish }, abort, finish };
+  }
+
+  function createConnection(response: Promise<Response>) {
+    return {
+      queryRawResponse: () => ({ response, abortController: new AbortController() }),
+    } as unknown as Connection;
+  }
+
+  const options: ExportOptions = { format: "csv", includeHeader: true, compression: "none" };
+
+  it("aborts the sink when the query fails", async () => {
+    const { sink, abort, finish } = createSink();
+    const error = new Error("Code: 60. Table does not exist");
+    const { done } = exportQueryResult(
+      createConnection(Promise.reject(error)),
+      "SELECT 1",
+      options,
+      sink
+    );
+
+    await expect(done).rejects.toBe(error);
+    expect(abort).toHaveBeenCalledWith(error);
+    expect(finish).not.toHaveBeenCalled();
+  });
+
+  it("aborts the sink when the response has no body", async () => {
+    const { sink, abort } = createSink();
+    const { done } = exportQueryResult(
+      createConnection(Promise.resolve(new Response(null))),
+      "SELECT 1",
+      options,
+      sink
+    );
+
+    await expect(done).rejects.toThrow("not readable");
+    expect(abort).toHaveBeenCalled();
+  });
+
+  it("writes the response into the sink", async () => {
+    const chunks: Uint8Array[] = [];
+    const finish = vi.fn();
+    const stream = new WritableStream<Uint8Array>({ write: (chunk) => void chunks.push(chunk) });
+    const { done } = exportQueryResult(
+      createConnection(Promise.resolve(new Response("a,b\n1,2\n"))),
+      "SELECT 1",
+      options,
+      { stream, finish }
+    );
+
+    await done;
+    expect(new TextDecoder().decode(chunks[0])).toBe("a,b\n1,2\n");
+    expect(finish).toHaveBeenCalled();
+  });
+
+  it("fails when the server appends an exception to the response", async () => {
+    const { sink, finish } = createSink();
+    const { done } = exportQueryResult(
+      createConnection(
+        Promise.resolve(new Response("a,b\n1,2\nCode: 241. DB::Exception: Memory limit exceeded\n"))
+      ),
+      "SELECT 1",
+      options,
+      sink
+    );
+
+    await expect(done).rejects.toThrow("Memory limit exceeded");
+    expect(finish).not.toHaveBeenCalled();
+  });
+
+  it("fails when the response reports an exception code", async () => {
+    const { sink, finish } = createSink();
+    const { done } = exportQueryResult(
+      createConnection(
+        Promise.resolve(
+          new Response("a,b\n", { headers: { "X-ClickHouse-Exception-Code": "241" } })
+        )
+      ),
+      "SELECT 1",
+      options,
+      sink
+    );
+
+    await expect(done).rejects.toThrow("Exception Code: 241");
+    expect(finish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,415 @@
+import type { Connection } from "@/lib/connection/connection";
+import { SqlUtils } from "@/lib/sql-utils";
+
+export type ExportFormat = "csv" | "tsv" | "parquet" | "jsonl" | "excel";
+
+export type ExportCompression = "none" | "gzip";
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  // Whether a header row can be switched on/off for this format
+  supportsHeader: boolean;
+  // ClickHouse output format, the first one is used when header is included
+  clickHouseFormat: { withHeader: string; withoutHeader: string };
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  csv: {
+    label: "CSV",
+    extension: "csv",
+    mimeType: "text/csv",
+    supportsHeader: true,
+    clickHouseFormat: { withHeader: "CSVWithNames", withoutHeader: "CSV" },
+  },
+  tsv: {
+    label: "TSV",
+    extension: "tsv",
+    mimeType: "text/tab-separated-values",
+    supportsHeader: true,
+    clickHouseFormat: { withHeader: "TabSeparatedWithNames", withoutHeader: "TabSeparated" },
+  },
+  parquet: {
+    label: "Parquet",
+    extension: "parquet",
+    mimeType: "application/vnd.apache.parquet",
+    supportsHeader: false,
+    clickHouseFormat: { withHeader: "Parquet", withoutHeader: "Parquet" },
+  },
+  jsonl: {
+    label: "JSON Lines",
+    extension: "jsonl",
+    mimeType: "application/x-ndjson",
+    supportsHeader: false,
+    clickHouseFormat: { withHeader: "JSONEachRow", withoutHeader: "JSONEachRow" },
+  },
+  excel: {
+    // ClickHouse has no spreadsheet output format,
+    // rows are read as JSONCompactEachRowWithNamesAndTypes and converted to SpreadsheetML 2003 at client side
+    label: "Excel",
+    extension: "xls",
+    mimeType: "application/vnd.ms-excel",
+    supportsHeader: true,
+    clickHouseFormat: {
+      withHeader: "JSONCompactEachRowWithNamesAndTypes",
+      withoutHeader: "JSONCompactEachRowWithNamesAndTypes",
+    },
+  },
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0 or undefined means no limit
+  rowLimit?: number;
+  includeHeader: boolean;
+  compression: ExportCompression;
+}
+
+export interface ExportProgress {
+  // Bytes received from the server
+  receivedBytes: number;
+  // Bytes written to the file, after conversion and compression
+  writtenBytes: number;
+}
+
+/**
+ * Minimal typing of the File System Access API, which is not part of the TypeScript DOM lib yet.
+ */
+interface FileSystemWritableFileStreamLike extends WritableStream<Uint8Array> {
+  abort(): Promise<void>;
+}
+interface SaveFilePickerWindow {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<{ createWritable: () => Promise<FileSystemWritableFileStreamLike> }>;
+}
+
+/**
+ * Rewrite a statement so that the server returns the result in the given output format.
+ * Trailing semicolons and vertical output markers are removed, and an existing FORMAT clause is commented out.
+ */
+export function buildExportSql(sql: string, clickHouseFormat: string): string {
+  let statement = SqlUtils.removeComments(sql);
+  if (statement.endsWith("\\G")) {
+    statement = statement.substring(0, statement.length - 2);
+  }
+  statement = statement.replace(/[;\s]+$/, "");
+  statement = SqlUtils.commentOutFormatClause(statement);
+  return `${statement}\nFORMAT ${clickHouseFormat}`;
+}
+
+export function getExportFileName(baseName: string, options: ExportOptions): string {
+  const name = baseName.replace(/[\\/:*?"<>|\s]+/g, "_") || "result";
+  const extension = EXPORT_FORMATS[options.format].extension;
+  return options.compression === "gzip" ? `${name}.${extension}.gz` : `${name}.${extension}`;
+}
+
+function escapeXml(value: string): string {
+  return (
+    value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      // Control characters are not allowed in XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  );
+}
+
+const NUMERIC_TYPE_REGEX = /^(Nullable\()?(U?Int\d+|Float\d+|Decimal)/;
+
+/**
+ * Converts JSONCompactEachRowWithNamesAndTypes lines into an Excel 2003 XML (SpreadsheetML) document.
+ */
+export class SpreadsheetMLWriter {
+  private names: string[] | null = null;
+  private numericColumns: boolean[] | null = null;
+  private readonly includeHeader: boolean;
+  private readonly sheetName: string;
+
+  constructor(includeHeader: boolean, sheetName = "Result") {
+    this.includeHeader = includeHeader;
+    this.sheetName = escapeXml(sheetName.slice(0, 31));
+  }
+
+  public begin(): string {
+    return (
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<?mso-application progid="Excel.Sheet"?>\n' +
+      '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">\n' +
+      `<Worksheet ss:Name="${this.sheetName}">\n<Table>\n`
+    );
+  }
+
+  /**
+   * Convert one line of the server response. Returns the XML fragment to write, which may be empty.
+   */
+  public line(line: string): string {
+    let values: unknown[];
+    try {
+      values = JSON.parse(line) as unknown[];
+    } catch {
+      // Not a row, e.g. an exception that the server wrote after the response had started
+      throw new Error(line.trim());
+    }
+    if (this.names === null) {
+      this.names = values.map((v) => String(v));
+      return this.includeHeader ? this.row(this.names, []) : "";
+    }
+    if (this.numericColumns === null) {
+      this.numericColumns = values.map((type) => NUMERIC_TYPE_REGEX.test(String(type)));
+      return "";
+    }
+    return this.row(values, this.numericColumns);
+  }
+
+  public end(): string {
+    return "</Table>\n</Worksheet>\n</Workbook>\n";
+  }
+
+  private row(values: unknown[], numericColumns: boolean[]): string {
+    const cells = values.map((value, i) => {
+      if (value === null || value === undefined) {
+        return "<Cell/>";
+      }
+      if (numericColumns[i] && Number.isFinite(Number(value))) {
+        return `<Cell><Data ss:Type="Number">${Number(value)}</Data></Cell>`;
+      }
+      const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+      return `<Cell><Data ss:Type="String">${escapeXml(text)}</Data></Cell>`;
+    });
+    return `<Row>${cells.join("")}</Row>\n`;
+  }
+}
+
+function createSpreadsheetTransform(
+  includeHeader: boolean
+): TransformStream<Uint8Array, Uint8Array> {
+  const writer = new SpreadsheetMLWriter(includeHeader);
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+
+  const convertLines = (controller: TransformStreamDefaultController<Uint8Array>, text: string) => {
+    const output: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      if (line.trim()) {
+        output.push(writer.line(line));
+      }
+    }
+    if (output.length > 0) {
+      controller.enqueue(encoder.encode(output.join("")));
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(writer.begin()));
+    },
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lastNewLine = buffer.lastIndexOf("\n");
+      if (lastNewLine >= 0) {
+        convertLines(controller, buffer.substring(0, lastNewLine));
+        buffer = buffer.substring(lastNewLine + 1);
+      }
+    },
+    flush(controller) {
+      convertLines(controller, buffer + decoder.decode());
+      controller.enqueue(encoder.encode(writer.end()));
+    },
+  });
+}
+
+// Size of the end of the response that is searched for an exception
+const EXCEPTION_TAIL_BYTES = 64 * 1024;
+
+/**
+ * Find an exception that the server appended to the end of the response.
+ * Once the response has started, ClickHouse can't change the HTTP status, so it writes the exception into the body:
+ * after an `__exception__` marker on recent versions, as a `Code: NNN. DB::Exception:` line for text formats,
+ * or as an `{"exception": ...}` line for JSON formats.
+ */
+export function findTrailingException(tail: string): string | undefined {
+  const marker = tail.indexOf("__exception__");
+  if (marker >= 0) {
+    const text = tail.substring(marker + "__exception__".length).replace(/__exception__/g, "");
+    return text.trim() || "The server reported an exception while sending the result";
+  }
+
+  const match = /(?:^|\n)(Code: \d+\. DB::Exception:[\s\S]*)$/.exec(tail);
+  if (match) {
+    return match[1].trim();
+  }
+
+  const lines = tail.trimEnd().split("\n");
+  const lastLine = lines[lines.length - 1];
+  if (lastLine.startsWith('{"exception":')) {
+    try {
+      return String((JSON.parse(lastLine) as { exception: unknown }).exception);
+    } catch {
+      return lastLine;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pass the response through and fail the stream at its end if the server appended an exception to it.
+ */
+function createExceptionDetector(): TransformStream<Uint8Array, Uint8Array> {
+  let tail = new Uint8Array(0);
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const joined = new Uint8Array(tail.byteLength + chunk.byteLength);
+      joined.set(tail);
+      joined.set(chunk, tail.byteLength);
+      tail = joined.subarray(Math.max(0, joined.byteLength - EXCEPTION_TAIL_BYTES));
+      controller.enqueue(chunk);
+    },
+    flush(controller) {
+      const exception = findTrailingException(new TextDecoder().decode(tail));
+      if (exception !== undefined) {
+        controller.error(new Error(exception));
+      }
+    },
+  });
+}
+
+function createByteCounter(onBytes: (byteLength: number) => void) {
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      onBytes(chunk.byteLength);
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Create a sink for the exported file.
+ * Uses the File System Access API to stream directly to disk when available,
+ * otherwise collects the content in memory and triggers a browser download when done.
+ *
+ * MUST be called directly from a user gesture because the save file picker requires it.
+ */
+export async function createExportFileSink(
+  fileName: string,
+  mimeType: string
+): Promise<{ stream: WritableStream<Uint8Array>; finish: () => void } | null> {
+  const pickerWindow = window as unknown as SaveFilePickerWindow;
+  if (typeof pickerWindow.showSaveFilePicker === "function") {
+    try {
+      const handle = await pickerWindow.showSaveFilePicker({ suggestedName: fileName });
+      const writable = await handle.createWritable();
+      return { stream: writable, finish: () => {} };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        // User closed the picker
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  const chunks: Uint8Array[] = [];
+  const stream = new WritableStream<Uint8Array>({
+    write(chunk) {
+      chunks.push(chunk);
+    },
+  });
+  const finish = () => {
+    const blob = new Blob(chunks as BlobPart[], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+  return { stream, finish };
+}
+
+/**
+ * Re-run the given statement with the output format of the export options and stream the response into the sink.
+ */
+export function exportQueryResult(
+  connection: Connection,
+  sql: string,
+  options: ExportOptions,
+  sink: { stream: WritableStream<Uint8Array>; finish: () => void },
+  onProgress?: (progress: ExportProgress) => void
+): { done: Promise<void>; abortController: AbortController } {
+  const formatInfo = EXPORT_FORMATS[options.format];
+  const clickHouseFormat =
+    options.includeHeader || !formatInfo.supportsHeader
+      ? formatInfo.clickHouseFormat.withHeader
+      : formatInfo.clickHouseFormat.withoutHeader;
+
+  const params: Record<string, unknown> = {
+    // Don't let query context settings like default_format interfere with the FORMAT clause
+    default_format: clickHouseFormat,
+    output_format_json_quote_64bit_integers: 0,
+  };
+  if (options.rowLimit && options.rowLimit > 0) {
+    params["limit"] = options.rowLimit;
+  }
+
+  const { response, abortController } = connection.queryRawResponse(
+    buildExportSql(sql, clickHouseFormat),
+    params
+  );
+
+  const progress: ExportProgress = { receivedBytes: 0, writtenBytes: 0 };
+  const pipeline = async () => {
+    const res = await response;
+    const exceptionCode = res.headers.get("x-clickhouse-exception-code");
+    if (exceptionCode) {
+      throw new Error(
+        `Failed to export the result, got ClickHouse Exception Code: ${exceptionCode}`
+      );
+    }
+    if (!res.body) {
+      throw new Error("Response body is not readable");
+    }
+
+    let stream: ReadableStream<Uint8Array> = res.body
+      .pipeThrough(
+        createByteCounter((n) => {
+          progress.receivedBytes += n;
+          onProgress?.({ ...progress });
+        })
+      )
+      .pipeThrough(createExceptionDetector());
+    if (options.format === "excel") {
+      stream = stream.pipeThrough(createSpreadsheetTransform(options.includeHeader));
+    }
+    if (options.compression === "gzip") {
+      stream = stream.pipeThrough(
+        new CompressionStream("gzip") as unknown as TransformStream<Uint8Array, Uint8Array>
+      );
+    }
+    stream = stream.pipeThrough(
+      createByteCounter((n) => {
+        progress.writtenBytes += n;
+        onProgress?.({ ...progress });
+      })
+    );
+
+    await stream.pipeTo(sink.stream, { signal: abortController.signal });
+    sink.finish();
+  };
+
+  const done = pipeline().catch(async (error) => {
+    // Release the file on every failure path, a writable of the File System Access API
+    // that is never closed or aborted stays locked with no content
+    await sink.stream.abort(error).catch(() => {});
+    throw error;
+  });
+
+  return { done, abortController };
+}
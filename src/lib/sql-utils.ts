@@ -148,6 +148,14 @@ export class SqlUtils {
     return String(value).replaceAll("'", "''");
   }
 
+  /**
+   * Quote a value as a ClickHouse string literal.
+   * Unlike escapeSqlString, backslashes are escaped too, since ClickHouse reads them as escape characters.
+   */
+  public static toStringLiteral(value: string): string {
+    return `'${String(value).replaceAll("\\", "\\\\").replaceAll("'", "\\'")}'`;
+  }
+
   /**
    * Escape a SQL identifier with backticks for ClickHouse and escape embedded backticks.
    */
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CLICKHOUSE_STORAGE_OPTIONS,
+  isSharedKey,
+  normalizeClickHouseStorageOptions,
+  toJSONEachRow,
+} from "./clickhouse-storage-provider";
+
+describe("clickhouse storage provider", () => {
+  it("matches shared keys by prefix segments", () => {
+    const sharedKeys = ["sql:snippet", "dashboards"];
+    expect(isSharedKey("sql:snippet", sharedKeys)).toBe(true);
+    expect(isSharedKey("dashboards:abc", sharedKeys)).toBe(true);
+    expect(isSharedKey("sql:snippets", sharedKeys)).toBe(false);
+    expect(isSharedKey("connections", sharedKeys)).toBe(false);
+  });
+
+  it("shares snippets and dashboards by default", () => {
+    const { sharedKeys } = DEFAULT_CLICKHOUSE_STORAGE_OPTIONS;
+    expect(isSharedKey("sql:snippet", sharedKeys)).toBe(true);
+    expect(isSharedKey("dashboards", sharedKeys)).toBe(true);
+    expect(isSharedKey("settings:ai:custom-providers", sharedKeys)).toBe(false);
+  });
+
+  it("escapes braces inside values of JSONEachRow rows", () => {
+    const row = toJSONEachRow({ key: "sql:snippet", value: '{"sql":"SELECT * FROM {table:t}"}' });
+    expect(row.startsWith("{")).toBe(true);
+    expect(row.endsWith("}")).toBe(true);
+    expect(row.slice(1, -1)).not.toMatch(/[{}]/);
+    expect(JSON.parse(row)).toEqual({
+      key: "sql:snippet",
+      value: '{"sql":"SELECT * FROM {table:t}"}',
+    });
+  });
+
+  it("fills defaults and validates options", () => {
+    expect(normalizeClickHouseStorageOptions(undefined)).toEqual(
+      DEFAULT_CLICKHOUSE_STORAGE_OPTIONS
+    );
+    expect(
+      normalizeClickHouseStorageOptions({ table: " db.t ", sharedKeys: ["a", " ", "b "] })
+    ).toMatchObject({ table: "db.t", sharedKeys: ["a", "b"] });
+    expect(() => normalizeClickHouseStorageOptions({ table: "t; DROP TABLE x" })).toThrow(
+      /Invalid table name/
+    );
+    expect(() => normalizeClickHouseStorageOptions({ namespace: " " })).toThrow();
+  });
+});
@@ -0,0 +1,427 @@
+import { Connection, QueryError } from "@/lib/connection/connection";
+import { ConnectionManager } from "@/lib/connection/connection-manager";
+import { v7 as uuidv7 } from "uuid";
+import { LocalStorage } from "./local-storage-provider";
+import { StorageManager, type StorageProviderInstance } from "./storage-provider-manager";
+
+export const CLICKHOUSE_STORAGE_PROVIDER_TYPE = "clickhouse";
+
+export interface ClickHouseStorageOptions {
+  // Name of the saved connection that hosts the table
+  connectionName: string;
+  // Table name, optionally qualified by the database, e.g. 'default.datastoria_storage'
+  table: string;
+  // Members that use the same namespace share the same content
+  namespace: string;
+  // Key prefixes (relative to the user's root key) that are synced to the table
+  sharedKeys: string[];
+  syncIntervalSeconds: number;
+}
+
+export const DEFAULT_CLICKHOUSE_STORAGE_OPTIONS: ClickHouseStorageOptions = {
+  connectionName: "",
+  table: "default.datastoria_storage",
+  namespace: "default",
+  sharedKeys: ["sql:snippet", "dashboards"],
+  syncIntervalSeconds: 30,
+};
+
+export type StorageSyncState = "syncing" | "synced" | "offline" | "error";
+
+export interface StorageSyncStatus {
+  state: StorageSyncState;
+  lastSyncAt?: Date;
+  error?: string;
+  // Number of local changes that are not written to the table yet
+  pendingKeys: number;
+  // Number of local changes discarded because the key was changed by others since the last sync
+  conflicts: number;
+}
+
+// Sync bookkeeping of the provider, it's kept in localStorage and never synced
+const SYNC_STATE_KEY = "settings:storage-provider:sync";
+
+interface SyncState {
+  namespace: string;
+  // Identifies the rows written by this browser
+  clientId: string;
+  // The version of each key that the local cache is based on
+  versions: Record<string, number>;
+  // Keys changed locally since the last successful push
+  pending: string[];
+}
+
+const PUSH_DELAY_MS = 2000;
+
+/**
+ * Order of the rows of a key, the greatest one is the current content.
+ * Two clients may write the same version concurrently, the time and the client break the tie
+ * so that every reader picks the same row.
+ */
+const ROW_ORDER = "(version, updated_at, client_id)";
+
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * Fill the missing fields of the saved options with defaults and validate them.
+ */
+export function normalizeClickHouseStorageOptions(options: unknown): ClickHouseStorageOptions {
+  const saved = (options ?? {}) as Partial<ClickHouseStorageOptions>;
+  const normalized: ClickHouseStorageOptions = {
+    connectionName: saved.connectionName ?? DEFAULT_CLICKHOUSE_STORAGE_OPTIONS.connectionName,
+    table: (saved.table ?? DEFAULT_CLICKHOUSE_STORAGE_OPTIONS.table).trim(),
+    namespace: (saved.namespace ?? DEFAULT_CLICKHOUSE_STORAGE_OPTIONS.namespace).trim(),
+    sharedKeys: (saved.sharedKeys ?? DEFAULT_CLICKHOUSE_STORAGE_OPTIONS.sharedKeys)
+      .map((key) => key.trim())
+      .filter((key) => key.length > 0),
+    syncIntervalSeconds: Math.max(
+      5,
+      saved.syncIntervalSeconds ?? DEFAULT_CLICKHOUSE_STORAGE_OPTIONS.syncIntervalSeconds
+    ),
+  };
+
+  if (!TABLE_NAME_PATTERN.test(normalized.table)) {
+    throw new Error(`Invalid table name [${normalized.table}]. Use 'table' or 'database.table'.`);
+  }
+  if (normalized.namespace === "") {
+    throw new Error("Namespace can't be empty.");
+  }
+  return normalized;
+}
+
+/**
+ * Returns true if the key equals to one of the prefixes or is a child key of one of them.
+ */
+export function isSharedKey(key: string, sharedKeys: string[]): boolean {
+  return sharedKeys.some((prefix) => key === prefix || key.startsWith(`${prefix}:`));
+}
+
+export function getStorageTableDDL(table: string): string {
+  return `CREATE TABLE IF NOT EXISTS ${table}
+(
+    namespace String,
+    key String,
+    value String,
+    version UInt64,
+    deleted UInt8 DEFAULT 0,
+    updated_by String DEFAULT currentUser(),
+    updated_at DateTime64(3) DEFAULT now64(3),
+    client_id String
+)
+ENGINE = ReplacingMergeTree(version)
+ORDER BY (namespace, key, client_id)`;
+}
+
+/**
+ * Serialize a row for the JSONEachRow format.
+ * Braces are escaped so that the content is not treated as templates like {table:name} by the connection.
+ */
+export function toJSONEachRow(row: Record<string, string | number>): string {
+  return JSON.stringify(row).replace(/[{}]/g, (c, offset: number, text: string) =>
+    // The first and the last characters are the braces of the object itself
+    offset === 0 || offset === text.length - 1 ? c : c === "{" ? "\\u007b" : "\\u007d"
+  );
+}
+
+function isOfflineError(e: unknown): boolean {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return true;
+  }
+  // Requests that don't reach the server have no HTTP status
+  return e instanceof QueryError && e.httpStatus === undefined;
+}
+
+/**
+ * Storage provider that shares selected keys through a ClickHouse table.
+ *
+ * The user's localStorage is still the synchronous store and works as the local cache:
+ * writes to shared keys are recorded as pending and pushed in background,
+ * and changes made by others are pulled periodically.
+ *
+ * Each write of a key inserts a row with the next version. A pending change whose key has a newer version
+ * in the table than the one the local cache is based on is a conflict, in which case the remote content wins.
+ * Reading the version and inserting the next one is not atomic, so the row is read back after the insert:
+ * when another client wrote the same version and its row sorts after ours, our change lost the race.
+ * When the server is not reachable, the pending changes are kept and retried on the next sync.
+ */
+export class ClickHouseStorageProvider implements StorageProviderInstance {
+  public readonly storage: LocalStorage;
+
+  private readonly options: ClickHouseStorageOptions;
+  private readonly syncStateStorage: LocalStorage;
+  private readonly syncState: SyncState;
+
+  private status: StorageSyncStatus;
+  private listeners: Array<(status: StorageSyncStatus) => void> = [];
+  private runningSync: Promise<void> | null = null;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+
+  constructor(
+    private readonly rootKey: string,
+    options: unknown,
+    private readonly notifyChange: () => void
+  ) {
+    this.options = normalizeClickHouseStorageOptions(options);
+    this.storage = new LocalStorage(rootKey, false, (key) => this.onWrite(key));
+
+    this.syncStateStorage = new LocalStorage(rootKey).subStorage(SYNC_STATE_KEY);
+    const saved = this.syncStateStorage.getAsJSON<SyncState | null>(() => null);
+    if (saved && saved.namespace === this.options.namespace) {
+      this.syncState = { ...saved, clientId: saved.clientId || uuidv7() };
+    } else {
+      // First sync with this namespace, upload existing local content unless others have changed it
+      this.syncState = {
+        namespace: this.options.namespace,
+        clientId: uuidv7(),
+        versions: {},
+        pending: this.storage.keys().filter((key) => isSharedKey(key, this.options.sharedKeys)),
+      };
+      this.saveSyncState();
+    }
+
+    this.status = { state: "syncing", pendingKeys: this.syncState.pending.length, conflicts: 0 };
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", this.handleOnline);
+      this.syncTimer = setInterval(() => this.sync(), this.options.syncIntervalSeconds * 1000);
+      setTimeout(() => this.sync(), 0);
+    }
+  }
+
+  public getOptions(): ClickHouseStorageOptions {
+    return this.options;
+  }
+
+  public getStatus(): StorageSyncStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to sync status changes. Returns an unsubscribe function.
+   */
+  public subscribe(listener: (status: StorageSyncStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    if (this.syncTimer !== null) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    if (this.pushTimer !== null) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", this.handleOnline);
+    }
+    this.listeners = [];
+  }
+
+  /**
+   * Push pending changes and then pull remote changes. Concurrent calls share the same run.
+   */
+  public sync(): Promise<void> {
+    if (this.disposed) {
+      return Promise.resolve();
+    }
+    if (this.runningSync === null) {
+      this.runningSync = this.doSync().finally(() => {
+        this.runningSync = null;
+      });
+    }
+    return this.runningSync;
+  }
+
+  private readonly handleOnline = () => {
+    this.sync();
+  };
+
+  private async doSync(): Promise<void> {
+    this.setStatus({ state: "syncing" });
+    try {
+      const connection = this.createConnection();
+      await this.push(connection);
+      await this.pull(connection);
+      this.setStatus({ state: "synced", lastSyncAt: new Date(), error: undefined });
+    } catch (e) {
+      this.setStatus({
+        state: isOfflineError(e) ? "offline" : "error",
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  private createConnection(): Connection {
+    const config = ConnectionManager.getInstance()
+      .getConnections()
+      .find((conn) => conn.name === this.options.connectionName);
+    if (!config) {
+      throw new Error(
+        `Connection [${this.options.connectionName}] for the storage does not exist.`
+      );
+    }
+    return Connection.create(config);
+  }
+
+  private toRelativeKey(key: string): string | null {
+    const prefix = `${this.rootKey}:`;
+    return key.startsWith(prefix) ? key.slice(prefix.length) : null;
+  }
+
+  private onWrite(key: string): void {
+    const relativeKey = this.toRelativeKey(key);
+    if (relativeKey === null || !isSharedKey(relativeKey, this.options.sharedKeys)) {
+      return;
+    }
+    if (!this.syncState.pending.includes(relativeKey)) {
+      this.syncState.pending.push(relativeKey);
+      this.saveSyncState();
+      this.setStatus({});
+    }
+
+    // Debounce pushes of consecutive writes
+    if (this.pushTimer !== null) {
+      clearTimeout(this.pushTimer);
+    }
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      this.sync();
+    }, PUSH_DELAY_MS);
+  }
+
+  private async push(connection: Connection): Promise<void> {
+    for (const key of [...this.syncState.pending]) {
+      if (this.disposed) {
+        return;
+      }
+      const baseVersion = this.syncState.versions[key] ?? 0;
+      const { version: remoteVersion } = await this.queryCurrentRow(connection, key);
+
+      if (remoteVersion > baseVersion) {
+        // Changed by others since our last sync, the remote content is applied by the following pull
+        this.setStatus({ conflicts: this.status.conflicts + 1 });
+      } else {
+        const value = localStorage.getItem(`${this.rootKey}:${key}`);
+        const version = Math.max(baseVersion, remoteVersion) + 1;
+        await connection.query(
+          `INSERT INTO ${this.options.table} (namespace, key, value, version, deleted, client_id) FORMAT JSONEachRow\n` +
+            toJSONEachRow({
+              namespace: this.options.namespace,
+              key,
+              value: value ?? "",
+              version,
+              deleted: value === null ? 1 : 0,
+              client_id: this.syncState.clientId,
+            })
+        ).response;
+
+        const current = await this.queryCurrentRow(connection, key);
+        if (current.clientId === this.syncState.clientId) {
+          this.syncState.versions[key] = version;
+        } else {
+          // Lost the race to another client, its content is applied by the following pull
+          this.setStatus({ conflicts: this.status.conflicts + 1 });
+        }
+      }
+
+      this.syncState.pending = this.syncState.pending.filter((k) => k !== key);
+      this.saveSyncState();
+      this.setStatus({});
+    }
+  }
+
+  /**
+   * Version and writer of the current row of a key, version 0 if the key was never written
+   */
+  private async queryCurrentRow(
+    connection: Connection,
+    key: string
+  ): Promise<{ version: number; clientId: string }> {
+    const { response } = connection.query(
+      `SELECT max(version), argMax(client_id, ${ROW_ORDER}) FROM ${this.options.table} WHERE namespace = {namespace:String} AND key = {key:String}`,
+      {
+        default_format: "JSONCompact",
+        param_namespace: this.options.namespace,
+        param_key: key,
+      }
+    );
+    const data = (await response).data.json<{ data: [[string | number, string]] }>();
+    return { version: Number(data.data[0]?.[0] ?? 0), clientId: data.data[0]?.[1] ?? "" };
+  }
+
+  private async pull(connection: Connection): Promise<void> {
+    const { response } = connection.query(
+      `SELECT key, argMax(value, ${ROW_ORDER}), max(version), argMax(deleted, ${ROW_ORDER})
+FROM ${this.options.table}
+WHERE namespace = {namespace:String}
+GROUP BY key`,
+      {
+        default_format: "JSONCompact",
+        param_namespace: this.options.namespace,
+      }
+    );
+    const rows = (await response).data.json<{
+      data: Array<[string, string, string | number, number]>;
+    }>().data;
+    if (this.disposed) {
+      return;
+    }
+
+    let changed = false;
+    for (const [key, value, versionText, deleted] of rows) {
+      const version = Number(versionText);
+      if (
+        !isSharedKey(key, this.options.sharedKeys) ||
+        // Local changes not pushed yet are kept, they're checked against the remote version on push
+        this.syncState.pending.includes(key) ||
+        version <= (this.syncState.versions[key] ?? 0)
+      ) {
+        continue;
+      }
+
+      // Write localStorage directly so that the pulled content is not recorded as local changes
+      const fullKey = `${this.rootKey}:${key}`;
+      if (deleted) {
+        localStorage.removeItem(fullKey);
+      } else {
+        localStorage.setItem(fullKey, value);
+      }
+      this.syncState.versions[key] = version;
+      changed = true;
+    }
+
+    if (changed) {
+      this.saveSyncState();
+      this.notifyChange();
+    }
+  }
+
+  private saveSyncState() {
+    this.syncStateStorage.setJSON(this.syncState);
+  }
+
+  private setStatus(update: Partial<StorageSyncStatus>) {
+    this.status = { ...this.status, ...update, pendingKeys: this.syncState.pending.length };
+    for (const listener of [...this.listeners]) {
+      listener(this.status);
+    }
+  }
+}
+
+/**
+ * Make the ClickHouse table provider selectable in the storage settings.
+ */
+export function registerClickHouseStorageProvider(): void {
+  StorageManager.getInstance().registerStorageProviderFactory(
+    CLICKHOUSE_STORAGE_PROVIDER_TYPE,
+    (rootKey, options, notifyChange) =>
+      new ClickHouseStorageProvider(rootKey, options, notifyChange)
+  );
+}
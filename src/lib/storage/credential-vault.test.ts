@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  decryptVaultData,
+  deriveVaultKey,
+  encryptVaultData,
+  generateVaultSalt,
+  VaultError,
+} from "./credential-vault";
+
+describe("credential vault crypto", () => {
+  it("decrypts data encrypted with the same passphrase", async () => {
+    const salt = generateVaultSalt();
+    const key = await deriveVaultKey("correct horse", salt, 1000);
+    const { iv, data } = await encryptVaultData(key, '{"connections":{"a":{"password":"p"}}}');
+
+    expect(data).not.toContain("password");
+    const sameKey = await deriveVaultKey("correct horse", salt, 1000);
+    await expect(decryptVaultData(sameKey, iv, data)).resolves.toBe(
+      '{"connections":{"a":{"password":"p"}}}'
+    );
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const salt = generateVaultSalt();
+    const key = await deriveVaultKey("correct horse", salt, 1000);
+    const { iv, data } = await encryptVaultData(key, "{}");
+
+    const wrongKey = await deriveVaultKey("battery staple", salt, 1000);
+    await expect(decryptVaultData(wrongKey, iv, data)).rejects.toBeInstanceOf(VaultError);
+  });
+
+  it("uses a fresh IV for every encryption", async () => {
+    const key = await deriveVaultKey("p", generateVaultSalt(), 1000);
+    const first = await encryptVaultData(key, "same");
+    const second = await encryptVaultData(key, "same");
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+});
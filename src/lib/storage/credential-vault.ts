@@ -0,0 +1,373 @@
+import type { LocalStorage } from "./local-storage-provider";
+import { StorageManager } from "./storage-provider-manager";
+
+const VAULT_STORAGE_KEY = "settings:vault";
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 310_000;
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// User activities that postpone the auto lock
+const ACTIVITY_EVENTS = ["pointerdown", "keydown"] as const;
+
+/**
+ * Secrets are grouped by namespace (e.g. 'connections'), then by entry id (e.g. connection name),
+ * then by field name (e.g. 'password').
+ */
+export type VaultSecrets = Record<string, Record<string, Record<string, string>>>;
+
+export type VaultEvent = "unlocked" | "locked" | "disabled";
+
+interface VaultRecord {
+  version: number;
+  salt: string;
+  iterations: number;
+  iv: string;
+  data: string;
+  autoLockMinutes: number;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VaultError";
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Derive the AES-GCM key from the master passphrase with PBKDF2-SHA256.
+ */
+export async function deriveVaultKey(
+  passphrase: string,
+  salt: string,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptVaultData(
+  key: CryptoKey,
+  plaintext: string
+): Promise<{ iv: string; data: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(encrypted)) };
+}
+
+/**
+ * Decrypt data encrypted by encryptVaultData.
+ * Throws VaultError when the key is wrong since the GCM authentication tag does not match.
+ */
+export async function decryptVaultData(key: CryptoKey, iv: string, data: string): Promise<string> {
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(iv) },
+      key,
+      fromBase64(data)
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    throw new VaultError("Wrong passphrase.");
+  }
+}
+
+export function generateVaultSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Optional master-passphrase vault that keeps secret fields (passwords, API keys) encrypted in local storage.
+ *
+ * The decrypted secrets only live in memory while the vault is unlocked.
+ * Managers that own secrets read them through getSecrets() and write them through setSecrets(),
+ * and re-save their entries on 'unlocked'/'disabled' events so that plaintext entries are moved into
+ * or out of the vault.
+ */
+export class CredentialVault {
+  private static instance: CredentialVault;
+
+  public static getInstance(): CredentialVault {
+    if (!CredentialVault.instance) {
+      CredentialVault.instance = new CredentialVault();
+    }
+    return CredentialVault.instance;
+  }
+
+  private key: CryptoKey | null = null;
+  private secrets: VaultSecrets | null = null;
+  private listeners: Array<(event: VaultEvent) => void> = [];
+  private autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    // Secrets belong to the storage of a user, lock when the user changes
+    StorageManager.getInstance().subscribeToStorageProviderChange((reason) => {
+      if (reason === "user") {
+        this.lock();
+      }
+    });
+  }
+
+  private getStorage(): LocalStorage {
+    return StorageManager.getInstance().getStorageProvider().subStorage(VAULT_STORAGE_KEY);
+  }
+
+  private getRecord(): VaultRecord | null {
+    const record = this.getStorage().getAsJSON<VaultRecord | null>(() => null);
+    return record && record.version === VAULT_VERSION ? record : null;
+  }
+
+  public isEnabled(): boolean {
+    return this.getRecord() !== null;
+  }
+
+  public isLocked(): boolean {
+    return this.secrets === null;
+  }
+
+  public getAutoLockMinutes(): number {
+    return this.getRecord()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  }
+
+  /**
+   * Set the auto lock timeout. 0 disables the auto lock.
+   */
+  public setAutoLockMinutes(minutes: number): void {
+    const record = this.getRecord();
+    if (record === null) {
+      return;
+    }
+    this.getStorage().setJSON({ ...record, autoLockMinutes: Math.max(0, minutes) });
+    this.resetAutoLockTimer();
+  }
+
+  /**
+   * Create the vault with the given passphrase. Existing plaintext secrets are migrated by the
+   * subscribers on the 'unlocked' event.
+   */
+  public async enable(passphrase: string): Promise<void> {
+    if (this.isEnabled()) {
+      throw new VaultError("The vault is already enabled.");
+    }
+    const salt = generateVaultSalt();
+    this.key = await deriveVaultKey(passphrase, salt, PBKDF2_ITERATIONS);
+    this.secrets = {};
+    const { iv, data } = await encryptVaultData(this.key, JSON.stringify(this.secrets));
+    this.getStorage().setJSON({
+      version: VAULT_VERSION,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      iv,
+      data,
+      autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+    } satisfies VaultRecord);
+
+    this.onUnlocked();
+  }
+
+  public async unlock(passphrase: string): Promise<void> {
+    const record = this.getRecord();
+    if (record === null) {
+      throw new VaultError("The vault is not enabled.");
+    }
+    const key = await deriveVaultKey(passphrase, record.salt, record.iterations);
+    const plaintext = await decryptVaultData(key, record.iv, record.data);
+    this.key = key;
+    this.secrets = JSON.parse(plaintext) as VaultSecrets;
+
+    this.onUnlocked();
+  }
+
+  public lock(): void {
+    if (this.secrets === null) {
+      return;
+    }
+    this.key = null;
+    this.secrets = null;
+    this.stopAutoLock();
+    this.emit("locked");
+  }
+
+  /**
+   * Re-encrypt all secrets with a key derived from the new passphrase.
+   */
+  public async changePassphrase(newPassphrase: string): Promise<void> {
+    const record = this.getRecord();
+    if (record === null || this.secrets === null) {
+      throw new VaultError("The vault must be unlocked to change the passphrase.");
+    }
+    const salt = generateVaultSalt();
+    const key = await deriveVaultKey(newPassphrase, salt, PBKDF2_ITERATIONS);
+
+    await this.writeChain;
+    const { iv, data } = await encryptVaultData(key, JSON.stringify(this.secrets));
+    this.getStorage().setJSON({
+      ...record,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      iv,
+      data,
+    } satisfies VaultRecord);
+    this.key = key;
+  }
+
+  /**
+   * Remove the vault. Subscribers write the secrets back as plaintext on the 'disabled' event.
+   */
+  public async disable(): Promise<void> {
+    if (this.secrets === null) {
+      throw new VaultError("The vault must be unlocked to disable it.");
+    }
+    await this.writeChain;
+    this.getStorage().remove();
+    this.stopAutoLock();
+
+    // Secrets are still readable by the subscribers during the event
+    this.emit("disabled");
+
+    this.key = null;
+    this.secrets = null;
+  }
+
+  /**
+   * Returns the secrets of a namespace, or undefined when the vault is locked or not enabled.
+   */
+  public getSecrets(namespace: string): Record<string, Record<string, string>> | undefined {
+    return this.secrets?.[namespace];
+  }
+
+  /**
+   * Throws a VaultError when the vault is enabled but locked.
+   * Secrets saved in this state could only be written as plaintext, so they are refused until the vault is unlocked.
+   */
+  public assertCanSaveSecrets(): void {
+    if (this.isEnabled() && this.isLocked()) {
+      throw new VaultError(
+        "The credential vault is locked. Unlock it in Settings > Credential Vault to save secrets."
+      );
+    }
+  }
+
+  /**
+   * Replace the secrets of a namespace. The encrypted vault is written asynchronously.
+   * Returns false if the vault is locked or not enabled so that the caller keeps the secrets as plaintext.
+   */
+  public setSecrets(namespace: string, secrets: Record<string, Record<string, string>>): boolean {
+    if (this.secrets === null || this.key === null || !this.isEnabled()) {
+      return false;
+    }
+    this.secrets[namespace] = secrets;
+
+    const key = this.key;
+    const snapshot = JSON.stringify(this.secrets);
+    this.writeChain = this.writeChain
+      .then(async () => {
+        const record = this.getRecord();
+        if (record === null) {
+          return;
+        }
+        const { iv, data } = await encryptVaultData(key, snapshot);
+        this.getStorage().setJSON({ ...record, iv, data } satisfies VaultRecord);
+      })
+      .catch((e) => {
+        console.error("Failed to write the credential vault:", e);
+      });
+    return true;
+  }
+
+  /**
+   * Subscribe to vault state changes. Returns an unsubscribe function.
+   */
+  public subscribe(listener: (event: VaultEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const i = this.listeners.indexOf(listener);
+      if (i >= 0) this.listeners.splice(i, 1);
+    };
+  }
+
+  private emit(event: VaultEvent) {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error(`Failed to handle vault event [${event}]:`, e);
+      }
+    }
+  }
+
+  private onUnlocked() {
+    this.startAutoLock();
+    this.emit("unlocked");
+  }
+
+  private readonly handleActivity = () => this.resetAutoLockTimer();
+
+  private startAutoLock() {
+    if (typeof window === "undefined") {
+      return;
+    }
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, this.handleActivity, { passive: true });
+    }
+    this.resetAutoLockTimer();
+  }
+
+  private stopAutoLock() {
+    if (this.autoLockTimer !== null) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = null;
+    }
+    if (typeof window === "undefined") {
+      return;
+    }
+    for (const event of ACTIVITY_EVENTS) {
+      window.removeEventListener(event, this.handleActivity);
+    }
+  }
+
+  private resetAutoLockTimer() {
+    if (this.autoLockTimer !== null) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = null;
+    }
+    const minutes = this.getAutoLockMinutes();
+    if (this.secrets === null || minutes <= 0) {
+      return;
+    }
+    this.autoLockTimer = setTimeout(() => this.lock(), minutes * 60_000);
+  }
+}
@@ -2,13 +2,30 @@ import LZString from "lz-string";
 
 const COMPRESSION_MARKER = "_$_C_^_";
 
+/**
+ * Called after an item is written. The value is the raw stored string, or null if the item is removed.
+ */
+export type StorageWriteListener = (key: string, value: string | null) => void;
+
 class LocalStorageProvider {
   private readonly key: string;
   private readonly compressionEnabled: boolean;
+  private readonly writeListener?: StorageWriteListener;
 
-  constructor(key: string, useCompression = false) {
+  constructor(key: string, useCompression = false, writeListener?: StorageWriteListener) {
     this.key = key;
     this.compressionEnabled = useCompression;
+    this.writeListener = writeListener;
+  }
+
+  private setItem(key: string, value: string): void {
+    localStorage.setItem(key, value);
+    this.writeListener?.(key, value);
+  }
+
+  private removeItem(key: string): void {
+    localStorage.removeItem(key);
+    this.writeListener?.(key, null);
   }
 
   // Helper to check if localStorage is available (client-side only)
@@ -91,7 +108,7 @@ class LocalStorageProvider {
     if (!this.isAvailable()) return;
     const jsonString = JSON.stringify(value);
     const compressed = this.compressString(jsonString);
-    localStorage.setItem(this.key, compressed);
+    this.setItem(this.key, compressed);
   }
 
   /**
@@ -127,12 +144,12 @@ class LocalStorageProvider {
     if (!this.isAvailable()) return;
     const jsonString = JSON.stringify(value);
     const compressed = this.compressString(jsonString);
-    localStorage.setItem(`${this.key}:${childKey}`, compressed);
+    this.setItem(`${this.key}:${childKey}`, compressed);
   }
 
   public setChildAsString(childKey: string, value: string): void {
     if (!this.isAvailable()) return;
-    localStorage.setItem(`${this.key}:${childKey}`, value);
+    this.setItem(`${this.key}:${childKey}`, value);
   }
 
   /**
@@ -140,7 +157,7 @@ class LocalStorageProvider {
    */
   public removeChild(childKey: string): void {
     if (!this.isAvailable()) return;
-    localStorage.removeItem(`${this.key}:${childKey}`);
+    this.removeItem(`${this.key}:${childKey}`);
   }
 
   public getString(): string | null {
@@ -150,7 +167,7 @@ class LocalStorageProvider {
 
   public setString(value: string): void {
     if (!this.isAvailable()) return;
-    localStorage.setItem(this.key, value);
+    this.setItem(this.key, value);
   }
 
   public getObject(): unknown {
@@ -168,7 +185,7 @@ class LocalStorageProvider {
 
   public remove(): void {
     if (!this.isAvailable()) return;
-    localStorage.removeItem(this.key);
+    this.removeItem(this.key);
   }
 
   /**
@@ -217,7 +234,7 @@ class LocalStorageProvider {
       }
     }
     for (const key of keysToRemove) {
-      localStorage.removeItem(key);
+      this.removeItem(key);
     }
   }
 
@@ -226,7 +243,11 @@ class LocalStorageProvider {
    * @param subKey - The sub-key for the nested storage
    */
   public subStorage(subKey: string): LocalStorageProvider {
-    return new LocalStorageProvider(`${this.key}:${subKey}`, this.compressionEnabled);
+    return new LocalStorageProvider(
+      `${this.key}:${subKey}`,
+      this.compressionEnabled,
+      this.writeListener
+    );
   }
 
   /**
@@ -235,7 +256,7 @@ class LocalStorageProvider {
    * @returns A new LocalStorage instance with the same key but different compression setting
    */
   public withCompression(enable = true): LocalStorageProvider {
-    return new LocalStorageProvider(this.key, enable);
+    return new LocalStorageProvider(this.key, enable, this.writeListener);
   }
 }
 
@@ -3,6 +3,45 @@ import { LocalStorage } from "./local-storage-provider";
 /** User id when OAuth is disabled or session is unknown. */
 export const DEFAULT_USER_ID = "<default>";
 
+/** The built-in provider that keeps everything in the browser's localStorage. */
+export const LOCAL_STORAGE_PROVIDER_TYPE = "local";
+
+/**
+ * A storage provider instance created by a registered factory.
+ * The storage is always synchronous, remote providers use it as the local cache.
+ */
+export interface StorageProviderInstance {
+  storage: LocalStorage;
+  dispose(): void;
+}
+
+/**
+ * Creates a provider for the given root key of a user.
+ * options is the provider specific configuration saved in the provider settings.
+ * notifyChange should be called when the content is changed outside of the app, e.g. pulled from remote.
+ */
+export type StorageProviderFactory = (
+  rootKey: string,
+  options: unknown,
+  notifyChange: () => void
+) => StorageProviderInstance;
+
+/**
+ * - user: the effective user is changed (login/logout)
+ * - provider: another provider is selected
+ * - content: the content is changed by a remote provider
+ */
+export type StorageChangeReason = "user" | "provider" | "content";
+
+// Provider selection is per user and always kept in localStorage, it's never synced to remote
+const PROVIDER_SETTINGS_KEY = "settings:storage-provider";
+
+export interface StorageProviderSettings {
+  type: string;
+  // Provider specific configuration, keyed by provider type
+  options?: Record<string, unknown>;
+}
+
 /**
  * Singleton manager for app local storage, keyed by userId (normalized email or sub or DEFAULT_USER_ID).
  */
@@ -11,8 +50,10 @@ class StorageProviderManager {
 
   private currentUserId = DEFAULT_USER_ID;
   private currentInstance: LocalStorage = new LocalStorage(`datastoria:${DEFAULT_USER_ID}`);
+  private currentProvider: StorageProviderInstance | null = null;
 
-  private storageChangeListeners: Array<() => void> = [];
+  private storageChangeListeners: Array<(reason: StorageChangeReason) => void> = [];
+  private factories = new Map<string, StorageProviderFactory>();
 
   static getInstance(): StorageProviderManager {
     if (!StorageProviderManager.instance) {
@@ -33,17 +74,82 @@ class StorageProviderManager {
     const nextUserId = userId || DEFAULT_USER_ID;
     if (nextUserId === this.currentUserId) return;
     this.currentUserId = nextUserId;
-    this.currentInstance = new LocalStorage(`datastoria:${this.currentUserId}`);
+    this.reloadStorageProvider("user");
+  }
+
+  /**
+   * Register a provider implementation that can be selected in the provider settings.
+   * If the current user has selected this provider, it's activated immediately.
+   */
+  registerStorageProviderFactory(type: string, factory: StorageProviderFactory): void {
+    this.factories.set(type, factory);
+    if (this.getProviderSettings().type === type && this.currentProvider === null) {
+      this.reloadStorageProvider("provider");
+    }
+  }
+
+  private getRootKey(): string {
+    return `datastoria:${this.currentUserId}`;
+  }
+
+  private getProviderSettingsStorage(): LocalStorage {
+    return new LocalStorage(this.getRootKey()).subStorage(PROVIDER_SETTINGS_KEY);
+  }
+
+  getProviderSettings(): StorageProviderSettings {
+    return this.getProviderSettingsStorage().getAsJSON<StorageProviderSettings>(() => ({
+      type: LOCAL_STORAGE_PROVIDER_TYPE,
+    }));
+  }
+
+  /**
+   * Save the provider selection of the current user and switch to it.
+   */
+  setProviderSettings(settings: StorageProviderSettings): void {
+    this.getProviderSettingsStorage().setJSON(settings);
+    this.reloadStorageProvider("provider");
+  }
+
+  /**
+   * Returns the instance of the active provider, or null if the local provider is used.
+   */
+  getActiveProvider(): StorageProviderInstance | null {
+    return this.currentProvider;
+  }
+
+  private reloadStorageProvider(reason: StorageChangeReason): void {
+    this.currentProvider?.dispose();
+    this.currentProvider = null;
+
+    const rootKey = this.getRootKey();
+    const settings = this.getProviderSettings();
+    const factory = this.factories.get(settings.type);
+    if (factory) {
+      try {
+        this.currentProvider = factory(rootKey, settings.options?.[settings.type], () =>
+          this.notifyStorageChange("content")
+        );
+      } catch (e) {
+        // Fall back to local storage so that the app still works
+        console.error("Failed to create storage provider:", e);
+      }
+    }
+    this.currentInstance = this.currentProvider?.storage ?? new LocalStorage(rootKey);
+    this.notifyStorageChange(reason);
+  }
+
+  private notifyStorageChange(reason: StorageChangeReason): void {
     for (const listener of this.storageChangeListeners) {
-      listener();
+      listener(reason);
     }
   }
 
   /**
-   * Subscribe to app storage identity changes (e.g. user login/logout).
+   * Subscribe to app storage identity changes (e.g. user login/logout, provider switch)
+   * and content changes made by remote providers.
    * Returns an unsubscribe function.
    */
-  subscribeToStorageProviderChange(callback: () => void): () => void {
+  subscribeToStorageProviderChange(callback: (reason: StorageChangeReason) => void): () => void {
     this.storageChangeListeners.push(callback);
     return () => {
       const i = this.storageChangeListeners.indexOf(callback);
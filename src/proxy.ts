@@ -18,7 +18,8 @@ export async function proxy(request: NextRequest) {
   const session = (await auth()) as Session;
   if (!session?.user) {
     const loginUrl = new URL("/login", request.url);
-    loginUrl.searchParams.set("callbackUrl", pathname);
+    // Keep the query string so that a workspace link opens the same tab after login
+    loginUrl.searchParams.set("callbackUrl", pathname + request.nextUrl.search);
     return NextResponse.redirect(loginUrl);
   }
 
@@ -1,5 +1,6 @@
 import { configDefaults, defineConfig } from "vitest/config";
 import path from "node:path";
+import { SkillManager } from "./src/lib/ai/skills/skill-manager";
 
 export default defineConfig({
   resolve: {
@@ -8,6 +9,12 @@ export default defineConfig({
     },
   },
   test: {
+    env: {
+      // Set by next.config.ts in the app
+      BUNDLED_SKILL_NAMES: SkillManager.readSkillNames(
+        path.resolve(__dirname, "src/lib/ai/skills")
+      ).join(","),
+    },
     exclude: [
       ...configDefaults.exclude,
       "**/external/**",